@@ -14,6 +14,9 @@ import PrivacyPolicyPage from "@/pages/privacy-policy";
 import PrivacySettingsPage from "@/pages/privacy-settings";
 import TermsOfServicePage from "@/pages/terms-of-service";
 import AdminSettingsPage from "@/pages/admin-settings";
+import AdminPlansPage from "@/pages/admin-plans";
+import AdminCancellationsPage from "@/pages/admin-cancellations";
+import AcceptInvitationPage from "@/pages/accept-invitation";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -30,6 +33,9 @@ function Router() {
       <Route path="/privacy-settings" component={PrivacySettingsPage} />
       <Route path="/terms-of-service" component={TermsOfServicePage} />
       <Route path="/admin/settings" component={AdminSettingsPage} />
+      <Route path="/admin/plans" component={AdminPlansPage} />
+      <Route path="/admin/cancellations" component={AdminCancellationsPage} />
+      <Route path="/invite/:token" component={AcceptInvitationPage} />
       <Route component={NotFound} />
     </Switch>
   );
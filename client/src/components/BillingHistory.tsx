@@ -0,0 +1,146 @@
+import { useQuery } from "@tanstack/react-query";
+import { FileText, Receipt, CreditCard } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+interface BillingHistoryItem {
+  id: string;
+  type: "subscription_invoice" | "revision_payment" | "prepaid_package" | "overage_purchase";
+  description: string;
+  amount: number;
+  currency: string;
+  status: string;
+  date: string;
+  invoiceNumber: string | null;
+  pdfUrl: string | null;
+  receiptUrl: string | null;
+}
+
+interface BillingHistoryResponse {
+  success: boolean;
+  history: BillingHistoryItem[];
+}
+
+const TYPE_LABELS: Record<BillingHistoryItem["type"], string> = {
+  subscription_invoice: "Subscription",
+  revision_payment: "Revision",
+  prepaid_package: "Prepaid Package",
+  overage_purchase: "Extra Video",
+};
+
+// Stripe invoice statuses and local payment statuses share one badge palette
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "paid":
+    case "completed":
+      return "bg-green-900/40 border-green-500 text-green-400";
+    case "open":
+    case "pending":
+      return "bg-yellow-900/40 border-yellow-500 text-yellow-400";
+    case "refunded":
+    case "void":
+      return "bg-gray-800 border-gray-500 text-gray-300";
+    default:
+      return "bg-red-900/40 border-red-500 text-red-400";
+  }
+};
+
+function formatAmount(cents: number, currency: string) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+}
+
+export function BillingHistory() {
+  const { data, isLoading, isError } = useQuery<BillingHistoryResponse>({
+    queryKey: ["/api/billing/history"],
+  });
+
+  const history = data?.history ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="text-white text-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mx-auto mb-2"></div>
+        Loading billing history...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <p className="text-center py-8 text-red-400">
+        Failed to load billing history. Please try again later.
+      </p>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <Card className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
+        <CardContent className="py-16 text-center">
+          <CreditCard className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold mb-2">No payments yet</h3>
+          <p className="text-gray-400">
+            Invoices and receipts will appear here after your first payment.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
+      <CardContent className="p-0">
+        <div className="divide-y divide-gray-800">
+          {history.map((item) => (
+            <div
+              key={item.id}
+              className="flex flex-col gap-2 p-4 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div>
+                <p className="font-semibold">{item.description}</p>
+                <p className="text-sm text-gray-400">
+                  {new Date(item.date).toLocaleDateString()} ·{" "}
+                  {TYPE_LABELS[item.type]}
+                  {item.invoiceNumber && ` · ${item.invoiceNumber}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-semibold">
+                  {formatAmount(item.amount, item.currency)}
+                </span>
+                <Badge variant="outline" className={getStatusColor(item.status)}>
+                  {item.status}
+                </Badge>
+                {item.pdfUrl && (
+                  <a
+                    href={item.pdfUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-sm text-[#2abdee] hover:underline"
+                  >
+                    <FileText className="h-4 w-4 mr-1" />
+                    PDF
+                  </a>
+                )}
+                {item.receiptUrl && (
+                  <a
+                    href={item.receiptUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-sm text-[#2abdee] hover:underline"
+                  >
+                    <Receipt className="h-4 w-4 mr-1" />
+                    Receipt
+                  </a>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
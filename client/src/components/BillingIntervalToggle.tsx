@@ -0,0 +1,32 @@
+import type { BillingInterval } from "@/hooks/usePlans";
+
+interface BillingIntervalToggleProps {
+  value: BillingInterval;
+  onChange: (interval: BillingInterval) => void;
+}
+
+const OPTIONS: { value: BillingInterval; label: string }[] = [
+  { value: "month", label: "Monthly" },
+  { value: "year", label: "Yearly" },
+];
+
+// Monthly/yearly switch shown above the subscription plan cards
+export function BillingIntervalToggle({ value, onChange }: BillingIntervalToggleProps) {
+  return (
+    <div className="inline-flex bg-gray-800 rounded-full p-1 border border-gray-700">
+      {OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-5 py-2 rounded-full text-sm font-semibold transition-all duration-300 ${
+            value === option.value
+              ? "bg-accent text-black shadow-lg"
+              : "text-gray-400 hover:text-light"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { ArrowDown, PauseCircle, XCircle } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CancelSubscriptionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  periodEnd: string | null;
+  canPause: boolean;
+  // Hands the survey answers to the change plan dialog so the downgrade is recorded with them
+  onDowngrade: (survey: { reason: string; details?: string }) => void;
+}
+
+const CANCELLATION_REASON_LABELS: Record<string, string> = {
+  too_expensive: "It's too expensive",
+  not_enough_videos: "I don't need enough videos",
+  seasonal: "I only need videos at certain times of year",
+  quality: "I wasn't happy with the edits",
+  turnaround: "Turnaround was too slow",
+  switching_service: "I'm switching to another service",
+  other: "Something else",
+};
+
+const PAUSE_MONTH_OPTIONS = [1, 2, 3];
+
+const selectClassName =
+  "h-10 rounded-md border border-gray-700 bg-gray-900/50 px-3 text-sm text-white";
+
+export function CancelSubscriptionDialog({
+  isOpen,
+  onClose,
+  periodEnd,
+  canPause,
+  onDowngrade,
+}: CancelSubscriptionDialogProps) {
+  const [reason, setReason] = useState<string | null>(null);
+  const [details, setDetails] = useState("");
+  const [pauseMonths, setPauseMonths] = useState(1);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason(null);
+      setDetails("");
+      setPauseMonths(1);
+    }
+  }, [isOpen]);
+
+  const survey = () => ({
+    reason: reason!,
+    details: details.trim() || undefined,
+  });
+
+  const handleSuccess = (title: string) => (data: any) => {
+    toast({ title, description: data.message });
+    queryClient.invalidateQueries({ queryKey: ["/api/subscription/status"] });
+    onClose();
+  };
+
+  const handleError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error?.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const pauseMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/subscription/pause", {
+        ...survey(),
+        months: pauseMonths,
+      }),
+    onSuccess: handleSuccess("Subscription Paused"),
+    onError: handleError("Pause Failed"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/subscription/cancel", survey()),
+    onSuccess: handleSuccess("Subscription Canceled"),
+    onError: handleError("Cancellation Failed"),
+  });
+
+  const isBusy = pauseMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-black/95 backdrop-blur-xl border-gray-800/30 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-[#2abdee] text-xl">Cancel Subscription</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Before you go, tell us why. Projects already in progress will still be
+            completed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {Object.entries(CANCELLATION_REASON_LABELS).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              disabled={isBusy}
+              onClick={() => setReason(value)}
+              className={`w-full rounded-lg border p-3 text-left text-sm transition-colors ${
+                reason === value
+                  ? "border-[#2abdee] bg-[#2abdee]/10"
+                  : "border-gray-700 hover:border-gray-500"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancellation-details" className="text-gray-300">
+            Anything else we should know? (optional)
+          </Label>
+          <Textarea
+            id="cancellation-details"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            maxLength={2000}
+            className="bg-gray-900/50 border-gray-700 text-white"
+          />
+        </div>
+
+        {reason && (
+          <div className="space-y-3">
+            {canPause && (
+              <div className="rounded-lg border border-gray-700 p-4 space-y-3">
+                <div>
+                  <p className="flex items-center font-semibold">
+                    <PauseCircle className="h-4 w-4 mr-2 text-[#2abdee]" />
+                    Take a break instead
+                  </p>
+                  <p className="text-sm text-gray-400">
+                    Pause billing and pick up where you left off. You won't be
+                    charged while paused.
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    value={pauseMonths}
+                    onChange={(e) => setPauseMonths(Number(e.target.value))}
+                    className={selectClassName}
+                  >
+                    {PAUSE_MONTH_OPTIONS.map((months) => (
+                      <option key={months} value={months}>
+                        {months} {months === 1 ? "month" : "months"}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    onClick={() => pauseMutation.mutate()}
+                    disabled={isBusy}
+                    className="bg-[#2abdee] text-black hover:bg-[#2abdee]/80"
+                  >
+                    {pauseMutation.isPending ? "Pausing..." : "Pause Subscription"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="rounded-lg border border-gray-700 p-4 space-y-3">
+              <div>
+                <p className="flex items-center font-semibold">
+                  <ArrowDown className="h-4 w-4 mr-2 text-yellow-400" />
+                  Switch to a smaller plan
+                </p>
+                <p className="text-sm text-gray-400">
+                  Keep your account for less. Downgrades apply at your next renewal.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => onDowngrade(survey())}
+                disabled={isBusy}
+                className="bg-transparent border-gray-600 text-white hover:bg-gray-800"
+              >
+                See Plans
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="bg-transparent border-gray-600 text-white hover:bg-gray-800"
+          >
+            Keep Subscription
+          </Button>
+          <Button
+            onClick={() => cancelMutation.mutate()}
+            disabled={!reason || isBusy}
+            className="bg-red-600 text-white hover:bg-red-700"
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            {cancelMutation.isPending
+              ? "Canceling..."
+              : periodEnd
+                ? `Cancel on ${new Date(periodEnd).toLocaleDateString()}`
+                : "Cancel Subscription"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
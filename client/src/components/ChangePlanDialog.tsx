@@ -0,0 +1,274 @@
+import { useState, useEffect } from "react";
+import { ArrowDown, ArrowUp, Check, Plus } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePlans } from "@/hooks/usePlans";
+
+interface ChangePlanDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentTier: string | null;
+  // Offered when the allowance is used up: pay once for one more video this period
+  overage?: { amount: number; currency: string } | null;
+  // Set when the user picked "downgrade instead" in the cancel flow
+  cancellationSurvey?: { reason: string; details?: string } | null;
+}
+
+interface PlanChangePreview {
+  direction: "upgrade" | "downgrade";
+  currentPlan: string;
+  newPlan: string;
+  amountDue: number;
+  currency: string;
+  creditsAdded: number;
+  effectiveAt: string | null;
+  prorationDate?: number;
+}
+
+function formatAmount(cents: number, currency: string) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(cents / 100);
+}
+
+export function ChangePlanDialog({
+  isOpen,
+  onClose,
+  currentTier,
+  overage,
+  cancellationSurvey,
+}: ChangePlanDialogProps) {
+  const [selectedTier, setSelectedTier] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+  const [extraVideoTitle, setExtraVideoTitle] = useState("");
+  const { plans } = usePlans();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Start from the plan list every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedTier(null);
+      setPreview(null);
+      setExtraVideoTitle("");
+    }
+  }, [isOpen]);
+
+  const previewMutation = useMutation({
+    mutationFn: (tier: string) =>
+      apiRequest("POST", "/api/subscription/change-plan/preview", { tier }),
+    onSuccess: (data: any) => {
+      setPreview(data.preview);
+    },
+    onError: (error: any) => {
+      setSelectedTier(null);
+      toast({
+        title: "Preview Failed",
+        description: error?.message || "Failed to preview plan change",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/subscription/change-plan", {
+        tier: selectedTier,
+        prorationDate: preview?.prorationDate,
+        cancellationSurvey: cancellationSurvey ?? undefined,
+      }),
+    onSuccess: (data: any) => {
+      toast({
+        title: data.direction === "upgrade" ? "Plan Upgraded" : "Plan Change Scheduled",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/status"] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Plan Change Failed",
+        description: error?.message || "Failed to change plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The project is created from this title once the payment completes
+  const extraVideoMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/overage/create-checkout", {
+        title: extraVideoTitle.trim(),
+      }),
+    onSuccess: (data: any) => {
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Checkout Failed",
+        description: error?.message || "Failed to start checkout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectPlan = (tier: string) => {
+    setSelectedTier(tier);
+    setPreview(null);
+    previewMutation.mutate(tier);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-black/95 backdrop-blur-xl border-gray-800/30 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-[#2abdee] text-xl">Change Plan</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Upgrades take effect immediately. Downgrades apply at your next renewal.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {plans.map((plan) => {
+            const isCurrent = plan.key === currentTier;
+            const isSelected = plan.key === selectedTier;
+            return (
+              <button
+                key={plan.key}
+                type="button"
+                disabled={isCurrent || previewMutation.isPending || changeMutation.isPending}
+                onClick={() => selectPlan(plan.key)}
+                className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                  isSelected
+                    ? "border-[#2abdee] bg-[#2abdee]/10"
+                    : "border-gray-700 hover:border-gray-500"
+                } ${isCurrent ? "opacity-60 cursor-default" : ""}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{plan.name}</span>
+                  {isCurrent && (
+                    <span className="flex items-center text-xs text-gray-400">
+                      <Check className="h-3 w-3 mr-1" />
+                      Current plan
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-400">
+                  {plan.allowance} videos per {plan.billingInterval}
+                  {plan.unitAmount !== null &&
+                    ` · ${formatAmount(plan.unitAmount, plan.currency)}`}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+
+        {previewMutation.isPending && (
+          <p className="text-sm text-gray-400">Calculating your new price...</p>
+        )}
+
+        {preview && (
+          <div className="rounded-lg border border-gray-700 bg-gray-900/50 p-4 text-sm space-y-1">
+            <p className="flex items-center font-semibold">
+              {preview.direction === "upgrade" ? (
+                <ArrowUp className="h-4 w-4 mr-2 text-green-400" />
+              ) : (
+                <ArrowDown className="h-4 w-4 mr-2 text-yellow-400" />
+              )}
+              {preview.currentPlan} → {preview.newPlan}
+            </p>
+            {preview.direction === "upgrade" ? (
+              <>
+                <p>
+                  Charged today (prorated):{" "}
+                  <span className="font-semibold">
+                    {formatAmount(preview.amountDue, preview.currency)}
+                  </span>
+                </p>
+                <p className="text-gray-400">
+                  Up to {preview.creditsAdded} more{" "}
+                  {preview.creditsAdded === 1 ? "video" : "videos"} available this
+                  period. Videos already created still count.
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-400">
+                No charge today. Your plan changes
+                {preview.effectiveAt
+                  ? ` on ${new Date(preview.effectiveAt).toLocaleDateString()}`
+                  : " at your next renewal"}
+                , and you keep your current videos until then.
+              </p>
+            )}
+          </div>
+        )}
+
+        {overage && (
+          <div className="rounded-lg border border-gray-700 p-4 space-y-3">
+            <div>
+              <p className="flex items-center font-semibold">
+                <Plus className="h-4 w-4 mr-2 text-[#2abdee]" />
+                Just need one more video?
+              </p>
+              <p className="text-sm text-gray-400">
+                Add an extra video to this period for{" "}
+                {formatAmount(overage.amount, overage.currency)} without changing
+                your plan. Your project is created as soon as payment completes.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={extraVideoTitle}
+                onChange={(e) => setExtraVideoTitle(e.target.value)}
+                placeholder="Project title"
+                className="bg-gray-900/50 border-gray-700 text-white"
+              />
+              <Button
+                onClick={() => extraVideoMutation.mutate()}
+                disabled={!extraVideoTitle.trim() || extraVideoMutation.isPending}
+                className="bg-[#2abdee] text-black hover:bg-[#2abdee]/80 shrink-0"
+              >
+                {extraVideoMutation.isPending ? "Redirecting..." : "Buy Extra Video"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="bg-transparent border-gray-600 text-white hover:bg-gray-800"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => changeMutation.mutate()}
+            disabled={!preview || changeMutation.isPending}
+            className="bg-[#2abdee] text-black hover:bg-[#2abdee]/80"
+          >
+            {changeMutation.isPending
+              ? "Updating..."
+              : preview?.direction === "downgrade"
+                ? "Schedule Downgrade"
+                : "Confirm Upgrade"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
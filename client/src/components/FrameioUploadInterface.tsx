@@ -14,6 +14,8 @@ import {
   RefreshCw,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
+import { PROJECT_STATUS, isProjectStatus } from "@shared/projectStatus";
+import { computeContentHash } from "@shared/contentHash";
 
 interface FrameioUploadInterfaceProps {
   project: {
@@ -42,10 +44,41 @@ interface UploadFile {
   status: "pending" | "uploading" | "complete" | "error";
   error?: string;
   frameioId?: string;
+  resumeSessionId?: number; // Interrupted upload this file continues
+  duplicateOf?: string; // Name of the project file with the same content, when the server refused it
+  allowDuplicate?: boolean; // User chose to upload it again anyway
+}
+
+// Server-tracked upload session (see /api/projects/:id/upload-session)
+interface UploadSessionInfo {
+  sessionId: number;
+  uploadUrl: string;
+  assetId: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  fileLastModified: number | null;
+  bytesUploaded: number;
+  expiresAt: string;
+}
+
+interface StorageQuotaUsage {
+  limitBytes: number;
+  usedBytes: number;
+  reservedBytes: number; // Uploads still in progress
+  remainingBytes: number;
+}
+
+// Plan storage limits for raw footage (see /api/projects/:id/storage)
+interface StorageQuotas {
+  planName: string | null;
+  project: StorageQuotaUsage;
+  account: StorageQuotaUsage;
 }
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024 * 1024; // 10GB
 const MAX_FILE_COUNT = 100; // Maximum 100 files per project
+const UPLOAD_CHUNK_SIZE = 16 * 1024 * 1024; // 16MB per request; progress is saved after each chunk
 const ALLOWED_TYPES = [
   // Video formats
   "video/mp4",
@@ -75,6 +108,38 @@ const ALLOWED_TYPES = [
   "audio/x-wav",
 ];
 
+// Authenticated JSON request to our API; throws with the server's message on failure
+async function apiFetch(method: string, url: string, body?: unknown) {
+  const session = await supabase.auth.getSession();
+  if (!session.data.session?.access_token) {
+    throw new Error("Authentication required");
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${session.data.session.access_token}`,
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw Object.assign(
+      new Error(result.message || `Request failed (${response.status})`),
+      { status: response.status, body: result },
+    );
+  }
+  return result;
+}
+
+// A reselected file continues an interrupted upload when name, size and modification time match
+const matchesUploadSession = (file: File, session: UploadSessionInfo) =>
+  session.fileName === file.name &&
+  session.fileSize === file.size &&
+  (session.fileLastModified === null || session.fileLastModified === file.lastModified);
+
 export function FrameioUploadInterface({
   project,
   onUploadComplete,
@@ -90,6 +155,12 @@ export function FrameioUploadInterface({
   const [existingFiles, setExistingFiles] = useState<ExistingFile[]>([]);
   const [existingFileCount, setExistingFileCount] = useState(0);
   const [existingStorageUsed, setExistingStorageUsed] = useState(0);
+  const [interruptedUploads, setInterruptedUploads] = useState<
+    UploadSessionInfo[]
+  >([]);
+  const [storageQuotas, setStorageQuotas] = useState<StorageQuotas | null>(
+    null,
+  );
   const { toast } = useToast();
 
   // Format file size for display
@@ -111,8 +182,57 @@ export function FrameioUploadInterface({
     );
     // Run folder structure check silently in background without showing loading popup
     checkFolderStructure();
+    loadInterruptedUploads();
+    loadStorageQuotas();
   }, [project.id]);
 
+  const loadStorageQuotas = async () => {
+    try {
+      const result = await apiFetch("GET", `/api/projects/${project.id}/storage`);
+      setStorageQuotas(result.quotas);
+    } catch (error) {
+      console.error("Failed to load storage usage:", error);
+    }
+  };
+
+  // Uploads cut off by a reload or closed tab can pick up where they stopped
+  const loadInterruptedUploads = async () => {
+    try {
+      const result = await apiFetch(
+        "GET",
+        `/api/projects/${project.id}/upload-sessions`,
+      );
+      setInterruptedUploads(result.sessions || []);
+    } catch (error) {
+      console.error("Failed to load interrupted uploads:", error);
+    }
+  };
+
+  const discardInterruptedUpload = async (sessionId: number) => {
+    try {
+      await apiFetch(
+        "DELETE",
+        `/api/projects/${project.id}/upload-sessions/${sessionId}`,
+      );
+      setInterruptedUploads((prev) =>
+        prev.filter((s) => s.sessionId !== sessionId),
+      );
+      setFiles((prev) =>
+        prev.map((f) =>
+          f.resumeSessionId === sessionId
+            ? { ...f, resumeSessionId: undefined }
+            : f,
+        ),
+      );
+    } catch (error) {
+      toast({
+        title: "Could not discard upload",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
   const checkFolderStructure = async () => {
     console.log(
       `🔵 CLIENT: Background folder structure check for project ${project.id}`,
@@ -174,6 +294,11 @@ export function FrameioUploadInterface({
     return null;
   };
 
+  // Selected files not yet counted by the server: not uploaded and holding no upload session
+  const pendingBytes = files
+    .filter((f) => f.status !== "complete" && !f.resumeSessionId)
+    .reduce((sum, f) => sum + f.file.size, 0);
+
   const handleFileSelect = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
       const selectedFiles = Array.from(event.target.files || []);
@@ -192,6 +317,7 @@ export function FrameioUploadInterface({
 
       const newFiles: UploadFile[] = [];
       let newTotalSize = totalSize;
+      let newPendingBytes = pendingBytes;
 
       for (const file of selectedFiles) {
         const validation = validateFile(file);
@@ -204,23 +330,41 @@ export function FrameioUploadInterface({
           continue;
         }
 
-        if (newTotalSize + file.size > MAX_FILE_SIZE) {
-          toast({
-            title: "Storage limit exceeded",
-            description: `Adding ${file.name} would exceed the ${formatFileSize(MAX_FILE_SIZE)} limit`,
-            variant: "destructive",
-          });
-          continue;
+        const interrupted = interruptedUploads.find((s) =>
+          matchesUploadSession(file, s),
+        );
+
+        // Interrupted uploads already hold their space; new files must fit what's left
+        if (!interrupted && storageQuotas) {
+          const overProject =
+            newPendingBytes + file.size > storageQuotas.project.remainingBytes;
+          const overAccount =
+            newPendingBytes + file.size > storageQuotas.account.remainingBytes;
+          if (overProject || overAccount) {
+            const quota = overProject ? storageQuotas.project : storageQuotas.account;
+            toast({
+              title: "Storage limit exceeded",
+              description: `Adding ${file.name} would exceed your ${overProject ? "project" : "account"} storage limit (${formatFileSize(quota.remainingBytes)} of ${formatFileSize(quota.limitBytes)} left).`,
+              variant: "destructive",
+            });
+            continue;
+          }
         }
 
         newFiles.push({
           file,
           id: `${Date.now()}-${Math.random()}`,
-          progress: 0,
+          progress: interrupted
+            ? Math.floor((interrupted.bytesUploaded / file.size) * 100)
+            : 0,
           status: "pending",
+          resumeSessionId: interrupted?.sessionId,
         });
 
         newTotalSize += file.size;
+        if (!interrupted) {
+          newPendingBytes += file.size;
+        }
       }
 
       setFiles((prev) => [...prev, ...newFiles]);
@@ -229,7 +373,7 @@ export function FrameioUploadInterface({
       // Clear the input
       event.target.value = "";
     },
-    [totalSize, toast],
+    [totalSize, pendingBytes, toast, interruptedUploads, storageQuotas],
   );
 
   const removeFile = (fileId: string) => {
@@ -242,56 +386,99 @@ export function FrameioUploadInterface({
     });
   };
 
+  // The server refused a file already in the project; queue it again with the duplicate confirmed
+  const uploadDuplicateAnyway = (fileId: string) => {
+    setFiles((prev) =>
+      prev.map((f) =>
+        f.id === fileId
+          ? {
+              ...f,
+              status: "pending" as const,
+              error: undefined,
+              duplicateOf: undefined,
+              allowDuplicate: true,
+            }
+          : f,
+      ),
+    );
+  };
+
+  const setFileProgress = (fileId: string, bytesUploaded: number, fileSize: number) => {
+    // Hold at 99% until the server confirms completion
+    const progress = Math.min(Math.floor((bytesUploaded / fileSize) * 100), 99);
+    setFiles((prev) =>
+      prev.map((f) => (f.id === fileId ? { ...f, progress } : f)),
+    );
+  };
+
   const uploadFile = async (uploadFile: UploadFile) => {
+    let sessionId = uploadFile.resumeSessionId;
     try {
-      const session = await supabase.auth.getSession();
-      if (!session.data.session?.access_token) {
-        throw new Error("Authentication required");
-      }
-
       // Update file status to uploading
       setFiles((prev) =>
         prev.map((f) =>
-          f.id === uploadFile.id
-            ? { ...f, status: "uploading" as const, progress: 0 }
-            : f,
+          f.id === uploadFile.id ? { ...f, status: "uploading" as const } : f,
         ),
       );
 
-      // Create FormData for file upload
-      const formData = new FormData();
-      formData.append("file", uploadFile.file);
-      formData.append("filename", uploadFile.file.name);
-      formData.append("projectId", project.id.toString());
-
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === uploadFile.id && f.status === "uploading"
-              ? { ...f, progress: Math.min(f.progress + 10, 90) }
-              : f,
-          ),
-        );
-      }, 200);
-
-      // Upload to Frame.io via our backend
-      const response = await fetch("/api/upload/frameio", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${session.data.session.access_token}`,
-        },
-        body: formData,
-      });
+      // Continue an interrupted session, or start a new one
+      const { uploadSession }: { uploadSession: UploadSessionInfo } =
+        uploadFile.resumeSessionId
+          ? await apiFetch(
+              "POST",
+              `/api/projects/${project.id}/upload-sessions/${uploadFile.resumeSessionId}/resume`,
+            )
+          : await apiFetch("POST", `/api/projects/${project.id}/upload-session`, {
+              fileName: uploadFile.file.name,
+              fileSize: uploadFile.file.size,
+              mimeType: uploadFile.file.type || undefined,
+              fileLastModified: uploadFile.file.lastModified,
+              // Lets the server spot a clip that's already in the project and verify the stored copy
+              contentHash: await computeContentHash(
+                uploadFile.file.size,
+                (start, end) => uploadFile.file.slice(start, end).arrayBuffer(),
+              ),
+              allowDuplicate: uploadFile.allowDuplicate,
+            });
+
+      sessionId = uploadSession.sessionId;
+      const progressUrl = `/api/projects/${project.id}/upload-sessions/${uploadSession.sessionId}/progress`;
+      let offset = uploadSession.bytesUploaded;
+      setFileProgress(uploadFile.id, offset, uploadFile.file.size);
+
+      // Send the file in chunks straight to the media platform (TUS-style PATCH)
+      while (offset < uploadFile.file.size) {
+        const chunk = uploadFile.file.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+        const response = await fetch(uploadSession.uploadUrl, {
+          method: "PATCH",
+          headers: {
+            "Tus-Resumable": "1.0.0",
+            "Upload-Offset": String(offset),
+            "Content-Type": "application/offset+octet-stream",
+          },
+          body: chunk,
+        });
 
-      clearInterval(progressInterval);
+        if (!response.ok) {
+          throw new Error(
+            `Upload interrupted at ${formatFileSize(offset)}. Upload again to resume.`,
+          );
+        }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Upload failed");
+        offset = Number(response.headers.get("Upload-Offset")) || offset + chunk.size;
+        await apiFetch("PATCH", progressUrl, { bytesUploaded: offset });
+        setFileProgress(uploadFile.id, offset, uploadFile.file.size);
       }
 
-      const result = await response.json();
+      const result = await apiFetch(
+        "POST",
+        `/api/projects/${project.id}/complete-upload`,
+        { sessionId: uploadSession.sessionId },
+      );
+
+      setInterruptedUploads((prev) =>
+        prev.filter((s) => s.sessionId !== uploadSession.sessionId),
+      );
 
       // Update file status to complete
       setFiles((prev) =>
@@ -301,7 +488,7 @@ export function FrameioUploadInterface({
                 ...f,
                 status: "complete" as const,
                 progress: 100,
-                frameioId: result.frameioId,
+                frameioId: uploadSession.assetId,
               }
             : f,
         ),
@@ -310,8 +497,10 @@ export function FrameioUploadInterface({
       return result;
     } catch (error) {
       console.error("Upload error:", error);
+      const { status, body } = error as { status?: number; body?: any };
+      const duplicate = status === 409 ? body?.duplicate : undefined;
 
-      // Update file status to error
+      // Update file status to error; a started session is resumed on the next attempt
       setFiles((prev) =>
         prev.map((f) =>
           f.id === uploadFile.id
@@ -319,6 +508,16 @@ export function FrameioUploadInterface({
                 ...f,
                 status: "error" as const,
                 error: error instanceof Error ? error.message : "Upload failed",
+                // 410: the session expired or was discarded; 422: the stored copy was corrupt.
+                // Either way the next attempt starts over. A copy already uploading is resumed instead.
+                resumeSessionId:
+                  duplicate?.type === "upload"
+                    ? duplicate.sessionId
+                    : status === 410 || status === 422
+                      ? undefined
+                      : sessionId,
+                duplicateOf:
+                  duplicate?.type === "file" ? duplicate.fileName : undefined,
               }
             : f,
         ),
@@ -341,7 +540,10 @@ export function FrameioUploadInterface({
     setIsUploading(true);
 
     try {
-      const pendingFiles = files.filter((f) => f.status === "pending");
+      const pendingFiles = files.filter(
+        (f) =>
+          f.status === "pending" || (f.status === "error" && f.resumeSessionId),
+      );
       let successCount = 0;
       let errorCount = 0;
 
@@ -383,6 +585,7 @@ export function FrameioUploadInterface({
       });
     } finally {
       setIsUploading(false);
+      loadStorageQuotas();
     }
   };
 
@@ -434,7 +637,7 @@ export function FrameioUploadInterface({
   }
 
   // If project is already sent to editor, show blocking message
-  if (project.status === "Edit in Progress") {
+  if (isProjectStatus(project.status, PROJECT_STATUS.EDIT_IN_PROGRESS)) {
     return (
       <Card className="bg-yellow-500/10 border-yellow-500/30">
         <CardContent className="p-6 text-center">
@@ -473,18 +676,43 @@ export function FrameioUploadInterface({
                 {existingFileCount + files.length} / {MAX_FILE_COUNT} files
               </span>
             </div>
-            <div className="flex justify-between items-center mb-2">
-              <span className="text-sm text-gray-400">Storage Used</span>
-              <span className="text-sm text-white">
-                {formatFileSize(existingStorageUsed + totalSize)} total
-              </span>
-            </div>
             <Progress
               value={
                 ((existingFileCount + files.length) / MAX_FILE_COUNT) * 100
               }
-              className="h-2"
+              className="h-2 mb-4"
             />
+            {storageQuotas ? (
+              (["project", "account"] as const).map((scope) => {
+                const quota = storageQuotas[scope];
+                const used = quota.usedBytes + quota.reservedBytes + pendingBytes;
+                return (
+                  <div key={scope} className="mb-3 last:mb-0">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm text-gray-400">
+                        {scope === "project" ? "Project Storage" : "Account Storage"}
+                      </span>
+                      <span
+                        className={`text-sm ${used > quota.limitBytes ? "text-red-400" : "text-white"}`}
+                      >
+                        {formatFileSize(used)} / {formatFileSize(quota.limitBytes)}
+                      </span>
+                    </div>
+                    <Progress
+                      value={Math.min((used / quota.limitBytes) * 100, 100)}
+                      className="h-2"
+                    />
+                  </div>
+                );
+              })
+            ) : (
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-400">Storage Used</span>
+                <span className="text-sm text-white">
+                  {formatFileSize(existingStorageUsed + totalSize)} total
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Existing files */}
@@ -514,6 +742,51 @@ export function FrameioUploadInterface({
             </div>
           )}
 
+          {/* Interrupted uploads */}
+          {interruptedUploads.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-white font-medium">
+                Interrupted Uploads ({interruptedUploads.length})
+              </h4>
+              <p className="text-xs text-gray-400">
+                Select the same file again to continue where it stopped.
+              </p>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {interruptedUploads.map((session) => (
+                  <div
+                    key={session.sessionId}
+                    className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 flex items-center gap-3"
+                  >
+                    <RefreshCw className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white text-sm truncate">
+                        {session.fileName}
+                      </p>
+                      <p className="text-gray-400 text-xs">
+                        {formatFileSize(session.bytesUploaded)} of{" "}
+                        {formatFileSize(session.fileSize)} uploaded
+                      </p>
+                      <Progress
+                        value={(session.bytesUploaded / session.fileSize) * 100}
+                        className="h-1 mt-1"
+                      />
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => discardInterruptedUpload(session.sessionId)}
+                      disabled={isUploading}
+                      className="h-6 w-6 p-0 text-gray-400 hover:text-red-400"
+                      title="Discard this upload"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* File upload area */}
           <div className="border-2 border-dashed border-gray-600 rounded-lg p-8 text-center hover:border-blue-500 transition-colors">
             <input
@@ -563,6 +836,12 @@ export function FrameioUploadInterface({
                       </p>
                       <p className="text-gray-400 text-xs">
                         {formatFileSize(file.file.size)}
+                        {file.resumeSessionId && file.status === "pending" && (
+                          <span className="text-yellow-400">
+                            {" "}
+                            • Resumes at {file.progress}%
+                          </span>
+                        )}
                       </p>
                       {file.status === "uploading" && (
                         <Progress value={file.progress} className="h-1 mt-1" />
@@ -577,9 +856,29 @@ export function FrameioUploadInterface({
                       {file.status === "complete" && (
                         <CheckCircle className="h-4 w-4 text-green-400" />
                       )}
+                      {file.status === "error" && file.duplicateOf && !isUploading && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => uploadDuplicateAnyway(file.id)}
+                          className="h-6 px-2 text-xs text-gray-300 hover:text-white"
+                        >
+                          Upload anyway
+                        </Button>
+                      )}
                       {file.status === "error" && (
                         <AlertCircle className="h-4 w-4 text-red-400" />
                       )}
+                      {file.status === "error" && file.duplicateOf && !isUploading && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeFile(file.id)}
+                          className="h-6 w-6 p-0 text-gray-400 hover:text-red-400"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
                       {file.status === "pending" && !isUploading && (
                         <Button
                           size="sm"
@@ -0,0 +1,71 @@
+import { AlertCircle, CreditCard } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PaymentPastDueBannerProps {
+  isInGracePeriod: boolean;
+  gracePeriodEndsAt: string | null;
+}
+
+export function PaymentPastDueBanner({
+  isInGracePeriod,
+  gracePeriodEndsAt,
+}: PaymentPastDueBannerProps) {
+  const { toast } = useToast();
+
+  const portalMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/subscription/create-portal-session"),
+    onSuccess: (data: any) => {
+      if (data?.success && data.portalUrl) {
+        window.location.href = data.portalUrl;
+      } else {
+        toast({
+          title: "Error",
+          description: data?.message || "Failed to open billing portal",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      console.error("Error creating portal session:", error);
+      toast({
+        title: "Error",
+        description: "Failed to open billing portal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deadline = gracePeriodEndsAt
+    ? new Date(gracePeriodEndsAt).toLocaleDateString()
+    : null;
+
+  return (
+    <div className="mb-6 rounded-lg border border-orange-400/50 bg-orange-500/10 p-4 text-white">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-start space-x-3">
+          <AlertCircle className="mt-0.5 h-5 w-5 flex-shrink-0 text-orange-400" />
+          <div>
+            <p className="font-semibold">Your last payment didn't go through</p>
+            <p className="text-sm text-gray-300">
+              {isInGracePeriod && deadline
+                ? `Update your payment method by ${deadline} to keep creating new videos. Projects already in progress are not affected.`
+                : "New video requests are paused until your payment method is updated. Projects already in progress are not affected."}
+            </p>
+          </div>
+        </div>
+        <Button
+          onClick={() => portalMutation.mutate()}
+          disabled={portalMutation.isPending}
+          className="bg-orange-500 text-white hover:bg-orange-600"
+        >
+          <CreditCard className="mr-2 h-4 w-4" />
+          {portalMutation.isPending ? "Opening..." : "Update Payment Method"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useQuery } from "@tanstack/react-query";
+import { Copy, Gift } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReferralsResponse {
+  success: boolean;
+  referralCode: string;
+  referralUrl: string;
+  rewardCredits: number;
+  stats: {
+    total: number;
+    pending: number;
+    rewarded: number;
+    creditsEarned: number;
+  };
+}
+
+export function ReferralCard() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<ReferralsResponse>({
+    queryKey: ["/api/referrals"],
+  });
+
+  const copyLink = async () => {
+    if (!data) return;
+    try {
+      await navigator.clipboard.writeText(data.referralUrl);
+      toast({
+        title: "Link Copied",
+        description: "Share it with anyone who could use a video editor.",
+      });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Select the link and copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  const stats = [
+    { label: "Signed up", value: data.stats.total },
+    { label: "Awaiting first payment", value: data.stats.pending },
+    { label: "Credits earned", value: data.stats.creditsEarned },
+  ];
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white mb-6">
+      <CardContent className="p-6 space-y-4">
+        <div>
+          <h3 className="flex items-center text-lg font-semibold">
+            <Gift className="h-5 w-5 mr-2 text-[#2abdee]" />
+            Refer a Friend
+          </h3>
+          <p className="text-sm text-gray-400">
+            When someone signs up with your link and pays their first invoice, you
+            each get {data.rewardCredits} free{" "}
+            {data.rewardCredits === 1 ? "video" : "videos"}.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={data.referralUrl}
+            onFocus={(e) => e.target.select()}
+            className="bg-gray-900/50 border-gray-700 text-white"
+          />
+          <Button
+            onClick={copyLink}
+            className="bg-[#2abdee] text-black hover:bg-[#2abdee]/80 shrink-0"
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Or share your code: <span className="font-mono text-gray-300">{data.referralCode}</span>
+        </p>
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          {stats.map((stat) => (
+            <div key={stat.label} className="rounded-lg border border-gray-800 p-3">
+              <p className="text-2xl font-bold">{stat.value}</p>
+              <p className="text-xs text-gray-400">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
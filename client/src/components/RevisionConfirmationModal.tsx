@@ -97,7 +97,8 @@ export function RevisionConfirmationModal({
       
       const response = await apiRequest(
         "POST",
-        `/api/projects/${paymentData.project.id}/request-revision`
+        `/api/projects/${paymentData.project.id}/request-revision`,
+        { sessionId }
       );
       return response;
     },
@@ -44,6 +44,7 @@ interface RevisionModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   project: Project | null;
+  sessionId?: string | null; // Checkout session the revision was just paid with, if any
   step: "instructions" | "uploads" | "confirmation"; // Keep for backward compatibility
   onStepChange: (step: "instructions" | "uploads" | "confirmation") => void;
 }
@@ -52,6 +53,7 @@ export function RevisionModal({
   open,
   onOpenChange,
   project,
+  sessionId,
   step,
   onStepChange,
 }: RevisionModalProps) {
@@ -130,7 +132,7 @@ export function RevisionModal({
         const data = await apiRequest(
           "POST",
           `/api/projects/${project!.id}/request-revision`,
-          {},
+          sessionId ? { sessionId } : {},
         );
         console.log("🔍 Response data:", data);
         return data;
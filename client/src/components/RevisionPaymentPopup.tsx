@@ -10,8 +10,16 @@ import {
   CheckCircle,
   AlertCircle,
   Loader2,
+  Gift,
 } from "lucide-react";
 
+interface RevisionAllowance {
+  included: number;
+  used: number;
+  remaining: number;
+  per: "project" | "period";
+}
+
 interface RevisionPaymentPopupProps {
   project: any;
   onPaymentComplete: () => void;
@@ -28,6 +36,7 @@ export function RevisionPaymentPopup({
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [checkoutUrl, setCheckoutUrl] = useState<string | null>(null);
   const [paymentStatus, setPaymentStatus] = useState<"pending" | "checking" | "completed" | "failed">("pending");
+  const [allowance, setAllowance] = useState<RevisionAllowance | null>(null);
   const popupRef = useRef<Window | null>(null);
   const checkIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -54,7 +63,17 @@ export function RevisionPaymentPopup({
         }
       );
 
-      if (response.success && response.sessionUrl) {
+      if (response.success && response.includedRevision) {
+        // Included in the plan - no checkout needed
+        setPaymentStatus("completed");
+        toast({
+          title: "Free Revision Applied",
+          description: "This revision is included in your plan.",
+        });
+        setTimeout(() => {
+          onPaymentComplete();
+        }, 1500);
+      } else if (response.success && response.sessionUrl) {
         setSessionId(response.sessionId);
         setCheckoutUrl(response.sessionUrl);
 
@@ -169,8 +188,19 @@ export function RevisionPaymentPopup({
       }
     }
 
-    // Create session automatically on mount
-    createPaymentSession();
+    // Only go straight to checkout when the plan has no free revisions left
+    apiRequest(`/api/projects/${project.id}/revision-allowance`)
+      .then((response) => {
+        if (response.success) {
+          setAllowance(response);
+          if (response.remaining > 0) return;
+        }
+        createPaymentSession();
+      })
+      .catch((error) => {
+        console.error("Failed to load revision allowance:", error);
+        createPaymentSession();
+      });
 
     // Cleanup on unmount
     return () => {
@@ -181,6 +211,76 @@ export function RevisionPaymentPopup({
     };
   }, []);
 
+  const hasFreeRevision = !!allowance && allowance.remaining > 0;
+  const allowancePeriodLabel =
+    allowance?.per === "period" ? "this billing period" : "this project";
+
+  if (hasFreeRevision) {
+    return (
+      <div className="fixed inset-0 bg-black/90 backdrop-blur-lg z-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-lg bg-gray-900 border-2 border-cyan-500/50 shadow-2xl shadow-cyan-500/20 animate-in zoom-in-95 fade-in duration-300">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-white flex items-center gap-2">
+              <Gift className="w-6 h-6 text-cyan-500" />
+              Revision Included
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="bg-gradient-to-br from-cyan-500/20 to-purple-500/20 border border-cyan-500/30 rounded-lg p-4">
+              <p className="text-gray-300 mb-2 font-medium">Free revisions remaining:</p>
+              <p className="text-4xl font-bold text-cyan-400">
+                {allowance.remaining} of {allowance.included}
+              </p>
+              <p className="text-sm text-gray-300 mt-1">
+                Included with your plan for {allowancePeriodLabel}
+              </p>
+            </div>
+
+            {paymentStatus === "completed" && (
+              <div className="flex items-center gap-3 text-green-400">
+                <CheckCircle className="w-6 h-6" />
+                <div>
+                  <p className="font-semibold">Free Revision Applied!</p>
+                  <p className="text-sm text-gray-400">Redirecting to revision form...</p>
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              {paymentStatus !== "completed" && (
+                <Button
+                  onClick={createPaymentSession}
+                  disabled={isCreatingSession}
+                  className="flex-1 bg-cyan-600 hover:bg-cyan-700 text-white"
+                >
+                  {isCreatingSession ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Applying...
+                    </>
+                  ) : (
+                    <>
+                      <Gift className="w-4 h-4 mr-2" />
+                      Use Free Revision
+                    </>
+                  )}
+                </Button>
+              )}
+              <Button
+                onClick={onCancel}
+                variant="outline"
+                className="border-gray-700 hover:bg-gray-800"
+                disabled={paymentStatus === "completed"}
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-black/90 backdrop-blur-lg z-50 flex items-center justify-center p-4">
       <Card className="w-full max-w-lg bg-gray-900 border-2 border-cyan-500/50 shadow-2xl shadow-cyan-500/20 animate-in zoom-in-95 fade-in duration-300">
@@ -196,6 +296,11 @@ export function RevisionPaymentPopup({
             <p className="text-gray-300 mb-2 font-medium">Amount to pay:</p>
             <p className="text-4xl font-bold text-cyan-400 animate-pulse">$5.00</p>
             <p className="text-sm text-gray-300 mt-1">One-time payment for revision request</p>
+            {allowance && allowance.included > 0 && (
+              <p className="text-xs text-gray-400 mt-2">
+                You've used all {allowance.included} free revisions included for {allowancePeriodLabel}.
+              </p>
+            )}
           </div>
 
           {/* Status message - static display */}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Link2, Lock, RefreshCw, Unlink } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ShareLinkStatus } from "@shared/schema";
+
+interface ShareLinkState {
+  url: string | null;
+  status: ShareLinkStatus | null;
+  expiresAt: string | null;
+  passwordProtected: boolean;
+  downloadsEnabled: boolean;
+  settingsSupported: boolean;
+}
+
+interface ShareLinkResponse {
+  success: boolean;
+  shareLink: ShareLinkState;
+  accessEndsAt: string;
+}
+
+const statusBadges: Record<ShareLinkStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-500/10 border-green-500/40 text-green-400" },
+  expired: { label: "Expired", className: "bg-orange-500/10 border-orange-500/40 text-orange-400" },
+  revoked: { label: "Turned off", className: "bg-gray-800 border-gray-600 text-gray-400" },
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+
+/**
+ * Status of a project's public video link, with controls to copy, regenerate or turn it off
+ * and (on Frame.io) password protection and download permission
+ */
+export function ShareLinkControls({ projectId }: { projectId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [password, setPassword] = useState("");
+  const queryKey = [`/api/projects/${projectId}/share-link`];
+
+  const { data, isLoading } = useQuery<ShareLinkResponse>({ queryKey });
+
+  const onUpdated = (title: string, description: string) => () => {
+    toast({ title, description });
+    setPassword("");
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error?.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const regenerateMutation = useMutation({
+    // Protected links need the password again; the server asks for it when it's missing
+    mutationFn: () =>
+      apiRequest("POST", `/api/projects/${projectId}/share-link/regenerate`, {
+        ...(password && { password }),
+      }),
+    onSuccess: onUpdated("New Link Created", "The previous link no longer works."),
+    onError: showError("Could Not Create Link"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/projects/${projectId}/share-link/revoke`),
+    onSuccess: onUpdated("Link Turned Off", "Nobody can open the video from the old link."),
+    onError: showError("Could Not Turn Off Link"),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (settings: { password?: string | null; downloadsEnabled?: boolean }) =>
+      apiRequest("PATCH", `/api/projects/${projectId}/share-link`, settings),
+    onSuccess: onUpdated("Link Updated", "Your link settings were saved."),
+    onError: showError("Could Not Update Link"),
+  });
+
+  if (isLoading || !data || !data.shareLink.status) {
+    return null;
+  }
+
+  const { shareLink } = data;
+  const badge = statusBadges[shareLink.status!];
+  const isBusy = regenerateMutation.isPending || revokeMutation.isPending || settingsMutation.isPending;
+  const canChangeSettings = shareLink.settingsSupported && shareLink.status === "active";
+
+  const copyLink = async () => {
+    if (!shareLink.url) return;
+    try {
+      await navigator.clipboard.writeText(shareLink.url);
+      toast({ title: "Link Copied", description: "Anyone with the link can watch your video." });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Select the link and copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700 text-white">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="flex items-center text-lg font-semibold">
+            <Link2 className="h-5 w-5 mr-2 text-cyan-400" />
+            Share Link
+          </h3>
+          <Badge variant="outline" className={badge.className}>
+            {badge.label}
+          </Badge>
+        </div>
+
+        <p className="text-sm text-gray-400">
+          {shareLink.status === "active" &&
+            (shareLink.expiresAt
+              ? `Works until ${formatDate(shareLink.expiresAt)}. We renew it automatically until ${formatDate(data.accessEndsAt)}.`
+              : `We renew it automatically until ${formatDate(data.accessEndsAt)}.`)}
+          {shareLink.status === "expired" &&
+            "This link has expired. Create a new link to share your video again."}
+          {shareLink.status === "revoked" &&
+            "You turned this link off. Create a new link to share your video again."}
+        </p>
+
+        {shareLink.url && shareLink.status === "active" && (
+          <div className="flex gap-2">
+            <Input
+              readOnly
+              value={shareLink.url}
+              onFocus={(e) => e.target.select()}
+              className="bg-gray-900/50 border-gray-700 text-white"
+            />
+            <Button onClick={copyLink} className="bg-cyan-500 text-black hover:bg-cyan-400 shrink-0">
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+        )}
+
+        {shareLink.settingsSupported && (
+          <div className="space-y-3 rounded-lg border border-gray-800 p-4">
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id={`share-downloads-${projectId}`}
+                checked={shareLink.downloadsEnabled}
+                disabled={!canChangeSettings || isBusy}
+                onChange={(e) => settingsMutation.mutate({ downloadsEnabled: e.target.checked })}
+                className="h-4 w-4 rounded border border-gray-600 bg-gray-900"
+              />
+              <label htmlFor={`share-downloads-${projectId}`} className="text-sm text-gray-300">
+                Allow viewers to download the video
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <p className="flex items-center text-sm text-gray-300">
+                <Lock className="h-4 w-4 mr-2" />
+                {shareLink.passwordProtected ? "Password protected" : "No password"}
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  placeholder={shareLink.passwordProtected ? "New password" : "Set a password"}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="bg-gray-900/50 border-gray-700 text-white"
+                />
+                {canChangeSettings && (
+                  <Button
+                    variant="outline"
+                    disabled={password.length < 4 || isBusy}
+                    onClick={() => settingsMutation.mutate({ password })}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-800 hover:text-white shrink-0"
+                  >
+                    Save
+                  </Button>
+                )}
+                {canChangeSettings && shareLink.passwordProtected && (
+                  <Button
+                    variant="outline"
+                    disabled={isBusy}
+                    onClick={() => settingsMutation.mutate({ password: null })}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-800 hover:text-white shrink-0"
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            disabled={isBusy}
+            onClick={() => regenerateMutation.mutate()}
+            className="border-cyan-500 text-cyan-400 hover:bg-cyan-500 hover:text-black"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {shareLink.status === "active" ? "Replace Link" : "Create New Link"}
+          </Button>
+          {shareLink.status === "active" && (
+            <Button
+              variant="outline"
+              disabled={isBusy}
+              onClick={() => revokeMutation.mutate()}
+              className="border-red-500/60 text-red-400 hover:bg-red-500 hover:text-white"
+            >
+              <Unlink className="h-4 w-4 mr-2" />
+              Turn Off Link
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
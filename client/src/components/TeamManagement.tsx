@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Mail, Trash2, UserPlus, Users } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+
+type OrganizationRole = "owner" | "admin" | "member";
+
+interface OrganizationMember {
+  userId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: OrganizationRole;
+}
+
+interface OrganizationInvitation {
+  id: number;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: string;
+}
+
+interface OrganizationResponse {
+  success: boolean;
+  organization: { id: number; name: string; ownerId: string } | null;
+  role?: OrganizationRole;
+  members?: OrganizationMember[];
+  invitations?: OrganizationInvitation[];
+}
+
+const ROLE_BADGE_CLASSES: Record<OrganizationRole, string> = {
+  owner: "bg-black border-yellow-400 text-yellow-400",
+  admin: "bg-black border-cyan-400 text-cyan-400",
+  member: "bg-black border-gray-400 text-gray-400",
+};
+
+const selectClassName =
+  "h-10 rounded-md border border-gray-700 bg-gray-900/50 px-3 text-sm text-white";
+
+export function TeamManagement() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [organizationName, setOrganizationName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<"admin" | "member">("member");
+
+  const { data, isLoading } = useQuery<OrganizationResponse>({
+    queryKey: ["/api/organization"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/subscription/status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error?.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/organization", { name: organizationName.trim() }),
+    onSuccess: () => {
+      toast({
+        title: "Organization Created",
+        description: "Invite your teammates to start sharing your plan.",
+      });
+      setOrganizationName("");
+      refresh();
+    },
+    onError: showError("Could Not Create Organization"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/organization/invitations", {
+        email: inviteEmail.trim(),
+        role: inviteRole,
+      }),
+    onSuccess: (result: any) => {
+      toast({
+        title: "Invitation Sent",
+        description: result.message,
+      });
+      setInviteEmail("");
+      refresh();
+    },
+    onError: showError("Invitation Failed"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: number) =>
+      apiRequest("DELETE", `/api/organization/invitations/${invitationId}`),
+    onSuccess: refresh,
+    onError: showError("Could Not Revoke Invitation"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: OrganizationRole }) =>
+      apiRequest("PATCH", `/api/organization/members/${userId}`, { role }),
+    onSuccess: refresh,
+    onError: showError("Could Not Change Role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: string) =>
+      apiRequest("DELETE", `/api/organization/members/${userId}`),
+    onSuccess: (result: any) => {
+      toast({ title: result.message });
+      refresh();
+    },
+    onError: showError("Could Not Remove Member"),
+  });
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  if (!data.organization) {
+    return (
+      <Card className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white mb-6">
+        <CardContent className="p-6 space-y-4">
+          <div>
+            <h3 className="flex items-center text-lg font-semibold">
+              <Users className="h-5 w-5 mr-2 text-[#2abdee]" />
+              Create a Team
+            </h3>
+            <p className="text-sm text-gray-400">
+              Teammates you invite share your subscription and can work on
+              every project in the organization. Your existing projects move
+              into it.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Organization name"
+              value={organizationName}
+              onChange={(e) => setOrganizationName(e.target.value)}
+              className="bg-gray-900/50 border-gray-700 text-white"
+            />
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!organizationName.trim() || createMutation.isPending}
+              className="bg-[#2abdee] text-black hover:bg-[#2abdee]/80 shrink-0"
+            >
+              Create
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const role = data.role ?? "member";
+  const canManageMembers = role === "owner" || role === "admin";
+  const members = data.members ?? [];
+  const invitations = data.invitations ?? [];
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white mb-6">
+      <CardContent className="p-6 space-y-6">
+        <div>
+          <h3 className="flex items-center text-lg font-semibold">
+            <Users className="h-5 w-5 mr-2 text-[#2abdee]" />
+            {data.organization.name}
+          </h3>
+          <p className="text-sm text-gray-400">
+            Everyone here shares one subscription and can open any of the
+            team's projects.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {members.map((member) => {
+            const isSelf = member.userId === user?.id;
+            const canRemove =
+              member.role !== "owner" &&
+              (isSelf ||
+                role === "owner" ||
+                (role === "admin" && member.role === "member"));
+
+            return (
+              <div
+                key={member.userId}
+                className="flex items-center justify-between rounded-lg border border-gray-800 p-3"
+              >
+                <div>
+                  <p className="font-medium">
+                    {[member.firstName, member.lastName].filter(Boolean).join(" ") ||
+                      member.email}
+                    {isSelf && <span className="text-gray-500"> (you)</span>}
+                  </p>
+                  <p className="text-xs text-gray-400">{member.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {role === "owner" && member.role !== "owner" ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) =>
+                        roleMutation.mutate({
+                          userId: member.userId,
+                          role: e.target.value as OrganizationRole,
+                        })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="member">Member</option>
+                      <option value="admin">Admin</option>
+                    </select>
+                  ) : (
+                    <Badge variant="outline" className={ROLE_BADGE_CLASSES[member.role]}>
+                      {member.role}
+                    </Badge>
+                  )}
+                  {canRemove && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => removeMutation.mutate(member.userId)}
+                      disabled={removeMutation.isPending}
+                      className="bg-transparent border-gray-700 text-gray-300 hover:border-red-400 hover:text-red-400"
+                    >
+                      {isSelf ? "Leave" : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {canManageMembers && (
+          <div className="space-y-3">
+            <h4 className="flex items-center font-semibold">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite a Teammate
+            </h4>
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                placeholder="teammate@agency.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="bg-gray-900/50 border-gray-700 text-white"
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as "admin" | "member")}
+                className={selectClassName}
+              >
+                <option value="member">Member</option>
+                <option value="admin">Admin</option>
+              </select>
+              <Button
+                onClick={() => inviteMutation.mutate()}
+                disabled={!inviteEmail.trim() || inviteMutation.isPending}
+                className="bg-[#2abdee] text-black hover:bg-[#2abdee]/80 shrink-0"
+              >
+                Send Invite
+              </Button>
+            </div>
+
+            {invitations.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-400">Pending invitations</p>
+                {invitations.map((invitation) => (
+                  <div
+                    key={invitation.id}
+                    className="flex items-center justify-between rounded-lg border border-dashed border-gray-800 p-3"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Mail className="h-4 w-4 text-gray-500" />
+                      <span>{invitation.email}</span>
+                      <Badge variant="outline" className={ROLE_BADGE_CLASSES[invitation.role]}>
+                        {invitation.role}
+                      </Badge>
+                      <span className="text-xs text-gray-500">
+                        expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      disabled={revokeMutation.isPending}
+                      className="bg-transparent border-gray-700 text-gray-300 hover:border-red-400 hover:text-red-400"
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
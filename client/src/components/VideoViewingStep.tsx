@@ -6,6 +6,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import Confetti from "react-confetti";
 import { RevisionPaymentPopup } from "./RevisionPaymentPopup";
+import { ShareLinkControls } from "./ShareLinkControls";
 
 interface VideoViewingStepProps {
   project: any;
@@ -31,6 +32,7 @@ export function VideoViewingStep({
 }: VideoViewingStepProps) {
   const { toast } = useToast();
   const [isAccepting, setIsAccepting] = useState(false);
+  const [isPreparingArchive, setIsPreparingArchive] = useState(false);
   const [showPaymentPopup, setShowPaymentPopup] = useState(false);
   const [videoFiles, setVideoFiles] = React.useState<VideoFile[]>([]);
   const [loading, setLoading] = useState(true);
@@ -134,11 +136,11 @@ export function VideoViewingStep({
   };
 
   const handlePaymentComplete = async () => {
-    // Payment successful, close popup and return to revision workflow
+    // Payment successful (or free revision applied), close popup and return to revision workflow
     setShowPaymentPopup(false);
     
     toast({
-      title: "Payment Successful - Ready for Revision",
+      title: "Ready for Revision",
       description: "You can now upload additional footage and submit for revision.",
     });
     
@@ -173,6 +175,33 @@ export function VideoViewingStep({
     }
   };
 
+  // Footage and every delivered cut in one ZIP, with a manifest of revision numbers and upload dates
+  const handleDownloadArchive = async () => {
+    setIsPreparingArchive(true);
+    try {
+      const data = await apiRequest(
+        `/api/projects/${project.id}/download-archive`,
+        { method: "POST", body: {} },
+      );
+
+      // A plain navigation, so the browser saves the archive as it streams
+      window.location.href = data.downloadUrl;
+      toast({
+        title: "Download Started",
+        description: `Zipping ${data.fileCount} ${data.fileCount === 1 ? "file" : "files"}. Large projects can take a while.`,
+      });
+    } catch (error) {
+      console.error("ZIP download failed:", error);
+      toast({
+        title: "Download Failed",
+        description: "Could not prepare the project download. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreparingArchive(false);
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return "0 Bytes";
     // Use 1000-based calculation to match Frame.io's display
@@ -266,10 +295,13 @@ export function VideoViewingStep({
                 } catch (error) {
                   console.error("Failed to create share link:", error);
 
+                  // Expired or turned-off links are fixed from the share link controls below
+                  const message = error instanceof Error ? error.message : "";
                   toast({
                     title: "Error",
-                    description:
-                      "Could not create share link. Please try again.",
+                    description: /^(409|410): /.test(message)
+                      ? message.replace(/^\d+: /, "")
+                      : "Could not create share link. Please try again.",
                     variant: "destructive",
                   });
                 }
@@ -280,6 +312,21 @@ export function VideoViewingStep({
               Open Video Link
             </Button>
 
+            <div>
+              <Button
+                variant="outline"
+                onClick={handleDownloadArchive}
+                disabled={isPreparingArchive}
+                className="border-gray-600 text-gray-300 hover:bg-gray-800 hover:text-white"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {isPreparingArchive ? "Preparing Download..." : "Download All Files (ZIP)"}
+              </Button>
+              <p className="text-xs text-gray-500 mt-2">
+                Your footage and every version we delivered, with a list of revisions and upload dates
+              </p>
+            </div>
+
             {/* Instructions - only show when payment popup is NOT visible */}
             {!showPaymentPopup && (
               <div className="bg-cyan-500/10 border border-cyan-500/20 rounded-lg p-6 text-left space-y-4">
@@ -291,9 +338,9 @@ export function VideoViewingStep({
                   </p>
 
                   <p>
-                    ⏰ <strong>Important:</strong> This link will only be
-                    available for <strong>30 days</strong>, so make sure to
-                    download your video before then!
+                    ⏰ <strong>Important:</strong> We keep this link working
+                    for <strong>one year</strong> after your project started,
+                    so make sure to download your video before then!
                   </p>
 
                   <div className="bg-gray-800/50 rounded-lg p-4 space-y-2">
@@ -321,6 +368,8 @@ export function VideoViewingStep({
         </CardContent>
       </Card>
 
+      <ShareLinkControls projectId={project.id} />
+
       {/* Next Steps Section - only show when payment popup is NOT visible */}
       {!showPaymentPopup && (
         <>
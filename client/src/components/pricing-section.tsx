@@ -4,51 +4,12 @@ import { Badge } from "@/components/ui/badge";
 import { Check, Plus, CreditCard, Calendar, Scissors } from "lucide-react";
 import { useState } from "react";
 import { useLocation } from "wouter";
-
-const subscriptionPlans = [
-  {
-    name: "Growth Accelerator",
-    cadence: "2 videos per week",
-    price: "$18",
-    monthlyTotal: "$144 billed monthly",
-    description:
-      "Perfect for committed creators looking to increase their reach",
-    features: [
-      "2 videos delivered every week",
-      "48-hour turnaround guaranteed",
-    ],
-    highlighted: true,
-    buttonText: "Start Bi-Weekly Plan",
-    buttonVariant: "default" as const,
-  },
-  {
-    name: "Consistency Club",
-    cadence: "1 video per week",
-    price: "$19",
-    monthlyTotal: "$76 billed monthly",
-    description:
-      "Ideal for progressing your business, hobby, and personal projects",
-    features: ["1 video delivered every week", "4-day turnaround guaranteed"],
-    highlighted: false,
-    buttonText: "Start Weekly Plan",
-    buttonVariant: "outline" as const,
-  },
-  {
-    name: "Creative Spark",
-    cadence: "1 video per month",
-    price: "$20",
-    monthlyTotal: "$20 billed monthly",
-    description:
-      "Our most accessible plan, designed to let everyone share their moments",
-    features: ["1 video delivered every month", "7-day turnaround guaranteed"],
-    highlighted: false,
-    buttonText: "Start Monthly Plan",
-    buttonVariant: "outline" as const,
-  },
-];
+import { usePlans, type BillingInterval } from "@/hooks/usePlans";
+import { BillingIntervalToggle } from "@/components/BillingIntervalToggle";
 
 const prepaidPackages = [
   {
+    key: "package_5",
     name: "5 Video Package",
     videoCount: 5,
     price: "$25",
@@ -58,13 +19,14 @@ const prepaidPackages = [
       "5 video editing credits",
       "Great for longer content",
       "1 credit = up to 3 minutes of final video",
-      "Use anytime within 1 year",
+      "Credits never expire",
     ],
     highlighted: false,
     buttonText: "Buy 5 Credits",
     buttonVariant: "outline" as const,
   },
   {
+    key: "package_10",
     name: "10 Video Package",
     videoCount: 10,
     price: "$24",
@@ -74,13 +36,14 @@ const prepaidPackages = [
       "10 video editing credits",
       "Great for longer content",
       "1 credit = up to 3 minutes of final video",
-      "Use anytime within 1 year",
+      "Credits never expire",
     ],
     highlighted: false,
     buttonText: "Buy 10 Credits",
     buttonVariant: "outline" as const,
   },
   {
+    key: "package_20",
     name: "20 Video Package",
     videoCount: 20,
     price: "$23",
@@ -90,7 +53,7 @@ const prepaidPackages = [
       "20 video editing credits",
       "Great for longer content",
       "1 credit = up to 3 minutes of final video",
-      "Use anytime within 1 year",
+      "Credits never expire",
     ],
     highlighted: true,
     buttonText: "Buy 20 Credits",
@@ -103,6 +66,8 @@ export default function PricingSection() {
     "subscription",
   );
   const [, setLocation] = useLocation();
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month");
+  const { planCards: subscriptionPlans, hasAnnualPlans } = usePlans(billingInterval);
 
   const scrollToContact = () => {
     const element = document.getElementById("contact");
@@ -157,14 +122,18 @@ export default function PricingSection() {
                   </div>
                 </button>
                 <button
-                  disabled
-                  className="flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all duration-300 relative cursor-not-allowed opacity-50 text-gray-500 bg-gray-700/50"
+                  onClick={() => setSelectedTab("prepaid")}
+                  className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all duration-300 relative ${
+                    selectedTab === "prepaid"
+                      ? "bg-purple-500 text-white shadow-lg"
+                      : "text-gray-400 hover:text-light"
+                  }`}
                 >
                   <CreditCard className="h-5 w-5" />
                   <span>Prepaid Packages</span>
                   <div className="absolute -top-3 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-20">
-                    <span className="text-xs text-gray-400 bg-gray-600 border border-gray-500 px-2 py-1 rounded-full whitespace-nowrap shadow-lg">
-                      Coming Soon
+                    <span className="text-xs text-purple-300 bg-dark border border-purple-400 px-2 py-1 rounded-full whitespace-nowrap shadow-lg">
+                      Never expire
                     </span>
                   </div>
                 </button>
@@ -175,8 +144,18 @@ export default function PricingSection() {
           {/* Subscription Disclaimer */}
           {selectedTab === "subscription" && (
             <div className="text-center mb-12">
+              {hasAnnualPlans && (
+                <div className="mb-4">
+                  <BillingIntervalToggle
+                    value={billingInterval}
+                    onChange={setBillingInterval}
+                  />
+                </div>
+              )}
               <p className="text-gray-400 text-sm">
-                Change plans or cancel anytime
+                {billingInterval === "year"
+                  ? "Billed once a year - your video allowance still renews every month"
+                  : "Change plans or cancel anytime"}
               </p>
             </div>
           )}
@@ -270,6 +249,11 @@ export default function PricingSection() {
                       <p className="text-lg font-semibold text-accent">
                         {(plan as any).monthlyTotal}
                       </p>
+                      {"annualSavings" in plan && plan.annualSavings && (
+                        <p className="text-sm text-green-400">
+                          {plan.annualSavings}
+                        </p>
+                      )}
                     </>
                   )}
                   {selectedTab === "prepaid" && (
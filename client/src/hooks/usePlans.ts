@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface PublicPlan {
+  key: string;
+  name: string;
+  description: string | null;
+  cadence: string | null;
+  features: string[];
+  buttonText: string | null;
+  allowance: number;
+  includedRevisions: number;
+  includedRevisionsPer: "project" | "period";
+  unitAmount: number | null;
+  annualUnitAmount: number | null;
+  currency: string;
+  billingInterval: string;
+  highlighted: boolean;
+}
+
+export type BillingInterval = "month" | "year";
+
+interface PlansResponse {
+  success: boolean;
+  plans: PublicPlan[];
+}
+
+const INTERVAL_LABELS: Record<string, string> = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+  year: "yearly",
+};
+
+function formatAmount(cents: number, currency: string) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+    maximumFractionDigits: cents % 100 === 0 ? 0 : 2,
+  }).format(cents / 100);
+}
+
+// Shape used by the pricing cards on the landing page and /subscribe.
+// Annual plans keep the monthly allowance, so a year covers twelve allowances.
+export function toPlanCard(plan: PublicPlan, interval: BillingInterval = "month") {
+  const isAnnual = interval === "year" && plan.annualUnitAmount !== null;
+  const amount = isAnnual ? plan.annualUnitAmount : plan.unitAmount;
+  const videosPerCharge = isAnnual ? plan.allowance * 12 : plan.allowance;
+  const billingInterval = isAnnual ? "year" : plan.billingInterval;
+  const hasPrice = amount !== null;
+  const perVideo = hasPrice && videosPerCharge > 0
+    ? formatAmount(Math.round(amount! / videosPerCharge), plan.currency)
+    : "";
+  const annualSavings =
+    plan.annualUnitAmount !== null && plan.unitAmount
+      ? Math.round((1 - plan.annualUnitAmount / (plan.unitAmount * 12)) * 100)
+      : 0;
+
+  return {
+    key: plan.key,
+    name: plan.name,
+    cadence: plan.cadence || `${plan.allowance} videos per ${plan.billingInterval}`,
+    price: perVideo,
+    monthlyTotal: hasPrice
+      ? `${formatAmount(amount!, plan.currency)} billed ${INTERVAL_LABELS[billingInterval] || billingInterval}`
+      : "",
+    annualSavings: isAnnual && annualSavings > 0 ? `Save ${annualSavings}%` : "",
+    description: plan.description || "",
+    features: plan.features,
+    highlighted: plan.highlighted,
+    buttonText: plan.buttonText || `Start ${plan.name}`,
+    buttonVariant: plan.highlighted ? ("default" as const) : ("outline" as const),
+  };
+}
+
+// With interval "year", only plans that offer annual billing are returned as cards
+export function usePlans(interval: BillingInterval = "month") {
+  const { data, isLoading } = useQuery<PlansResponse>({
+    queryKey: ["/api/plans"],
+    staleTime: 5 * 60 * 1000,
+  });
+  const plans = data?.plans ?? [];
+
+  return {
+    plans,
+    planCards: plans
+      .filter((plan) => interval === "month" || plan.annualUnitAmount !== null)
+      .map((plan) => toPlanCard(plan, interval)),
+    hasAnnualPlans: plans.some((plan) => plan.annualUnitAmount !== null),
+    isLoading,
+  };
+}
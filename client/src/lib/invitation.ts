@@ -0,0 +1,15 @@
+// Team invitation links (/invite/TOKEN) need a signed-in user. The token is kept in localStorage
+// while they sign in or sign up, and the dashboard sends them back to the invitation afterwards.
+const INVITATION_TOKEN_KEY = "organization_invitation_token";
+
+export function storeInvitationToken(token: string) {
+  localStorage.setItem(INVITATION_TOKEN_KEY, token);
+}
+
+export function getStoredInvitationToken(): string | null {
+  return localStorage.getItem(INVITATION_TOKEN_KEY);
+}
+
+export function clearStoredInvitationToken() {
+  localStorage.removeItem(INVITATION_TOKEN_KEY);
+}
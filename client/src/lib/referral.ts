@@ -0,0 +1,15 @@
+// Referral codes arrive on /auth?ref=CODE. They're kept in localStorage so a Google signup,
+// which leaves the page, can still claim the code once the user is back and signed in.
+const REFERRAL_CODE_KEY = "referral_code";
+
+export function storeReferralCode(code: string) {
+  localStorage.setItem(REFERRAL_CODE_KEY, code.trim().toUpperCase());
+}
+
+export function getStoredReferralCode(): string | null {
+  return localStorage.getItem(REFERRAL_CODE_KEY);
+}
+
+export function clearStoredReferralCode() {
+  localStorage.removeItem(REFERRAL_CODE_KEY);
+}
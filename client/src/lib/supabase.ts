@@ -22,7 +22,7 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
 })
 
 // Auth helper functions
-export const signUp = async (email: string, password: string, metadata: { firstName: string; lastName: string; company?: string }) => {
+export const signUp = async (email: string, password: string, metadata: { firstName: string; lastName: string; company?: string; referralCode?: string }) => {
   const { data, error } = await supabase.auth.signUp({
     email,
     password,
@@ -32,7 +32,8 @@ export const signUp = async (email: string, password: string, metadata: { firstN
         lastName: metadata.lastName,
         company: metadata.company,
         first_name: metadata.firstName, // Also set standard field
-        last_name: metadata.lastName   // Also set standard field
+        last_name: metadata.lastName,  // Also set standard field
+        referralCode: metadata.referralCode // Recorded when the user is first created on our side
       }
     }
   })
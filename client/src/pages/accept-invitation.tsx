@@ -0,0 +1,144 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Users, XCircle } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { storeInvitationToken, clearStoredInvitationToken } from "@/lib/invitation";
+
+interface InvitationResponse {
+  success: boolean;
+  invitation: {
+    organizationName: string;
+    email: string;
+    role: string;
+    status: string;
+    expiresAt: string;
+    isExpired: boolean;
+    emailMatches: boolean;
+  };
+}
+
+export default function AcceptInvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+
+  // Sign in first, then come back here from the dashboard
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      storeInvitationToken(token);
+      setLocation("/auth");
+    }
+  }, [authLoading, isAuthenticated, token, setLocation]);
+
+  const { data, isLoading, error } = useQuery<InvitationResponse>({
+    queryKey: [`/api/organization/invitations/${token}`],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  // Nothing left to return to once the invitation has been looked at
+  useEffect(() => {
+    if (data || error) {
+      clearStoredInvitationToken();
+    }
+  }, [data, error]);
+
+  const acceptMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/organization/invitations/${token}/accept`),
+    onSuccess: () => {
+      toast({
+        title: "Welcome to the Team",
+        description: `You joined ${data?.invitation.organizationName}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      setLocation("/dashboard");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could Not Join",
+        description: error?.message || "Failed to accept invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading || !isAuthenticated || isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-secondary via-purple-900 to-primary flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
+          <CardContent className="p-8 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-accent" />
+            <p className="text-gray-300">Loading invitation...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const invitation = data?.invitation;
+  const problem = !invitation
+    ? "This invitation link is not valid."
+    : invitation.status !== "pending"
+      ? "This invitation has already been used or was revoked."
+      : invitation.isExpired
+        ? "This invitation has expired. Ask for a new one."
+        : !invitation.emailMatches
+          ? `This invitation was sent to ${invitation.email}. Sign in with that email to accept it.`
+          : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-secondary via-purple-900 to-primary flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
+        <CardHeader className="text-center">
+          <div
+            className={`mx-auto mb-4 w-16 h-16 rounded-full flex items-center justify-center ${
+              problem ? "bg-red-500/20" : "bg-[#2abdee]/20"
+            }`}
+          >
+            {problem ? (
+              <XCircle className="h-8 w-8 text-red-400" />
+            ) : (
+              <Users className="h-8 w-8 text-[#2abdee]" />
+            )}
+          </div>
+          <CardTitle className="text-2xl">
+            {invitation ? `Join ${invitation.organizationName}` : "Team Invitation"}
+          </CardTitle>
+          <CardDescription className="text-gray-300">
+            {problem ??
+              `You've been invited as ${invitation!.role === "admin" ? "an admin" : "a member"}. You'll share the team's subscription and projects.`}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="flex flex-col space-y-3">
+          {!problem && (
+            <Button
+              onClick={() => acceptMutation.mutate()}
+              disabled={acceptMutation.isPending}
+              className="bg-accent text-secondary hover:bg-yellow-500 font-semibold"
+            >
+              {acceptMutation.isPending ? "Joining..." : "Accept Invitation"}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => setLocation("/dashboard")}
+            className="bg-transparent border-gray-600 text-light hover:bg-charcoal/40"
+          >
+            Go to Dashboard
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect } from "react";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, UserMinus } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+
+interface CancellationSurvey {
+  id: number;
+  userId: string;
+  email: string;
+  reason: string;
+  details: string | null;
+  outcome: "canceled" | "paused" | "downgraded";
+  planKey: string | null;
+  createdAt: string;
+}
+
+interface CancellationSurveysResponse {
+  success: boolean;
+  surveys: CancellationSurvey[];
+  summary: {
+    total: number;
+    byReason: Record<string, number>;
+    byOutcome: Record<string, number>;
+  };
+}
+
+interface AdminCheckResponse {
+  success: boolean;
+  isAdmin: boolean;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  too_expensive: "Too expensive",
+  not_enough_videos: "Not enough videos needed",
+  seasonal: "Seasonal need",
+  quality: "Edit quality",
+  turnaround: "Turnaround time",
+  switching_service: "Switching service",
+  other: "Other",
+};
+
+const OUTCOME_CLASSES: Record<string, string> = {
+  canceled: "text-red-400",
+  paused: "text-cyan-400",
+  downgraded: "text-yellow-400",
+};
+
+export default function AdminCancellations() {
+  const [, setLocation] = useLocation();
+
+  const { data: adminCheck, isLoading: isCheckingAdmin, error: adminError, isError } = useQuery<AdminCheckResponse>({
+    queryKey: ["/api/admin/check"],
+    retry: false,
+  });
+
+  const { data, isLoading } = useQuery<CancellationSurveysResponse>({
+    queryKey: ["/api/admin/cancellation-surveys"],
+    enabled: adminCheck?.isAdmin === true,
+  });
+
+  useEffect(() => {
+    if (adminError || isError) {
+      setLocation("/auth");
+      return;
+    }
+    if (adminCheck && !adminCheck.isAdmin && !isCheckingAdmin) {
+      setLocation("/dashboard");
+    }
+  }, [adminCheck, isCheckingAdmin, adminError, isError, setLocation]);
+
+  if (isCheckingAdmin) {
+    return (
+      <div className="min-h-screen bg-dark flex items-center justify-center">
+        <div className="text-charcoal">Checking access...</div>
+      </div>
+    );
+  }
+
+  if (!adminCheck?.isAdmin) {
+    return null;
+  }
+
+  const surveys = data?.surveys ?? [];
+  const summary = data?.summary;
+
+  return (
+    <div className="min-h-screen bg-dark text-light">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center mb-8">
+          <Link href="/admin/settings">
+            <Button
+              variant="ghost"
+              className="mr-4 text-charcoal hover:text-light"
+              data-testid="button-back-admin-settings"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Settings
+            </Button>
+          </Link>
+          <div className="flex items-center">
+            <UserMinus className="h-8 w-8 text-accent mr-3" />
+            <h1 className="text-3xl font-bold text-light">Cancellations</h1>
+          </div>
+        </div>
+
+        {summary && summary.total > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            <div className="bg-dark-lighter border border-charcoal/30 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-light mb-4">By Reason</h2>
+              <div className="space-y-2">
+                {Object.entries(summary.byReason)
+                  .sort(([, a], [, b]) => b - a)
+                  .map(([reason, count]) => (
+                    <div key={reason} className="flex justify-between text-sm">
+                      <span className="text-charcoal">{REASON_LABELS[reason] ?? reason}</span>
+                      <span className="text-light">
+                        {count} ({Math.round((count / summary.total) * 100)}%)
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+            <div className="bg-dark-lighter border border-charcoal/30 rounded-lg p-6">
+              <h2 className="text-xl font-semibold text-light mb-4">By Outcome</h2>
+              <div className="space-y-2">
+                {Object.entries(summary.byOutcome).map(([outcome, count]) => (
+                  <div key={outcome} className="flex justify-between text-sm">
+                    <span className={`capitalize ${OUTCOME_CLASSES[outcome] ?? "text-charcoal"}`}>
+                      {outcome}
+                    </span>
+                    <span className="text-light">{count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-dark-lighter border border-charcoal/30 rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-light mb-6">Exit Survey Responses</h2>
+
+          {isLoading ? (
+            <div className="text-charcoal">Loading responses...</div>
+          ) : surveys.length === 0 ? (
+            <div className="text-charcoal">No cancellations yet</div>
+          ) : (
+            <div className="space-y-4">
+              {surveys.map((survey) => (
+                <div
+                  key={survey.id}
+                  className="border border-charcoal/30 rounded-lg p-4 space-y-1"
+                  data-testid={`cancellation-survey-${survey.id}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium text-light">{survey.email}</p>
+                    <p className="text-xs text-charcoal">
+                      {new Date(survey.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <p className="text-sm">
+                    <span className="text-charcoal">{REASON_LABELS[survey.reason] ?? survey.reason}</span>
+                    {" · "}
+                    <span className={`capitalize ${OUTCOME_CLASSES[survey.outcome] ?? ""}`}>
+                      {survey.outcome}
+                    </span>
+                    {survey.planKey && <span className="text-charcoal"> · {survey.planKey}</span>}
+                  </p>
+                  {survey.details && <p className="text-sm text-light">{survey.details}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
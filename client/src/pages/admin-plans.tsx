@@ -0,0 +1,606 @@
+import { useState, useEffect } from "react";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, Package, RefreshCw, Plus, Pencil, Trash2 } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface Plan {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  cadence: string | null;
+  features: string[];
+  buttonText: string | null;
+  allowance: number;
+  includedRevisions: number;
+  includedRevisionsPer: "project" | "period";
+  projectStorageGb: number;
+  accountStorageGb: number;
+  creditRollover: number;
+  stripeLookupKey: string;
+  overageLookupKey: string | null;
+  overageUnitAmount: number | null;
+  annualLookupKey: string | null;
+  annualUnitAmount: number | null;
+  stripeProductId: string | null;
+  stripePriceId: string | null;
+  unitAmount: number | null;
+  currency: string;
+  billingInterval: string;
+  highlighted: boolean;
+  sortOrder: number;
+  isActive: boolean;
+  syncedAt: string | null;
+}
+
+interface PlansResponse {
+  success: boolean;
+  plans: Plan[];
+}
+
+interface AdminCheckResponse {
+  success: boolean;
+  isAdmin: boolean;
+}
+
+interface PlanForm {
+  key: string;
+  name: string;
+  description: string;
+  cadence: string;
+  features: string;
+  buttonText: string;
+  allowance: string;
+  includedRevisions: string;
+  includedRevisionsPer: "project" | "period";
+  projectStorageGb: string;
+  accountStorageGb: string;
+  creditRollover: string;
+  stripeLookupKey: string;
+  overageLookupKey: string;
+  annualLookupKey: string;
+  highlighted: boolean;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+const emptyForm: PlanForm = {
+  key: "",
+  name: "",
+  description: "",
+  cadence: "",
+  features: "",
+  buttonText: "",
+  allowance: "1",
+  includedRevisions: "0",
+  includedRevisionsPer: "project",
+  projectStorageGb: "10",
+  accountStorageGb: "50",
+  creditRollover: "0",
+  stripeLookupKey: "",
+  overageLookupKey: "",
+  annualLookupKey: "",
+  highlighted: false,
+  sortOrder: "0",
+  isActive: true,
+};
+
+function planToForm(plan: Plan): PlanForm {
+  return {
+    key: plan.key,
+    name: plan.name,
+    description: plan.description || "",
+    cadence: plan.cadence || "",
+    features: plan.features.join("\n"),
+    buttonText: plan.buttonText || "",
+    allowance: String(plan.allowance),
+    includedRevisions: String(plan.includedRevisions),
+    includedRevisionsPer: plan.includedRevisionsPer,
+    projectStorageGb: String(plan.projectStorageGb),
+    accountStorageGb: String(plan.accountStorageGb),
+    creditRollover: String(plan.creditRollover),
+    stripeLookupKey: plan.stripeLookupKey,
+    overageLookupKey: plan.overageLookupKey || "",
+    annualLookupKey: plan.annualLookupKey || "",
+    highlighted: plan.highlighted,
+    sortOrder: String(plan.sortOrder),
+    isActive: plan.isActive,
+  };
+}
+
+function formToPayload(form: PlanForm) {
+  return {
+    key: form.key.trim(),
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    cadence: form.cadence.trim() || null,
+    features: form.features.split("\n").map((f) => f.trim()).filter(Boolean),
+    buttonText: form.buttonText.trim() || null,
+    allowance: Number(form.allowance),
+    includedRevisions: Number(form.includedRevisions),
+    includedRevisionsPer: form.includedRevisionsPer,
+    projectStorageGb: Number(form.projectStorageGb),
+    accountStorageGb: Number(form.accountStorageGb),
+    creditRollover: Number(form.creditRollover),
+    stripeLookupKey: form.stripeLookupKey.trim(),
+    overageLookupKey: form.overageLookupKey.trim() || null,
+    annualLookupKey: form.annualLookupKey.trim() || null,
+    highlighted: form.highlighted,
+    sortOrder: Number(form.sortOrder),
+    isActive: form.isActive,
+  };
+}
+
+function formatPrice(plan: Plan) {
+  if (plan.unitAmount === null) return "Not synced";
+  return `${(plan.unitAmount / 100).toFixed(2)} ${plan.currency.toUpperCase()} / ${plan.billingInterval}`;
+}
+
+export default function AdminPlans() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<PlanForm>(emptyForm);
+
+  const { data: adminCheck, isLoading: isCheckingAdmin, error: adminError, isError } = useQuery<AdminCheckResponse>({
+    queryKey: ["/api/admin/check"],
+    retry: false,
+  });
+
+  const { data: plansData, isLoading: isLoadingPlans } = useQuery<PlansResponse>({
+    queryKey: ["/api/admin/plans"],
+    enabled: adminCheck?.isAdmin === true,
+  });
+
+  const invalidatePlans = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/plans"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/plans"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = formToPayload(form);
+      if (editingPlan) {
+        const { key, ...updates } = payload;
+        return apiRequest("PATCH", `/api/admin/plans/${editingPlan.id}`, updates);
+      }
+      return apiRequest("POST", "/api/admin/plans", payload);
+    },
+    onSuccess: (data: any) => {
+      toast({
+        title: editingPlan ? "Plan Updated" : "Plan Created",
+        description: data?.syncError
+          ? `Saved, but Stripe sync failed: ${data.syncError}`
+          : "The plan catalog has been updated.",
+        variant: data?.syncError ? "destructive" : undefined,
+      });
+      setIsFormOpen(false);
+      invalidatePlans();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error?.message || "Failed to save plan.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (planId: number) => apiRequest("DELETE", `/api/admin/plans/${planId}`),
+    onSuccess: () => {
+      toast({
+        title: "Plan Deleted",
+        description: "The plan has been removed from the catalog.",
+      });
+      invalidatePlans();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error?.message || "Failed to delete plan.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/admin/plans/sync"),
+    onSuccess: (data: any) => {
+      toast({
+        title: data?.success ? "Plans Synced" : "Sync Incomplete",
+        description: data?.message,
+        variant: data?.success ? undefined : "destructive",
+      });
+      invalidatePlans();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Sync Failed",
+        description: error?.message || "Failed to sync plans from Stripe.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (adminError || isError) {
+      setLocation("/auth");
+      return;
+    }
+    if (adminCheck && !adminCheck.isAdmin && !isCheckingAdmin) {
+      setLocation("/dashboard");
+    }
+  }, [adminCheck, isCheckingAdmin, adminError, isError, setLocation]);
+
+  const openCreate = () => {
+    setEditingPlan(null);
+    setForm(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (plan: Plan) => {
+    setEditingPlan(plan);
+    setForm(planToForm(plan));
+    setIsFormOpen(true);
+  };
+
+  const updateForm = <K extends keyof PlanForm>(field: K, value: PlanForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  if (isCheckingAdmin) {
+    return (
+      <div className="min-h-screen bg-dark flex items-center justify-center">
+        <div className="text-charcoal">Checking access...</div>
+      </div>
+    );
+  }
+
+  if (!adminCheck?.isAdmin) {
+    return null;
+  }
+
+  const plans = plansData?.plans ?? [];
+
+  return (
+    <div className="min-h-screen bg-dark text-light">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center mb-8">
+          <Link href="/admin/settings">
+            <Button
+              variant="ghost"
+              className="mr-4 text-charcoal hover:text-light"
+              data-testid="button-back-admin-settings"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Settings
+            </Button>
+          </Link>
+          <div className="flex items-center">
+            <Package className="h-8 w-8 text-accent mr-3" />
+            <h1 className="text-3xl font-bold text-light">Plans</h1>
+          </div>
+        </div>
+
+        <div className="bg-dark-lighter border border-charcoal/30 rounded-lg p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-light">Subscription Plans</h2>
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => syncMutation.mutate()}
+                disabled={syncMutation.isPending}
+                className="border-charcoal/50 text-charcoal hover:text-light"
+                data-testid="button-sync-plans"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+                Sync from Stripe
+              </Button>
+              <Button
+                onClick={openCreate}
+                className="bg-accent hover:bg-accent/80 text-black font-semibold"
+                data-testid="button-create-plan"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Plan
+              </Button>
+            </div>
+          </div>
+
+          {isLoadingPlans ? (
+            <div className="text-charcoal">Loading plans...</div>
+          ) : plans.length === 0 ? (
+            <div className="text-charcoal">No plans configured</div>
+          ) : (
+            <div className="space-y-4">
+              {plans.map((plan) => (
+                <div
+                  key={plan.id}
+                  className="border border-charcoal/30 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+                  data-testid={`plan-row-${plan.key}`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="text-lg font-medium text-light">{plan.name}</p>
+                      <span className="text-xs text-charcoal">({plan.key})</span>
+                      {!plan.isActive && (
+                        <span className="text-xs px-2 py-0.5 rounded-full border border-gray-500/30 bg-gray-500/20 text-gray-400">
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-charcoal">
+                      {plan.allowance} videos per {plan.billingInterval} · up to {plan.creditRollover} roll over · {plan.includedRevisions} free revision(s) per {plan.includedRevisionsPer} · {plan.projectStorageGb} GB per project, {plan.accountStorageGb} GB total
+                    </p>
+                    <p className="text-sm text-charcoal">
+                      {formatPrice(plan)} · lookup key <span className="text-light">{plan.stripeLookupKey}</span>
+                    </p>
+                    {plan.overageLookupKey && (
+                      <p className="text-sm text-charcoal">
+                        Extra video{" "}
+                        {plan.overageUnitAmount === null
+                          ? "not synced"
+                          : `${(plan.overageUnitAmount / 100).toFixed(2)} ${plan.currency.toUpperCase()}`}{" "}
+                        · lookup key <span className="text-light">{plan.overageLookupKey}</span>
+                      </p>
+                    )}
+                    {plan.annualLookupKey && (
+                      <p className="text-sm text-charcoal">
+                        Yearly{" "}
+                        {plan.annualUnitAmount === null
+                          ? "not synced"
+                          : `${(plan.annualUnitAmount / 100).toFixed(2)} ${plan.currency.toUpperCase()}`}{" "}
+                        · lookup key <span className="text-light">{plan.annualLookupKey}</span>
+                      </p>
+                    )}
+                    <p className="text-xs text-charcoal">
+                      {plan.syncedAt
+                        ? `Last synced ${new Date(plan.syncedAt).toLocaleString()}`
+                        : "Never synced from Stripe"}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openEdit(plan)}
+                      className="border-charcoal/50 text-charcoal hover:text-light"
+                      data-testid={`button-edit-plan-${plan.key}`}
+                    >
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        if (window.confirm(`Delete the "${plan.name}" plan?`)) {
+                          deleteMutation.mutate(plan.id);
+                        }
+                      }}
+                      disabled={deleteMutation.isPending}
+                      className="border-red-500/30 text-red-400 hover:text-red-300"
+                      data-testid={`button-delete-plan-${plan.key}`}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPlan ? `Edit ${editingPlan.name}` : "New Plan"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="plan-key">Key</Label>
+              <Input
+                id="plan-key"
+                value={form.key}
+                onChange={(e) => updateForm("key", e.target.value)}
+                disabled={!!editingPlan}
+                placeholder="standard"
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-name">Name</Label>
+              <Input
+                id="plan-name"
+                value={form.name}
+                onChange={(e) => updateForm("name", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-lookup-key">Stripe Lookup Key</Label>
+              <Input
+                id="plan-lookup-key"
+                value={form.stripeLookupKey}
+                onChange={(e) => updateForm("stripeLookupKey", e.target.value)}
+                placeholder="tier_2_launch"
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-overage-lookup-key">Extra Video Lookup Key</Label>
+              <Input
+                id="plan-overage-lookup-key"
+                value={form.overageLookupKey}
+                onChange={(e) => updateForm("overageLookupKey", e.target.value)}
+                placeholder="Leave empty to disable extra videos"
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-annual-lookup-key">Yearly Price Lookup Key</Label>
+              <Input
+                id="plan-annual-lookup-key"
+                value={form.annualLookupKey}
+                onChange={(e) => updateForm("annualLookupKey", e.target.value)}
+                placeholder="Leave empty to offer monthly billing only"
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-allowance">Videos per Period</Label>
+              <Input
+                id="plan-allowance"
+                type="number"
+                min={0}
+                value={form.allowance}
+                onChange={(e) => updateForm("allowance", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-credit-rollover">Unused Videos Rolled Over</Label>
+              <Input
+                id="plan-credit-rollover"
+                type="number"
+                min={0}
+                value={form.creditRollover}
+                onChange={(e) => updateForm("creditRollover", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-included-revisions">Included Revisions</Label>
+              <Input
+                id="plan-included-revisions"
+                type="number"
+                min={0}
+                value={form.includedRevisions}
+                onChange={(e) => updateForm("includedRevisions", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-included-revisions-per">Included Revisions Per</Label>
+              <select
+                id="plan-included-revisions-per"
+                value={form.includedRevisionsPer}
+                onChange={(e) => updateForm("includedRevisionsPer", e.target.value as PlanForm["includedRevisionsPer"])}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="project">Project</option>
+                <option value="period">Billing period</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="plan-project-storage">Storage per Project (GB)</Label>
+              <Input
+                id="plan-project-storage"
+                type="number"
+                min={1}
+                value={form.projectStorageGb}
+                onChange={(e) => updateForm("projectStorageGb", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-account-storage">Storage per Account (GB)</Label>
+              <Input
+                id="plan-account-storage"
+                type="number"
+                min={1}
+                value={form.accountStorageGb}
+                onChange={(e) => updateForm("accountStorageGb", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-cadence">Cadence</Label>
+              <Input
+                id="plan-cadence"
+                value={form.cadence}
+                onChange={(e) => updateForm("cadence", e.target.value)}
+                placeholder="1 video per week"
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-button-text">Button Text</Label>
+              <Input
+                id="plan-button-text"
+                value={form.buttonText}
+                onChange={(e) => updateForm("buttonText", e.target.value)}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="plan-description">Description</Label>
+              <Textarea
+                id="plan-description"
+                value={form.description}
+                onChange={(e) => updateForm("description", e.target.value)}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="plan-features">Features (one per line)</Label>
+              <Textarea
+                id="plan-features"
+                rows={4}
+                value={form.features}
+                onChange={(e) => updateForm("features", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-sort-order">Sort Order</Label>
+              <Input
+                id="plan-sort-order"
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => updateForm("sortOrder", e.target.value)}
+              />
+            </div>
+            <div className="flex items-end gap-6 pb-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.highlighted}
+                  onChange={(e) => updateForm("highlighted", e.target.checked)}
+                />
+                Highlighted
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => updateForm("isActive", e.target.checked)}
+                />
+                Active
+              </label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+              className="bg-accent hover:bg-accent/80 text-black font-semibold"
+              data-testid="button-save-plan"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Plan"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Settings, RefreshCw, ExternalLink, CheckCircle, AlertTriangle, XCircle } from "lucide-react";
+import { ArrowLeft, Settings, RefreshCw, ExternalLink, CheckCircle, AlertTriangle, XCircle, Package, UserMinus } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -268,6 +268,48 @@ export default function AdminSettings() {
             )}
           </div>
 
+          <div className="bg-dark-lighter border border-charcoal/30 rounded-lg p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-light mb-1">Plans</h2>
+                <p className="text-sm text-charcoal">
+                  Manage subscription tiers, allowances and Stripe pricing.
+                </p>
+              </div>
+              <Link href="/admin/plans">
+                <Button
+                  variant="outline"
+                  className="border-charcoal/50 text-charcoal hover:text-light"
+                  data-testid="button-manage-plans"
+                >
+                  <Package className="h-4 w-4 mr-2" />
+                  Manage Plans
+                </Button>
+              </Link>
+            </div>
+          </div>
+
+          <div className="bg-dark-lighter border border-charcoal/30 rounded-lg p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-light mb-1">Cancellations</h2>
+                <p className="text-sm text-charcoal">
+                  Review why customers cancel, pause or downgrade.
+                </p>
+              </div>
+              <Link href="/admin/cancellations">
+                <Button
+                  variant="outline"
+                  className="border-charcoal/50 text-charcoal hover:text-light"
+                  data-testid="button-view-cancellations"
+                >
+                  <UserMinus className="h-4 w-4 mr-2" />
+                  View Surveys
+                </Button>
+              </Link>
+            </div>
+          </div>
+
           <div className="bg-dark-lighter border border-charcoal/30 rounded-lg p-6">
             <h2 className="text-xl font-semibold text-light mb-4">Notifications</h2>
             <div>
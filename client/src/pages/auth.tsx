@@ -8,6 +8,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { signUp, signIn, signInWithGoogle } from "@/lib/supabase";
 import { useAuth } from "@/hooks/useAuth";
+import { storeReferralCode, getStoredReferralCode } from "@/lib/referral";
 import { Loader2 } from "lucide-react";
 
 interface LoginData {
@@ -21,6 +22,7 @@ interface SignupData {
   email: string;
   password: string;
   company?: string;
+  referralCode: string;
 }
 
 export default function AuthPage() {
@@ -37,8 +39,22 @@ export default function AuthPage() {
     lastName: "",
     email: "",
     password: "",
-    company: ""
+    company: "",
+    referralCode: getStoredReferralCode() || ""
   });
+  // Referral links open the signup tab with the code filled in
+  const [defaultTab] = useState(() =>
+    new URLSearchParams(window.location.search).get("ref") ? "signup" : "login"
+  );
+
+  // Keep the code from a referral link for Google signups, which leave this page
+  useEffect(() => {
+    const referralCode = new URLSearchParams(window.location.search).get("ref");
+    if (referralCode) {
+      storeReferralCode(referralCode);
+      setSignupData((data) => ({ ...data, referralCode: referralCode.toUpperCase() }));
+    }
+  }, []);
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -95,7 +111,8 @@ export default function AuthPage() {
         {
           firstName: signupData.firstName,
           lastName: signupData.lastName,
-          company: signupData.company
+          company: signupData.company,
+          referralCode: signupData.referralCode.trim().toUpperCase() || undefined
         }
       );
       
@@ -170,7 +187,7 @@ export default function AuthPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="login" className="w-full">
+          <Tabs defaultValue={defaultTab} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="login">Login</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -281,6 +298,16 @@ export default function AuthPage() {
                     onChange={(e) => setSignupData({ ...signupData, company: e.target.value })}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="signup-referralCode">Referral Code (Optional)</Label>
+                  <Input
+                    id="signup-referralCode"
+                    type="text"
+                    placeholder="Referral code"
+                    value={signupData.referralCode}
+                    onChange={(e) => setSignupData({ ...signupData, referralCode: e.target.value })}
+                  />
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="signup-password">Password</Label>
                   <Input
@@ -10,6 +10,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
   DialogContent,
@@ -47,13 +48,14 @@ import {
   CreditCard,
   Crown,
   Settings,
-  Download,
   Play,
   Eye,
   ExternalLink,
   RotateCcw,
   ArrowLeft,
   Shield,
+  Film,
+  Link2,
 } from "lucide-react";
 
 import TallyFormStep from "@/components/TallyFormStep";
@@ -61,11 +63,30 @@ import { RevisionModal } from "@/components/RevisionModal";
 import { RevisionConfirmationModal } from "@/components/RevisionConfirmationModal";
 import { FrameioUploadInterface } from "@/components/FrameioUploadInterface";
 import { VideoViewingStep } from "@/components/VideoViewingStep";
+import { ShareLinkControls } from "@/components/ShareLinkControls";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ConsentPopup } from "@/components/ConsentPopup";
+import { PaymentPastDueBanner } from "@/components/PaymentPastDueBanner";
+import { ChangePlanDialog } from "@/components/ChangePlanDialog";
+import { CancelSubscriptionDialog } from "@/components/CancelSubscriptionDialog";
+import { BillingHistory } from "@/components/BillingHistory";
+import { ReferralCard } from "@/components/ReferralCard";
+import { TeamManagement } from "@/components/TeamManagement";
+import { getStoredReferralCode, clearStoredReferralCode } from "@/lib/referral";
+import { getStoredInvitationToken } from "@/lib/invitation";
 import type { Project } from "@/../../shared/schema";
+import {
+  PROJECT_STATUS,
+  isProjectStatus,
+  normalizeProjectStatus,
+} from "@shared/projectStatus";
 import logoImage from "@/assets/logo.png";
 
+// Projects as listed by /api/projects, with totals from the footage's media metadata
+type ProjectListItem = Project & {
+  footageSummary?: string | null;
+};
+
 interface User {
   id: number;
   email: string;
@@ -84,28 +105,38 @@ interface SubscriptionStatus {
   allowance: number;
   periodStart: string;
   periodEnd: string;
+  billingInterval: "month" | "year";
+  allowanceResetsAt: string | null;
+  cancelAtPeriodEnd: boolean;
+  pauseResumesAt: string | null;
   stripeCustomerId: string;
   hasReachedLimit: boolean;
+  isInGracePeriod: boolean;
+  gracePeriodEndsAt: string | null;
+  scheduledPlan: { key: string; name: string } | null;
+  overage: { amount: number; currency: string } | null;
+  subscriptionCredits: number;
+  prepaidCredits: number;
+  organization: { id: number; name: string; role: string } | null;
+  canManageBilling: boolean;
 }
 
 // Helper functions for project status
 const getStatusColor = (status: string) => {
-  switch (status.toLowerCase()) {
-    case "draft":
+  switch (normalizeProjectStatus(status)) {
+    case PROJECT_STATUS.DRAFT:
       return "bg-black border border-gray-400 text-gray-400";
-    case "awaiting instructions":
+    case PROJECT_STATUS.AWAITING_INSTRUCTIONS:
       return "bg-black border border-pink-400 text-pink-400";
-    case "awaiting revision instructions":
+    case PROJECT_STATUS.AWAITING_REVISION_INSTRUCTIONS:
       return "bg-black border border-pink-400 text-pink-400";
-    case "edit in progress":
+    case PROJECT_STATUS.EDIT_IN_PROGRESS:
       return "bg-black border border-cyan-400 text-cyan-400";
-    case "video is ready":
-      return "bg-black border border-green-400 text-green-400";
-    case "delivered":
+    case PROJECT_STATUS.VIDEO_IS_READY:
       return "bg-black border border-green-400 text-green-400";
-    case "complete":
+    case PROJECT_STATUS.COMPLETE:
       return "bg-black border border-green-400 text-green-400";
-    case "revision in progress":
+    case PROJECT_STATUS.REVISION_IN_PROGRESS:
       return "bg-black border border-pink-400 text-pink-400";
     default:
       return "bg-black border border-gray-400 text-gray-400";
@@ -113,22 +144,20 @@ const getStatusColor = (status: string) => {
 };
 
 const getStatusIcon = (status: string) => {
-  switch (status.toLowerCase()) {
-    case "draft":
+  switch (normalizeProjectStatus(status)) {
+    case PROJECT_STATUS.DRAFT:
       return <AlertCircle className="h-3 w-3" />;
-    case "awaiting instructions":
+    case PROJECT_STATUS.AWAITING_INSTRUCTIONS:
       return <Upload className="h-3 w-3" />;
-    case "awaiting revision instructions":
+    case PROJECT_STATUS.AWAITING_REVISION_INSTRUCTIONS:
       return <CreditCard className="h-3 w-3" />;
-    case "edit in progress":
+    case PROJECT_STATUS.EDIT_IN_PROGRESS:
       return <Video className="h-3 w-3" />;
-    case "video is ready":
+    case PROJECT_STATUS.VIDEO_IS_READY:
       return <CheckCircle className="h-3 w-3" />;
-    case "delivered":
-      return <Download className="h-3 w-3" />;
-    case "complete":
+    case PROJECT_STATUS.COMPLETE:
       return <CheckCircle className="h-3 w-3" />;
-    case "revision in progress":
+    case PROJECT_STATUS.REVISION_IN_PROGRESS:
       return <Clock className="h-3 w-3" />;
     default:
       return <AlertCircle className="h-3 w-3" />;
@@ -157,6 +186,7 @@ export default function DashboardPage() {
   >("instructions");
   const [showSendToEditorDialog, setShowSendToEditorDialog] = useState(false);
   const [pendingProject, setPendingProject] = useState<Project | null>(null);
+  const [shareLinkProject, setShareLinkProject] = useState<Project | null>(null);
 
   // Revision Confirmation Modal state
   const [revisionConfirmationOpen, setRevisionConfirmationOpen] =
@@ -208,6 +238,12 @@ export default function DashboardPage() {
 
   // Consent popup state
   const [showConsentPopup, setShowConsentPopup] = useState(false);
+  const [showChangePlan, setShowChangePlan] = useState(false);
+  const [showCancelSubscription, setShowCancelSubscription] = useState(false);
+  const [cancellationSurvey, setCancellationSurvey] = useState<{
+    reason: string;
+    details?: string;
+  } | null>(null);
 
   // Check for pending revision payments on mount
   useEffect(() => {
@@ -268,7 +304,7 @@ export default function DashboardPage() {
                 targetProject.title,
               );
               // Open the revision modal directly for the revision workflow
-              handleRevisionModal(targetProject);
+              handleRevisionModal(targetProject, sessionId);
               console.log(
                 "✅ Starting revision workflow - opening revision modal",
               );
@@ -391,7 +427,7 @@ export default function DashboardPage() {
         console.log("🎯 Target project search result:", targetProject);
         if (targetProject) {
           // Open the revision modal directly for the revision workflow
-          handleRevisionModal(targetProject);
+          handleRevisionModal(targetProject, sessionId);
           console.log(
             "✅ Starting revision workflow from URL redirect - opening revision modal",
           );
@@ -446,6 +482,13 @@ export default function DashboardPage() {
 
   const subscription: SubscriptionStatus | undefined = (subscriptionData as any)
     ?.subscription;
+  const prepaidCredits = subscription?.prepaidCredits ?? 0;
+
+  // Allowance used up and no prepaid credits left to fall back on
+  const needsUpgrade =
+    !!subscription?.hasActiveSubscription &&
+    !!subscription?.hasReachedLimit &&
+    prepaidCredits === 0;
 
   // Check if user just returned from Stripe payment and refresh subscription
   useEffect(() => {
@@ -464,6 +507,50 @@ export default function DashboardPage() {
     }
   }, [refetchSubscription]);
 
+  // Apply a referral code kept from /auth?ref= (needed for Google signups, a no-op otherwise)
+  useEffect(() => {
+    const referralCode = getStoredReferralCode();
+    if (!isAuthenticated || !authReady || !referralCode) return;
+
+    apiRequest("POST", "/api/referrals/claim", { code: referralCode })
+      .then(() => {
+        console.log("🤝 Referral code applied");
+      })
+      .catch((error) => {
+        console.log("ℹ️ Referral code not applied:", error.message);
+      })
+      .finally(() => {
+        clearStoredReferralCode();
+      });
+  }, [isAuthenticated, authReady]);
+
+  // Return to a team invitation opened before signing in
+  useEffect(() => {
+    const invitationToken = getStoredInvitationToken();
+    if (isAuthenticated && authReady && invitationToken) {
+      setLocation(`/invite/${invitationToken}`);
+    }
+  }, [isAuthenticated, authReady, setLocation]);
+
+  // Undo a pause or a pending cancellation
+  const resumeSubscriptionMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/subscription/resume"),
+    onSuccess: (data: any) => {
+      toast({
+        title: "Subscription Resumed",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription/status"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Resume Failed",
+        description: error?.message || "Failed to resume subscription",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Send to editor mutation
   const sendToEditorMutation = useMutation({
     mutationFn: async (projectId: number) => {
@@ -475,7 +562,7 @@ export default function DashboardPage() {
         "PATCH",
         `/api/projects/${projectId}/status`,
         {
-          status: "edit in progress",
+          status: PROJECT_STATUS.EDIT_IN_PROGRESS,
         },
       );
       console.log("🚀 MUTATION: Server response:", response);
@@ -500,11 +587,11 @@ export default function DashboardPage() {
           console.log(
             "🔄 STATE UPDATE: Updating selectedProject status from:",
             selectedProject.status,
-            "to: Edit in Progress",
+            "to: edit in progress",
           );
           const updatedProject = {
             ...selectedProject,
-            status: "Edit in Progress",
+            status: PROJECT_STATUS.EDIT_IN_PROGRESS,
             updatedAt: new Date(),
           };
           setSelectedProject(updatedProject);
@@ -546,6 +633,21 @@ export default function DashboardPage() {
         setShowSendToEditorDialog(false);
         setPendingProject(null);
         // Do NOT change currentStep - user stays where they are and can navigate to upload step
+      } else if (
+        data.requiresSubscription ||
+        data.requiresUpgrade ||
+        data.requiresPaymentUpdate
+      ) {
+        // Sending to the editor spends a video credit
+        toast({
+          title: data.requiresUpgrade ? "Upgrade Required" : "Credits Required",
+          description: data.message,
+          variant: "destructive",
+          duration: 8000,
+        });
+        setShowSendToEditorDialog(false);
+        setPendingProject(null);
+        setLocation("/subscribe");
       } else {
         toast({
           title: "Failed to send project",
@@ -586,7 +688,7 @@ export default function DashboardPage() {
       } else if (data.requiresSubscription) {
         toast({
           title: "Subscription Required",
-          description: "You need an active subscription to create projects.",
+          description: "You need an active subscription or prepaid credits to create projects.",
           variant: "destructive",
         });
         setLocation("/subscribe");
@@ -629,7 +731,7 @@ export default function DashboardPage() {
       // Update the selected project status locally for immediate feedback
       setSelectedProject({
         ...selectedProject,
-        status: "revision in progress",
+        status: PROJECT_STATUS.REVISION_IN_PROGRESS,
         updatedAt: new Date(),
       });
     }
@@ -638,6 +740,8 @@ export default function DashboardPage() {
   // Helper function to check if user can create projects
   const canCreateProject = () => {
     if (!subscription) return false;
+    // Prepaid credits cover projects beyond (or without) a subscription
+    if (prepaidCredits > 0) return true;
     if (!subscription.hasActiveSubscription) return false;
     if (subscription.usage >= subscription.allowance) return false;
     return true;
@@ -659,7 +763,21 @@ export default function DashboardPage() {
     console.log('🔍 DEBUG: ToS accepted, proceeding with project creation');
 
     if (!canCreateProject()) {
-      if (!subscription?.hasActiveSubscription) {
+      if (subscription?.status === "past_due" && !subscription.hasActiveSubscription) {
+        // Grace period is over - the banner links to the billing portal
+        toast({
+          title: "Payment Update Required",
+          description: "Update your payment method to create new projects.",
+          variant: "destructive",
+        });
+      } else if (subscription && !subscription.canManageBilling) {
+        // Team members share the owner's plan and can't change it themselves
+        toast({
+          title: "Team Plan Limit Reached",
+          description: `Ask the owner of ${subscription.organization?.name ?? "your organization"} to upgrade the plan.`,
+          variant: "destructive",
+        });
+      } else if (!subscription?.hasActiveSubscription) {
         toast({
           title: "Subscription Required",
           description: "You need an active subscription to create projects.",
@@ -671,45 +789,8 @@ export default function DashboardPage() {
         subscription.hasActiveSubscription &&
         subscription.hasReachedLimit
       ) {
-        // When limit is reached and user clicks Upgrade, open Stripe customer portal
-        try {
-          const { data: { session } } = await supabase.auth.getSession();
-          if (!session?.access_token) {
-            toast({
-              title: "Authentication Required",
-              description: "Please sign in to manage your subscription",
-              variant: "destructive",
-            });
-            return;
-          }
-
-          const response = await fetch('/api/subscription/create-portal-session', {
-            method: 'POST',
-            headers: { 
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${session.access_token}`
-            },
-            credentials: 'include',
-          });
-          const data = await response.json();
-          if (data.success && data.portalUrl) {
-            window.location.href = data.portalUrl;
-          } else {
-            console.error('Failed to create portal session:', data.message);
-            toast({
-              title: "Error",
-              description: data.message || "Failed to open billing portal",
-              variant: "destructive",
-            });
-          }
-        } catch (error) {
-          console.error('Error creating portal session:', error);
-          toast({
-            title: "Error",
-            description: "Failed to open billing portal",
-            variant: "destructive",
-          });
-        }
+        // When limit is reached and user clicks Upgrade, preview and confirm a plan change in-app
+        setShowChangePlan(true);
         return;
       }
       return;
@@ -719,8 +800,9 @@ export default function DashboardPage() {
 
   // REMOVED: handleVideoViewingModal - functionality consolidated into project management dialog
 
-  const handleRevisionModal = (project: Project) => {
+  const handleRevisionModal = (project: Project, sessionId?: string) => {
     setRevisionProject(project);
+    setRevisionSessionId(sessionId ?? null);
     setRevisionStep("instructions");
     setRevisionModalOpen(true);
   };
@@ -775,7 +857,7 @@ export default function DashboardPage() {
     );
   }
 
-  const projects: Project[] = (projectsData as any)?.projects || [];
+  const projects: ProjectListItem[] = (projectsData as any)?.projects || [];
 
   // Map Supabase user to expected User interface
   const mappedUser: User = {
@@ -838,6 +920,13 @@ export default function DashboardPage() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {subscription?.status === "past_due" && (
+          <PaymentPastDueBanner
+            isInGracePeriod={subscription.isInGracePeriod}
+            gracePeriodEndsAt={subscription.gracePeriodEndsAt}
+          />
+        )}
+
         {/* User Info */}
         <div className="mb-8">
           <Card className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
@@ -871,7 +960,12 @@ export default function DashboardPage() {
                 <div>
                   <p className="text-sm text-gray-400">Email</p>
                   <p className="text-lg">{mappedUser.email}</p>
-                  {subscription && (
+                  {subscription?.organization && !subscription.canManageBilling && (
+                    <p className="text-xs text-gray-400 mt-2">
+                      Plan shared by {subscription.organization.name}
+                    </p>
+                  )}
+                  {subscription?.canManageBilling && (
                     <div className="mt-2">
                       <Button
                         onClick={async () => {
@@ -921,6 +1015,60 @@ export default function DashboardPage() {
                         <Settings className="h-3 w-3 mr-2" />
                         Manage Subscription
                       </Button>
+                      {subscription.hasActiveSubscription && (
+                        <Button
+                          onClick={() => setShowChangePlan(true)}
+                          variant="outline"
+                          className="ml-2 bg-charcoal/20 border-gray-600 text-light hover:bg-charcoal/40 hover:border-accent h-8"
+                        >
+                          <Crown className="h-3 w-3 mr-2" />
+                          Change Plan
+                        </Button>
+                      )}
+                      {subscription.hasActiveSubscription &&
+                        !subscription.cancelAtPeriodEnd && (
+                          <Button
+                            onClick={() => setShowCancelSubscription(true)}
+                            variant="outline"
+                            className="ml-2 bg-charcoal/20 border-gray-600 text-light hover:bg-charcoal/40 hover:border-red-400 h-8"
+                          >
+                            Cancel Subscription
+                          </Button>
+                        )}
+                      {(subscription.cancelAtPeriodEnd ||
+                        subscription.status === "paused") && (
+                        <div className="flex items-center gap-2 mt-1">
+                          <p className="text-xs text-gray-400">
+                            {subscription.status === "paused"
+                              ? `Paused${
+                                  subscription.pauseResumesAt
+                                    ? ` until ${new Date(subscription.pauseResumesAt).toLocaleDateString()}`
+                                    : ""
+                                }`
+                              : `Cancels${
+                                  subscription.periodEnd
+                                    ? ` on ${new Date(subscription.periodEnd).toLocaleDateString()}`
+                                    : " at the end of this period"
+                                }`}
+                          </p>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resumeSubscriptionMutation.mutate()}
+                            disabled={resumeSubscriptionMutation.isPending}
+                            className="bg-transparent border-gray-600 text-light hover:bg-charcoal/40 hover:border-accent h-6 text-xs"
+                          >
+                            Resume
+                          </Button>
+                        </div>
+                      )}
+                      {subscription.scheduledPlan && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          Changing to {subscription.scheduledPlan.name}
+                          {subscription.periodEnd &&
+                            ` on ${new Date(subscription.periodEnd).toLocaleDateString()}`}
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -955,16 +1103,54 @@ export default function DashboardPage() {
                             {subscription.usage}/{subscription.allowance} Videos
                             Created
                           </p>
-                          {subscription.periodEnd && (
+                          <p className="text-xs text-gray-400">
+                            {subscription.subscriptionCredits}{" "}
+                            {subscription.subscriptionCredits === 1
+                              ? "credit"
+                              : "credits"}{" "}
+                            remaining this period
+                          </p>
+                          {subscription.allowanceResetsAt && (
                             <p className="text-xs text-gray-400">
                               Resets:{" "}
                               {new Date(
-                                subscription.periodEnd,
+                                subscription.allowanceResetsAt,
                               ).toLocaleDateString()}
                             </p>
                           )}
+                          {subscription.billingInterval === "year" &&
+                            subscription.periodEnd && (
+                              <p className="text-xs text-gray-400">
+                                Annual plan renews{" "}
+                                {new Date(
+                                  subscription.periodEnd,
+                                ).toLocaleDateString()}
+                              </p>
+                            )}
+                          {prepaidCredits > 0 && (
+                            <p className="text-xs text-purple-300">
+                              + {prepaidCredits} prepaid{" "}
+                              {prepaidCredits === 1 ? "credit" : "credits"}
+                            </p>
+                          )}
                         </div>
                       </div>
+                    ) : prepaidCredits > 0 ? (
+                      <div className="space-y-1">
+                        <Badge
+                          variant="outline"
+                          className="bg-black border-purple-400 text-purple-400"
+                        >
+                          Prepaid
+                        </Badge>
+                        <p className="text-lg font-semibold">
+                          {prepaidCredits} Video{" "}
+                          {prepaidCredits === 1 ? "Credit" : "Credits"} Left
+                        </p>
+                        <p className="text-xs text-gray-400">
+                          Prepaid credits never expire
+                        </p>
+                      </div>
                     ) : (
                       <div className="space-y-1">
                         <Badge
@@ -990,403 +1176,424 @@ export default function DashboardPage() {
           </Card>
         </div>
 
-        {/* Projects Section */}
-        <div className="mb-8">
-          <div className="flex justify-between items-center mb-6">
-            <div>
-              <h2 className="text-3xl font-bold text-white">Your Projects</h2>
-            </div>
-            <Button
-              className={
-                subscription?.hasActiveSubscription &&
-                subscription?.hasReachedLimit
-                  ? "bg-pink-600 hover:bg-pink-700 font-semibold"
-                  : "bg-accent text-secondary hover:bg-yellow-500 font-semibold"
-              }
-              onClick={handleCreateProject}
-            >
-              {subscription?.hasActiveSubscription &&
-              subscription?.hasReachedLimit ? (
-                <>
-                  <Crown className="h-4 w-4 mr-2" />
-                  Upgrade
-                </>
-              ) : (
-                <>
-                  <Plus className="h-4 w-4 mr-2" />
-                  New Video Request
-                </>
-              )}
-            </Button>
-          </div>
-
-          {projectsLoading ? (
-            <div className="text-white text-center py-8">
-              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mx-auto mb-2"></div>
-              Loading projects...
-            </div>
-          ) : projects.length === 0 ? (
-            <Card className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
-              <CardContent className="py-16 text-center">
-                <Video className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-                <h3 className="text-xl font-semibold mb-2">
-                  Ready to create something amazing?
-                </h3>
-                <p className="text-gray-400 mb-6">
-                  Transform your vision into professional video content. Start
-                  your first project and let our expert team bring your ideas to
-                  life.
-                </p>
+        <Tabs defaultValue="projects" className="w-full">
+          <TabsList className="mb-6 bg-black/40 border border-gray-800/30">
+            <TabsTrigger value="projects">Projects</TabsTrigger>
+            <TabsTrigger value="billing">Billing</TabsTrigger>
+            <TabsTrigger value="team">Team</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="projects">
+            {/* Projects Section */}
+            <div className="mb-8">
+              <div className="flex justify-between items-center mb-6">
+                <div>
+                  <h2 className="text-3xl font-bold text-white">Your Projects</h2>
+                </div>
                 <Button
                   className={
-                    subscription?.hasActiveSubscription &&
-                    subscription?.hasReachedLimit
+                    needsUpgrade
                       ? "bg-pink-600 hover:bg-pink-700 font-semibold"
                       : "bg-accent text-secondary hover:bg-yellow-500 font-semibold"
                   }
                   onClick={handleCreateProject}
                 >
-                  {subscription?.hasActiveSubscription &&
-                  subscription?.hasReachedLimit ? (
+                  {needsUpgrade ? (
                     <>
                       <Crown className="h-4 w-4 mr-2" />
-                      Upgrade to Create More Videos
+                      Upgrade
                     </>
                   ) : (
                     <>
                       <Plus className="h-4 w-4 mr-2" />
-                      Create Your First Video Request
+                      New Video Request
                     </>
                   )}
                 </Button>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {projects.map((project) => (
-                <Card
-                  key={project.id}
-                  className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white hover:bg-black/30 transition-all duration-200 cursor-pointer"
-                  onClick={() => setSelectedProject(project)}
-                >
-                  <CardHeader>
-                    <div className="flex justify-between items-start">
-                      <CardTitle className="text-lg">{project.title}</CardTitle>
-                      <Badge
-                        variant="secondary"
-                        className={`${getStatusColor(project.status)} text-white`}
-                      >
-                        <span className="flex items-center gap-1">
-                          {getStatusIcon(project.status)}
-                          {project.status
-                            .replace("_", " ")
-                            .replace(/\b\w/g, (l) => l.toUpperCase())}
-                        </span>
-                      </Badge>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-2">
-                      <div className="flex justify-between">
-                        <div>
-                          <p className="text-sm text-gray-400">Created</p>
-                          <p className="text-sm">
-                            {new Date(project.createdAt).toLocaleDateString()}
-                          </p>
-                        </div>
-                        <div className="text-right">
-                          <p className="text-sm text-gray-400">Last Updated</p>
-                          <p className="text-sm">
-                            {new Date(project.updatedAt).toLocaleDateString()}
-                          </p>
+              </div>
+
+              {projectsLoading ? (
+                <div className="text-white text-center py-8">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mx-auto mb-2"></div>
+                  Loading projects...
+                </div>
+              ) : projects.length === 0 ? (
+                <Card className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
+                  <CardContent className="py-16 text-center">
+                    <Video className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold mb-2">
+                      Ready to create something amazing?
+                    </h3>
+                    <p className="text-gray-400 mb-6">
+                      Transform your vision into professional video content. Start
+                      your first project and let our expert team bring your ideas to
+                      life.
+                    </p>
+                    <Button
+                      className={
+                        needsUpgrade
+                          ? "bg-pink-600 hover:bg-pink-700 font-semibold"
+                          : "bg-accent text-secondary hover:bg-yellow-500 font-semibold"
+                      }
+                      onClick={handleCreateProject}
+                    >
+                      {needsUpgrade ? (
+                        <>
+                          <Crown className="h-4 w-4 mr-2" />
+                          Upgrade to Create More Videos
+                        </>
+                      ) : (
+                        <>
+                          <Plus className="h-4 w-4 mr-2" />
+                          Create Your First Video Request
+                        </>
+                      )}
+                    </Button>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {projects.map((project) => (
+                    <Card
+                      key={project.id}
+                      className="bg-black/20 backdrop-blur-xl border-gray-800/30 text-white hover:bg-black/30 transition-all duration-200 cursor-pointer"
+                      onClick={() => setSelectedProject(project)}
+                    >
+                      <CardHeader>
+                        <div className="flex justify-between items-start">
+                          <CardTitle className="text-lg">{project.title}</CardTitle>
+                          <Badge
+                            variant="secondary"
+                            className={`${getStatusColor(project.status)} text-white`}
+                          >
+                            <span className="flex items-center gap-1">
+                              {getStatusIcon(project.status)}
+                              {project.status
+                                .replace("_", " ")
+                                .replace(/\b\w/g, (l) => l.toUpperCase())}
+                            </span>
+                          </Badge>
                         </div>
-                      </div>
-                    </div>
-                    <div className="mt-4">
-                      {project.status.toLowerCase() === "delivered" ? (
-                        <Button
-                          size="sm"
-                          className="w-full bg-neon-green hover:bg-yellow-400 text-black transition-colors duration-200"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            // Open consolidated project management dialog with video viewing
-                            setSelectedProject(project);
-                            setCurrentStep("video-ready");
-                          }}
-                        >
-                          <Eye className="h-4 w-4 mr-2" />
-                          Review Your Finished Video
-                        </Button>
-                      ) : project.status.toLowerCase() === "video is ready" ? (
-                        <Button
-                          size="sm"
-                          className="w-full bg-neon-green hover:bg-yellow-400 text-black transition-colors duration-200"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            // Open consolidated project management dialog with video viewing
-                            setSelectedProject(project);
-                            setCurrentStep("video-ready");
-                          }}
-                        >
-                          <Eye className="h-4 w-4 mr-2" />
-                          Review Your Video
-                        </Button>
-                      ) : project.status.toLowerCase() ===
-                        "awaiting revision instructions" ? (
-                        <Button
-                          size="sm"
-                          className="w-full bg-accent text-secondary hover:bg-yellow-500 font-semibold"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleRevisionModal(project);
-                          }}
-                        >
-                          <Eye className="h-4 w-4 mr-2" />
-                          Describe Your Revisions
-                        </Button>
-                      ) : project.status.toLowerCase() ===
-                        "revision in progress" ? (
-                        <Button
-                          size="sm"
-                          className="w-full bg-accent text-secondary hover:bg-yellow-500"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            // Open revision modal in submitted/confirmation state
-                            setRevisionProject(project);
-                            setRevisionModalOpen(true);
-                          }}
-                        >
-                          <Clock className="h-4 w-4 mr-2" />
-                          View Project Status
-                        </Button>
-                      ) : project.status.toLowerCase() === "complete" ? (
+                      </CardHeader>
+                      <CardContent>
                         <div className="space-y-2">
-                          <Button
-                            size="sm"
-                            className="w-full bg-neon-green hover:bg-yellow-400 text-black transition-colors duration-200"
-                            onClick={async (e) => {
-                              e.stopPropagation();
-                              // Use the stored Frame.io review link from the project
-                              const shareLink = project.frameioReviewLink;
-
-                              if (shareLink) {
-                                window.open(shareLink, "_blank");
+                          <div className="flex justify-between">
+                            <div>
+                              <p className="text-sm text-gray-400">Created</p>
+                              <p className="text-sm">
+                                {new Date(project.createdAt).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <div className="text-right">
+                              <p className="text-sm text-gray-400">Last Updated</p>
+                              <p className="text-sm">
+                                {new Date(project.updatedAt).toLocaleDateString()}
+                              </p>
+                            </div>
+                          </div>
+                          {project.footageSummary && (
+                            <p className="text-sm text-gray-400">
+                              <Film className="inline h-4 w-4 mr-1 -mt-0.5" />
+                              {project.footageSummary}
+                            </p>
+                          )}
+                        </div>
+                        <div className="mt-4">
+                          {isProjectStatus(project.status, PROJECT_STATUS.VIDEO_IS_READY) ? (
+                            <Button
+                              size="sm"
+                              className="w-full bg-neon-green hover:bg-yellow-400 text-black transition-colors duration-200"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                // Open consolidated project management dialog with video viewing
+                                setSelectedProject(project);
+                                setCurrentStep("video-ready");
+                              }}
+                            >
+                              <Eye className="h-4 w-4 mr-2" />
+                              Review Your Video
+                            </Button>
+                          ) : isProjectStatus(project.status, PROJECT_STATUS.AWAITING_REVISION_INSTRUCTIONS) ? (
+                            <Button
+                              size="sm"
+                              className="w-full bg-accent text-secondary hover:bg-yellow-500 font-semibold"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRevisionModal(project);
+                              }}
+                            >
+                              <Eye className="h-4 w-4 mr-2" />
+                              Describe Your Revisions
+                            </Button>
+                          ) : isProjectStatus(project.status, PROJECT_STATUS.REVISION_IN_PROGRESS) ? (
+                            <Button
+                              size="sm"
+                              className="w-full bg-accent text-secondary hover:bg-yellow-500"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                // Open revision modal in submitted/confirmation state
+                                setRevisionProject(project);
+                                setRevisionModalOpen(true);
+                              }}
+                            >
+                              <Clock className="h-4 w-4 mr-2" />
+                              View Project Status
+                            </Button>
+                          ) : isProjectStatus(project.status, PROJECT_STATUS.COMPLETE) ? (
+                            <div className="space-y-2">
+                              <Button
+                                size="sm"
+                                className="w-full bg-neon-green hover:bg-yellow-400 text-black transition-colors duration-200"
+                                onClick={async (e) => {
+                                  e.stopPropagation();
+                                  // Use the stored Frame.io review link while it's live; the API renews expired ones
+                                  const isLinkLive =
+                                    project.shareStatus !== "expired" &&
+                                    (!project.shareExpiresAt ||
+                                      new Date(project.shareExpiresAt) > new Date());
+                                  const shareLink = isLinkLive
+                                    ? project.frameioReviewLink
+                                    : null;
+
+                                  if (shareLink) {
+                                    window.open(shareLink, "_blank");
+                                    console.log(
+                                      "Opened existing share link:",
+                                      shareLink,
+                                    );
+                                  } else {
+                                    // Fallback: Try to get share link via API for older projects
+                                    try {
+                                      const data = await apiRequest(
+                                        `/api/projects/${project.id}/video-share-link`,
+                                      );
+                                      if (data?.shareUrl) {
+                                        window.open(data.shareUrl, "_blank");
+                                        console.log(
+                                          "Opened share link from API:",
+                                          data.shareUrl,
+                                        );
+                                      } else {
+                                        throw new Error("No share link available");
+                                      }
+                                    } catch (error) {
+                                      console.error(
+                                        "Error opening share link:",
+                                        error,
+                                      );
+                                      toast({
+                                        title: "Video unavailable",
+                                        description:
+                                          "Could not access the video. Please try viewing the video from the Review screen first.",
+                                        variant: "destructive",
+                                      });
+                                    }
+                                  }
+                                }}
+                              >
+                                <ExternalLink className="h-4 w-4 mr-2" />
+                                Download Final Video
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="w-full border-gray-700 text-gray-300 hover:text-white"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setShareLinkProject(project);
+                                }}
+                              >
+                                <Link2 className="h-4 w-4 mr-2" />
+                                Manage Share Link
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              size="sm"
+                              className="w-full bg-accent text-secondary hover:bg-yellow-500"
+                              onClick={async (e) => {
+                                e.stopPropagation();
                                 console.log(
-                                  "Opened existing share link:",
-                                  shareLink,
+                                  `🟡 BUTTON: Manage & Upload Footage clicked for project ${project.id}`,
                                 );
-                              } else {
-                                // Fallback: Try to get share link via API for older projects
+                                console.log(
+                                  `🟡 BUTTON: Project status is: ${project.status}`,
+                                );
+
+                                // Ensure Frame.io folder structure exists before opening project
                                 try {
-                                  const data = await apiRequest(
-                                    `/api/projects/${project.id}/video-share-link`,
-                                  );
-                                  if (data?.shareUrl) {
-                                    window.open(data.shareUrl, "_blank");
+                                  console.log(`🟡 BUTTON: Getting auth token...`);
+                                  const token = await supabase.auth.getSession();
+                                  if (!token.data.session?.access_token) {
                                     console.log(
-                                      "Opened share link from API:",
-                                      data.shareUrl,
+                                      `🔴 BUTTON: No authentication token found`,
                                     );
+                                    toast({
+                                      title: "Authentication Error",
+                                      description: "Please log in again",
+                                      variant: "destructive",
+                                    });
+                                    return;
+                                  }
+                                  console.log(
+                                    `🟡 BUTTON: Token found, making API call...`,
+                                  );
+
+                                  // Call folder structure verification endpoint
+                                  const url = `/api/projects/${project.id}/ensure-folder-structure`;
+                                  console.log(`🟡 BUTTON: Calling ${url}`);
+                                  const response = await fetch(url, {
+                                    method: "POST",
+                                    headers: {
+                                      Authorization: `Bearer ${token.data.session.access_token}`,
+                                      "Content-Type": "application/json",
+                                    },
+                                  });
+                                  console.log(
+                                    `🟡 BUTTON: Response status: ${response.status}`,
+                                  );
+
+                                  const result = await response.json();
+
+                                  if (result.success) {
+                                    if (result.frameioConfigured) {
+                                      console.log(
+                                        "✅ Frame.io folder structure verified:",
+                                        result.folderStructure,
+                                      );
+                                    } else {
+                                      console.log(
+                                        "⚠️ Frame.io setup needs attention:",
+                                        result.error,
+                                      );
+                                      toast({
+                                        title: "Folder Setup",
+                                        description:
+                                          "Frame.io folder structure verified and ready for uploads",
+                                        duration: 3000,
+                                      });
+                                    }
                                   } else {
-                                    throw new Error("No share link available");
+                                    console.error(
+                                      "❌ Failed to ensure folder structure:",
+                                      result.message,
+                                    );
+                                    toast({
+                                      title: "Setup Warning",
+                                      description:
+                                        "Could not verify folder structure, but you can still proceed",
+                                      variant: "destructive",
+                                      duration: 5000,
+                                    });
                                   }
                                 } catch (error) {
                                   console.error(
-                                    "Error opening share link:",
+                                    "Folder structure check failed:",
                                     error,
                                   );
                                   toast({
-                                    title: "Video unavailable",
+                                    title: "Connection Warning",
                                     description:
-                                      "Could not access the video. Please try viewing the video from the Review screen first.",
+                                      "Could not verify folder setup, but you can still proceed",
                                     variant: "destructive",
+                                    duration: 5000,
                                   });
                                 }
-                              }
-                            }}
-                          >
-                            <ExternalLink className="h-4 w-4 mr-2" />
-                            Download Final Video
-                          </Button>
-                        </div>
-                      ) : (
-                        <Button
-                          size="sm"
-                          className="w-full bg-accent text-secondary hover:bg-yellow-500"
-                          onClick={async (e) => {
-                            e.stopPropagation();
-                            console.log(
-                              `🟡 BUTTON: Manage & Upload Footage clicked for project ${project.id}`,
-                            );
-                            console.log(
-                              `🟡 BUTTON: Project status is: ${project.status}`,
-                            );
-
-                            // Ensure Frame.io folder structure exists before opening project
-                            try {
-                              console.log(`🟡 BUTTON: Getting auth token...`);
-                              const token = await supabase.auth.getSession();
-                              if (!token.data.session?.access_token) {
-                                console.log(
-                                  `🔴 BUTTON: No authentication token found`,
-                                );
-                                toast({
-                                  title: "Authentication Error",
-                                  description: "Please log in again",
-                                  variant: "destructive",
-                                });
-                                return;
-                              }
-                              console.log(
-                                `🟡 BUTTON: Token found, making API call...`,
-                              );
-
-                              // Call folder structure verification endpoint
-                              const url = `/api/projects/${project.id}/ensure-folder-structure`;
-                              console.log(`🟡 BUTTON: Calling ${url}`);
-                              const response = await fetch(url, {
-                                method: "POST",
-                                headers: {
-                                  Authorization: `Bearer ${token.data.session.access_token}`,
-                                  "Content-Type": "application/json",
-                                },
-                              });
-                              console.log(
-                                `🟡 BUTTON: Response status: ${response.status}`,
-                              );
 
-                              const result = await response.json();
+                                // Continue with normal flow regardless of folder setup result
+                                setSelectedProject(project);
 
-                              if (result.success) {
-                                if (result.frameioConfigured) {
+                                // Check if this project has completed revision payments
+                                const hasCompletedRevisions =
+                                  project.revisionCount &&
+                                  project.revisionCount > 0;
+
+                                // Set the appropriate step based on project status AND revision payments
+                                if (
+                                  isProjectStatus(project.status, PROJECT_STATUS.AWAITING_REVISION_INSTRUCTIONS)
+                                ) {
+                                  // Project is awaiting revision instructions = open the revision modal directly
                                   console.log(
-                                    "✅ Frame.io folder structure verified:",
-                                    result.folderStructure,
+                                    `🔄 Project ${project.title} is awaiting revision instructions - opening revision modal`,
                                   );
-                                } else {
+                                  // Don't open the project management dialog, open revision modal instead
+                                  setSelectedProject(null);
+                                  handleRevisionModal(project);
+                                  return; // Exit early to prevent opening project management dialog
+                                } else if (
+                                  isProjectStatus(project.status, PROJECT_STATUS.VIDEO_IS_READY) &&
+                                  hasCompletedRevisions
+                                ) {
+                                  // Project has video ready AND completed revision payments = open revision modal
                                   console.log(
-                                    "⚠️ Frame.io setup needs attention:",
-                                    result.error,
+                                    `🔄 Project ${project.title} has ${project.revisionCount} completed revision payments - opening revision modal`,
                                   );
-                                  toast({
-                                    title: "Folder Setup",
-                                    description:
-                                      "Frame.io folder structure verified and ready for uploads",
-                                    duration: 3000,
-                                  });
+                                  // Don't open the project management dialog, open revision modal instead
+                                  setSelectedProject(null);
+                                  handleRevisionModal(project);
+                                  return; // Exit early to prevent opening project management dialog
+                                } else if (
+                                  isProjectStatus(project.status, PROJECT_STATUS.VIDEO_IS_READY)
+                                ) {
+                                  // Project has video ready but no completed revisions = normal video viewing
+                                  setCurrentStep("video-ready");
+                                } else if (
+                                  isProjectStatus(project.status, PROJECT_STATUS.EDIT_IN_PROGRESS)
+                                ) {
+                                  setCurrentStep("confirmation");
+                                } else {
+                                  setCurrentStep("upload");
                                 }
-                              } else {
-                                console.error(
-                                  "❌ Failed to ensure folder structure:",
-                                  result.message,
-                                );
-                                toast({
-                                  title: "Setup Warning",
-                                  description:
-                                    "Could not verify folder structure, but you can still proceed",
-                                  variant: "destructive",
-                                  duration: 5000,
-                                });
-                              }
-                            } catch (error) {
-                              console.error(
-                                "Folder structure check failed:",
-                                error,
-                              );
-                              toast({
-                                title: "Connection Warning",
-                                description:
-                                  "Could not verify folder setup, but you can still proceed",
-                                variant: "destructive",
-                                duration: 5000,
-                              });
-                            }
-
-                            // Continue with normal flow regardless of folder setup result
-                            setSelectedProject(project);
-
-                            // Check if this project has completed revision payments
-                            const hasCompletedRevisions =
-                              project.revisionCount &&
-                              project.revisionCount > 0;
-
-                            // Set the appropriate step based on project status AND revision payments
-                            if (
-                              project.status.toLowerCase() ===
-                              "awaiting revision instructions"
-                            ) {
-                              // Project is awaiting revision instructions = open the revision modal directly
-                              console.log(
-                                `🔄 Project ${project.title} is awaiting revision instructions - opening revision modal`,
-                              );
-                              // Don't open the project management dialog, open revision modal instead
-                              setSelectedProject(null);
-                              handleRevisionModal(project);
-                              return; // Exit early to prevent opening project management dialog
-                            } else if (
-                              project.status.toLowerCase() ===
-                                "video is ready" &&
-                              hasCompletedRevisions
-                            ) {
-                              // Project has video ready AND completed revision payments = open revision modal
-                              console.log(
-                                `🔄 Project ${project.title} has ${project.revisionCount} completed revision payments - opening revision modal`,
-                              );
-                              // Don't open the project management dialog, open revision modal instead
-                              setSelectedProject(null);
-                              handleRevisionModal(project);
-                              return; // Exit early to prevent opening project management dialog
-                            } else if (
-                              project.status.toLowerCase() === "video is ready"
-                            ) {
-                              // Project has video ready but no completed revisions = normal video viewing
-                              setCurrentStep("video-ready");
-                            } else if (
-                              project.status.toLowerCase() ===
-                                "edit in progress" ||
-                              project.status.toLowerCase() === "delivered"
-                            ) {
-                              setCurrentStep("confirmation");
-                            } else {
-                              setCurrentStep("upload");
-                            }
-                          }}
-                        >
-                          {project.status.toLowerCase() ===
-                          "awaiting revision instructions" ? (
-                            <>
-                              <RotateCcw className="h-4 w-4 mr-2" />
-                              Submit Revision Instructions
-                            </>
-                          ) : project.status.toLowerCase() ===
-                              "video is ready" &&
-                            project.revisionCount &&
-                            project.revisionCount > 0 ? (
-                            <>
-                              <RotateCcw className="h-4 w-4 mr-2" />
-                              Submit Revision Instructions
-                            </>
-                          ) : project.status.toLowerCase() ===
-                            "video is ready" ? (
-                            <>
-                              <Eye className="h-4 w-4 mr-2" />
-                              Review Video
-                            </>
-                          ) : (
-                            <>
-                              <Upload className="h-4 w-4 mr-2" />
-                              Manage & Upload Footage
-                            </>
+                              }}
+                            >
+                              {isProjectStatus(project.status, PROJECT_STATUS.AWAITING_REVISION_INSTRUCTIONS) ? (
+                                <>
+                                  <RotateCcw className="h-4 w-4 mr-2" />
+                                  Submit Revision Instructions
+                                </>
+                              ) : isProjectStatus(project.status, PROJECT_STATUS.VIDEO_IS_READY) &&
+                                project.revisionCount &&
+                                project.revisionCount > 0 ? (
+                                <>
+                                  <RotateCcw className="h-4 w-4 mr-2" />
+                                  Submit Revision Instructions
+                                </>
+                              ) : isProjectStatus(project.status, PROJECT_STATUS.VIDEO_IS_READY) ? (
+                                <>
+                                  <Eye className="h-4 w-4 mr-2" />
+                                  Review Video
+                                </>
+                              ) : (
+                                <>
+                                  <Upload className="h-4 w-4 mr-2" />
+                                  Manage & Upload Footage
+                                </>
+                              )}
+                            </Button>
                           )}
-                        </Button>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </TabsContent>
+
+          <TabsContent value="billing">
+            <ReferralCard />
+            <div className="mb-8">
+              <h2 className="text-3xl font-bold text-white mb-6">
+                Billing History
+              </h2>
+              <BillingHistory />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="team">
+            <TeamManagement />
+          </TabsContent>
+        </Tabs>
       </div>
 
       {/* Project Details Dialog */}
@@ -1430,16 +1637,15 @@ export default function DashboardPage() {
               {/* Step Progress */}
               <div className="flex items-center gap-2 mb-6">
                 <div
-                  className={`flex items-center gap-2 ${currentStep === "upload" ? "text-[#2abdee]" : currentStep === "form" || currentStep === "confirmation" || selectedProject.status.toLowerCase() === "edit in progress" || selectedProject.status.toLowerCase() === "video is ready" ? "text-lime-400" : "text-gray-400"}`}
+                  className={`flex items-center gap-2 ${currentStep === "upload" ? "text-[#2abdee]" : currentStep === "form" || currentStep === "confirmation" || isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) || isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ? "text-lime-400" : "text-gray-400"}`}
                 >
                   <div
-                    className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${currentStep === "upload" ? "bg-[#2abdee] text-white" : currentStep === "form" || currentStep === "confirmation" || selectedProject.status.toLowerCase() === "edit in progress" || selectedProject.status.toLowerCase() === "video is ready" ? "bg-neon-green text-black" : "bg-gray-600"}`}
+                    className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${currentStep === "upload" ? "bg-[#2abdee] text-white" : currentStep === "form" || currentStep === "confirmation" || isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) || isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ? "bg-neon-green text-black" : "bg-gray-600"}`}
                   >
                     {currentStep === "form" ||
                     currentStep === "confirmation" ||
-                    selectedProject.status.toLowerCase() ===
-                      "edit in progress" ||
-                    selectedProject.status.toLowerCase() === "video is ready"
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) ||
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY)
                       ? "✓"
                       : "1"}
                   </div>
@@ -1447,15 +1653,14 @@ export default function DashboardPage() {
                 </div>
                 <div className="flex-1 h-px bg-gray-600 mx-2" />
                 <div
-                  className={`flex items-center gap-2 ${currentStep === "form" ? "text-[#2abdee]" : currentStep === "confirmation" || selectedProject.status.toLowerCase() === "edit in progress" || selectedProject.status.toLowerCase() === "video is ready" ? "text-lime-400" : "text-gray-400"}`}
+                  className={`flex items-center gap-2 ${currentStep === "form" ? "text-[#2abdee]" : currentStep === "confirmation" || isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) || isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ? "text-lime-400" : "text-gray-400"}`}
                 >
                   <div
-                    className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${currentStep === "form" ? "bg-[#2abdee] text-white" : currentStep === "confirmation" || selectedProject.status.toLowerCase() === "edit in progress" || selectedProject.status.toLowerCase() === "video is ready" ? "bg-neon-green text-black" : "bg-gray-600"}`}
+                    className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${currentStep === "form" ? "bg-[#2abdee] text-white" : currentStep === "confirmation" || isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) || isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ? "bg-neon-green text-black" : "bg-gray-600"}`}
                   >
                     {currentStep === "confirmation" ||
-                    selectedProject.status.toLowerCase() ===
-                      "edit in progress" ||
-                    selectedProject.status.toLowerCase() === "video is ready"
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) ||
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY)
                       ? "✓"
                       : "2"}
                   </div>
@@ -1465,11 +1670,9 @@ export default function DashboardPage() {
                 <div
                   className={`flex items-center gap-2 ${
                     // Show as completed (green) if project has been submitted
-                    selectedProject.status.toLowerCase() ===
-                      "edit in progress" ||
-                    selectedProject.status.toLowerCase() === "video is ready" ||
-                    selectedProject.status.toLowerCase() === "delivered" ||
-                    selectedProject.status.toLowerCase() === "complete"
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) ||
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ||
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.COMPLETE)
                       ? "text-lime-400"
                       : currentStep === "confirmation"
                         ? "text-[#2abdee]"
@@ -1479,23 +1682,18 @@ export default function DashboardPage() {
                   <div
                     className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${
                       // Show as completed (green) if project has been submitted
-                      selectedProject.status.toLowerCase() ===
-                        "edit in progress" ||
-                      selectedProject.status.toLowerCase() ===
-                        "video is ready" ||
-                      selectedProject.status.toLowerCase() === "delivered" ||
-                      selectedProject.status.toLowerCase() === "complete"
+                      isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) ||
+                      isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ||
+                        isProjectStatus(selectedProject.status, PROJECT_STATUS.COMPLETE)
                         ? "bg-neon-green text-black"
                         : currentStep === "confirmation"
                           ? "bg-[#2abdee] text-white"
                           : "bg-gray-600"
                     }`}
                   >
-                    {selectedProject.status.toLowerCase() ===
-                      "edit in progress" ||
-                    selectedProject.status.toLowerCase() === "video is ready" ||
-                    selectedProject.status.toLowerCase() === "delivered" ||
-                    selectedProject.status.toLowerCase() === "complete"
+                    {isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) ||
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ||
+                    isProjectStatus(selectedProject.status, PROJECT_STATUS.COMPLETE)
                       ? "✓"
                       : "3"}
                   </div>
@@ -1503,12 +1701,12 @@ export default function DashboardPage() {
                 </div>
                 <div className="flex-1 h-px bg-gray-600 mx-2" />
                 <div
-                  className={`flex items-center gap-2 ${currentStep === "video-ready" ? "text-[#2abdee]" : selectedProject.status === "Video is Ready" ? "text-lime-400" : "text-gray-400"}`}
+                  className={`flex items-center gap-2 ${currentStep === "video-ready" ? "text-[#2abdee]" : isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ? "text-lime-400" : "text-gray-400"}`}
                 >
                   <div
-                    className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${currentStep === "video-ready" ? "bg-[#2abdee] text-white" : selectedProject.status === "Video is Ready" ? "bg-neon-green text-black" : "bg-gray-600"}`}
+                    className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${currentStep === "video-ready" ? "bg-[#2abdee] text-white" : isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ? "bg-neon-green text-black" : "bg-gray-600"}`}
                   >
-                    {selectedProject.status === "Video is Ready" ? "✓" : "4"}
+                    {isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) ? "✓" : "4"}
                   </div>
                   <span className="font-medium">Video is Ready!</span>
                 </div>
@@ -1541,11 +1739,9 @@ export default function DashboardPage() {
                   projectId={selectedProject.id}
                   userId={user?.id || ""}
                   backToUploadButton={
-                    selectedProject.status.toLowerCase() !==
-                      "edit in progress" &&
-                    selectedProject.status.toLowerCase() !== "video is ready" &&
-                    selectedProject.status.toLowerCase() !== "delivered" &&
-                    selectedProject.status.toLowerCase() !== "complete" ? (
+                    !isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) &&
+                    !isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) &&
+                    !isProjectStatus(selectedProject.status, PROJECT_STATUS.COMPLETE) ? (
                       <Button
                         variant="outline"
                         onClick={() => setCurrentStep("upload")}
@@ -1564,10 +1760,8 @@ export default function DashboardPage() {
               ) : currentStep === "confirmation" ? (
                 <div className="space-y-4">
                   {/* Back to Previous Step Button - only show before submission */}
-                  {selectedProject.status.toLowerCase() !==
-                    "edit in progress" &&
-                    selectedProject.status.toLowerCase() !==
-                      "video is ready" && (
+                  {!isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) &&
+                    !isProjectStatus(selectedProject.status, PROJECT_STATUS.VIDEO_IS_READY) && (
                       <div className="flex justify-start mb-4">
                         <Button
                           variant="outline"
@@ -1589,21 +1783,18 @@ export default function DashboardPage() {
                             "Confirmation screen - selectedProject.status:",
                             selectedProject.status,
                           );
-                          return selectedProject.status.toLowerCase() ===
-                            "edit in progress"
+                          return isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS)
                             ? "Project Submitted!"
                             : "Ready to Submit?";
                         })()}
                       </h3>
                       <p className="text-gray-300 mb-6 whitespace-pre-line">
-                        {selectedProject.status.toLowerCase() ===
-                        "edit in progress"
+                        {isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS)
                           ? "Your project is being worked on by an editor 🎉\n You can't upload more footage now, but you can update your instructions if needed."
                           : "Everything looks in order, nice!\n You can send it off to an editor now or need to make changes?"}
                       </p>
                       <div className="flex gap-4 justify-center">
-                        {selectedProject.status.toLowerCase() ===
-                        "edit in progress" ? (
+                        {isProjectStatus(selectedProject.status, PROJECT_STATUS.EDIT_IN_PROGRESS) ? (
                           <Button
                             variant="outline"
                             onClick={() => setCurrentStep("form")}
@@ -1739,6 +1930,26 @@ export default function DashboardPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Share Link Dialog */}
+      <Dialog
+        open={!!shareLinkProject}
+        onOpenChange={(open) => !open && setShareLinkProject(null)}
+      >
+        <DialogContent className="bg-black/95 backdrop-blur-xl border-gray-800/30 text-white">
+          <DialogHeader>
+            <DialogTitle className="text-[#2abdee]">
+              {shareLinkProject?.title}
+            </DialogTitle>
+            <DialogDescription className="text-gray-400">
+              The public link to your finished video, as sent in your delivery email.
+            </DialogDescription>
+          </DialogHeader>
+          {shareLinkProject && (
+            <ShareLinkControls projectId={shareLinkProject.id} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* REMOVED: Duplicate Video Viewing Modal - functionality consolidated into project management dialog */}
 
       {/* Revision Modal */}
@@ -1746,6 +1957,7 @@ export default function DashboardPage() {
         open={revisionModalOpen && !!revisionProject}
         onOpenChange={setRevisionModalOpen}
         project={revisionProject}
+        sessionId={revisionSessionId}
         step={revisionStep}
         onStepChange={setRevisionStep}
       />
@@ -1841,6 +2053,33 @@ export default function DashboardPage() {
           }
         }}
       />
+
+      <CancelSubscriptionDialog
+        isOpen={showCancelSubscription}
+        onClose={() => setShowCancelSubscription(false)}
+        periodEnd={subscription?.periodEnd ?? null}
+        canPause={subscription?.status === "active"}
+        onDowngrade={(survey) => {
+          setShowCancelSubscription(false);
+          setCancellationSurvey(survey);
+          setShowChangePlan(true);
+        }}
+      />
+
+      <ChangePlanDialog
+        isOpen={showChangePlan}
+        onClose={() => {
+          setShowChangePlan(false);
+          setCancellationSurvey(null);
+        }}
+        currentTier={subscription?.tier ?? null}
+        cancellationSurvey={cancellationSurvey}
+        overage={
+          subscription?.hasReachedLimit && prepaidCredits === 0
+            ? subscription.overage
+            : null
+        }
+      />
     </div>
   );
 }
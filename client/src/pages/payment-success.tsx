@@ -5,6 +5,7 @@ import { useLocation } from "wouter";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
 
 export default function PaymentSuccessPage() {
   const [, setLocation] = useLocation();
@@ -17,6 +18,11 @@ export default function PaymentSuccessPage() {
   const paymentType = urlParams.get('type');
   const projectId = urlParams.get('project_id');
   const isRevisionPayment = paymentType === 'revision' && projectId;
+  const isPrepaidPurchase = paymentType === 'prepaid';
+  const isOveragePurchase = paymentType === 'overage';
+  const sessionId = urlParams.get('session_id');
+  const [creditsGranted, setCreditsGranted] = useState<number | null>(null);
+  const [extraVideoProjectId, setExtraVideoProjectId] = useState<number | null>(null);
 
   // Invalidate subscription status on success to refresh data
   useEffect(() => {
@@ -31,6 +37,39 @@ export default function PaymentSuccessPage() {
     }
   }, [queryClient, isRevisionPayment]);
 
+  // Confirm prepaid purchases directly so credits show up even if the webhook is delayed
+  useEffect(() => {
+    if (!isPrepaidPurchase || !sessionId || !isAuthenticated) return;
+
+    apiRequest("POST", "/api/prepaid/verify-purchase", { sessionId })
+      .then((data) => {
+        if (data?.paymentStatus === "completed") {
+          setCreditsGranted(data.credits ?? null);
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/subscription/status"] });
+      })
+      .catch((error) => {
+        console.error("Failed to verify prepaid purchase:", error);
+      });
+  }, [isPrepaidPurchase, sessionId, isAuthenticated, queryClient]);
+
+  // Same for extra video purchases, which also create the project the user asked for
+  useEffect(() => {
+    if (!isOveragePurchase || !sessionId || !isAuthenticated) return;
+
+    apiRequest("POST", "/api/overage/verify-purchase", { sessionId })
+      .then((data) => {
+        if (data?.projectId) {
+          setExtraVideoProjectId(data.projectId);
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/subscription/status"] });
+      })
+      .catch((error) => {
+        console.error("Failed to verify extra video purchase:", error);
+      });
+  }, [isOveragePurchase, sessionId, isAuthenticated, queryClient]);
+
   // Auto-redirect based on payment type
   useEffect(() => {
     if (isAuthenticated && !authLoading) {
@@ -39,6 +78,8 @@ export default function PaymentSuccessPage() {
         // For revision payments, redirect to the specific project
         if (isRevisionPayment) {
           setLocation(`/dashboard?project=${projectId}`);
+        } else if (extraVideoProjectId) {
+          setLocation(`/dashboard?project=${extraVideoProjectId}`);
         } else {
           // For subscription payments, redirect to dashboard
           setLocation("/dashboard");
@@ -47,7 +88,7 @@ export default function PaymentSuccessPage() {
 
       return () => clearTimeout(timer);
     }
-  }, [isAuthenticated, authLoading, setLocation, isRevisionPayment, projectId]);
+  }, [isAuthenticated, authLoading, setLocation, isRevisionPayment, projectId, extraVideoProjectId]);
 
   // If not authenticated, redirect to auth page
   useEffect(() => {
@@ -92,6 +133,46 @@ export default function PaymentSuccessPage() {
     );
   }
 
+  if (isPrepaidPurchase) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-secondary via-purple-900 to-primary flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
+          <CardContent className="p-8 text-center">
+            <div className="mx-auto mb-4 w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center">
+              <CheckCircle className="h-8 w-8 text-green-400" />
+            </div>
+            <h2 className="text-2xl font-semibold mb-2">Payment Successful!</h2>
+            <p className="text-gray-300">
+              {creditsGranted
+                ? `${creditsGranted} video credits have been added to your account. They never expire.`
+                : "Your video credits are being added to your account. They never expire."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isOveragePurchase) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-secondary via-purple-900 to-primary flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-black/20 backdrop-blur-xl border-gray-800/30 text-white">
+          <CardContent className="p-8 text-center">
+            <div className="mx-auto mb-4 w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center">
+              <CheckCircle className="h-8 w-8 text-green-400" />
+            </div>
+            <h2 className="text-2xl font-semibold mb-2">Payment Successful!</h2>
+            <p className="text-gray-300">
+              {extraVideoProjectId
+                ? "Your extra video project has been created."
+                : "Your extra video project is being created."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // Original subscription payment success content
   return (
     <div className="min-h-screen bg-gradient-to-br from-secondary via-purple-900 to-primary flex items-center justify-center p-4">
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -7,6 +8,8 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { usePlans, type BillingInterval } from "@/hooks/usePlans";
+import { BillingIntervalToggle } from "@/components/BillingIntervalToggle";
 import { Check, ArrowLeft, CreditCard, Calendar, Plus } from "lucide-react";
 
 interface SubscriptionStatus {
@@ -20,51 +23,9 @@ interface SubscriptionStatus {
   stripeCustomerId: string;
 }
 
-// Use the exact same pricing data as the landing page
-const subscriptionPlans = [
-  {
-    name: "Growth Accelerator",
-    cadence: "2 videos per week",
-    price: "$18",
-    monthlyTotal: "$144 billed monthly",
-    description:
-      "Perfect for committed creators looking to increase their reach",
-    features: [
-      "2 videos delivered every week",
-      "48-hour turnaround guaranteed",
-    ],
-    highlighted: true,
-    buttonText: "Start Bi-Weekly Plan",
-    buttonVariant: "default" as const,
-  },
-  {
-    name: "Consistency Club",
-    cadence: "1 video per week",
-    price: "$19",
-    monthlyTotal: "$76 billed monthly",
-    description:
-      "Ideal for progressing your business, hobby, and personal projects",
-    features: ["1 video delivered every week", "4-day turnaround guaranteed"],
-    highlighted: false,
-    buttonText: "Start Weekly Plan",
-    buttonVariant: "outline" as const,
-  },
-  {
-    name: "Creative Spark",
-    cadence: "1 video per month",
-    price: "$20",
-    monthlyTotal: "$20 billed monthly",
-    description:
-      "Our most accessible plan, designed to let everyone share their moments",
-    features: ["1 video delivered every month", "7-day turnaround guaranteed"],
-    highlighted: false,
-    buttonText: "Start Monthly Plan",
-    buttonVariant: "outline" as const,
-  },
-];
-
 const prepaidPackages = [
   {
+    key: "package_5",
     name: "5 Video Package",
     videoCount: 5,
     price: "$25",
@@ -74,13 +35,14 @@ const prepaidPackages = [
       "5 video editing credits",
       "Great for longer content",
       "1 credit = up to 3 minutes of final video",
-      "Use anytime within 1 year",
+      "Credits never expire",
     ],
     highlighted: false,
     buttonText: "Buy 5 Credits",
     buttonVariant: "outline" as const,
   },
   {
+    key: "package_10",
     name: "10 Video Package",
     videoCount: 10,
     price: "$24",
@@ -90,13 +52,14 @@ const prepaidPackages = [
       "10 video editing credits",
       "Great for longer content",
       "1 credit = up to 3 minutes of final video",
-      "Use anytime within 1 year",
+      "Credits never expire",
     ],
     highlighted: false,
     buttonText: "Buy 10 Credits",
     buttonVariant: "outline" as const,
   },
   {
+    key: "package_20",
     name: "20 Video Package",
     videoCount: 20,
     price: "$23",
@@ -106,7 +69,7 @@ const prepaidPackages = [
       "20 video editing credits",
       "Great for longer content",
       "1 credit = up to 3 minutes of final video",
-      "Use anytime within 1 year",
+      "Credits never expire",
     ],
     highlighted: true,
     buttonText: "Buy 20 Credits",
@@ -116,10 +79,17 @@ const prepaidPackages = [
 
 export default function SubscribePage() {
   const [selectedTab, setSelectedTab] = useState<"subscription" | "prepaid">("subscription");
+  // Promo links look like /subscribe?promo=CODE; without a code Stripe Checkout offers its own field
+  const [promoCode, setPromoCode] = useState(
+    () => new URLSearchParams(window.location.search).get("promo") || "",
+  );
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { user, isAuthenticated } = useAuth();
   const queryClient = useQueryClient();
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month");
+  // Same plan catalog as the landing page
+  const { planCards: subscriptionPlans, hasAnnualPlans } = usePlans(billingInterval);
 
   // Get subscription status
   const { data: subscriptionData, isLoading } = useQuery({
@@ -132,7 +102,11 @@ export default function SubscribePage() {
   // Create checkout session mutation
   const createCheckoutMutation = useMutation({
     mutationFn: async (tier: string) => {
-      const response = await apiRequest("POST", "/api/subscription/create-checkout", { tier });
+      const response = await apiRequest("POST", "/api/subscription/create-checkout", {
+        tier,
+        interval: billingInterval,
+        promoCode: promoCode.trim() || undefined,
+      });
       return response;
     },
     onSuccess: (data) => {
@@ -157,26 +131,49 @@ export default function SubscribePage() {
     },
   });
 
+  // Create one-time checkout for a prepaid package
+  const createPrepaidCheckoutMutation = useMutation({
+    mutationFn: async (packageKey: string) => {
+      const response = await apiRequest("POST", "/api/prepaid/create-checkout", { packageKey });
+      return response;
+    },
+    onSuccess: (data) => {
+      if (data.success && data.checkoutUrl) {
+        toast({
+          title: "Redirecting to checkout...",
+          description: "You'll be redirected to Stripe to complete your purchase.",
+        });
+
+        window.location.href = data.checkoutUrl;
+      } else {
+        throw new Error(data.message || "Failed to create checkout session");
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Checkout failed",
+        description: error.message || "Failed to create checkout session",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handlePlanSelect = (planName: string) => {
     // Map plan names to subscription tiers
-    const tierMap: { [key: string]: string } = {
-      "Creative Spark": "basic",
-      "Consistency Club": "standard", 
-      "Growth Accelerator": "premium"
-    };
-    
-    const tier = tierMap[planName];
+    const tier = subscriptionPlans.find((plan) => plan.name === planName)?.key;
     if (tier) {
       createCheckoutMutation.mutate(tier);
-    } else {
-      // For prepaid packages, redirect to contact or show message
-      toast({
-        title: "Coming Soon",
-        description: "Prepaid packages will be available soon. Please try our subscription plans.",
-      });
+      return;
+    }
+
+    const packageKey = prepaidPackages.find((pkg) => pkg.name === planName)?.key;
+    if (packageKey) {
+      createPrepaidCheckoutMutation.mutate(packageKey);
     }
   };
 
+  const isCheckoutPending = createCheckoutMutation.isPending || createPrepaidCheckoutMutation.isPending;
+
   const currentPlans = selectedTab === "subscription" ? subscriptionPlans : prepaidPackages;
 
   if (isLoading) {
@@ -232,14 +229,18 @@ export default function SubscribePage() {
                   </div>
                 </button>
                 <button
-                  disabled
-                  className="flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all duration-300 relative cursor-not-allowed opacity-50 text-gray-500 bg-gray-700/50"
+                  onClick={() => setSelectedTab("prepaid")}
+                  className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition-all duration-300 relative ${
+                    selectedTab === "prepaid"
+                      ? "bg-purple-500 text-white shadow-lg"
+                      : "text-gray-400 hover:text-light"
+                  }`}
                 >
                   <CreditCard className="h-5 w-5" />
                   <span>Prepaid Packages</span>
                   <div className="absolute -top-3 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-20">
-                    <span className="text-xs text-gray-400 bg-gray-600 border border-gray-500 px-2 py-1 rounded-full whitespace-nowrap shadow-lg">
-                      Coming Soon
+                    <span className="text-xs text-purple-300 bg-dark border border-purple-400 px-2 py-1 rounded-full whitespace-nowrap shadow-lg">
+                      Never expire
                     </span>
                   </div>
                 </button>
@@ -250,9 +251,27 @@ export default function SubscribePage() {
           {/* Subscription Disclaimer */}
           {selectedTab === "subscription" && (
             <div className="text-center mb-12">
+              {hasAnnualPlans && (
+                <div className="mb-4">
+                  <BillingIntervalToggle
+                    value={billingInterval}
+                    onChange={setBillingInterval}
+                  />
+                </div>
+              )}
               <p className="text-gray-400 text-sm">
-                Change plans or cancel anytime
+                {billingInterval === "year"
+                  ? "Billed once a year - your video allowance still renews every month"
+                  : "Change plans or cancel anytime"}
               </p>
+              <div className="mt-4 flex justify-center">
+                <Input
+                  value={promoCode}
+                  onChange={(e) => setPromoCode(e.target.value)}
+                  placeholder="Promo code (optional)"
+                  className="max-w-xs bg-gray-800 border-gray-700 text-light text-center"
+                />
+              </div>
             </div>
           )}
         </div>
@@ -371,6 +390,11 @@ export default function SubscribePage() {
                       <p className="text-lg font-semibold text-accent">
                         {(plan as any).monthlyTotal}
                       </p>
+                      {"annualSavings" in plan && plan.annualSavings && (
+                        <p className="text-sm text-green-400">
+                          {plan.annualSavings}
+                        </p>
+                      )}
                     </>
                   )}
                   {selectedTab === "prepaid" && (
@@ -404,7 +428,7 @@ export default function SubscribePage() {
                 <Button
                   onClick={() => handlePlanSelect(plan.name)}
                   variant={plan.buttonVariant}
-                  disabled={createCheckoutMutation.isPending}
+                  disabled={isCheckoutPending}
                   className={`w-full py-3 font-semibold transition-all duration-300 ${
                     plan.highlighted
                       ? selectedTab === "subscription"
@@ -415,7 +439,7 @@ export default function SubscribePage() {
                         : "bg-purple-600 text-white hover:bg-purple-500 border-purple-500 hover:border-purple-400"
                   }`}
                 >
-                  {createCheckoutMutation.isPending ? "Processing..." : plan.buttonText}
+                  {isCheckoutPending ? "Processing..." : plan.buttonText}
                 </Button>
               </CardContent>
             </Card>
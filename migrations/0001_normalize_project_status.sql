@@ -0,0 +1,44 @@
+-- Normalize project statuses to the canonical values defined in shared/projectStatus.ts.
+-- Earlier code wrote mixed casing ("Edit in Progress", "Video is Ready") and the
+-- legacy "delivered" status, which broke asset detection and dashboard filtering.
+--
+-- Apply once before deploying the state machine:
+--   psql "$DATABASE_URL" -f migrations/0001_normalize_project_status.sql
+
+BEGIN;
+
+UPDATE projects
+SET status = lower(regexp_replace(trim(status), '\s+', ' ', 'g'))
+WHERE status <> lower(regexp_replace(trim(status), '\s+', ' ', 'g'));
+
+UPDATE projects
+SET status = 'video is ready'
+WHERE status = 'delivered';
+
+UPDATE project_status_log
+SET old_status = CASE
+      WHEN lower(regexp_replace(trim(old_status), '\s+', ' ', 'g')) = 'delivered' THEN 'video is ready'
+      ELSE lower(regexp_replace(trim(old_status), '\s+', ' ', 'g'))
+    END
+WHERE old_status IS NOT NULL;
+
+UPDATE project_status_log
+SET new_status = CASE
+      WHEN lower(regexp_replace(trim(new_status), '\s+', ' ', 'g')) = 'delivered' THEN 'video is ready'
+      ELSE lower(regexp_replace(trim(new_status), '\s+', ' ', 'g'))
+    END;
+
+-- Any remaining value is not a known status and needs manual review
+SELECT id, status
+FROM projects
+WHERE status NOT IN (
+  'draft',
+  'awaiting instructions',
+  'edit in progress',
+  'video is ready',
+  'awaiting revision instructions',
+  'revision in progress',
+  'complete'
+);
+
+COMMIT;
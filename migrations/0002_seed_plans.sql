@@ -0,0 +1,49 @@
+-- Seed the plans table with the subscription tiers that were previously hard-coded
+-- in server/routes.ts (SUBSCRIPTION_TIERS), stripe-price-resolver.ts (lookup keys)
+-- and pricing-section.tsx (display prices and copy).
+--
+-- Apply once after `npm run db:push` has created the plans table:
+--   psql "$DATABASE_URL" -f migrations/0002_seed_plans.sql
+-- Then use "Sync from Stripe" on /admin/plans to refresh price IDs and amounts.
+
+BEGIN;
+
+INSERT INTO plans (
+  key, name, description, cadence, features, button_text,
+  allowance, included_revisions, included_revisions_per,
+  stripe_lookup_key, stripe_product_id, unit_amount, currency, billing_interval,
+  highlighted, sort_order
+) VALUES
+  (
+    'premium', 'Growth Accelerator',
+    'Perfect for committed creators looking to increase their reach',
+    '2 videos per week',
+    ARRAY['2 videos delivered every week', '48-hour turnaround guaranteed'],
+    'Start Bi-Weekly Plan',
+    8, 4, 'period',
+    'tier_3_launch', 'prod_Sm3pNUZ42txw8o', 14400, 'usd', 'month',
+    true, 1
+  ),
+  (
+    'standard', 'Consistency Club',
+    'Ideal for progressing your business, hobby, and personal projects',
+    '1 video per week',
+    ARRAY['1 video delivered every week', '4-day turnaround guaranteed'],
+    'Start Weekly Plan',
+    4, 1, 'project',
+    'tier_2_launch', 'prod_SlhNEEOKukgpjo', 7600, 'usd', 'month',
+    false, 2
+  ),
+  (
+    'basic', 'Creative Spark',
+    'Our most accessible plan, designed to let everyone share their moments',
+    '1 video per month',
+    ARRAY['1 video delivered every month', '7-day turnaround guaranteed'],
+    'Start Monthly Plan',
+    1, 0, 'project',
+    'tier_1_launch', 'prod_SlhMaAjk64ykbk', 2000, 'usd', 'month',
+    false, 3
+  )
+ON CONFLICT (key) DO NOTHING;
+
+COMMIT;
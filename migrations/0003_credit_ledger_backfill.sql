@@ -0,0 +1,49 @@
+-- Move video credits from the users.subscription_usage / subscription_allowance /
+-- prepaid_credits counters and projects.used_prepaid_credit into the append-only
+-- credit_ledger table. Balances are now the sum of a user's ledger entries.
+--
+-- Apply once BEFORE `npm run db:push`, which drops the old columns:
+--   psql "$DATABASE_URL" -f migrations/0003_credit_ledger_backfill.sql
+--   npm run db:push
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id serial PRIMARY KEY,
+  user_id text NOT NULL REFERENCES users(id),
+  entry_type text NOT NULL,
+  credit_type text NOT NULL,
+  amount integer NOT NULL,
+  source_type text NOT NULL,
+  source_id text,
+  note text,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS credit_ledger_user_idx ON credit_ledger (user_id, credit_type);
+CREATE UNIQUE INDEX IF NOT EXISTS credit_ledger_source_unique
+  ON credit_ledger (entry_type, source_type, source_id)
+  WHERE source_type IN ('stripe_invoice', 'prepaid_purchase', 'project');
+
+-- Current period allowance for active subscribers...
+INSERT INTO credit_ledger (user_id, entry_type, credit_type, amount, source_type, note, created_at)
+SELECT id, 'grant', 'subscription', subscription_allowance, 'admin_comp',
+       'Backfilled from subscription counters', coalesce(subscription_period_start, now())
+FROM users
+WHERE subscription_status = 'active' AND coalesce(subscription_allowance, 0) > 0;
+
+-- ...minus what was already used this period
+INSERT INTO credit_ledger (user_id, entry_type, credit_type, amount, source_type, note)
+SELECT id, 'consumption', 'subscription', -least(subscription_usage, subscription_allowance), 'admin_comp',
+       'Backfilled from subscription counters'
+FROM users
+WHERE subscription_status = 'active' AND coalesce(subscription_allowance, 0) > 0
+  AND coalesce(subscription_usage, 0) > 0;
+
+-- Unspent prepaid package credits
+INSERT INTO credit_ledger (user_id, entry_type, credit_type, amount, source_type, note)
+SELECT id, 'grant', 'prepaid', prepaid_credits, 'admin_comp', 'Backfilled from prepaid credit balance'
+FROM users
+WHERE prepaid_credits > 0;
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- Extra video (overage) purchases write credit_ledger grants with
+-- source_type 'overage_purchase', which joins the partial unique index that
+-- keeps each purchase from being granted twice. Recreate the index with the
+-- wider WHERE clause:
+--   psql "$DATABASE_URL" -f migrations/0004_overage_ledger_source_index.sql
+
+BEGIN;
+
+DROP INDEX IF EXISTS credit_ledger_source_unique;
+CREATE UNIQUE INDEX credit_ledger_source_unique
+  ON credit_ledger (entry_type, source_type, source_id)
+  WHERE source_type IN ('stripe_invoice', 'prepaid_purchase', 'overage_purchase', 'project');
+
+COMMIT;
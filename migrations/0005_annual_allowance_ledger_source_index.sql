@@ -0,0 +1,14 @@
+-- Annual plans grant their allowance monthly with credit_ledger source_type
+-- 'allowance_schedule', which joins the partial unique index that keeps each
+-- month from being granted twice. Recreate the index with the wider WHERE
+-- clause:
+--   psql "$DATABASE_URL" -f migrations/0005_annual_allowance_ledger_source_index.sql
+
+BEGIN;
+
+DROP INDEX IF EXISTS credit_ledger_source_unique;
+CREATE UNIQUE INDEX credit_ledger_source_unique
+  ON credit_ledger (entry_type, source_type, source_id)
+  WHERE source_type IN ('stripe_invoice', 'prepaid_purchase', 'overage_purchase', 'allowance_schedule', 'project');
+
+COMMIT;
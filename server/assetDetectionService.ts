@@ -2,17 +2,50 @@
  * Asset Detection Service
  * Automatically detects new video assets uploaded to projects in "edit in progress" status
  * and transitions them to "video is ready" status when videos are delivered.
+ *
+ * Checks run from a Postgres-backed queue (asset_check_jobs) with one job per waiting project.
+ * Frame.io webhooks (file.ready / file.versioned) make a project's job due right away; the
+ * scheduled reconcile pass catches any delivery a webhook missed. Only the instance holding the
+ * runner lock processes jobs, failed checks back off exponentially, and every run is recorded
+ * in job_runs.
  */
 
 import { storage } from './storage.js';
-import { frameioV4Service } from './frameioV4Service.js';
+import { getMediaProvider } from './services/media-provider.js';
 import { emailService } from './emailService.js';
 import { trelloAutomation } from './services/trello-automation.js';
+import { extractMediaMetadata } from './services/media-metadata.js';
+import { getShareLinkState, renewProjectShare } from './services/share-links.js';
+import { getAssetReconcileIntervalMinutes } from './config/frameioWebhooks.js';
+import { getAssetCheckConcurrency } from './config/assetDetection.js';
+import type { AssetCheckJob, JobRunTrigger } from '../shared/schema.js';
+
+const DETECTABLE_STATUSES = ['edit in progress', 'revision in progress'] as const;
+
+export const ASSET_CHECK_JOB_TYPE = 'asset_check';
+
+const TICK_INTERVAL_MS = 60 * 1000; // Look for due jobs every minute
+const RUNNER_LOCK_KEY = 'asset-detection-runner';
+const RUNNER_LOCK_TTL_SECONDS = 10 * 60; // Another instance takes over if a runner dies mid-pass
+const JOB_LEASE_MS = 10 * 60 * 1000;
+const JOBS_PER_TICK = 50;
+// Backoff after consecutive failures: 2, 4, 8 ... minutes, capped at 2 hours
+const BACKOFF_BASE_MS = 2 * 60 * 1000;
+const BACKOFF_MAX_MS = 2 * 60 * 60 * 1000;
+
+export interface AssetCheckSummary {
+  checked: number;
+  updated: number;
+  failed: number;
+  projects: any[];
+}
 
 class AssetDetectionService {
   private isRunning = false;
   private interval: NodeJS.Timeout | null = null;
-  private readonly CHECK_INTERVAL_MS = 5 * 60 * 1000; // Check every 5 minutes
+  private readonly RECONCILE_INTERVAL_MS = getAssetReconcileIntervalMinutes() * 60 * 1000;
+  // A pass already running in this process (the runner lock covers other instances)
+  private activePass: Promise<AssetCheckSummary | null> | null = null;
 
   /**
    * Start the automatic asset detection service
@@ -27,18 +60,18 @@ class AssetDetectionService {
     console.log('🚀 Starting automatic asset detection service');
     
     // Run immediate check on startup
-    this.checkForNewAssets().catch(error => {
+    this.runDueJobs('schedule').catch(error => {
       console.error('❌ Initial asset check failed:', error);
     });
 
-    // Schedule periodic checks
+    // Poll the queue for due jobs
     this.interval = setInterval(() => {
-      this.checkForNewAssets().catch(error => {
+      this.runDueJobs('schedule').catch(error => {
         console.error('❌ Scheduled asset check failed:', error);
       });
-    }, this.CHECK_INTERVAL_MS);
+    }, TICK_INTERVAL_MS);
 
-    console.log(`✅ Asset detection service started (checking every ${this.CHECK_INTERVAL_MS / 60000} minutes)`);
+    console.log(`✅ Asset detection service started (reconciling every ${this.RECONCILE_INTERVAL_MS / 60000} minutes)`);
   }
 
   /**
@@ -61,66 +94,162 @@ class AssetDetectionService {
   }
 
   /**
-   * Manual trigger for asset detection (for debugging)
+   * Check every waiting project now (admin). Returns null when another instance holds the runner lock.
    */
-  async triggerManualCheck(): Promise<{ checked: number; updated: number; projects: any[] }> {
+  async triggerManualCheck(): Promise<AssetCheckSummary | null> {
     console.log('🔧 Manual asset detection triggered');
-    return await this.checkForNewAssets();
+    await storage.syncAssetCheckJobs([...DETECTABLE_STATUSES]);
+    await storage.requestAllAssetChecks('manual');
+    // Let a pass that is already running finish first so the forced jobs aren't left for the next tick
+    await this.activePass;
+    return this.runDueJobs('manual');
+  }
+
+  /**
+   * Make one project's check due now (Frame.io webhook for a file in its folder) and run it
+   */
+  async requestProjectCheck(projectId: number, trigger: JobRunTrigger): Promise<void> {
+    await storage.requestAssetCheck(projectId, trigger);
+    this.runDueJobs(trigger).catch(error => {
+      console.error(`❌ Asset check for project ${projectId} failed:`, error);
+    });
+  }
+
+  private runDueJobs(trigger: JobRunTrigger): Promise<AssetCheckSummary | null> {
+    if (this.activePass) {
+      return this.activePass;
+    }
+
+    this.activePass = this.runPass(trigger).finally(() => {
+      this.activePass = null;
+    });
+    return this.activePass;
   }
 
   /**
-   * Check all projects in "edit in progress" and "revision in progress" status for new video assets
+   * One pass over the queue: sync jobs with project statuses, then run due jobs with bounded concurrency
    */
-  private async checkForNewAssets(): Promise<{ checked: number; updated: number; projects: any[] }> {
+  private async runPass(trigger: JobRunTrigger): Promise<AssetCheckSummary | null> {
+    const lockAcquired = await storage.acquireRefreshLock(RUNNER_LOCK_KEY, RUNNER_LOCK_TTL_SECONDS);
+    if (!lockAcquired) {
+      console.log('🔒 Asset detection is running on another instance');
+      return null;
+    }
+
     try {
-      console.log('🔍 Checking for new video assets in projects...');
-      
-      // Get all projects in "edit in progress" and "revision in progress" status
-      const projectsInProgress = await storage.getProjectsByStatus(['edit in progress', 'revision in progress']);
-      console.log(`📊 Found ${projectsInProgress.length} projects in "edit in progress" or "revision in progress" status`);
+      await storage.syncAssetCheckJobs([...DETECTABLE_STATUSES]);
+      const dueJobs = await storage.getDueAssetCheckJobs(JOBS_PER_TICK);
 
-      const results = {
-        checked: projectsInProgress.length,
+      const results: AssetCheckSummary = {
+        checked: 0,
         updated: 0,
-        projects: [] as any[]
+        failed: 0,
+        projects: []
       };
 
-      if (projectsInProgress.length === 0) {
+      if (dueJobs.length === 0) {
         return results;
       }
 
-      // Initialize Frame.io service
-      await frameioV4Service.initialize();
+      console.log(`🔍 Checking ${dueJobs.length} projects for new video assets (${trigger})`);
 
-      for (const project of projectsInProgress) {
-        try {
-          const projectResult = await this.checkProjectForAssets(project);
+      const queue = [...dueJobs];
+      const workers = Array.from({ length: Math.min(getAssetCheckConcurrency(), queue.length) }, async () => {
+        for (let job = queue.shift(); job; job = queue.shift()) {
+          const projectResult = await this.runJob(job);
+          if (!projectResult) continue;
+
+          results.checked++;
           results.projects.push(projectResult);
-          
-          if (projectResult.statusUpdated) {
+          if (projectResult.error) {
+            results.failed++;
+          } else if (projectResult.statusUpdated) {
             results.updated++;
           }
-        } catch (error) {
-          console.error(`❌ Failed to check project ${project.id}:`, error instanceof Error ? error.message : String(error));
-          results.projects.push({
-            id: project.id,
-            title: project.title,
-            error: error instanceof Error ? error.message : String(error),
-            statusUpdated: false
-          });
         }
-      }
+      });
+      await Promise.all(workers);
 
       if (results.updated > 0) {
         console.log(`🎉 Asset detection completed: ${results.updated} projects updated to "video is ready"`);
       } else {
         console.log(`✅ Asset detection completed: no new videos found`);
       }
+      if (results.failed > 0) {
+        console.log(`⚠️ ${results.failed} project checks failed and will be retried with backoff`);
+      }
 
       return results;
+    } finally {
+      await storage.releaseRefreshLock(RUNNER_LOCK_KEY);
+    }
+  }
+
+  /**
+   * Claim and run one project's job, recording the outcome in job_runs
+   */
+  private async runJob(job: AssetCheckJob): Promise<any | null> {
+    const claimed = await storage.claimAssetCheckJob(job.id, JOB_LEASE_MS);
+    if (!claimed) {
+      return null;
+    }
+
+    const project = await storage.getProject(claimed.projectId);
+    if (!project || !(DETECTABLE_STATUSES as readonly string[]).includes(project.status)) {
+      await storage.deleteAssetCheckJob(claimed.projectId);
+      return null;
+    }
+
+    const startedAt = new Date();
+    const attempt = claimed.consecutiveFailures + 1;
+
+    try {
+      await getMediaProvider().connect();
+      const result = await this.checkProjectForAssets(project);
+
+      if (result.statusUpdated) {
+        await storage.deleteAssetCheckJob(project.id);
+      } else {
+        await storage.completeAssetCheckJob(
+          claimed.id,
+          claimed.nextRunAt,
+          new Date(Date.now() + this.RECONCILE_INTERVAL_MS)
+        );
+      }
+
+      await storage.recordJobRun({
+        jobType: ASSET_CHECK_JOB_TYPE,
+        projectId: project.id,
+        trigger: claimed.trigger,
+        status: 'succeeded',
+        attempt,
+        result: { videoCount: result.videoCount, statusUpdated: result.statusUpdated, isRevision: result.isRevision },
+        startedAt,
+      });
+
+      return result;
     } catch (error) {
-      console.error('❌ Asset detection service failed:', error);
-      throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+      console.error(`❌ Failed to check project ${project.id} (attempt ${attempt}), retrying in ${Math.round(delay / 60000)} minutes:`, message);
+
+      await storage.completeAssetCheckJob(claimed.id, claimed.nextRunAt, new Date(Date.now() + delay), message);
+      await storage.recordJobRun({
+        jobType: ASSET_CHECK_JOB_TYPE,
+        projectId: project.id,
+        trigger: claimed.trigger,
+        status: 'failed',
+        attempt,
+        error: message,
+        startedAt,
+      });
+
+      return {
+        id: project.id,
+        title: project.title,
+        error: message,
+        statusUpdated: false
+      };
     }
   }
 
@@ -149,7 +278,8 @@ class AssetDetectionService {
     console.log(`🔒 PROJECT-SPECIFIC DETECTION: Only checking folder ${project.mediaFolderId} for project ${project.id}`);
     
     // Get assets from the project's dedicated folder only
-    const folderAssets = await frameioV4Service.getFolderAssets(project.mediaFolderId);
+    // getFolderChildren rather than getFolderAssets so provider errors fail the job and back off
+    const folderAssets = await getMediaProvider().getFolderChildren(project.mediaFolderId);
     
     // Log all assets first for debugging
     console.log(`📂 Found ${folderAssets.length} total assets in folder:`);
@@ -296,14 +426,21 @@ class AssetDetectionService {
       const videoType = result.isRevision ? "revision" : "initial";
       console.log(`🚀 Updating project ${project.id} status to "video is ready" based on ${videoType} video: "${selectedVideo.name}"`);
       
-      // Log the status change
-      await storage.logProjectStatusChange(project.id, project.status, 'video is ready');
-      
+      // Status change is validated and logged by storage
       await storage.updateProject(project.id, {
         status: 'video is ready',
         updatedAt: new Date(),
       });
 
+      // Record delivery against the open revision
+      if (result.isRevision) {
+        try {
+          await storage.markProjectRevisionDelivered(project.id, selectedVideo.id);
+        } catch (error) {
+          console.error(`Failed to record revision delivery for project ${project.id}:`, error);
+        }
+      }
+
       // Move Trello card to waiting on approval
       try {
         if (result.isRevision) {
@@ -323,6 +460,11 @@ class AssetDetectionService {
       
       result.statusUpdated = true;
 
+      // Record the delivered video's duration, resolution and codecs alongside the footage
+      extractMediaMetadata(project.id, selectedVideo.id, 'deliverable').catch((error) => {
+        console.error(`❌ Failed to extract metadata for delivered video "${selectedVideo.name}":`, error);
+      });
+
       // Create/ensure public share link exists BEFORE sending email
       try {
         await this.ensurePublicShareLink(project, selectedVideo);
@@ -366,6 +508,12 @@ class AssetDetectionService {
           frameioVideoFileType: videoAsset.media_type || 'video/mp4',
           updatedAt: new Date()
         });
+        if (shareResult.shareId !== project.frameioReviewShareId) {
+          await storage.updateProjectShareState(project.id, {
+            shareStatus: 'active',
+            shareExpiresAt: shareResult.expiresAt ?? null,
+          });
+        }
       }
       
     } catch (error) {
@@ -396,6 +544,11 @@ class AssetDetectionService {
     if (project.frameioReviewLink && 
         (project.frameioReviewLink.includes('f.io/') || project.frameioReviewLink.includes('share.frame.io'))) {
       console.log(`✅ Found existing project-level public share link: ${project.frameioReviewLink}`);
+
+      // Renew a lapsed link first so the delivery email doesn't point at a dead page
+      if (getShareLinkState(project).status === 'expired') {
+        project = await renewProjectShare(project);
+      }
       
       return {
         shareUrl: project.frameioReviewLink,
@@ -422,9 +575,10 @@ class AssetDetectionService {
     // PRIORITY 3: Create new share link using Frame.io V4 service
     console.log(`🔨 Creating new Frame.io V4 public share for asset ${videoFile.mediaAssetId}`);
     
-    await frameioV4Service.initialize();
+    const media = getMediaProvider();
+    await media.connect();
     const shareName = `${project.title} - Video Review`;
-    const shareResult = await frameioV4Service.createAssetShareLink(
+    const shareResult = await media.createAssetShareLink(
       videoFile.mediaAssetId, 
       shareName, 
       true // Enable comments for review
@@ -436,6 +590,7 @@ class AssetDetectionService {
       return {
         shareUrl: shareResult.url,
         shareId: shareResult.id,
+        expiresAt: shareResult.expiresAt,
         filename: videoFile.filename,
         isPublicShare: true,
         note: 'Created new Frame.io public share'
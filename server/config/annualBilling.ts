@@ -0,0 +1,10 @@
+// Annual billing configuration - when to remind annual subscribers about their yearly charge
+const DEFAULT_RENEWAL_REMINDER_DAYS = 14;
+
+// Days before an annual plan renews on which the reminder email goes out
+export function getAnnualRenewalReminderDays(): number {
+  const days = Number(process.env.ANNUAL_RENEWAL_REMINDER_DAYS);
+  return process.env.ANNUAL_RENEWAL_REMINDER_DAYS && Number.isFinite(days) && days > 0
+    ? days
+    : DEFAULT_RENEWAL_REMINDER_DAYS;
+}
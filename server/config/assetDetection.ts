@@ -0,0 +1,9 @@
+// Asset detection runner configuration - how many project checks hit the media provider at once
+const DEFAULT_CONCURRENCY = 3;
+
+export function getAssetCheckConcurrency(): number {
+  const concurrency = Number(process.env.ASSET_CHECK_CONCURRENCY);
+  return process.env.ASSET_CHECK_CONCURRENCY && Number.isInteger(concurrency) && concurrency > 0
+    ? concurrency
+    : DEFAULT_CONCURRENCY;
+}
@@ -0,0 +1,24 @@
+// Dunning configuration - how long a past_due customer keeps access and when they are reminded
+const DEFAULT_GRACE_PERIOD_DAYS = 7;
+const DEFAULT_REMINDER_DAYS = [0, 3, 6];
+
+// Days after the first failed payment during which new projects can still be created
+export function getGracePeriodDays(): number {
+  const days = Number(process.env.DUNNING_GRACE_PERIOD_DAYS);
+  return process.env.DUNNING_GRACE_PERIOD_DAYS && Number.isFinite(days) && days >= 0
+    ? days
+    : DEFAULT_GRACE_PERIOD_DAYS;
+}
+
+// Days after the first failed payment on which a reminder email is sent, e.g. DUNNING_REMINDER_DAYS=0,3,6
+export function getDunningReminderDays(): number[] {
+  const reminderDays = process.env.DUNNING_REMINDER_DAYS;
+  if (!reminderDays) {
+    return DEFAULT_REMINDER_DAYS;
+  }
+  return reminderDays
+    .split(',')
+    .map(day => Number(day.trim()))
+    .filter(day => Number.isFinite(day) && day >= 0)
+    .sort((a, b) => a - b);
+}
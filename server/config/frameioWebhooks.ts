@@ -0,0 +1,17 @@
+// Frame.io webhook configuration - delivery events are pushed by webhook, polling reconciles what they miss
+const WEBHOOK_POLL_INTERVAL_MINUTES = 30;
+const POLLING_ONLY_INTERVAL_MINUTES = 5;
+
+// Signing secret Frame.io returns when the webhook is created
+export function getFrameioWebhookSecret(): string | undefined {
+  return process.env.FRAMEIO_WEBHOOK_SECRET || undefined;
+}
+
+// Minutes between asset polling passes. Polling is the only signal without a webhook secret, so it runs more often then.
+export function getAssetReconcileIntervalMinutes(): number {
+  const minutes = Number(process.env.ASSET_RECONCILE_INTERVAL_MINUTES);
+  if (process.env.ASSET_RECONCILE_INTERVAL_MINUTES && Number.isFinite(minutes) && minutes > 0) {
+    return minutes;
+  }
+  return getFrameioWebhookSecret() ? WEBHOOK_POLL_INTERVAL_MINUTES : POLLING_ONLY_INTERVAL_MINUTES;
+}
@@ -0,0 +1,19 @@
+// Media storage configuration - which provider holds project footage and where local files live
+import path from 'path';
+
+export type MediaProviderName = 'frameio' | 'local';
+
+// Frame.io unless MEDIA_PROVIDER=local (development, tests, or a Frame.io outage)
+export function getMediaProviderName(): MediaProviderName {
+  return process.env.MEDIA_PROVIDER === 'local' ? 'local' : 'frameio';
+}
+
+// Root directory for the local provider; point it at a mounted S3-compatible bucket to share it between servers
+export function getLocalMediaDir(): string {
+  return path.resolve(process.env.LOCAL_MEDIA_DIR || 'uploads/media');
+}
+
+// Secret for signing local share and download links. Without one, links stop working after a restart.
+export function getLocalMediaSigningSecret(): string | undefined {
+  return process.env.LOCAL_MEDIA_SIGNING_SECRET || undefined;
+}
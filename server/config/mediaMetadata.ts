@@ -0,0 +1,12 @@
+// Media metadata configuration - how footage details are read when the media platform doesn't provide them
+
+// ffprobe binary (part of FFmpeg); a full path if it isn't on PATH
+export function getFfprobePath(): string {
+  return process.env.FFPROBE_PATH || 'ffprobe';
+}
+
+// Seconds before an ffprobe run is abandoned; remote files are read over HTTP
+export function getFfprobeTimeoutSeconds(): number {
+  const seconds = Number(process.env.FFPROBE_TIMEOUT_SECONDS);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 60;
+}
@@ -0,0 +1,10 @@
+// Referral program configuration - what each party earns when a referred user's first invoice is paid
+const DEFAULT_REWARD_CREDITS = 1;
+
+// Prepaid video credits granted to both the referrer and the referred user
+export function getReferralRewardCredits(): number {
+  const credits = Number(process.env.REFERRAL_REWARD_CREDITS);
+  return process.env.REFERRAL_REWARD_CREDITS && Number.isInteger(credits) && credits >= 0
+    ? credits
+    : DEFAULT_REWARD_CREDITS;
+}
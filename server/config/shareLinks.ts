@@ -0,0 +1,10 @@
+// Share link configuration - when public video links are renewed before they expire
+const DEFAULT_RENEWAL_LEAD_DAYS = 7;
+
+// Days before a share link expires on which it is renewed (only for projects still inside their access window)
+export function getShareRenewalLeadDays(): number {
+  const days = Number(process.env.SHARE_RENEWAL_LEAD_DAYS);
+  return process.env.SHARE_RENEWAL_LEAD_DAYS && Number.isFinite(days) && days > 0
+    ? days
+    : DEFAULT_RENEWAL_LEAD_DAYS;
+}
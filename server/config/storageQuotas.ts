@@ -0,0 +1,18 @@
+// Storage quota configuration - raw footage limits for accounts without an active plan
+const DEFAULT_PROJECT_STORAGE_GB = 10;
+const DEFAULT_ACCOUNT_STORAGE_GB = 20;
+
+function readGb(value: string | undefined, fallback: number): number {
+  const gb = Number(value);
+  return value && Number.isFinite(gb) && gb > 0 ? gb : fallback;
+}
+
+// Per-project limit when the account has no plan (plans set their own in the plan catalog)
+export function getDefaultProjectStorageGb(): number {
+  return readGb(process.env.STORAGE_QUOTA_PROJECT_GB, DEFAULT_PROJECT_STORAGE_GB);
+}
+
+// Account-wide limit when the account has no plan
+export function getDefaultAccountStorageGb(): number {
+  return readGb(process.env.STORAGE_QUOTA_ACCOUNT_GB, DEFAULT_ACCOUNT_STORAGE_GB);
+}
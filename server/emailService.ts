@@ -95,7 +95,7 @@ export class EmailService {
                 <li>Accept the final video or request a revision. Please visit your 
                 <a href="${getProjectUrl(projectId)}">
                 project dashboard</a> to complete this step.</li>
-                <li>Download your video within 30 days</li>
+                <li>Download your video within a year of starting your project</li>
               </ol>
             </div>
             
@@ -113,7 +113,7 @@ export class EmailService {
             
             <div style="background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0;">
               <p style="margin: 0; color: #856404;">
-                <strong>⏰ Important:</strong> Download links are available for 30 days. Make sure to save your video locally!
+                <strong>⏰ Important:</strong> We keep this link working for one year after your project started. Make sure to save your video locally!
               </p>
             </div>
           </div>
@@ -155,7 +155,7 @@ export class EmailService {
             <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #28a745; margin: 20px 0;">
               <h3 style="margin-top: 0; color: #28a745;">Download Your Completed Video</h3>
               <p style="margin: 0;">
-                Your video will remain available for download for the next <strong>30 days</strong>. 
+                Your video link stays available for download for <strong>one year</strong> after your project started. 
                 Please save it to your local storage to ensure you have permanent access.
               </p>
             </div>
@@ -263,6 +263,234 @@ export class EmailService {
     return await this.sendEmail(emailData);
   }
 
+  // Template for failed subscription payment reminders (dunning)
+  generatePaymentFailedReminderEmail(
+    userEmail: string,
+    userName: string,
+    gracePeriodEndsAt: Date,
+    isFinalReminder: boolean,
+  ): EmailTemplate {
+    const deadline = gracePeriodEndsAt.toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    });
+
+    return {
+      to: userEmail,
+      subject: isFinalReminder
+        ? `Final reminder: update your payment method by ${deadline}`
+        : "Your Mementiq payment didn't go through",
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Payment Failed</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #f6ad55 0%, #ed8936 100%); padding: 30px; text-align: center; color: white; border-radius: 10px 10px 0 0;">
+            <h1 style="margin: 0; font-size: 28px;">💳 Payment Issue</h1>
+          </div>
+          
+          <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+            <h2 style="color: #333; margin-top: 0;">Hi ${userName},</h2>
+            
+            <p style="font-size: 16px; margin-bottom: 25px;">
+              We couldn't process the latest payment for your subscription. 
+              Please update your payment method by <strong>${deadline}</strong> to keep creating new videos.
+            </p>
+            
+            <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #ed8936; margin: 20px 0;">
+              <p style="margin: 0;">
+                Projects already in progress are not affected. Our editors will keep working on them and
+                you can still review and download your videos.
+              </p>
+            </div>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${getDashboardUrl()}" 
+                 style="background: #ed8936; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">
+                Update Payment Method
+              </a>
+            </div>
+            
+            <div style="background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0;">
+              <p style="margin: 0; color: #856404;">
+                <strong>⏰ After ${deadline}:</strong> new video requests will be paused until your payment is updated.
+              </p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+  }
+
+  async sendPaymentFailedReminderEmail(
+    userEmail: string,
+    userName: string,
+    gracePeriodEndsAt: Date,
+    isFinalReminder: boolean,
+  ): Promise<void> {
+    const emailData = this.generatePaymentFailedReminderEmail(
+      userEmail,
+      userName,
+      gracePeriodEndsAt,
+      isFinalReminder,
+    );
+    await this.sendEmail(emailData);
+    console.log(`📧 Payment failed reminder sent to ${userEmail}${isFinalReminder ? " (final)" : ""}`);
+  }
+
+  // Template for the reminder sent ahead of an annual plan's yearly charge
+  generateAnnualRenewalReminderEmail(
+    userEmail: string,
+    userName: string,
+    planName: string,
+    amount: string,
+    renewsAt: Date,
+  ): EmailTemplate {
+    const renewalDate = renewsAt.toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    });
+
+    return {
+      to: userEmail,
+      subject: `Your Mementiq annual plan renews on ${renewalDate}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Upcoming Renewal</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; color: white; border-radius: 10px 10px 0 0;">
+            <h1 style="margin: 0; font-size: 28px;">📅 Upcoming Renewal</h1>
+          </div>
+          
+          <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+            <h2 style="color: #333; margin-top: 0;">Hi ${userName},</h2>
+            
+            <p style="font-size: 16px; margin-bottom: 25px;">
+              Your <strong>${planName}</strong> annual plan renews on <strong>${renewalDate}</strong>,
+              when we'll charge <strong>${amount}</strong> to your payment method on file.
+            </p>
+            
+            <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #667eea; margin: 20px 0;">
+              <p style="margin: 0;">
+                Nothing to do if you'd like to continue. To switch plans, update your card or cancel,
+                visit your dashboard before the renewal date.
+              </p>
+            </div>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${getDashboardUrl()}" 
+                 style="background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">
+                Manage Subscription
+              </a>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+  }
+
+  async sendAnnualRenewalReminderEmail(
+    userEmail: string,
+    userName: string,
+    planName: string,
+    amount: string,
+    renewsAt: Date,
+  ): Promise<void> {
+    const emailData = this.generateAnnualRenewalReminderEmail(
+      userEmail,
+      userName,
+      planName,
+      amount,
+      renewsAt,
+    );
+    await this.sendEmail(emailData);
+    console.log(`📧 Annual renewal reminder sent to ${userEmail}`);
+  }
+
+  // Template for team invitations (the link opens the accept page for the invitation token)
+  generateOrganizationInvitationEmail(
+    inviteeEmail: string,
+    inviterName: string,
+    organizationName: string,
+    inviteUrl: string,
+    expiresAt: Date,
+  ): EmailTemplate {
+    const expiry = expiresAt.toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    });
+
+    return {
+      to: inviteeEmail,
+      subject: `${inviterName} invited you to join ${organizationName} on Mementiq`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Team Invitation</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; color: white; border-radius: 10px 10px 0 0;">
+            <h1 style="margin: 0; font-size: 28px;">👋 You're Invited</h1>
+          </div>
+          
+          <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+            <p style="font-size: 16px; margin-bottom: 25px;">
+              <strong>${inviterName}</strong> invited you to join <strong>${organizationName}</strong> on Mementiq.
+              As a team member you can request videos and work on projects using the team's subscription.
+            </p>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${inviteUrl}" 
+                 style="background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">
+                Accept Invitation
+              </a>
+            </div>
+            
+            <p style="color: #666; font-size: 14px;">
+              Sign in or create an account with ${inviteeEmail} to accept. This invitation expires on ${expiry}.
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+  }
+
+  async sendOrganizationInvitationEmail(
+    inviteeEmail: string,
+    inviterName: string,
+    organizationName: string,
+    inviteUrl: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    const emailData = this.generateOrganizationInvitationEmail(
+      inviteeEmail,
+      inviterName,
+      organizationName,
+      inviteUrl,
+      expiresAt,
+    );
+    await this.sendEmail(emailData);
+    console.log(`📧 Team invitation for ${organizationName} sent to ${inviteeEmail}`);
+  }
+
   generateTokenExpiringEmail(
     adminEmail: string,
     daysRemaining: number,
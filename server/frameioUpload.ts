@@ -1,9 +1,13 @@
 /**
  * Frame.io Upload Service - Media platform upload functionality
  * Handles video upload sessions, TUS-like upload protocol, and upload completion
+ * Runs against the configured media provider (Frame.io unless MEDIA_PROVIDER=local)
  */
 
-import { frameioV4Service } from './frameioV4Service.js';
+import { getMediaProvider } from './services/media-provider.js';
+import { computeContentHash } from '../shared/contentHash.js';
+
+const media = getMediaProvider();
 
 export interface FrameioUploadSession {
   uploadUrl: string;
@@ -44,8 +48,8 @@ export async function createFrameioUploadSession(
     console.log(`Creating Frame.io V4 upload session for: ${fileName} (${fileSize} bytes)`);
 
     // Create asset placeholder in Frame.io V4
-    await frameioV4Service.loadServiceAccountToken();
-    const asset = await frameioV4Service.createUploadSession(parentFolderId, fileName, fileSize, mimeType);
+    await media.connect();
+    const asset = await media.createUploadSession(parentFolderId, fileName, fileSize, mimeType);
 
     // Generate upload URL for the asset using V4 session data
     const uploadSession: FrameioUploadSession = {
@@ -83,8 +87,8 @@ export async function completeFrameioUpload(
     console.log(`Completing Frame.io V4 upload for asset: ${assetId}`);
 
     // Get the uploaded asset details from V4
-    await frameioV4Service.loadServiceAccountToken();
-    const asset = await frameioV4Service.getAsset(assetId);
+    await media.connect();
+    const asset = await media.getAsset(assetId);
     if (!asset) {
       throw new Error(`Asset not found: ${assetId}`);
     }
@@ -124,8 +128,8 @@ export async function completeFrameioUpload(
  */
 export async function getFolderVideos(folderId: string): Promise<FrameioUploadResponse[]> {
   try {
-    await frameioV4Service.loadServiceAccountToken();
-    const assets = await frameioV4Service.getFolderAssets(folderId);
+    await media.connect();
+    const assets = await media.getFolderAssets(folderId);
     
     // Filter for video files only
     const videoAssets = assets.filter(asset => 
@@ -184,8 +188,8 @@ export async function createFrameioReviewLink(projectFolderId: string): Promise<
     });
 
     // Create review link using Frame.io V4 API
-    await frameioV4Service.loadServiceAccountToken();
-    const reviewLinkData = await frameioV4Service.createAssetReviewLink(
+    await media.connect();
+    const reviewLinkData = await media.createAssetReviewLink(
       latestVideo.id,
       `Project Video Review - ${latestVideo.name}`
     );
@@ -206,29 +210,62 @@ export async function createFrameioReviewLink(projectFolderId: string): Promise<
 /**
  * Verify Frame.io V4 video upload status
  */
-export async function verifyFrameioUpload(assetId: string): Promise<{
+export async function verifyFrameioUpload(
+  assetId: string,
+  expected?: { fileSize: number; contentHash?: string | null }
+): Promise<{
   isUploaded: boolean;
   isProcessing: boolean;
   isReady: boolean;
   status: string;
   progress?: number;
+  // Integrity against what the client said it sent; undefined when it couldn't be checked yet
+  sizeMatches?: boolean;
+  hashMatches?: boolean;
+  mismatch?: string;
 }> {
   try {
-    await frameioV4Service.loadServiceAccountToken();
-    const asset = await frameioV4Service.getAsset(assetId);
+    await media.connect();
+    const asset = await media.getAsset(assetId);
     
     console.log(`Frame.io V4 asset ${assetId} verification:`, asset);
     
     const isReady = !!asset.upload_completed_at;
     const isUploaded = !!asset.id;
     const isProcessing = isUploaded && !isReady;
+
+    let sizeMatches: boolean | undefined;
+    let hashMatches: boolean | undefined;
+    let mismatch: string | undefined;
+    if (expected) {
+      const storedSize = Number(asset.file_size ?? asset.filesize ?? asset.data?.file_size);
+      if (Number.isFinite(storedSize) && storedSize > 0) {
+        sizeMatches = storedSize === expected.fileSize;
+        if (!sizeMatches) {
+          mismatch = `stored size ${storedSize} bytes, expected ${expected.fileSize}`;
+        }
+      }
+
+      if (sizeMatches !== false && expected.contentHash) {
+        const storedHash = await computeStoredContentHash(assetId, expected.fileSize);
+        if (storedHash) {
+          hashMatches = storedHash === expected.contentHash;
+          if (!hashMatches) {
+            mismatch = 'stored content does not match the uploaded file';
+          }
+        }
+      }
+    }
     
     return {
       isUploaded,
       isProcessing,
       isReady,
       status: isReady ? 'ready' : isProcessing ? 'processing' : 'pending',
-      progress: isReady ? 100 : isProcessing ? 50 : 0
+      progress: isReady ? 100 : isProcessing ? 50 : 0,
+      sizeMatches,
+      hashMatches,
+      mismatch
     };
   } catch (error) {
     console.error('Error verifying Frame.io V4 upload:', error);
@@ -241,13 +278,31 @@ export async function verifyFrameioUpload(assetId: string): Promise<{
   }
 }
 
+/**
+ * Fingerprint of the file as the media provider stored it (see shared/contentHash.ts), or null if it can't be read yet
+ */
+async function computeStoredContentHash(assetId: string, fileSize: number): Promise<string | null> {
+  try {
+    return await computeContentHash(fileSize, async (start, end) => {
+      const bytes = await media.readAssetRange(assetId, start, end);
+      if (!bytes || bytes.length !== end - start) {
+        throw new Error(`Could not read bytes ${start}-${end} of ${assetId}`);
+      }
+      return bytes;
+    });
+  } catch (error) {
+    console.warn(`⚠️ Skipping content hash check for ${assetId}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
 /**
  * Delete Frame.io V4 asset (new functionality)
  */
 export async function deleteFrameioAsset(assetId: string): Promise<boolean> {
   try {
-    await frameioV4Service.loadServiceAccountToken();
-    return await frameioV4Service.deleteAsset(assetId);
+    await media.connect();
+    return await media.deleteAsset(assetId);
   } catch (error) {
     console.error('Error deleting Frame.io V4 asset:', error);
     return false;
@@ -1,3 +1,5 @@
+import type { MediaProvider } from './services/media-provider.js';
+
 // Frame.io V4 types defined inline
 interface FrameioProject {
   id: string;
@@ -23,7 +25,8 @@ interface FrameioAsset {
  * This service handles Frame.io V4 API operations using OAuth tokens from Adobe Developer Console.
  * V4 accounts cannot use legacy v2 developer tokens - they require OAuth authentication.
  */
-export class FrameioV4Service {
+export class FrameioV4Service implements MediaProvider {
+  readonly name = 'frameio' as const;
   private clientId: string;
   private clientSecret: string;
   private accessTokenValue: string | null = null;
@@ -478,6 +481,18 @@ export class FrameioV4Service {
     };
   }
 
+  /**
+   * MediaProvider connection: the service account token lives in the database
+   */
+  async connect(): Promise<void> {
+    await this.loadServiceAccountToken();
+  }
+
+  isAvailable(): boolean {
+    const { status } = this.getTokenStatus();
+    return status !== 'disconnected' && status !== 'expired';
+  }
+
   /**
    * Manually trigger a token refresh (for admin use)
    */
@@ -1075,6 +1090,63 @@ export class FrameioV4Service {
     return this.makeRequest('GET', `/accounts/${accountId}/workspaces/${workspaceId}/projects`);
   }
 
+  /**
+   * List webhooks registered on the service workspace (V4)
+   */
+  async listWebhooks(): Promise<any[]> {
+    const accountId = await this.getAccountId();
+    if (!this.workspaceId) {
+      throw new Error('No Frame.io workspace available');
+    }
+    const response = await this.makeRequest('GET', `/accounts/${accountId}/workspaces/${this.workspaceId}/webhooks`);
+    return response.data || [];
+  }
+
+  /**
+   * Register a webhook on the service workspace (V4). The response carries the signing secret.
+   */
+  async createWebhook(name: string, url: string, events: string[]): Promise<any> {
+    const accountId = await this.getAccountId();
+    if (!this.workspaceId) {
+      throw new Error('No Frame.io workspace available');
+    }
+    const response = await this.makeRequest('POST', `/accounts/${accountId}/workspaces/${this.workspaceId}/webhooks`, {
+      data: { name, url, events }
+    });
+    return response.data;
+  }
+
+  /**
+   * Delete a webhook (V4)
+   */
+  async deleteWebhook(webhookId: string): Promise<void> {
+    const accountId = await this.getAccountId();
+    await this.makeRequest('DELETE', `/accounts/${accountId}/webhooks/${webhookId}`);
+  }
+
+  /**
+   * Read bytes [start, end) of a file's original upload (V4). Null until Frame.io can serve the original.
+   */
+  async readAssetRange(assetId: string, start: number, end: number): Promise<Buffer | null> {
+    const accountId = await this.getAccountId();
+    const response = await this.makeRequest('GET', `/accounts/${accountId}/files/${assetId}`, undefined, {
+      include: 'media_links.original'
+    });
+    const downloadUrl: string | undefined = response.data?.media_links?.original?.download_url;
+    if (!downloadUrl) {
+      return null;
+    }
+
+    const download = await fetch(downloadUrl, { headers: { Range: `bytes=${start}-${end - 1}` } });
+    // A server that ignores Range sends the whole file, which is only usable when the whole file was asked for
+    const isWholeFile = download.status === 200 && start === 0 && Number(download.headers.get('content-length')) === end;
+    if (download.status !== 206 && !isWholeFile) {
+      await download.body?.cancel();
+      return null;
+    }
+    return Buffer.from(await download.arrayBuffer());
+  }
+
 
 
   /**
@@ -1222,7 +1294,9 @@ export class FrameioV4Service {
       const accountId = await this.getAccountId();
 
       // Get file details to check status
-      const response = await this.makeRequest('GET', `/accounts/${accountId}/files/${assetId}`);
+      const response = await this.makeRequest('GET', `/accounts/${accountId}/files/${assetId}`, undefined, {
+        include: 'media_links.original'
+      });
       const fileData = response.data;
 
       if (!fileData) {
@@ -1230,6 +1304,13 @@ export class FrameioV4Service {
         return null;
       }
 
+      // Signed URL of the original file, available once Frame.io has finished processing the upload
+      const originalUrl: string | undefined = fileData.media_links?.original?.download_url;
+      if (originalUrl) {
+        console.log('Using original file download URL');
+        return originalUrl;
+      }
+
       console.log('File details:', {
         name: fileData.name,
         status: fileData.status,
@@ -1237,9 +1318,8 @@ export class FrameioV4Service {
         view_url: fileData.view_url
       });
 
-      // Frame.io V4 API limitation: No direct download/streaming URLs available
-      // However, we can try to extract the actual file content using authenticated requests
-      console.log('Frame.io V4 API does not provide direct download URLs');
+      // No original download URL yet (still processing, or downloads disabled on the share settings)
+      console.log('Frame.io did not return an original download URL');
       console.log('Available URL is view-only:', fileData.view_url);
 
       // Generate a public share link for the specific asset instead of direct streaming
@@ -1263,7 +1343,7 @@ export class FrameioV4Service {
    * Create a public share link for a specific asset with comments disabled by default
    * (checks for existing shares first)
    */
-  async createAssetShareLink(assetId: string, name: string, enableComments: boolean = true): Promise<{ url: string; id: string }> {
+  async createAssetShareLink(assetId: string, name: string, enableComments: boolean = true): Promise<{ url: string; id: string; expiresAt?: Date }> {
     console.log(`🚀🚀🚀 FUNCTION ENTRY: createAssetShareLink called with ${assetId}, comments: ${enableComments}`);
 
     await this.initialize();
@@ -1317,6 +1397,7 @@ export class FrameioV4Service {
       const thirtyDaysFromNow = new Date();
       thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
       const expirationISO = thirtyDaysFromNow.toISOString();
+      let expiresAt: Date | undefined;
       
       console.log(`⏰ Setting share expiration to 30 days from now: ${expirationISO}`);
       
@@ -1334,6 +1415,7 @@ export class FrameioV4Service {
         );
         
         console.log(`✅ Share expiration set successfully to ${expirationISO}`);
+        expiresAt = thirtyDaysFromNow;
         console.log(`📊 Expiration update response:`, JSON.stringify(expirationResponse, null, 2));
       } catch (expirationError) {
         console.error(`⚠️ Failed to set share expiration:`, expirationError instanceof Error ? expirationError.message : expirationError);
@@ -1387,7 +1469,8 @@ export class FrameioV4Service {
       
       return {
         url: publicUrl,  // This is what gets stored in database and shown to user
-        id: shareId
+        id: shareId,
+        expiresAt  // Unset when the expiration couldn't be applied
       };
 
     } catch (error) {
@@ -229,6 +229,41 @@ app.use((req: Request, res: Response, next: any) => {
         console.error('❌ Failed to start asset detection service:', error);
       });
 
+      // Retry queued webhook events (Stripe) in the background
+      import('./services/webhook-inbox.js').then(({ startWebhookWorker }) => {
+        startWebhookWorker();
+      }).catch(error => {
+        console.error('❌ Failed to start webhook worker:', error);
+      });
+
+      // Delete partial uploads from sessions nobody came back to
+      import('./services/upload-sessions.js').then(({ startUploadSessionSweeper }) => {
+        startUploadSessionSweeper();
+      }).catch(error => {
+        console.error('❌ Failed to start upload session sweeper:', error);
+      });
+
+      // Send payment reminders to past_due customers during their grace period
+      import('./services/dunning.js').then(({ startDunningWorker }) => {
+        startDunningWorker();
+      }).catch(error => {
+        console.error('❌ Failed to start dunning reminder service:', error);
+      });
+
+      // Grant annual plans their monthly allowance and send renewal reminders
+      import('./services/annual-billing.js').then(({ startAnnualBillingWorker }) => {
+        startAnnualBillingWorker();
+      }).catch(error => {
+        console.error('❌ Failed to start annual billing service:', error);
+      });
+
+      // Extend public video links before they expire while projects are inside their access year
+      import('./services/share-links.js').then(({ startShareRenewalWorker }) => {
+        startShareRenewalWorker();
+      }).catch(error => {
+        console.error('❌ Failed to start share link renewal service:', error);
+      });
+
       // Initialize Token Keep-Alive service for Frame.io token management
       import('./services/tokenKeepAlive.js').then(({ startTokenKeepAlive }) => {
         startTokenKeepAlive();
@@ -312,6 +312,24 @@ async function startProductionServer() {
       console.error('❌ Failed to start asset detection service:', error);
     });
 
+    import('./services/webhook-inbox.js').then(({ startWebhookWorker }) => {
+      startWebhookWorker();
+    }).catch(error => {
+      console.error('❌ Failed to start webhook worker:', error);
+    });
+
+    import('./services/upload-sessions.js').then(({ startUploadSessionSweeper }) => {
+      startUploadSessionSweeper();
+    }).catch(error => {
+      console.error('❌ Failed to start upload session sweeper:', error);
+    });
+
+    import('./services/dunning.js').then(({ startDunningWorker }) => {
+      startDunningWorker();
+    }).catch(error => {
+      console.error('❌ Failed to start dunning reminder service:', error);
+    });
+
     import('./services/trello-automation.js').then(({ trelloAutomation }) => {
       const BOARD_ID = 'kg3EFU40';
       const TODO_LIST_ID = '684bff2e9e09bcad40e947dc';
@@ -2,6 +2,9 @@ import express from "express";
 import type { AppRequest, AppResponse } from "./express-types";
 import { createServer, type Server } from "http";
 import path from "path";
+import fs from "fs";
+import { pipeline } from "stream/promises";
+import { Transform } from "stream";
 import { storage } from "./storage";
 import {
   insertEmailSignupSchema,
@@ -12,9 +15,38 @@ import {
   insertProjectFileSchema,
   insertRevisionPaymentSchema,
   insertUserPrivacySchema,
+  insertPlanSchema,
+  updatePlanSchema,
   userPrivacy,
   users,
+  adminCreditAdjustmentSchema,
+  adminStorageQuotaGrantSchema,
+  cancellationSurveySchema,
+  pauseSubscriptionSchema,
+  CANCELLATION_REASONS,
+  insertOrganizationSchema,
+  organizationInvitationRequestSchema,
+  updateOrganizationMemberSchema,
+  WEBHOOK_EVENT_STATUSES,
+  JOB_RUN_STATUSES,
+  createUploadSessionSchema,
+  uploadSessionProgressSchema,
+  createDownloadArchiveSchema,
+  shareLinkSettingsSchema,
+  type UploadSession,
+  type User,
+  type Plan,
+  type Project,
+  type CreditType,
 } from "../shared/schema";
+import {
+  PROJECT_STATUS,
+  InvalidProjectStatusError,
+  ProjectStatusTransitionError,
+  canTransitionProjectStatus,
+  normalizeProjectStatus,
+} from "../shared/projectStatus";
+import { computeContentHash } from "../shared/contentHash";
 import { db } from "./db";
 import { revisionPayments } from "../shared/schema";
 import { eq, desc } from "drizzle-orm";
@@ -30,6 +62,7 @@ import {
   getFolderVideos,
   createFrameioReviewLink,
   verifyFrameioUpload,
+  deleteFrameioAsset,
 } from "./frameioUpload";
 import { emailService } from "./emailService";
 import { trelloAutomation } from "./services/trello-automation";
@@ -46,10 +79,99 @@ import { getAppBaseUrl, getDashboardUrl } from "./config/appUrl.js";
 import geoip from "geoip-lite";
 import {
   resolvePriceByLookupKey,
-  tierToPlanKey,
+  resolvePriceByStripeLookupKey,
   PLAN_LOOKUP_KEYS,
   type PlanKey,
 } from "./services/stripe-price-resolver.js";
+import {
+  PREPAID_PACKAGES,
+  isPrepaidPackageKey,
+} from "./services/prepaid-packages.js";
+import {
+  getActivePlans,
+  getAllPlans,
+  getPlanByKey,
+  getPlanByStripeProductId,
+  clearPlanCache,
+  syncPlanFromStripe,
+  syncPlansFromStripe,
+  getOveragePrice,
+  getPlanLookupKey,
+  getPlanPriceId,
+} from "./services/plan-catalog.js";
+import {
+  getAllowancePeriodStart,
+  getSubscriptionInterval,
+  resumeAllowanceSchedule,
+  startAllowanceSchedule,
+} from "./services/annual-billing.js";
+import {
+  enqueueWebhookEvent,
+  registerWebhookHandler,
+  replayWebhookEvent,
+} from "./services/webhook-inbox.js";
+import {
+  hasSubscriptionAccess,
+  isInGracePeriod,
+  startGracePeriod,
+  endGracePeriod,
+} from "./services/dunning.js";
+import { getPaymentProvider } from "./services/payment-provider.js";
+import { getMediaProvider } from "./services/media-provider.js";
+import {
+  discardUploadSession,
+  getUploadSessionExpiry,
+  toUploadSessionResponse,
+} from "./services/upload-sessions.js";
+import { getExceededQuota, getStorageQuotas } from "./services/storage-quotas.js";
+import {
+  extractMediaMetadata,
+  formatFootageSummary,
+  isProbeableMediaType,
+  summarizeFootage,
+} from "./services/media-metadata.js";
+import {
+  getProjectArchiveEntries,
+  writeProjectArchive,
+} from "./services/project-archive.js";
+import {
+  getProjectAccessEndsAt,
+  getSharedVideoAssetId,
+  getShareLinkState,
+  regenerateProjectShare,
+  renewProjectShare,
+  revokeProjectShare,
+  updateProjectShareSettings,
+} from "./services/share-links.js";
+import {
+  FRAMEIO_DELIVERY_EVENTS,
+  getFrameioWebhookEventId,
+  handleFrameioEvent,
+  isFrameioDeliveryEvent,
+  verifyFrameioWebhookSignature,
+  type FrameioWebhookPayload,
+} from "./services/frameio-webhooks.js";
+import {
+  getFrameioWebhookSecret,
+  getAssetReconcileIntervalMinutes,
+} from "./config/frameioWebhooks.js";
+import {
+  resolveLocalMediaPath,
+  getLocalMediaType,
+  verifyLocalMediaSignature,
+} from "./services/local-media-provider.js";
+import {
+  getLocalSubscriptionStatus,
+  getPauseResumesAt,
+} from "./services/subscription-status.js";
+import { recordReferral, rewardReferral } from "./services/referrals.js";
+import { getReferralRewardCredits } from "./config/referrals.js";
+import {
+  canAccessProject,
+  getBillingContext,
+  hasOrganizationRole,
+} from "./services/organizations.js";
+import type { FakePaymentProvider } from "./services/fake-payment-provider.js";
 import { isAdminEmail, getAdminNotificationEmail } from "./config/admin.js";
 
 // Configure multer for file uploads
@@ -101,6 +223,16 @@ async function requireAuth(req: AppRequest, res: AppResponse, next: any) {
 }
 
 // Middleware to check 1-year project access restriction
+// Upload session named by :sessionId, only if it belongs to the project in :id
+async function findProjectUploadSession(
+  req: AppRequest,
+): Promise<UploadSession | undefined> {
+  const session = await storage.getUploadSession(Number(req.params.sessionId));
+  return session && session.projectId === Number(req.params.id)
+    ? session
+    : undefined;
+}
+
 async function requireProjectAccess(
   req: AppRequest,
   res: AppResponse,
@@ -123,8 +255,8 @@ async function requireProjectAccess(
       });
     }
 
-    // Check if user owns this project
-    if (project.userId !== req.user!.id) {
+    // Check if user owns this project or belongs to its organization
+    if (!(await canAccessProject(project, req.user!.id))) {
       return res.status(403).json({
         success: false,
         message: "Access denied",
@@ -132,10 +264,7 @@ async function requireProjectAccess(
     }
 
     // Check 1-year access restriction
-    const projectCreatedAt = new Date(project.createdAt);
-    const oneYearAfterCreation = new Date(
-      projectCreatedAt.getTime() + 365 * 24 * 60 * 60 * 1000,
-    );
+    const oneYearAfterCreation = getProjectAccessEndsAt(project);
     const now = new Date();
 
     if (now > oneYearAfterCreation) {
@@ -285,388 +414,848 @@ function getContentType(extension: string | undefined): string {
   }
 }
 
-// Initialize Stripe
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error("Missing required Stripe secret: STRIPE_SECRET_KEY");
+// Stripe, or the local fake when PAYMENT_PROVIDER=fake
+const payments = getPaymentProvider();
+const media = getMediaProvider();
+
+// How long an emailed team invitation stays valid
+const ORGANIZATION_INVITATION_TTL_DAYS = 7;
+
+// How long a prepared ZIP download link works; the stream itself may run longer
+const DOWNLOAD_ARCHIVE_TTL_MS = 15 * 60 * 1000;
+
+// A local upload sent more bytes than its upload session declared
+class UploadTooLargeError extends Error {}
+
+// Pass a request body through, failing once more than maxBytes have arrived
+// (Content-Length can be missing or wrong, so it isn't trusted on its own)
+function limitUploadBytes(maxBytes: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        return callback(
+          new UploadTooLargeError(`Upload is larger than the declared ${maxBytes} bytes`),
+        );
+      }
+      callback(null, chunk);
+    },
+  });
 }
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2024-06-20" as any,
-});
 
-// Subscription tier configurations matching your actual Stripe products
-const SUBSCRIPTION_TIERS = {
-  basic: {
-    name: "Creative Spark",
-    allowance: 1,
-    stripeProductId: "prod_SlhMaAjk64ykbk",
-  },
-  standard: {
-    name: "Consistency Club",
-    allowance: 4,
-    stripeProductId: "prod_SlhNEEOKukgpjo",
-  },
-  premium: {
-    name: "Growth Accelerator",
-    allowance: 8,
-    stripeProductId: "prod_Sm3pNUZ42txw8o",
-  },
-};
-
-// Helper function to map Stripe product ID back to tier name
-const getSubscriptionTierFromProductId = (productId: string): string => {
-  for (const [tierKey, tierConfig] of Object.entries(SUBSCRIPTION_TIERS)) {
-    if (tierConfig.stripeProductId === productId) {
-      return tierKey;
-    }
+// Stripe lookups made at once when building billing history receipts
+const RECEIPT_FETCH_CONCURRENCY = 4;
+
+// Grant a billing period's video credits from the plan (idempotent per Stripe invoice)
+async function grantSubscriptionPeriodCredits(
+  userId: string,
+  plan: Plan,
+  invoiceId: string,
+) {
+  const grant = await storage.grantSubscriptionPeriodCredits(
+    userId,
+    invoiceId,
+    plan.allowance,
+    plan.creditRollover,
+    `${plan.name} billing period`,
+  );
+  if (grant) {
+    console.log(
+      `🎟️ Granted ${plan.allowance} subscription credits to user ${userId} (invoice ${invoiceId})`,
+    );
   }
-  return "basic"; // Default fallback
-};
+  return grant;
+}
 
-export async function registerRoutes(app: any): Promise<Server> {
-  // Create router instance
-  const router = express.Router();
+// Free revisions still available under the plan the user works on (their organization's owner's, if any)
+async function getIncludedRevisionAllowance(user: User, projectId: number) {
+  const { billingUser, organization } = await getBillingContext(user);
+  const plan = hasSubscriptionAccess(billingUser)
+    ? await getPlanByKey(billingUser.subscriptionTier)
+    : undefined;
+
+  if (!plan || plan.includedRevisions <= 0) {
+    return {
+      included: 0,
+      used: 0,
+      remaining: 0,
+      per: plan?.includedRevisionsPer ?? "project",
+    };
+  }
 
-  // Stripe webhook endpoint - must be before other JSON middleware
-  router.post(
-    "/api/webhooks/stripe",
-    express.raw({ type: "application/json" }),
-    async (req: AppRequest, res: AppResponse) => {
-      const sig = req.headers["stripe-signature"];
-      const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  const used =
+    plan.includedRevisionsPer === "period"
+      ? await storage.countIncludedUserRevisionsSince(
+          billingUser.id,
+          getAllowancePeriodStart(billingUser) || new Date(0),
+          organization?.id,
+        )
+      : await storage.countIncludedProjectRevisions(projectId);
+
+  return {
+    included: plan.includedRevisions,
+    used,
+    remaining: Math.max(0, plan.includedRevisions - used),
+    per: plan.includedRevisionsPer,
+  };
+}
 
-      if (!sig || !endpointSecret) {
-        console.error("Missing Stripe signature or webhook secret");
-        return res.status(400).send("Missing signature or secret");
-      }
+// Grant one of the plan's free revisions to the project, if any are left; the reservation
+// is what request-revision spends later, so concurrent grants can't exceed the allowance
+async function reserveIncludedRevision(user: User, projectId: number) {
+  const { billingUser, organization } = await getBillingContext(user);
+  const plan = hasSubscriptionAccess(billingUser)
+    ? await getPlanByKey(billingUser.subscriptionTier)
+    : undefined;
+  if (!plan || plan.includedRevisions <= 0) return null;
+
+  const reservation = await storage.reserveIncludedRevision(projectId, {
+    billingUserId: billingUser.id,
+    included: plan.includedRevisions,
+    per: plan.includedRevisionsPer,
+    since: getAllowancePeriodStart(billingUser) || new Date(0),
+    organizationId: organization?.id,
+  });
+  if (!reservation) return null;
 
-      let event: Stripe.Event;
+  return {
+    included: plan.includedRevisions,
+    remaining: Math.max(0, plan.includedRevisions - reservation.used),
+    per: plan.includedRevisionsPer,
+  };
+}
 
-      // Always verify webhook signature for security
-      try {
-        event = stripe.webhooks.constructEvent(req.body, sig, endpointSecret);
-      } catch (err: any) {
-        console.error("Webhook signature verification failed:", err.message);
-        return res.status(400).send(`Webhook Error: ${err.message}`);
-      }
+// Who pays for the user's videos and which credits they can spend: subscription credits first
+// (they need an active subscription, past_due grace period included), then prepaid credits
+async function getProjectCreditContext(user: User) {
+  const { billingUser, organization } = await getBillingContext(user);
+  const hasActiveSubscription = hasSubscriptionAccess(billingUser);
+  const creditTypes: CreditType[] = hasActiveSubscription
+    ? ["subscription", "prepaid"]
+    : ["prepaid"];
+  return { billingUser, organization, hasActiveSubscription, creditTypes };
+}
 
-      // Log webhook receipt (works with any environment)
-      console.log(`📬 Webhook received: ${event.type}`);
-      console.log(
-        `Event ID: ${event.id}, Created: ${new Date(event.created * 1000).toISOString()}`,
-      );
+// Why no credit is available, with what the client needs to offer a subscription, upgrade or extra video
+async function getNoCreditDetails(
+  user: User,
+  hasActiveSubscription: boolean,
+  action: string,
+) {
+  if (!hasActiveSubscription && user.subscriptionStatus === "past_due") {
+    return {
+      message: `Your payment is overdue and the grace period has ended. Update your payment method to ${action}`,
+      requiresPaymentUpdate: true,
+      subscriptionStatus: user.subscriptionStatus,
+      gracePeriodEndsAt: user.gracePeriodEndsAt,
+      prepaidCredits: 0,
+    };
+  }
 
-      try {
-        switch (event.type) {
-          case "checkout.session.completed": {
-            const session = event.data.object as Stripe.Checkout.Session;
+  if (!hasActiveSubscription) {
+    return {
+      message: `Active subscription or prepaid credits required to ${action}`,
+      requiresSubscription: true,
+      subscriptionStatus: user.subscriptionStatus,
+      prepaidCredits: 0,
+    };
+  }
 
-            // Handle revision payments
-            if (session.metadata?.type === "revision_payment") {
-              console.log("🎯 WEBHOOK: Processing revision payment completion");
+  const plan = await getPlanByKey(user.subscriptionTier);
+  const allowancePeriodStart = getAllowancePeriodStart(user);
+  return {
+    message: "Project limit reached for your subscription tier",
+    requiresUpgrade: true,
+    currentUsage: allowancePeriodStart
+      ? await storage.countCreditsConsumedSince(
+          user.id,
+          "subscription",
+          allowancePeriodStart,
+        )
+      : 0,
+    allowance: plan?.allowance ?? 0,
+    tier: user.subscriptionTier,
+    prepaidCredits: 0,
+    // One-off extra video for this period (see /api/overage/create-checkout)
+    overagePrice: plan?.overageLookupKey ? plan.overageUnitAmount : null,
+    currency: plan?.currency,
+  };
+}
 
-              try {
-                const projectId = Number(session.metadata.projectId);
-
-                // Update revision payment status
-                await storage.updateRevisionPaymentStatus(
-                  session.id,
-                  "completed",
-                  session.payment_intent as string,
-                  new Date(),
-                );
+// Resolve both plans and the Stripe subscription item for an in-app plan change
+async function resolvePlanChange(user: User, tier: unknown) {
+  const newPlan =
+    typeof tier === "string" ? await getPlanByKey(tier) : undefined;
+  if (!newPlan || !newPlan.isActive) {
+    return { error: "Invalid subscription tier" } as const;
+  }
 
-                console.log(
-                  `✅ WEBHOOK: Revision payment completed for project ${projectId}`,
-                );
+  if (!user.stripeSubscriptionId || !hasSubscriptionAccess(user)) {
+    return { error: "No active subscription to change" } as const;
+  }
 
-                // Update project status to "awaiting revision instructions"
-                await storage.updateProject(projectId, {
-                  status: "awaiting revision instructions",
-                  updatedAt: new Date(),
-                });
+  const currentPlan = await getPlanByKey(user.subscriptionTier);
+  if (!currentPlan) {
+    return { error: "Current plan not found" } as const;
+  }
+  if (currentPlan.key === newPlan.key) {
+    return { error: "You are already on this plan" } as const;
+  }
 
-                // Move revision card to Done (revision request completes the current revision)
-                try {
-                  await trelloAutomation.markProjectComplete(projectId, true);
-                  console.log(
-                    `✅ WEBHOOK: Moved revision card to Done for project ${projectId}`,
-                  );
-                } catch (error) {
-                  console.error(
-                    "Failed to move revision Trello card to Done:",
-                    error,
-                  );
-                }
+  const subscription = await payments.retrieveSubscription(
+    user.stripeSubscriptionId,
+  );
+  const item = subscription.items.data[0];
+  if (!item) {
+    return { error: "Subscription has no price to change" } as const;
+  }
 
-                // Automatically generate review link after successful payment
-                try {
-                  const project = await storage.getProject(projectId);
-                  const projectFolderId = project?.mediaFolderId
-                    ?.split("/")
-                    .pop();
-
-                  if (projectFolderId) {
-                    const reviewLink =
-                      await createFrameioReviewLink(projectFolderId);
-                    if (reviewLink) {
-                      // Save review link to database
-                      await storage.updateProject(projectId, {
-                        updatedAt: new Date(),
-                      });
+  // Plan changes keep the current billing interval
+  const priceId = await getPlanPriceId(newPlan, user.billingInterval);
+  if (!priceId) {
+    return {
+      error: `${newPlan.name} isn't available with ${user.billingInterval === "year" ? "annual" : "monthly"} billing`,
+    } as const;
+  }
 
-                      // Get user info to send email
-                      const user = project
-                        ? await storage.getUserById(project.userId)
-                        : null;
-                      if (user) {
-                        // Try to send email with review link and instructions
-                        try {
-                          await emailService.sendRevisionInstructionsEmail(
-                            user.email,
-                            user.firstName,
-                            project?.title || "Unknown Project",
-                            reviewLink,
-                          );
-                          console.log(
-                            `Review link automatically generated and email sent for project ${projectId}`,
-                          );
-                        } catch (emailError) {
-                          console.error(
-                            `Email sending failed for project ${projectId}:`,
-                            emailError,
-                          );
-                          console.log(
-                            `Review link automatically generated for project ${projectId} (email failed)`,
-                          );
-                        }
-                      }
-                    }
-                  }
-                } catch (reviewLinkError) {
-                  console.error(
-                    `Failed to auto-generate review link for project ${projectId}:`,
-                    reviewLinkError,
-                  );
-                  // Don't fail the webhook if review link generation fails
-                }
+  return {
+    currentPlan,
+    newPlan,
+    subscription,
+    item,
+    priceId,
+    // More videos per period is an upgrade (applied now); fewer is a downgrade (applied at renewal)
+    isUpgrade: newPlan.allowance > currentPlan.allowance,
+  };
+}
 
-                console.log(
-                  `Revision payment completed for project ${projectId}`,
-                );
-              } catch (error) {
-                console.error(
-                  "Error processing revision payment webhook:",
-                  error,
-                );
-              }
-            }
-            // Handle subscription payments
-            else if (session.mode === "subscription" && session.subscription) {
-              const subscription = await stripe.subscriptions.retrieve(
-                session.subscription as string,
-              );
-              const userId = session.metadata?.userId;
-              const tier = session.metadata?.tier;
-
-              if (userId && tier) {
-                // Update user subscription status
-                await storage.updateUserSubscription(userId, {
-                  stripeSubscriptionId: subscription.id,
-                  subscriptionStatus: subscription.status,
-                  subscriptionTier: tier,
-                  subscriptionUsage: 0, // Reset usage on new subscription
-                  subscriptionAllowance:
-                    SUBSCRIPTION_TIERS[tier as keyof typeof SUBSCRIPTION_TIERS]
-                      .allowance,
-                  subscriptionPeriodStart: new Date(
-                    (subscription as any).current_period_start * 1000,
-                  ),
-                  subscriptionPeriodEnd: new Date(
-                    (subscription as any).current_period_end * 1000,
-                  ),
-                });
+// Apply a verified Stripe event. Runs from the webhook inbox worker, so it may be
+// retried after a failure: throw to schedule a retry, and keep side effects idempotent.
+async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
 
-                console.log(
-                  `Subscription activated for user ${userId}: ${tier}`,
-                );
-              }
-            }
-            break;
-          }
+      // Handle revision payments
+      if (session.metadata?.type === "revision_payment") {
+        console.log("🎯 WEBHOOK: Processing revision payment completion");
 
-          case "invoice.payment_succeeded": {
-            const invoice = event.data.object as Stripe.Invoice;
+        try {
+          const projectId = Number(session.metadata.projectId);
+
+          // Update revision payment status
+          await storage.updateRevisionPaymentStatus(
+            session.id,
+            "completed",
+            session.payment_intent as string,
+            new Date(),
+          );
 
-            if ((invoice as any).subscription) {
-              const subscription = await stripe.subscriptions.retrieve(
-                (invoice as any).subscription as string,
-              );
-              const customer = await stripe.customers.retrieve(
-                subscription.customer as string,
-              );
+          console.log(
+            `✅ WEBHOOK: Revision payment completed for project ${projectId}`,
+          );
 
-              // Find user by customer ID
-              const user = await storage.getUserByStripeCustomerId(
-                subscription.customer as string,
-              );
+          // Events can arrive after the client has already used the payment to request the revision
+          const [currentProject, payment, revisions] = await Promise.all([
+            storage.getProject(projectId),
+            storage.getRevisionPayment(session.id),
+            storage.getProjectRevisions(projectId),
+          ]);
+          const paymentUsed =
+            !!payment &&
+            revisions.some((revision) => revision.revisionPaymentId === payment.id);
+          if (
+            paymentUsed ||
+            normalizeProjectStatus(currentProject?.status) ===
+              PROJECT_STATUS.REVISION_IN_PROGRESS
+          ) {
+            console.log(
+              `ℹ️ WEBHOOK: Project ${projectId} already has its revision underway (${currentProject?.status}), nothing left to do`,
+            );
+            return;
+          }
 
-              if (user) {
-                // Update subscription status and reset usage for new billing period
-                const tierConfig = Object.entries(SUBSCRIPTION_TIERS).find(
-                  ([_, config]) =>
-                    config.stripeProductId ===
-                    subscription.items.data[0]?.price.product,
-                );
+          // Update project status to "awaiting revision instructions"
+          await storage.updateProject(projectId, {
+            status: "awaiting revision instructions",
+            updatedAt: new Date(),
+          });
 
-                if (tierConfig) {
-                  const [tier] = tierConfig;
-                  await storage.updateUserSubscription(user.id, {
-                    subscriptionStatus: subscription.status,
-                    subscriptionUsage: 0, // Reset usage on successful payment
-                    subscriptionPeriodStart: new Date(
-                      (subscription as any).current_period_start * 1000,
-                    ),
-                    subscriptionPeriodEnd: new Date(
-                      (subscription as any).current_period_end * 1000,
-                    ),
-                  });
+          // Move revision card to Done (revision request completes the current revision)
+          try {
+            await trelloAutomation.markProjectComplete(projectId, true);
+            console.log(
+              `✅ WEBHOOK: Moved revision card to Done for project ${projectId}`,
+            );
+          } catch (error) {
+            console.error(
+              "Failed to move revision Trello card to Done:",
+              error,
+            );
+          }
 
-                  console.log(
-                    `Subscription renewed for user ${user.id}: ${tier}`,
-                  );
+          // Automatically generate review link after successful payment
+          try {
+            const project = await storage.getProject(projectId);
+            const projectFolderId = project?.mediaFolderId
+              ?.split("/")
+              .pop();
+
+            if (projectFolderId) {
+              const reviewLink =
+                await createFrameioReviewLink(projectFolderId);
+              if (reviewLink) {
+                // Save review link to database
+                await storage.updateProject(projectId, {
+                  updatedAt: new Date(),
+                });
+
+                // Get user info to send email
+                const user = project
+                  ? await storage.getUserById(project.userId)
+                  : null;
+                if (user) {
+                  // Try to send email with review link and instructions
+                  try {
+                    await emailService.sendRevisionInstructionsEmail(
+                      user.email,
+                      user.firstName,
+                      project?.title || "Unknown Project",
+                      reviewLink,
+                    );
+                    console.log(
+                      `Review link automatically generated and email sent for project ${projectId}`,
+                    );
+                  } catch (emailError) {
+                    console.error(
+                      `Email sending failed for project ${projectId}:`,
+                      emailError,
+                    );
+                    console.log(
+                      `Review link automatically generated for project ${projectId} (email failed)`,
+                    );
+                  }
                 }
               }
             }
-            break;
+          } catch (reviewLinkError) {
+            console.error(
+              `Failed to auto-generate review link for project ${projectId}:`,
+              reviewLinkError,
+            );
+            // Don't fail the webhook if review link generation fails
           }
 
-          case "customer.subscription.updated": {
-            const subscription = event.data.object as Stripe.Subscription;
+          console.log(
+            `Revision payment completed for project ${projectId}`,
+          );
+        } catch (error) {
+          console.error(
+            "Error processing revision payment webhook:",
+            error,
+          );
+          throw error;
+        }
+      }
+      // Handle prepaid package purchases
+      else if (session.metadata?.type === "prepaid_package") {
+        const purchase = await storage.completePrepaidPackagePurchase(
+          session.id,
+          session.payment_intent as string,
+        );
+
+        if (purchase) {
+          console.log(
+            `✅ WEBHOOK: Granted ${purchase.credits} prepaid credits to user ${purchase.userId} (${purchase.packageKey})`,
+          );
+        } else {
+          console.log(
+            `ℹ️ WEBHOOK: Prepaid purchase ${session.id} already completed or not found`,
+          );
+        }
+      }
+      // Handle extra video purchases: grant the credit and create the requested project
+      else if (session.metadata?.type === "overage_purchase") {
+        const completed = await storage.completeOveragePurchase(
+          session.id,
+          session.payment_intent as string,
+        );
+
+        if (completed) {
+          console.log(
+            `✅ WEBHOOK: Extra video paid - created project ${completed.project.id} for user ${completed.purchase.userId}`,
+          );
+        } else {
+          console.log(
+            `ℹ️ WEBHOOK: Overage purchase ${session.id} already completed or not found`,
+          );
+        }
+      }
+      // Handle subscription payments
+      else if (session.mode === "subscription" && session.subscription) {
+        const subscription = await payments.retrieveSubscription(
+          session.subscription as string,
+        );
+        const userId = session.metadata?.userId;
+        const tier = session.metadata?.tier;
 
-            const user = await storage.getUserByStripeCustomerId(
-              subscription.customer as string,
+        if (userId && tier) {
+          const plan = await getPlanByKey(tier);
+          if (!plan) {
+            console.warn(
+              `⚠️ Checkout completed for unknown plan "${tier}" (user ${userId})`,
             );
+          }
 
-            if (user) {
-              // Find tier based on product ID
-              const tierConfig = Object.entries(SUBSCRIPTION_TIERS).find(
-                ([_, config]) =>
-                  config.stripeProductId ===
-                  subscription.items.data[0]?.price.product,
-              );
+          const periodStart = new Date(
+            (subscription as any).current_period_start * 1000,
+          );
+          const periodEnd = new Date(
+            (subscription as any).current_period_end * 1000,
+          );
 
-              if (tierConfig) {
-                const [tier] = tierConfig;
-                await storage.updateUserSubscription(user.id, {
-                  subscriptionStatus: subscription.status,
-                  subscriptionTier: tier,
-                  subscriptionAllowance:
-                    SUBSCRIPTION_TIERS[tier as keyof typeof SUBSCRIPTION_TIERS]
-                      .allowance,
-                  subscriptionPeriodStart: new Date(
-                    (subscription as any).current_period_start * 1000,
-                  ),
-                  subscriptionPeriodEnd: new Date(
-                    (subscription as any).current_period_end * 1000,
-                  ),
-                });
+          // Update user subscription status
+          await storage.updateUserSubscription(userId, {
+            stripeSubscriptionId: subscription.id,
+            subscriptionStatus: subscription.status,
+            subscriptionTier: tier,
+            subscriptionPeriodStart: periodStart,
+            subscriptionPeriodEnd: periodEnd,
+          });
+          await startAllowanceSchedule(
+            userId,
+            getSubscriptionInterval(subscription),
+            periodStart,
+            periodEnd,
+          );
 
-                console.log(
-                  `Subscription updated for user ${user.id}: ${tier} (${subscription.status})`,
-                );
-              }
-            }
-            break;
+          // Grant the first period now; invoice.payment_succeeded for the same invoice is a no-op
+          if (plan && session.invoice) {
+            await grantSubscriptionPeriodCredits(
+              userId,
+              plan,
+              session.invoice as string,
+            );
           }
 
-          case "customer.subscription.deleted": {
-            const subscription = event.data.object as Stripe.Subscription;
+          console.log(
+            `Subscription activated for user ${userId}: ${tier}`,
+          );
+        }
+      }
+      break;
+    }
 
-            const user = await storage.getUserByStripeCustomerId(
-              subscription.customer as string,
-            );
+    case "invoice.payment_succeeded": {
+      const invoice = event.data.object as Stripe.Invoice;
 
-            if (user) {
-              await storage.updateUserSubscription(user.id, {
-                subscriptionStatus: "canceled",
-                subscriptionTier: null,
-                subscriptionAllowance: 0,
-                subscriptionUsage: 0,
-              });
+      if ((invoice as any).subscription) {
+        const subscription = await payments.retrieveSubscription(
+          (invoice as any).subscription as string,
+        );
+        // Find user by customer ID
+        const user = await storage.getUserByStripeCustomerId(
+          subscription.customer as string,
+        );
 
-              console.log(`Subscription canceled for user ${user.id}`);
-            }
-            break;
-          }
+        if (user) {
+          // Update subscription status and grant credits for the new billing period
+          const plan = await getPlanByStripeProductId(
+            subscription.items.data[0]?.price.product as string,
+          );
 
-          case "invoice.payment_failed": {
-            const invoice = event.data.object as Stripe.Invoice;
+          if (plan) {
+            const tier = plan.key;
+            const periodStart = new Date(
+              (subscription as any).current_period_start * 1000,
+            );
+            const periodEnd = new Date(
+              (subscription as any).current_period_end * 1000,
+            );
+            await storage.updateUserSubscription(user.id, {
+              subscriptionStatus: subscription.status,
+              subscriptionPeriodStart: periodStart,
+              subscriptionPeriodEnd: periodEnd,
+            });
 
-            if ((invoice as any).subscription) {
-              const subscription = await stripe.subscriptions.retrieve(
-                (invoice as any).subscription as string,
-              );
-              const user = await storage.getUserByStripeCustomerId(
-                subscription.customer as string,
+            // Proration invoices (billing_reason "subscription_update") don't start a new period.
+            // Annual plans get the first month here and the rest from the annual billing worker.
+            if (
+              invoice.billing_reason === "subscription_create" ||
+              invoice.billing_reason === "subscription_cycle"
+            ) {
+              await grantSubscriptionPeriodCredits(user.id, plan, invoice.id!);
+              await startAllowanceSchedule(
+                user.id,
+                getSubscriptionInterval(subscription),
+                periodStart,
+                periodEnd,
               );
+            }
 
-              if (user) {
-                await storage.updateUserSubscription(user.id, {
-                  subscriptionStatus: "past_due",
-                });
+            console.log(
+              `Subscription renewed for user ${user.id}: ${tier}`,
+            );
+          }
 
-                console.log(
-                  `Payment failed for user ${user.id}, subscription marked past_due`,
-                );
-              }
-            }
-            break;
+          // A successful retry ends any dunning in progress
+          if (subscription.status === "active") {
+            await endGracePeriod(user);
           }
 
-          default:
-            console.log(`Unhandled event type: ${event.type}`);
+          // Referral rewards wait for the first invoice with a real payment (not a 100% promo)
+          if (
+            invoice.amount_paid > 0 &&
+            (invoice.billing_reason === "subscription_create" ||
+              invoice.billing_reason === "subscription_cycle")
+          ) {
+            await rewardReferral(user, invoice.id!);
+          }
         }
-
-        res.json({ received: true });
-      } catch (error: any) {
-        console.error("Webhook processing error:", error);
-        res.status(500).json({ error: "Webhook processing failed" });
       }
-    },
-  );
-  // Frame.io webhook endpoint for video upload notifications
-  // Generate Frame.io V4 public share link for project video
-  router.get(
-    "/api/projects/:id/video-share-link",
-    requireAuth,
-    async (req: AppRequest, res: AppResponse) => {
-      console.log(
-        `🔥🔥🔥 NEW ROUTE CODE LOADED: /api/projects/${req.params.id}/video-share-link`,
+      break;
+    }
+
+    case "customer.subscription.updated": {
+      const subscription = event.data.object as Stripe.Subscription;
+
+      const user = await storage.getUserByStripeCustomerId(
+        subscription.customer as string,
       );
-      console.log(`🔥🔥🔥 THIS SHOULD ALWAYS APPEAR FIRST!`);
-      try {
-        const projectId = Number(req.params.id);
-        const project = await storage.getProject(projectId);
 
-        if (!project) {
-          return res.status(404).json({ error: "Project not found" });
-        }
+      if (user) {
+        // Find tier based on product ID
+        const plan = await getPlanByStripeProductId(
+          subscription.items.data[0]?.price.product as string,
+        );
+
+        if (plan) {
+          const tier = plan.key;
+
+          // Upgrading mid-period tops up this period's credits straight away (no-op if
+          // change-plan already did). Downgrades only take effect at the next renewal grant.
+          const previousPlan =
+            user.subscriptionTier !== tier
+              ? await getPlanByKey(user.subscriptionTier)
+              : undefined;
+          const allowancePeriodStart = getAllowancePeriodStart(user);
+          if (
+            previousPlan &&
+            plan.allowance > previousPlan.allowance &&
+            allowancePeriodStart
+          ) {
+            await storage.topUpSubscriptionCredits(
+              user.id,
+              plan.allowance,
+              allowancePeriodStart,
+              subscription.id,
+              `Upgrade from ${previousPlan.key} to ${plan.key}`,
+            );
+          }
+
+          await storage.updateUserSubscription(user.id, {
+            subscriptionStatus: getLocalSubscriptionStatus(subscription),
+            subscriptionTier: tier,
+            cancelAtPeriodEnd: subscription.cancel_at_period_end,
+            pauseResumesAt: getPauseResumesAt(subscription),
+            // A scheduled downgrade is done once the tier actually changes
+            ...(user.subscriptionTier !== tier && { scheduledPlanKey: null }),
+            subscriptionPeriodStart: new Date(
+              (subscription as any).current_period_start * 1000,
+            ),
+            subscriptionPeriodEnd: new Date(
+              (subscription as any).current_period_end * 1000,
+            ),
+          });
 
-        // FIRST: Check if we already have a project-level share link stored
-        if (project.frameioReviewLink) {
           console.log(
-            `✅ Found existing project-level share link: ${project.frameioReviewLink}`,
+            `Subscription updated for user ${user.id}: ${tier} (${subscription.status})`,
           );
-          return res.json({
-            shareUrl: project.frameioReviewLink,
-            shareId: project.frameioReviewShareId || "project-cached",
+        }
+
+        if (subscription.status === "past_due") {
+          await startGracePeriod(user);
+        } else if (subscription.status === "active") {
+          await endGracePeriod(user);
+        }
+      }
+      break;
+    }
+
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object as Stripe.Subscription;
+
+      const user = await storage.getUserByStripeCustomerId(
+        subscription.customer as string,
+      );
+
+      if (user) {
+        // Projects already requested are unaffected: editors finish them and they stay
+        // reviewable and downloadable. Only new projects need a subscription or prepaid credits.
+        await storage.updateUserSubscription(user.id, {
+          subscriptionStatus: "canceled",
+          subscriptionTier: null,
+          cancelAtPeriodEnd: false,
+          pauseResumesAt: null,
+          nextAllowanceGrantAt: null,
+        });
+
+        // Unused subscription credits end with the subscription; prepaid credits are kept
+        await storage.expireCredits(
+          user.id,
+          "subscription",
+          "stripe_subscription",
+          subscription.id,
+          "Subscription canceled",
+        );
+        await endGracePeriod(user);
+
+        console.log(`Subscription canceled for user ${user.id}`);
+      }
+      break;
+    }
+
+    // Pauses from Stripe's own pause feature (in-app pauses use pause_collection and
+    // arrive as customer.subscription.updated)
+    case "customer.subscription.paused":
+    case "customer.subscription.resumed": {
+      const subscription = event.data.object as Stripe.Subscription;
+
+      const user = await storage.getUserByStripeCustomerId(
+        subscription.customer as string,
+      );
+
+      if (user) {
+        await storage.updateUserSubscription(user.id, {
+          subscriptionStatus: getLocalSubscriptionStatus(subscription),
+          pauseResumesAt: getPauseResumesAt(subscription),
+        });
+        if (event.type === "customer.subscription.resumed") {
+          await resumeAllowanceSchedule(user);
+        }
+
+        console.log(
+          `Subscription ${event.type === "customer.subscription.paused" ? "paused" : "resumed"} for user ${user.id}`,
+        );
+      }
+      break;
+    }
+
+    case "invoice.payment_failed": {
+      const invoice = event.data.object as Stripe.Invoice;
+
+      if ((invoice as any).subscription) {
+        const subscription = await payments.retrieveSubscription(
+          (invoice as any).subscription as string,
+        );
+        const user = await storage.getUserByStripeCustomerId(
+          subscription.customer as string,
+        );
+
+        if (user) {
+          await storage.updateUserSubscription(user.id, {
+            subscriptionStatus: "past_due",
+          });
+
+          console.log(
+            `Payment failed for user ${user.id}, subscription marked past_due`,
+          );
+
+          // Keep the customer working while they fix their card; reminders follow on a schedule
+          await startGracePeriod(user);
+        }
+      }
+      break;
+    }
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
+export async function registerRoutes(app: any): Promise<Server> {
+  // Create router instance
+  const router = express.Router();
+
+  // Stripe and Frame.io events are recorded by their webhook routes and applied by the inbox worker
+  registerWebhookHandler("stripe", handleStripeEvent);
+  registerWebhookHandler("frameio", handleFrameioEvent);
+
+  // Stripe webhook endpoint - must be before other JSON middleware
+  router.post(
+    "/api/webhooks/stripe",
+    express.raw({ type: "application/json" }),
+    async (req: AppRequest, res: AppResponse) => {
+      const sig = req.headers["stripe-signature"];
+      const endpointSecret = payments.getWebhookSecret();
+
+      if (!sig || !endpointSecret) {
+        console.error("Missing Stripe signature or webhook secret");
+        return res.status(400).send("Missing signature or secret");
+      }
+
+      let event: Stripe.Event;
+
+      // Always verify webhook signature for security
+      try {
+        event = payments.constructWebhookEvent(req.body, sig, endpointSecret);
+      } catch (err: any) {
+        console.error("Webhook signature verification failed:", err.message);
+        return res.status(400).send(`Webhook Error: ${err.message}`);
+      }
+
+      // Log webhook receipt (works with any environment)
+      console.log(`📬 Webhook received: ${event.type}`);
+      console.log(
+        `Event ID: ${event.id}, Created: ${new Date(event.created * 1000).toISOString()}`,
+      );
+
+      // Record the event before acknowledging it; duplicates are skipped and
+      // processing happens asynchronously with retries (see webhook-inbox.ts)
+      try {
+        const { duplicate } = await enqueueWebhookEvent(
+          "stripe",
+          event.id,
+          event.type,
+          event,
+        );
+        res.json({ received: true, duplicate });
+      } catch (error: any) {
+        console.error("Failed to record webhook event:", error);
+        res.status(500).json({ error: "Webhook processing failed" });
+      }
+    },
+  );
+
+  // Local stand-ins for Stripe-hosted pages and billing events (PAYMENT_PROVIDER=fake only)
+  if (payments.name === "fake") {
+    const fakePayments = payments as FakePaymentProvider;
+
+    // Fake checkout page: pays immediately (or cancels with ?outcome=cancel) and redirects back
+    router.get(
+      "/api/fake-payments/checkout/:sessionId",
+      async (req: AppRequest, res: AppResponse) => {
+        try {
+          const redirectUrl =
+            req.query.outcome === "cancel"
+              ? await fakePayments.cancelCheckoutSession(req.params.sessionId)
+              : await fakePayments.completeCheckoutSession(req.params.sessionId);
+
+          res.redirect(redirectUrl || "/dashboard");
+        } catch (error: any) {
+          console.error("Fake checkout failed:", error);
+          res.status(400).send(`Fake checkout failed: ${error.message}`);
+        }
+      },
+    );
+
+    // Simulate the current user's next renewal; body: { outcome: "succeeded" | "failed" }
+    router.post(
+      "/api/fake-payments/subscription/renew",
+      requireAuth,
+      async (req: AppRequest, res: AppResponse) => {
+        try {
+          const user = await storage.getUser(req.user!.id);
+          if (!user?.stripeSubscriptionId) {
+            return res.status(400).json({
+              success: false,
+              message: "No subscription to renew",
+            });
+          }
+
+          const outcome = req.body?.outcome === "failed" ? "failed" : "succeeded";
+          const subscription = await fakePayments.simulateRenewal(
+            user.stripeSubscriptionId,
+            outcome,
+          );
+
+          res.json({ success: true, status: subscription.status });
+        } catch (error: any) {
+          console.error("Fake renewal failed:", error);
+          res.status(500).json({ success: false, message: error.message });
+        }
+      },
+    );
+
+    router.post(
+      "/api/fake-payments/subscription/cancel",
+      requireAuth,
+      async (req: AppRequest, res: AppResponse) => {
+        try {
+          const user = await storage.getUser(req.user!.id);
+          if (!user?.stripeSubscriptionId) {
+            return res.status(400).json({
+              success: false,
+              message: "No subscription to cancel",
+            });
+          }
+
+          await fakePayments.cancelSubscription(user.stripeSubscriptionId);
+          res.json({ success: true });
+        } catch (error: any) {
+          console.error("Fake cancellation failed:", error);
+          res.status(500).json({ success: false, message: error.message });
+        }
+      },
+    );
+  }
+  // Frame.io webhook endpoint for video upload notifications
+  // Generate Frame.io V4 public share link for project video
+  router.get(
+    "/api/projects/:id/video-share-link",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      console.log(
+        `🔥🔥🔥 NEW ROUTE CODE LOADED: /api/projects/${req.params.id}/video-share-link`,
+      );
+      console.log(`🔥🔥🔥 THIS SHOULD ALWAYS APPEAR FIRST!`);
+      try {
+        const projectId = Number(req.params.id);
+        let project = await storage.getProject(projectId);
+
+        if (!project) {
+          return res.status(404).json({ error: "Project not found" });
+        }
+
+        // The client turned the link off; only an explicit regenerate brings it back
+        if (project.shareStatus === "revoked") {
+          return res.status(409).json({
+            error: "This share link was turned off. Create a new link from the project's link settings.",
+            shareStatus: "revoked",
+          });
+        }
+
+        // FIRST: Check if we already have a project-level share link stored
+        if (project.frameioReviewLink) {
+          console.log(
+            `✅ Found existing project-level share link: ${project.frameioReviewLink}`,
+          );
+
+          if (getShareLinkState(project).status === "expired") {
+            try {
+              project = await renewProjectShare(project);
+            } catch (renewError) {
+              console.error(`❌ Could not renew expired share link for project ${projectId}:`, renewError);
+              return res.status(410).json({
+                error: "This share link has expired. Create a new link from the project's link settings.",
+                shareStatus: "expired",
+              });
+            }
+          }
+
+          return res.json({
+            shareUrl: project.frameioReviewLink,
+            shareId: project.frameioReviewShareId || "project-cached",
             filename: project.title,
             isPublicShare: true,
             note: "Using existing project share link",
+            expiresAt: project.shareExpiresAt,
             features: {
               publicAccess: true,
               commentsEnabled: true,
-              downloadsEnabled: true,
+              downloadsEnabled: project.shareDownloadsEnabled,
+              passwordProtected: project.sharePasswordProtected,
             },
           });
         }
@@ -1317,6 +1906,7 @@ export async function registerRoutes(app: any): Promise<Server> {
             fileType: videoFile.fileType,
             assetId: videoFile.mediaAssetId,
           },
+          shareLink.expiresAt,
         );
         await updateProjectTimestamp(projectId, "share link generated");
         console.log(
@@ -1357,6 +1947,118 @@ export async function registerRoutes(app: any): Promise<Server> {
     },
   );
 
+  // Local media provider files (MEDIA_PROVIDER=local). Share, download and upload links are
+  // signed and expire, so these routes need no session, like Frame.io's public share URLs.
+  router.get(
+    "/api/media/local/:assetId",
+    async (req: AppRequest, res: AppResponse) => {
+      const { assetId } = req.params;
+      if (
+        media.name !== "local" ||
+        !verifyLocalMediaSignature("GET", assetId, req.query.expires, req.query.signature)
+      ) {
+        return res.status(404).json({ success: false, message: "File not found" });
+      }
+
+      try {
+        const filePath = resolveLocalMediaPath(assetId);
+        const fileName = path.basename(filePath);
+        if (req.query.download === "1") {
+          return res.download(filePath, fileName);
+        }
+        res.type(getLocalMediaType(fileName));
+        res.sendFile(filePath);
+      } catch (error) {
+        console.error("Local media download error:", error);
+        res.status(404).json({ success: false, message: "File not found" });
+      }
+    },
+  );
+
+  router.put(
+    "/api/media/local/:assetId",
+    async (req: AppRequest, res: AppResponse) => {
+      const { assetId } = req.params;
+      if (
+        media.name !== "local" ||
+        !verifyLocalMediaSignature("PUT", assetId, req.query.expires, req.query.signature)
+      ) {
+        return res.status(403).json({ success: false, message: "Invalid upload link" });
+      }
+
+      // Only placeholders reserved by an upload session can be written, and only up to the size it declared
+      const session = await storage.getUploadSessionByAssetId(assetId);
+      if (!session) {
+        return res.status(403).json({ success: false, message: "Invalid upload link" });
+      }
+      if (Number(req.headers["content-length"]) > session.fileSize) {
+        return res.status(413).json({ success: false, message: "Upload is larger than the declared file size" });
+      }
+
+      try {
+        const filePath = resolveLocalMediaPath(assetId);
+        await fs.promises.access(filePath);
+        await pipeline(req, limitUploadBytes(session.fileSize), fs.createWriteStream(filePath));
+        res.json({ success: true, assetId });
+      } catch (error) {
+        if (error instanceof UploadTooLargeError) {
+          return res.status(413).json({ success: false, message: error.message });
+        }
+        console.error("Local media upload error:", error);
+        res.status(500).json({ success: false, message: "Upload failed" });
+      }
+    },
+  );
+
+  // Resumable chunked writes to a reserved upload (TUS style: PATCH with Upload-Offset).
+  // Uses the same signed upload link as PUT; the response's Upload-Offset is where the next chunk starts.
+  router.patch(
+    "/api/media/local/:assetId",
+    async (req: AppRequest, res: AppResponse) => {
+      const { assetId } = req.params;
+      if (
+        media.name !== "local" ||
+        !verifyLocalMediaSignature("PUT", assetId, req.query.expires, req.query.signature)
+      ) {
+        return res.status(403).json({ success: false, message: "Invalid upload link" });
+      }
+
+      const offset = Number(req.headers["upload-offset"]);
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ success: false, message: "Upload-Offset header required" });
+      }
+
+      const session = await storage.getUploadSessionByAssetId(assetId);
+      if (!session) {
+        return res.status(403).json({ success: false, message: "Invalid upload link" });
+      }
+      if (offset + (Number(req.headers["content-length"]) || 0) > session.fileSize) {
+        return res.status(413).json({ success: false, message: "Chunk goes past the declared file size" });
+      }
+
+      try {
+        const filePath = resolveLocalMediaPath(assetId);
+        const { size } = await fs.promises.stat(filePath);
+        // Chunks may be re-sent after a reload, but never leave a gap
+        if (offset > size) {
+          res.setHeader("Upload-Offset", String(size));
+          return res.status(409).json({ success: false, message: "Upload offset is past the received data" });
+        }
+
+        const output = fs.createWriteStream(filePath, { flags: "r+", start: offset });
+        await pipeline(req, limitUploadBytes(session.fileSize - offset), output);
+        res.setHeader("Upload-Offset", String(offset + output.bytesWritten));
+        res.status(204).end();
+      } catch (error) {
+        if (error instanceof UploadTooLargeError) {
+          return res.status(413).json({ success: false, message: error.message });
+        }
+        console.error("Local media chunk upload error:", error);
+        res.status(500).json({ success: false, message: "Upload failed" });
+      }
+    },
+  );
+
   // Frame.io proxy endpoint for authenticated file access
   router.get(
     "/api/frameio/proxy/file/:assetId",
@@ -1399,298 +2101,71 @@ export async function registerRoutes(app: any): Promise<Server> {
     },
   );
 
-  // WEBHOOK FUNCTIONALITY (DISABLED - Using polling instead)
-  // Uncomment this section if you want to enable webhook-based detection in the future
-  /*
-  // Test endpoint to verify webhook configuration
-  router.get("/api/webhooks/frameio/test", requireAuth, async (req: AppRequest, res: AppResponse) => {
-    try {
-      // Check if webhook secret is configured
-      const webhookSecret = process.env.FRAMEIO_WEBHOOK_SECRET;
-      
-      // Check share asset mappings
-      const shareAssets = await storage.db
-        .select()
-        .from(frameioShareAssets)
-        .limit(10);
-      
-      res.json({
-        webhookConfigured: !!webhookSecret,
-        webhookSecretSet: webhookSecret ? 'Yes (hidden)' : 'No - Set FRAMEIO_WEBHOOK_SECRET environment variable',
-        shareAssetMappings: shareAssets.length,
-        recentMappings: shareAssets.map(sa => ({
-          shareId: sa.shareId,
-          projectId: sa.projectId,
-          assetId: sa.assetId,
-          assetType: sa.assetType,
-          createdAt: sa.createdAt
-        })),
-        webhookEndpoint: `${req.protocol}://${req.get('host')}/api/webhooks/frameio`,
-        instructions: {
-          setup: 'Configure this webhook URL in Frame.io project settings',
-          events: 'Subscribe to "file.versioned" events for revision detection',
-          secret: 'Copy the webhook secret from Frame.io and set as FRAMEIO_WEBHOOK_SECRET'
-        }
-      });
-    } catch (error) {
-      console.error('Webhook test error:', error);
-      res.status(500).json({ 
-        error: 'Failed to check webhook configuration',
-        details: error instanceof Error ? error instanceof Error ? error.message : String(error) : String(error)
-      });
-    }
-  });
-
-  // Frame.io webhook endpoint with signature verification
-  router.post("/api/webhooks/frameio", 
-    express.raw({ type: 'application/json' }), // Raw body for signature verification
+  // Frame.io webhook: file.ready / file.versioned in a project folder trigger the delivery check.
+  // The asset detection poll still runs as a reconciliation pass for anything missed here.
+  router.post(
+    "/api/webhooks/frameio",
+    express.raw({ type: "application/json" }),
     async (req: AppRequest, res: AppResponse) => {
-      try {
-        // Step 1: Verify webhook signature (if secret is configured)
-        const webhookSecret = process.env.FRAMEIO_WEBHOOK_SECRET;
-        if (webhookSecret) {
-          const signature = req.headers['x-frameio-signature'] as string;
-          
-          if (!signature) {
-            console.error("Missing Frame.io webhook signature");
-            return res.status(401).json({ error: "Missing signature" });
-          }
-
-          // Frame.io V4 uses HMAC-SHA256 for webhook signatures
-          const crypto = require('crypto');
-          const expectedSignature = crypto
-            .createHmac('sha256', webhookSecret)
-            .update(req.body)
-            .digest('hex');
-          
-          if (signature !== `sha256=${expectedSignature}`) {
-            console.error("Invalid Frame.io webhook signature");
-            return res.status(401).json({ error: "Invalid signature" });
-          }
-        }
+      const webhookSecret = getFrameioWebhookSecret();
+      if (!webhookSecret) {
+        console.error("Frame.io webhook received but FRAMEIO_WEBHOOK_SECRET is not set");
+        return res.status(400).send("Missing webhook secret");
+      }
 
-        // Parse the body after verification
-        const payload = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
-        
-        console.log("Frame.io webhook received:", {
-          type: payload.type,
-          resource_id: payload.resource?.id,
-          project_id: payload.project?.id
-        });
+      if (
+        !verifyFrameioWebhookSignature(
+          req.body,
+          req.headers["x-frameio-request-timestamp"],
+          req.headers["x-frameio-signature"],
+          webhookSecret,
+        )
+      ) {
+        console.error("Invalid Frame.io webhook signature");
+        return res.status(401).json({ error: "Invalid signature" });
+      }
 
-        // Step 2: Handle file.versioned event (new version uploaded)
-        if (payload.type === 'file.versioned') {
-          const fileId = payload.resource?.id;
-          const projectId = payload.project?.id;
-          const fileName = payload.resource?.name;
-          
-          if (!fileId) {
-            console.log("No file ID in webhook payload");
-            return res.json({ received: true });
-          }
+      let payload: FrameioWebhookPayload;
+      try {
+        payload = JSON.parse(req.body.toString("utf8"));
+      } catch {
+        return res.status(400).json({ error: "Invalid payload" });
+      }
 
-          console.log(`📹 File versioned event: ${fileId} (${fileName})`);
-          
-          // Step 3: Check if this file is part of any project's share
-          const project = await storage.getProjectByAssetId(fileId);
-          
-          if (!project) {
-            // Check if it's in a folder that's shared
-            console.log(`File ${fileId} not directly mapped, checking folder hierarchy...`);
-            
-            // Get file details to find parent folder
-            try {
-              await frameioV4Service.loadServiceAccountToken();
-              const accountId = await frameioV4Service.getAccountId();
-              const fileResponse = await frameioV4Service.makeRequest(
-                'GET',
-                `/accounts/${accountId}/files/${fileId}`
-              );
-              
-              if (fileResponse?.data?.parent_id) {
-                const parentFolderId = fileResponse.data.parent_id;
-                // Check if parent folder is in share mapping
-                const folderProject = await storage.getProjectByAssetId(parentFolderId);
-                
-                if (folderProject && folderProject.status === 'revision in progress') {
-                  console.log(`✅ Found project ${folderProject.id} via parent folder ${parentFolderId}`);
-                  await handleRevisionVideoDelivery(folderProject, fileResponse.data);
-                  return res.json({ received: true });
-                }
-              }
-            } catch (error) {
-              console.error("Error checking file hierarchy:", error);
-            }
-            
-            console.log(`File ${fileId} not associated with any active project share`);
-            return res.json({ received: true });
-          }
+      console.log(`📬 Frame.io webhook received: ${payload.type} (${payload.resource?.id})`);
 
-          // Step 4: Check if project is in revision stage
-          if (project.status !== 'revision in progress') {
-            console.log(`Project ${project.id} is not awaiting revision (status: ${project.status})`);
-            return res.json({ received: true });
-          }
+      if (!isFrameioDeliveryEvent(payload.type) || !payload.resource?.id) {
+        return res.json({ received: true });
+      }
 
-          // Step 5: Process revision video delivery
-          await handleRevisionVideoDelivery(project, payload.resource);
-          
-          res.json({ received: true });
-        } 
-        // Also handle the legacy event types for backward compatibility
-        else if (payload.type === 'asset.uploaded' || payload.type === 'asset.processing_complete') {
-          // Legacy handling for initial video uploads
-          await handleLegacyAssetUpload(payload);
-          res.json({ received: true });
-        } else {
-          console.log(`Unhandled webhook type: ${payload.type}`);
-          res.json({ received: true });
-        }
-        
-      } catch (error) {
-        console.error("Frame.io webhook processing error:", error);
-        // Return 200 to prevent retries that could cause duplicate processing
-        res.json({ error: "Processing failed but acknowledged" });
+      // Recorded before acknowledging so redeliveries are skipped (see webhook-inbox.ts)
+      try {
+        const { duplicate } = await enqueueWebhookEvent(
+          "frameio",
+          getFrameioWebhookEventId(payload),
+          payload.type,
+          payload,
+        );
+        res.json({ received: true, duplicate });
+      } catch (error: any) {
+        console.error("Failed to record Frame.io webhook event:", error);
+        res.status(500).json({ error: "Webhook processing failed" });
       }
-    }
+    },
   );
 
-  */
-  // END OF WEBHOOK FUNCTIONALITY (Using polling instead)
-
-  // Helper functions for webhook handling (kept for reference but not used)
-  /*
-  async function handleRevisionVideoDelivery(project: Project, fileData: any) {
-    try {
-      const assetId = fileData.id || fileData.asset_id;
-      const fileName = fileData.name || 'Revised Video';
-      const fileSize = fileData.file_size || 0;
-      const mediaType = fileData.media_type || 'video/mp4';
-      
-      console.log(`🎬 Processing revision video delivery for project ${project.id}`);
-      
-      // Update project status to "video is ready" (revised version)
-      await storage.updateProject(project.id, {
-        status: 'video is ready',
-        updatedAt: new Date(),
-      });
-      
-      // Log the status change
-      await storage.logProjectStatusChange(
-        project.id, 
-        'revision in progress', 
-        'video is ready'
-      );
-      
-      // Store the revised video info
-      await storage.createProjectFile({
-        projectId: project.id,
-        mediaAssetId: assetId,
-        mediaAssetUrl: fileData.view_url || '',
-        filename: `${fileName} (Revision ${(project.revisionCount || 0) + 1})`,
-
-        fileType: mediaType,
-        fileSize: fileSize,
-      });
-      
-      // Send notification email
-      const user = await storage.getUserById(project.userId);
-      if (user?.email) {
-        const emailTemplate = emailService.generateVideoDeliveryEmail(
-          user.email,
-          project.title,
-          project.frameioReviewLink || '', // Use existing share link
-          project.id
-        );
-        
-        await emailService.sendEmail(emailTemplate);
-        console.log(`📧 Revision delivery email sent to ${user.email} for project ${project.id}`);
-      }
-      
-      console.log(`✅ Project ${project.id} revision delivered successfully`);
-    } catch (error) {
-      console.error(`Error handling revision video delivery for project ${project.id}:`, error);
-      throw error;
-    }
-  }
-
-  // Legacy handler for initial uploads
-  async function handleLegacyAssetUpload(payload: any) {
-    const { type, data } = payload;
-    const assetId = data.id;
-    const assetName = data.name;
-    
-    console.log(`Legacy asset event: ${type} - ${assetId} (${assetName})`);
-    
-    // Find projects in "edit in progress" status
-    const projectsInProgress = await storage.getProjectsByStatus(['edit in progress']);
-    
-    for (const project of projectsInProgress) {
-      if (project.mediaFolderId) {
-        try {
-          await frameioV4Service.loadServiceAccountToken();
-          const folderAssets = await frameioV4Service.getFolderAssets(project.mediaFolderId);
-          
-          const foundAsset = folderAssets.find(asset => asset.id === assetId);
-          const isVideoAsset = foundAsset?.media_type?.startsWith('video/');
-          
-          if (foundAsset && isVideoAsset) {
-            console.log(`✅ Initial video delivered to project ${project.id}`);
-            
-            await storage.updateProject(project.id, {
-              status: 'video is ready',
-              updatedAt: new Date(),
-            });
-            
-            await updateProjectTimestamp(project.id, "video delivered");
-            
-            const user = await storage.getUserById(project.userId);
-            if (user) {
-              const videoViewUrl = foundAsset.view_url || 
-                `https://next.frame.io/project/${foundAsset.project_id}/view/${foundAsset.id}`;
-              
-              const emailTemplate = emailService.generateVideoDeliveryEmail(
-                user.email,
-                project.title,
-                videoViewUrl,
-                project.id
-              );
-              
-              await emailService.sendEmail(emailTemplate);
-            }
-            
-            await storage.createProjectFile({
-              projectId: project.id,
-              mediaAssetId: assetId,
-              mediaAssetUrl: foundAsset.view_url || '',
-              filename: assetName,
-              fileType: foundAsset.media_type || 'video/mp4',
-              fileSize: foundAsset.file_size || 0,
-            });
-            
-            break;
-          }
-        } catch (error) {
-          console.error(`Error checking asset ${assetId} for project ${project.id}:`, error);
-        }
-      }
-    }
-  }
-  */
-  // END OF WEBHOOK HELPER FUNCTIONS
-
-  // Get project files endpoint
-  router.get(
-    "/api/projects/:id/files",
-    requireAuth,
-    async (req: AppRequest, res: AppResponse) => {
-      try {
-        const projectId = Number(req.params.id);
-        const userId = req.user.id;
+  // Get project files endpoint
+  router.get(
+    "/api/projects/:id/files",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const projectId = Number(req.params.id);
+        const userId = req.user.id;
 
         // Verify project ownership
         const project = await storage.getProject(projectId);
-        if (!project || project.userId !== userId) {
+        if (!project || !(await canAccessProject(project, userId))) {
           return res.status(404).json({ error: "Project not found" });
         }
 
@@ -1851,14 +2326,14 @@ export async function registerRoutes(app: any): Promise<Server> {
 
         // Verify project ownership
         const project = await storage.getProject(projectId);
-        if (!project || project.userId !== userId) {
+        if (!project || !(await canAccessProject(project, userId))) {
           return res.status(404).json({ error: "Project not found" });
         }
 
         // Generate download link from Frame.io
-        await frameioV4Service.loadServiceAccountToken();
+        await media.connect();
         const downloadUrl =
-          await frameioV4Service.generateAssetDownloadLink(assetId);
+          await media.generateAssetDownloadLink(assetId);
 
         if (downloadUrl) {
           res.json({ downloadUrl });
@@ -1956,7 +2431,7 @@ export async function registerRoutes(app: any): Promise<Server> {
         ) {
           // For testing, use project 16 (Test 10)
           const project = await storage.getProject(16);
-          if (!project || project.userId !== userId) {
+          if (!project || !(await canAccessProject(project, userId))) {
             return res.status(404).json({
               success: false,
               message: "Test project not found or access denied",
@@ -2014,7 +2489,7 @@ export async function registerRoutes(app: any): Promise<Server> {
 
         // Get the Stripe session to verify payment status
         const stripeSession =
-          await stripe.checkout.sessions.retrieve(sessionId);
+          await payments.retrieveCheckoutSession(sessionId);
 
         // If payment is completed and not already recorded, update the database
         if (
@@ -2032,12 +2507,6 @@ export async function registerRoutes(app: any): Promise<Server> {
             stripePaymentIntentId: stripeSession.payment_intent as string,
           });
 
-          // Increment the project's revision count
-          await storage.incrementProjectRevisionCount(payment.projectId);
-          console.log(
-            `📊 Incremented revision count for project ${payment.projectId}`,
-          );
-
           // Log the revision for accounting/tracking
           console.log(
             `💰 REVISION PAYMENT RECORDED: Project ${payment.projectId}, Amount: $${payment.paymentAmount / 100}, Session: ${sessionId}`,
@@ -2088,7 +2557,7 @@ export async function registerRoutes(app: any): Promise<Server> {
 
         // Verify project ownership
         const project = await storage.getProject(projectId);
-        if (!project || project.userId !== userId) {
+        if (!project || !(await canAccessProject(project, userId))) {
           return res.status(404).json({ error: "Project not found" });
         }
 
@@ -2139,33 +2608,30 @@ export async function registerRoutes(app: any): Promise<Server> {
 
         // Verify project ownership
         const project = await storage.getProject(projectId);
-        if (!project || project.userId !== userId) {
+        if (!project || !(await canAccessProject(project, userId))) {
           return res.status(404).json({ error: "Project not found" });
         }
 
         // Verify project is in correct status
-        if (project.status !== "video is ready") {
+        if (project.status !== PROJECT_STATUS.VIDEO_IS_READY) {
           return res.status(400).json({
             error: "Project must be in 'video is ready' status to accept",
           });
         }
 
-        // Update project status to complete
-        await storage.updateProject(projectId, {
-          status: "complete",
-          updatedAt: new Date(),
-        });
-
-        // Log status change
-        await storage.logProjectStatusChange(
+        // Update project status to complete (the status change is logged by storage)
+        await storage.updateProject(
           projectId,
-          project.status,
-          "complete",
+          {
+            status: PROJECT_STATUS.COMPLETE,
+            updatedAt: new Date(),
+          },
+          "user",
         );
 
         // Update Frame.io assets status to "Approved"
         try {
-          await frameioV4Service.updateProjectAssetsStatus(
+          await media.updateProjectAssetsStatus(
             projectId,
             "Approved",
           );
@@ -2240,7 +2706,7 @@ export async function registerRoutes(app: any): Promise<Server> {
 
         // Verify project ownership
         const project = await storage.getProject(projectId);
-        if (!project || project.userId !== userId) {
+        if (!project || !(await canAccessProject(project, userId))) {
           return res.status(404).json({
             success: false,
             message: "Project not found",
@@ -2248,10 +2714,10 @@ export async function registerRoutes(app: any): Promise<Server> {
         }
 
         // Verify project is in acceptable status for revision (after payment)
-        const validStatuses = [
-          "video is ready",
-          "complete",
-          "awaiting revision instructions",
+        const validStatuses: string[] = [
+          PROJECT_STATUS.VIDEO_IS_READY,
+          PROJECT_STATUS.COMPLETE,
+          PROJECT_STATUS.AWAITING_REVISION_INSTRUCTIONS,
         ];
         if (!validStatuses.includes(project.status)) {
           return res.status(400).json({
@@ -2260,28 +2726,78 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        // Calculate new revision count
-        const newRevisionCount = (project.revisionCount || 0) + 1;
+        const instructions =
+          typeof req.body?.instructions === "string" &&
+          req.body.instructions.trim()
+            ? req.body.instructions.trim()
+            : null;
 
-        // Update project status to revision in progress with timestamp tracking and increment revision count
-        await storage.updateProject(projectId, {
-          status: "revision in progress",
-          // revisionCount: newRevisionCount, // TODO: Add revisionCount to schema
-          updatedAt: new Date(),
+        // Link the most recent completed payment that hasn't been used by an earlier revision
+        const existingRevisions = await storage.getProjectRevisions(projectId);
+        const linkedPaymentIds = new Set(
+          existingRevisions.map((revision) => revision.revisionPaymentId),
+        );
+        const unlinkedPayments = (
+          await storage.getRevisionPaymentsByProject(projectId)
+        ).filter((payment) => !linkedPaymentIds.has(payment.id));
+        let revisionPayment = unlinkedPayments.find(
+          (payment) => payment.paymentStatus === "completed",
+        );
+
+        // Straight back from checkout the webhook may not have recorded the payment yet;
+        // accept the client's own checkout session once Stripe confirms it was paid
+        const sessionId =
+          typeof req.body?.sessionId === "string" ? req.body.sessionId : null;
+        const pendingPayment = sessionId
+          ? unlinkedPayments.find(
+              (payment) =>
+                payment.paymentStatus === "pending" &&
+                payment.stripeCheckoutSessionId === sessionId,
+            )
+          : undefined;
+        if (!revisionPayment && pendingPayment) {
+          const session = await payments.retrieveCheckoutSession(sessionId!);
+          if (
+            session.payment_status === "paid" &&
+            session.status === "complete"
+          ) {
+            await storage.updateRevisionPayment(sessionId!, {
+              paymentStatus: "completed",
+              paidAt: new Date(),
+              stripePaymentIntentId: session.payment_intent as string,
+            });
+            revisionPayment = await storage.getRevisionPayment(sessionId!);
+          }
+        }
+
+        // Without a payment, the revision must be one of the plan's included revisions,
+        // reserved when create-revision-session granted it
+        let included = false;
+        if (!revisionPayment) {
+          if (project.includedRevisionReservedAt) {
+            included = true;
+          } else {
+            return res.status(402).json({
+              success: false,
+              message: "A revision payment is required before requesting a revision",
+              requiresPayment: true,
+            });
+          }
+        }
+
+        // Record the revision and move the project to revision in progress together
+        // (storage numbers the revision, persists projects.revisionCount and logs the status change)
+        const { revision } = await storage.startProjectRevision(projectId, {
+          instructions,
+          revisionPaymentId: revisionPayment?.id ?? null,
+          included,
         });
-        await updateProjectTimestamp(projectId, "revision requested");
+        const newRevisionCount = revision.revisionNumber;
 
         console.log(
           `✅ Project ${projectId} status updated to "revision in progress", revision count: ${newRevisionCount}`,
         );
 
-        // Log status change
-        await storage.logProjectStatusChange(
-          projectId,
-          project.status,
-          "revision in progress",
-        );
-
         // Create Trello revision card
         try {
           const cardId = await trelloAutomation.createRevisionCard(
@@ -2289,6 +2805,9 @@ export async function registerRoutes(app: any): Promise<Server> {
             newRevisionCount,
           );
           if (cardId) {
+            await storage.updateProjectRevision(revision.id, {
+              trelloCardId: cardId,
+            });
             console.log(
               `✅ Created Trello revision card for project ${projectId}, revision #${newRevisionCount}: ${cardId}`,
             );
@@ -2311,9 +2830,17 @@ export async function registerRoutes(app: any): Promise<Server> {
           project: {
             id: projectId,
             status: "revision in progress",
+            revisionCount: newRevisionCount,
           },
+          revision,
         });
       } catch (error: any) {
+        if (error instanceof ProjectStatusTransitionError) {
+          return res.status(409).json({
+            success: false,
+            message: `Project cannot move from "${error.from}" to "${error.to}"`,
+          });
+        }
         console.error("Failed to request revision:", error);
         res.status(500).json({
           success: false,
@@ -2326,6 +2853,84 @@ export async function registerRoutes(app: any): Promise<Server> {
     },
   );
 
+  // Revision history for a project (owner or admin)
+  router.get(
+    "/api/projects/:id/revisions",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const projectId = Number(req.params.id);
+
+        const project = await storage.getProject(projectId);
+        if (
+          !project ||
+          (!(await canAccessProject(project, req.user!.id)) &&
+            !isAdminEmail(req.user!.email))
+        ) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
+
+        const revisions = await storage.getProjectRevisions(projectId);
+        const payments = await storage.getRevisionPaymentsByProject(projectId);
+
+        res.json({
+          success: true,
+          revisions: revisions.map((revision) => ({
+            ...revision,
+            payment:
+              payments.find((payment) => payment.id === revision.revisionPaymentId) ||
+              null,
+          })),
+        });
+      } catch (error) {
+        console.error("Failed to get project revisions:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get project revisions",
+        });
+      }
+    },
+  );
+
+  // Included (free) revisions remaining for a project under the owner's plan
+  router.get(
+    "/api/projects/:id/revision-allowance",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const projectId = Number(req.params.id);
+
+        const project = await storage.getProject(projectId);
+        if (!project || !(await canAccessProject(project, req.user!.id))) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
+
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        const allowance = await getIncludedRevisionAllowance(user, projectId);
+        res.json({ success: true, ...allowance });
+      } catch (error) {
+        console.error("Failed to get revision allowance:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get revision allowance",
+        });
+      }
+    },
+  );
+
   // Email signup endpoint
   router.post(
     "/api/email-signup",
@@ -3357,7 +3962,7 @@ export async function registerRoutes(app: any): Promise<Server> {
 
         // Verify user owns the project
         const project = await storage.getProject(projectId);
-        if (!project || project.userId !== userId) {
+        if (!project || !(await canAccessProject(project, userId))) {
           return res
             .status(404)
             .json({ success: false, message: "Project not found" });
@@ -3486,12 +4091,115 @@ export async function registerRoutes(app: any): Promise<Server> {
     },
   );
 
-  // Check subscription status with Stripe metadata
+  // Public plan catalog for the pricing section and subscribe page
+  router.get("/api/plans", async (req: AppRequest, res: AppResponse) => {
+    try {
+      const plans = await getActivePlans();
+
+      res.json({
+        success: true,
+        plans: plans.map((plan) => ({
+          key: plan.key,
+          name: plan.name,
+          description: plan.description,
+          cadence: plan.cadence,
+          features: plan.features,
+          buttonText: plan.buttonText,
+          allowance: plan.allowance,
+          includedRevisions: plan.includedRevisions,
+          includedRevisionsPer: plan.includedRevisionsPer,
+          unitAmount: plan.unitAmount,
+          // Yearly price when the plan offers annual billing
+          annualUnitAmount: plan.annualLookupKey ? plan.annualUnitAmount : null,
+          currency: plan.currency,
+          billingInterval: plan.billingInterval,
+          highlighted: plan.highlighted,
+        })),
+      });
+    } catch (error) {
+      console.error("Get plans error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get plans",
+      });
+    }
+  });
+
+  // The signed-in user's credit balances and ledger history
   router.get(
-    "/api/subscription/status",
+    "/api/credits",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const [balances, entries] = await Promise.all([
+          storage.getCreditBalances(req.user!.id),
+          storage.getCreditLedger(req.user!.id),
+        ]);
+
+        res.json({ success: true, balances, entries });
+      } catch (error) {
+        console.error("Get credits error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get credits",
+        });
+      }
+    },
+  );
+
+  // The signed-in user's referral link and how their referrals are doing
+  router.get(
+    "/api/referrals",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const [referralCode, referralRows] = await Promise.all([
+          storage.getOrCreateReferralCode(req.user!.id),
+          storage.getReferralsByReferrer(req.user!.id),
+        ]);
+        const rewarded = referralRows.filter(
+          (referral) => referral.status === "rewarded",
+        );
+
+        res.json({
+          success: true,
+          referralCode,
+          referralUrl: `${getAppBaseUrl()}/auth?ref=${referralCode}`,
+          rewardCredits: getReferralRewardCredits(),
+          stats: {
+            total: referralRows.length,
+            pending: referralRows.length - rewarded.length,
+            rewarded: rewarded.length,
+            creditsEarned: rewarded.reduce(
+              (sum, referral) => sum + (referral.rewardCredits ?? 0),
+              0,
+            ),
+          },
+        });
+      } catch (error) {
+        console.error("Get referrals error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get referrals",
+        });
+      }
+    },
+  );
+
+  // Apply a referral code after signing up with OAuth (email signups pass it in their signup metadata)
+  router.post(
+    "/api/referrals/claim",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
+        const { code } = req.body;
+        if (!code || typeof code !== "string") {
+          return res.status(400).json({
+            success: false,
+            message: "Referral code is required",
+          });
+        }
+
         const user = await storage.getUser(req.user!.id);
         if (!user) {
           return res.status(404).json({
@@ -3500,844 +4208,846 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        let allowanceFromStripe = user.subscriptionAllowance || 0;
-        let productName = user.subscriptionTier || null;
-        let actualSubscriptionStatus = user.subscriptionStatus || "inactive";
-        let stripeSubscriptionId = user.stripeSubscriptionId;
+        const result = await recordReferral(user, code);
+        if (!result.success) {
+          const messages: Record<typeof result.reason, string> = {
+            invalid_code: "Referral code not found",
+            self_referral: "You can't use your own referral code",
+            existing_customer: "Referral codes are only for new customers",
+            already_referred: "A referral code has already been applied to your account",
+          };
+          return res.status(result.reason === "invalid_code" ? 404 : 409).json({
+            success: false,
+            message: messages[result.reason],
+            reason: result.reason,
+          });
+        }
 
-        // Always check with Stripe if user has a customer ID to catch missed subscription updates
-        if (user.stripeCustomerId) {
-          try {
-            console.log(
-              `🔍 Checking Stripe for latest subscription status for customer: ${user.stripeCustomerId}`,
-            );
+        res.json({
+          success: true,
+          message: "Referral code applied",
+        });
+      } catch (error) {
+        console.error("Claim referral error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to apply referral code",
+        });
+      }
+    },
+  );
 
-            // Get all active subscriptions for this customer
-            const subscriptions = await stripe.subscriptions.list({
-              customer: user.stripeCustomerId,
-              status: "active",
-              limit: 1,
-            });
+  // Team organization the current user belongs to, with its members (and pending invitations for admins)
+  router.get(
+    "/api/organization",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const membership = await storage.getOrganizationMembership(
+          req.user!.id,
+        );
+        if (!membership) {
+          return res.json({ success: true, organization: null });
+        }
 
-            if (subscriptions.data.length > 0) {
-              const latestSubscription = subscriptions.data[0];
-              console.log(
-                `✅ Found active subscription in Stripe: ${latestSubscription.id}, status: ${latestSubscription.status}`,
-              );
+        const { organization, role } = membership;
+        const members = await storage.getOrganizationMembers(organization.id);
+        const invitations = hasOrganizationRole(role, "admin")
+          ? await storage.getPendingOrganizationInvitations(organization.id)
+          : [];
 
-              // Update our records if they're out of sync
-              if (
-                actualSubscriptionStatus !== "active" ||
-                stripeSubscriptionId !== latestSubscription.id
-              ) {
-                console.log(
-                  `🔄 Updating local subscription status from ${actualSubscriptionStatus} to active`,
-                );
+        res.json({
+          success: true,
+          organization,
+          role,
+          members,
+          // Tokens are only ever sent by email
+          invitations: invitations.map(({ token, ...invitation }) => invitation),
+        });
+      } catch (error) {
+        console.error("Get organization error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get organization",
+        });
+      }
+    },
+  );
 
-                const periodStart = new Date(
-                  (latestSubscription as any).current_period_start * 1000,
-                );
-                const periodEnd = new Date(
-                  (latestSubscription as any).current_period_end * 1000,
-                );
+  // Create an organization owned by the current user; their subscription becomes the team's
+  router.post(
+    "/api/organization",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const data = insertOrganizationSchema.parse(req.body);
 
-                await storage.updateUserSubscription(user.id, {
-                  subscriptionStatus: "active",
-                  stripeSubscriptionId: latestSubscription.id,
-                  subscriptionPeriodStart: periodStart,
-                  subscriptionPeriodEnd: periodEnd,
-                });
+        const existing = await storage.getOrganizationMembership(req.user!.id);
+        if (existing) {
+          return res.status(409).json({
+            success: false,
+            message: "You already belong to an organization",
+          });
+        }
 
-                actualSubscriptionStatus = "active";
-                stripeSubscriptionId = latestSubscription.id;
-              }
-            } else {
-              console.log(
-                `❌ No active subscriptions found in Stripe for customer: ${user.stripeCustomerId}`,
-              );
-              // If we think they have an active sub but Stripe says no, update our records
-              if (actualSubscriptionStatus === "active") {
-                console.log(
-                  `🔄 Updating local subscription status from active to inactive`,
-                );
-                await storage.updateUserSubscription(user.id, {
-                  subscriptionStatus: "inactive",
-                });
-                actualSubscriptionStatus = "inactive";
-              }
-            }
-          } catch (stripeError) {
-            console.warn(
-              "Failed to check Stripe subscription status:",
-              stripeError,
-            );
-            // Continue with stored values
-          }
-        }
-
-        // If user has active subscription, fetch allowance from Stripe product metadata
-        if (actualSubscriptionStatus === "active" && stripeSubscriptionId) {
-          try {
-            const subscription =
-              await stripe.subscriptions.retrieve(stripeSubscriptionId);
-            const productId = subscription.items.data[0]?.price
-              .product as string;
-
-            if (productId) {
-              const product = await stripe.products.retrieve(productId);
-
-              // Map Stripe product ID to correct tier
-              const correctTier = getSubscriptionTierFromProductId(productId);
-              const correctAllowance =
-                SUBSCRIPTION_TIERS[
-                  correctTier as keyof typeof SUBSCRIPTION_TIERS
-                ].allowance;
-
-              // Get allowance from Stripe product metadata (fallback to our config)
-              if (product.metadata?.allowance) {
-                allowanceFromStripe = Number(product.metadata.allowance);
-              } else {
-                allowanceFromStripe = correctAllowance;
-              }
-
-              // Update local storage if tier or allowance is different
-              if (
-                allowanceFromStripe !== user.subscriptionAllowance ||
-                correctTier !== user.subscriptionTier
-              ) {
-                console.log(
-                  `🔄 Updating subscription tier from ${user.subscriptionTier} to ${correctTier} (allowance: ${allowanceFromStripe})`,
-                );
-                await storage.updateUserSubscription(user.id, {
-                  subscriptionTier: correctTier,
-                  subscriptionAllowance: allowanceFromStripe,
-                });
-              }
-
-              productName = product.name;
-            }
-          } catch (stripeError) {
-            console.warn(
-              "Failed to fetch Stripe subscription details:",
-              stripeError,
-            );
-            // Continue with stored values
-          }
-        }
-
-        // Count projects CREATED within the current billing period (not based on status changes)
-        const projects = await storage.getProjectsByUser(user.id);
-        let usageInPeriod = 0;
-
-        if (user.subscriptionPeriodStart && user.subscriptionPeriodEnd) {
-          const periodStart = new Date(user.subscriptionPeriodStart);
-          const periodEnd = new Date(user.subscriptionPeriodEnd);
-
-          usageInPeriod = projects.filter((project) => {
-            const createdAt = new Date(project.createdAt);
-            return createdAt >= periodStart && createdAt <= periodEnd; // Count projects CREATED within the billing period
-          }).length;
-        }
+        const organization = await storage.createOrganization(
+          req.user!.id,
+          data,
+        );
+        console.log(
+          `🏢 User ${req.user!.id} created organization ${organization.id} (${organization.name})`,
+        );
 
-        res.json({
+        res.status(201).json({
           success: true,
-          subscription: {
-            hasActiveSubscription: actualSubscriptionStatus === "active",
-            status: actualSubscriptionStatus,
-            tier: user.subscriptionTier,
-            productName,
-            usage: usageInPeriod,
-            allowance: allowanceFromStripe,
-            periodStart: user.subscriptionPeriodStart,
-            periodEnd: user.subscriptionPeriodEnd,
-            stripeCustomerId: user.stripeCustomerId,
-            hasReachedLimit: usageInPeriod >= allowanceFromStripe,
-          },
+          message: "Organization created",
+          organization,
         });
       } catch (error) {
-        console.error("Get subscription status error:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: error.errors[0]?.message || "Invalid organization data",
+            errors: error.errors,
+          });
+        }
+        console.error("Create organization error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to get subscription status",
+          message: "Failed to create organization",
         });
       }
     },
   );
 
-  // Create or get subscription (redirect to Stripe checkout)
-  router.post(
-    "/api/subscription/create-checkout",
+  router.patch(
+    "/api/organization",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        const { tier } = req.body;
-
-        if (
-          !tier ||
-          !SUBSCRIPTION_TIERS[tier as keyof typeof SUBSCRIPTION_TIERS]
-        ) {
-          return res.status(400).json({
-            success: false,
-            message: "Invalid subscription tier",
-          });
-        }
+        const data = insertOrganizationSchema.parse(req.body);
 
-        const user = await storage.getUser(req.user!.id);
-        if (!user) {
-          return res.status(404).json({
+        const membership = await storage.getOrganizationMembership(
+          req.user!.id,
+        );
+        if (!membership || !hasOrganizationRole(membership.role, "admin")) {
+          return res.status(403).json({
             success: false,
-            message: "User not found",
+            message: "Only organization admins can rename the organization",
           });
         }
 
-        let customerId = user.stripeCustomerId;
-
-        // Create Stripe customer if doesn't exist
-        if (!customerId) {
-          // Generate idempotency key for customer creation based on user email
-          const customerIdempotencyKey = `customer_${user.email}`;
-          const customer = await stripe.customers.create(
-            {
-              email: user.email,
-              name: `${user.firstName} ${user.lastName}`,
-              metadata: {
-                userId: user.id,
-              },
-            },
-            {
-              idempotencyKey: customerIdempotencyKey,
-            },
-          );
-          customerId = customer.id;
-          await storage.updateUserStripeInfo(user.id, customerId);
-        }
-
-        // Create actual Stripe checkout session using your product IDs
-        const tierConfig =
-          SUBSCRIPTION_TIERS[tier as keyof typeof SUBSCRIPTION_TIERS];
-
-        // Use centralized URL configuration
-        const baseUrl = getAppBaseUrl();
-
-        // Resolve price using lookup_key instead of product ID
-        const planKey = tierToPlanKey(tier);
-        const price = await resolvePriceByLookupKey(planKey);
-        console.log(
-          `✅ Using price ${price.id} for tier ${tier} via lookup_key`,
-        );
-
-        // Generate idempotency key for checkout session creation
-        // Use combination of user ID, tier, and timestamp (rounded to hour) for reasonable retry window
-        const idempotencyKey = `checkout_${user.id}_${tier}_${Math.floor(Date.now() / 3600000)}`;
-        console.log(`🔑 Using idempotency key: ${idempotencyKey}`);
-
-        const session = await stripe.checkout.sessions.create(
-          {
-            customer: customerId,
-            payment_method_types: ["card"],
-            mode: "subscription",
-            line_items: [
-              {
-                price: price.id, // Use the resolved price ID
-                quantity: 1,
-              },
-            ],
-            success_url: `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
-            cancel_url: `${baseUrl}/payment-cancelled?checkout=cancelled`,
-            metadata: {
-              userId: user.id,
-              tier: tier,
-              productId: tierConfig.stripeProductId,
-            },
-          },
-          {
-            idempotencyKey: idempotencyKey,
-          },
+        const organization = await storage.updateOrganization(
+          membership.organization.id,
+          data,
         );
 
         res.json({
           success: true,
-          message: "Subscription checkout session created",
-          checkoutUrl: session.url,
-          sessionId: session.id,
-          customerId,
+          message: "Organization updated",
+          organization,
         });
       } catch (error) {
-        console.error("Create checkout session error:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: error.errors[0]?.message || "Invalid organization data",
+            errors: error.errors,
+          });
+        }
+        console.error("Update organization error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to create checkout session",
+          message: "Failed to update organization",
         });
       }
     },
   );
 
-  // Create Stripe customer portal session for subscription management
-  router.post(
-    "/api/subscription/create-portal-session",
+  // Change a member's role (owner only; ownership itself can't be transferred here)
+  router.patch(
+    "/api/organization/members/:userId",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        const user = await storage.getUser(req.user!.id);
-        if (!user) {
-          return res.status(404).json({
+        const { role } = updateOrganizationMemberSchema.parse(req.body);
+
+        const membership = await storage.getOrganizationMembership(
+          req.user!.id,
+        );
+        if (!membership || membership.role !== "owner") {
+          return res.status(403).json({
             success: false,
-            message: "User not found",
+            message: "Only the organization owner can change member roles",
           });
         }
 
-        if (!user.stripeCustomerId) {
+        if (req.params.userId === membership.organization.ownerId) {
           return res.status(400).json({
             success: false,
-            message: "No Stripe customer found for this user",
+            message: "The owner's role can't be changed",
           });
         }
 
-        // Create a Stripe customer portal session
-        // This will use the appropriate environment (test/live) based on your STRIPE_SECRET_KEY
-        const baseUrl = getAppBaseUrl();
-        const session = await stripe.billingPortal.sessions.create({
-          customer: user.stripeCustomerId,
-          return_url: `${baseUrl}/dashboard`,
-        });
-
-        console.log(`✅ Customer portal session created for user ${user.id}`);
-        console.log(`Portal URL: ${session.url}`);
+        const member = await storage.updateOrganizationMemberRole(
+          membership.organization.id,
+          req.params.userId,
+          role,
+        );
+        if (!member) {
+          return res.status(404).json({
+            success: false,
+            message: "Member not found",
+          });
+        }
 
         res.json({
           success: true,
-          portalUrl: session.url,
+          message: "Member role updated",
+          member,
         });
       } catch (error) {
-        console.error("Create customer portal session error:", error);
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: "Invalid role",
+            errors: error.errors,
+          });
+        }
+        console.error("Update organization member error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to create customer portal session",
+          message: "Failed to update member",
         });
       }
     },
   );
 
-  // Project Management Routes
-
-  // Get user's projects
-  router.get(
-    "/api/projects",
+  // Remove a member, or leave the organization when removing yourself
+  router.delete(
+    "/api/organization/members/:userId",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        // Get projects directly from database - updatedAt is now maintained by individual actions
-        const projects = await storage.getProjectsByUser(req.user!.id);
+        const membership = await storage.getOrganizationMembership(
+          req.user!.id,
+        );
+        if (!membership) {
+          return res.status(404).json({
+            success: false,
+            message: "You don't belong to an organization",
+          });
+        }
+
+        const { organization, role } = membership;
+        const targetUserId = req.params.userId;
+        const isSelf = targetUserId === req.user!.id;
+
+        if (targetUserId === organization.ownerId) {
+          return res.status(400).json({
+            success: false,
+            message: "The organization owner can't be removed",
+          });
+        }
+
+        if (!isSelf) {
+          const members = await storage.getOrganizationMembers(organization.id);
+          const target = members.find((m) => m.userId === targetUserId);
+          if (!target) {
+            return res.status(404).json({
+              success: false,
+              message: "Member not found",
+            });
+          }
+
+          // Admins manage members; only the owner can remove another admin
+          if (
+            !hasOrganizationRole(role, "admin") ||
+            (target.role === "admin" && role !== "owner")
+          ) {
+            return res.status(403).json({
+              success: false,
+              message: "You don't have permission to remove this member",
+            });
+          }
+        }
 
+        await storage.removeOrganizationMember(organization.id, targetUserId);
         console.log(
-          `Returning ${projects.length} projects using reliable database timestamps`,
+          `🏢 User ${targetUserId} ${isSelf ? "left" : "was removed from"} organization ${organization.id}`,
         );
+
         res.json({
           success: true,
-          projects: projects,
+          message: isSelf ? "You left the organization" : "Member removed",
         });
       } catch (error) {
-        console.error("Get projects error:", error);
+        console.error("Remove organization member error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to get projects",
+          message: "Failed to remove member",
         });
       }
     },
   );
 
-  // Create new project with subscription check
+  // Invite someone by email to join the current user's organization
   router.post(
-    "/api/projects",
+    "/api/organization/invitations",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        // Check subscription status before creating project
-        const user = await storage.getUser(req.user!.id);
-        if (!user) {
-          return res.status(404).json({
+        const { email, role } = organizationInvitationRequestSchema.parse(
+          req.body,
+        );
+
+        const membership = await storage.getOrganizationMembership(
+          req.user!.id,
+        );
+        if (!membership || !hasOrganizationRole(membership.role, "admin")) {
+          return res.status(403).json({
             success: false,
-            message: "User not found",
+            message: "Only organization admins can invite members",
           });
         }
 
-        // Check if user has active subscription
-        if (user.subscriptionStatus !== "active") {
-          return res.status(403).json({
+        const { organization } = membership;
+        const members = await storage.getOrganizationMembers(organization.id);
+        if (members.some((m) => m.email.toLowerCase() === email)) {
+          return res.status(409).json({
             success: false,
-            message: "Active subscription required to create projects",
-            requiresSubscription: true,
-            subscriptionStatus: user.subscriptionStatus,
+            message: "This person is already a member",
           });
         }
 
-        // Check if user has exceeded usage limit by counting non-draft projects in current period
-        const projects = await storage.getProjectsByUser(req.user!.id);
-        let usageInPeriod = 0;
+        const expiresAt = new Date(
+          Date.now() + ORGANIZATION_INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+        );
+        const invitation = await storage.createOrganizationInvitation(
+          organization.id,
+          req.user!.id,
+          email,
+          role,
+          expiresAt,
+        );
 
-        if (user.subscriptionPeriodStart && user.subscriptionPeriodEnd) {
-          const periodStart = new Date(user.subscriptionPeriodStart);
-          const periodEnd = new Date(user.subscriptionPeriodEnd);
+        const inviter = members.find((m) => m.userId === req.user!.id);
+        const inviterName =
+          [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ") ||
+          req.user!.email;
 
-          usageInPeriod = projects.filter((project) => {
-            const createdAt = new Date(project.createdAt);
-            return (
-              createdAt >= periodStart &&
-              createdAt <= periodEnd &&
-              project.status !== "draft"
-            ); // Count all non-draft projects
-          }).length;
+        try {
+          await emailService.sendOrganizationInvitationEmail(
+            email,
+            inviterName,
+            organization.name,
+            `${getAppBaseUrl()}/invite/${invitation.token}`,
+            expiresAt,
+          );
+        } catch (emailError) {
+          console.error("Failed to send organization invitation email:", emailError);
         }
 
-        const allowance = user.subscriptionAllowance || 0;
-
-        if (usageInPeriod >= allowance) {
-          return res.status(403).json({
-            success: false,
-            message: "Project limit reached for your subscription tier",
-            requiresUpgrade: true,
-            currentUsage: usageInPeriod,
-            allowance,
-            tier: user.subscriptionTier,
-          });
-        }
-
-        const validatedData = insertProjectSchema.parse(req.body);
-        const project = await storage.createProject(
-          req.user!.id,
-          validatedData,
-        );
-
-        // Track project creation timestamp
-        await updateProjectTimestamp(project.id, "project created");
-
-        // Increment user usage count for successful project creation
-        await storage.incrementUserUsage(req.user!.id);
-
-        // 🚨 CRITICAL: Frame.io folders are ONLY created when "New Video Request" button is clicked
-        // This project creation endpoint should NOT create folders automatically
-        console.log(
-          `🚨 PROJECT CREATED WITHOUT FRAME.IO FOLDERS - folders only created on "New Video Request" button`,
-        );
-        let frameioConfigured = false;
-
-        // Only prepare Frame.io service but don't create folders yet
-        try {
-          await frameioV4Service.loadServiceAccountToken();
-
-          if (frameioV4Service.accessToken) {
-            console.log(
-              `Frame.io V4 service ready for user ${req.user!.id} - folders will be created on first "New Video Request"`,
-            );
-            await frameioV4Service.initialize();
-            frameioConfigured = true;
-          } else {
-            console.log(
-              "Frame.io V4 OAuth not completed - will need authentication before folder creation",
-            );
-          }
-        } catch (frameioError) {
-          console.error(
-            "Frame.io V4 service preparation failed:",
-            frameioError,
-          );
-        }
-
-        // Always return success for project creation
-        const updatedProject = frameioConfigured
-          ? await storage.getProject(project.id)
-          : project;
-
+        const { token, ...invitationDetails } = invitation;
         res.status(201).json({
           success: true,
-          message: "Project created successfully",
-          project: updatedProject,
-          frameio: frameioConfigured
-            ? {
-                status: "ready",
-                note: 'Frame.io V4 service ready - folders will be created on first "New Video Request"',
-              }
-            : {
-                status: "pending",
-                note: "Complete Frame.io OAuth to enable folder organization",
-                authUrl: `${req.protocol}://${req.get("host")}/api/auth/frameio`,
-              },
+          message: `Invitation sent to ${email}`,
+          invitation: invitationDetails,
         });
       } catch (error) {
         if (error instanceof z.ZodError) {
-          res.status(400).json({
+          return res.status(400).json({
             success: false,
-            message: "Invalid project data",
+            message: error.errors[0]?.message || "Invalid invitation",
             errors: error.errors,
           });
-        } else {
-          console.error("Create project error:", error);
-          res.status(500).json({
-            success: false,
-            message: "Failed to create project",
-          });
         }
+        console.error("Create organization invitation error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to send invitation",
+        });
       }
     },
   );
 
-  // REMOVED DUPLICATE: Project acceptance endpoint moved to line 1827
-
-  // Get video download link endpoint
-  router.get(
-    "/api/projects/:id/download-link",
+  router.delete(
+    "/api/organization/invitations/:id",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        const projectId = Number(req.params.id);
-
-        // Get user ID from authenticated request
-        const userId = req.user?.id;
-
-        if (!userId) {
-          return res.status(401).json({
+        const membership = await storage.getOrganizationMembership(
+          req.user!.id,
+        );
+        if (!membership || !hasOrganizationRole(membership.role, "admin")) {
+          return res.status(403).json({
             success: false,
-            message: "Authentication required",
+            message: "Only organization admins can revoke invitations",
           });
         }
 
-        // Verify project belongs to user
-        const project = await storage.getProject(projectId);
-        if (!project || project.userId !== userId) {
+        const invitation = await storage.revokeOrganizationInvitation(
+          membership.organization.id,
+          Number(req.params.id),
+        );
+        if (!invitation) {
           return res.status(404).json({
             success: false,
-            message: "Project not found",
-          });
-        }
-
-        // Try to get download link from project files first
-        const projectFiles = await storage.getProjectFiles(projectId);
-        const completedVideo = projectFiles.find((file) => file.mediaAssetUrl);
-
-        if (completedVideo?.mediaAssetUrl) {
-          return res.json({
-            success: true,
-            downloadLink: completedVideo.mediaAssetUrl,
-            filename: completedVideo.filename,
+            message: "Invitation not found",
           });
         }
 
-        // If no stored download link, try to generate one from Frame.io videos
-        if (project.mediaFolderId) {
-          try {
-            await frameioV4Service.loadServiceAccountToken();
-            const frameioVideos = await frameioV4Service.getFolderAssets(
-              project.mediaFolderId,
-            );
-            if (frameioVideos && frameioVideos.length > 0) {
-              const latestVideo = frameioVideos[0];
-              const videoId =
-                latestVideo.id || latestVideo.uri?.split("/").pop();
-
-              // Generate download link for the latest video (V4)
-              const downloadLink =
-                await frameioV4Service.generateAssetDownloadLink(videoId);
-
-              if (downloadLink) {
-                return res.json({
-                  success: true,
-                  downloadLink: downloadLink,
-                  filename: latestVideo.name,
-                });
-              }
-            }
-          } catch (frameioError) {
-            console.error(
-              "Error generating download link from Frame.io:",
-              frameioError,
-            );
-          }
-        }
-
-        return res.status(404).json({
-          success: false,
-          message: "No download link available for this project",
+        res.json({
+          success: true,
+          message: "Invitation revoked",
         });
       } catch (error) {
-        console.error("Get download link error:", error);
+        console.error("Revoke organization invitation error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to get download link",
+          message: "Failed to revoke invitation",
         });
       }
     },
   );
 
-  // Direct video download endpoint - triggers file download to user's device
+  // Invitation details for the accept page
   router.get(
-    "/api/projects/:id/download-video",
+    "/api/organization/invitations/:token",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        const projectId = Number(req.params.id);
-
-        // Get user ID from authenticated request (handle both session and Supabase auth)
-        const userId = req.session?.userId || req.user?.id;
-
-        if (!userId) {
-          console.error("No user ID found in request:", {
-            session: !!req.session,
-            user: !!req.user,
-          });
-          return res.status(401).json({
+        const invitation = await storage.getOrganizationInvitationByToken(
+          req.params.token,
+        );
+        const organization = invitation
+          ? await storage.getOrganization(invitation.organizationId)
+          : undefined;
+        if (!invitation || !organization) {
+          return res.status(404).json({
             success: false,
-            message: "Authentication required",
+            message: "Invitation not found",
           });
         }
 
-        // Verify project belongs to user
-        const project = await storage.getProject(projectId);
-        if (!project || project.userId !== userId) {
+        res.json({
+          success: true,
+          invitation: {
+            organizationName: organization.name,
+            email: invitation.email,
+            role: invitation.role,
+            status: invitation.status,
+            expiresAt: invitation.expiresAt,
+            isExpired: invitation.expiresAt < new Date(),
+            emailMatches:
+              invitation.email === req.user!.email.toLowerCase(),
+          },
+        });
+      } catch (error) {
+        console.error("Get organization invitation error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get invitation",
+        });
+      }
+    },
+  );
+
+  router.post(
+    "/api/organization/invitations/:token/accept",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const invitation = await storage.getOrganizationInvitationByToken(
+          req.params.token,
+        );
+        if (!invitation) {
           return res.status(404).json({
             success: false,
-            message: "Project not found",
+            message: "Invitation not found",
           });
         }
 
-        // Get the latest video from the Frame.io folder
-        if (!project.mediaFolderId) {
-          return res.status(404).json({
+        // Invitations are tied to the address they were sent to
+        if (invitation.email !== req.user!.email.toLowerCase()) {
+          return res.status(403).json({
             success: false,
-            message: "No Frame.io folder configured for this project",
+            message: `This invitation was sent to ${invitation.email}. Sign in with that email to accept it.`,
           });
         }
 
-        await frameioV4Service.loadServiceAccountToken();
-        const frameioVideos = await frameioV4Service.getFolderAssets(
-          project.mediaFolderId,
-        );
-        if (!frameioVideos || frameioVideos.length === 0) {
-          return res.status(404).json({
+        const existing = await storage.getOrganizationMembership(req.user!.id);
+        if (existing) {
+          return res.status(409).json({
             success: false,
-            message: "No videos found for this project",
+            message: "You already belong to an organization",
           });
         }
 
-        const latestVideo = frameioVideos[0];
-        const videoId = latestVideo.id;
-
-        if (!videoId) {
-          return res.status(404).json({
+        const member = await storage.acceptOrganizationInvitation(
+          req.params.token,
+          req.user!.id,
+        );
+        if (!member) {
+          return res.status(410).json({
             success: false,
-            message: "Invalid video ID",
+            message: "This invitation has expired or is no longer valid",
           });
         }
 
-        // Get the direct download link from Frame.io V4
-        const downloadLink =
-          await frameioV4Service.generateAssetDownloadLink(videoId);
+        console.log(
+          `🏢 User ${req.user!.id} joined organization ${member.organizationId} as ${member.role}`,
+        );
 
-        if (!downloadLink) {
+        res.json({
+          success: true,
+          message: "You joined the organization",
+        });
+      } catch (error) {
+        console.error("Accept organization invitation error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to accept invitation",
+        });
+      }
+    },
+  );
+
+  // Check subscription status with Stripe metadata
+  router.get(
+    "/api/subscription/status",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const requester = await storage.getUser(req.user!.id);
+        if (!requester) {
           return res.status(404).json({
             success: false,
-            message: "No download link available",
+            message: "User not found",
           });
         }
 
-        console.log(`Got download link for video ${videoId}: ${downloadLink}`);
+        // Organization members see the owner's shared subscription
+        const {
+          billingUser: user,
+          organization,
+          role,
+        } = await getBillingContext(requester);
+        const canManageBilling = user.id === requester.id;
 
-        // Check if it's a direct file URL that we can proxy for download
-        if (
-          downloadLink.includes(".mp4") ||
-          downloadLink.includes(".mov") ||
-          downloadLink.includes("akamaized") ||
-          downloadLink.includes("progressive") ||
-          downloadLink.includes("frame.io")
-        ) {
+        let planAllowance =
+          (await getPlanByKey(user.subscriptionTier))?.allowance ?? 0;
+        let productName = user.subscriptionTier || null;
+        let actualSubscriptionStatus = user.subscriptionStatus || "inactive";
+        let stripeSubscriptionId = user.stripeSubscriptionId;
+
+        // Always check with Stripe if user has a customer ID to catch missed subscription updates
+        if (user.stripeCustomerId) {
           try {
-            console.log("Attempting to proxy direct video file download...");
+            console.log(
+              `🔍 Checking Stripe for latest subscription status for customer: ${user.stripeCustomerId}`,
+            );
 
-            // Fetch the video file directly
-            const response = await fetch(downloadLink, {
-              method: "GET",
-              headers: {
-                "User-Agent":
-                  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-              },
-            });
+            // Get all active subscriptions for this customer
+            const subscriptions = await payments.listSubscriptions(
+              user.stripeCustomerId,
+              "active",
+            );
 
-            if (!response.ok) {
-              console.error(
-                `Failed to fetch video file: ${response.status} ${response.statusText}`,
+            if (subscriptions.length > 0) {
+              const latestSubscription = subscriptions[0];
+              console.log(
+                `✅ Found active subscription in Stripe: ${latestSubscription.id}, status: ${latestSubscription.status}`,
               );
-              return res.redirect(downloadLink);
-            }
 
-            // Set headers for file download
-            const filename = `${latestVideo.name || `video_${videoId}`}.mp4`;
-            (res as any).setHeader(
-              "Content-Disposition",
-              `attachment; filename="${filename}"`,
-            );
-            (res as any).setHeader("Content-Type", "video/mp4");
+              // Paused billing still lists as active in Stripe
+              const latestStatus = getLocalSubscriptionStatus(latestSubscription);
 
-            // Get content length if available
-            const contentLength = response.headers.get("content-length");
-            if (contentLength) {
-              (res as any).setHeader("Content-Length", contentLength);
-            }
+              // Update our records if they're out of sync
+              if (
+                actualSubscriptionStatus !== latestStatus ||
+                stripeSubscriptionId !== latestSubscription.id
+              ) {
+                console.log(
+                  `🔄 Updating local subscription status from ${actualSubscriptionStatus} to ${latestStatus}`,
+                );
 
-            console.log(
-              `Streaming video file: ${filename} (${contentLength || "unknown size"})`,
-            );
+                const periodStart = new Date(
+                  (latestSubscription as any).current_period_start * 1000,
+                );
+                const periodEnd = new Date(
+                  (latestSubscription as any).current_period_end * 1000,
+                );
 
-            // Stream the video file using Node.js streams
-            if (response.body) {
-              const reader = response.body.getReader();
+                await storage.updateUserSubscription(user.id, {
+                  subscriptionStatus: latestStatus,
+                  stripeSubscriptionId: latestSubscription.id,
+                  subscriptionPeriodStart: periodStart,
+                  subscriptionPeriodEnd: periodEnd,
+                  cancelAtPeriodEnd: latestSubscription.cancel_at_period_end,
+                  pauseResumesAt: getPauseResumesAt(latestSubscription),
+                });
 
-              const pump = async () => {
-                try {
-                  while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    res.write(Buffer.from(value));
-                  }
-                  res.end();
-                  console.log("✅ Video download completed successfully");
-                } catch (streamError) {
-                  console.error("Error during video streaming:", streamError);
-                  if (!res.headersSent) {
-                    res
-                      .status(500)
-                      .json({ success: false, message: "Stream error" });
-                  }
-                }
-              };
+                await endGracePeriod(user);
 
-              await pump();
+                actualSubscriptionStatus = latestStatus;
+                stripeSubscriptionId = latestSubscription.id;
+              }
             } else {
-              throw new Error("No response body available");
+              console.log(
+                `❌ No active subscriptions found in Stripe for customer: ${user.stripeCustomerId}`,
+              );
+              // If we think they have an active sub but Stripe says no, update our records
+              if (
+                actualSubscriptionStatus === "active" ||
+                actualSubscriptionStatus === "paused"
+              ) {
+                console.log(
+                  `🔄 Updating local subscription status from ${actualSubscriptionStatus} to inactive`,
+                );
+                await storage.updateUserSubscription(user.id, {
+                  subscriptionStatus: "inactive",
+                });
+                actualSubscriptionStatus = "inactive";
+              }
             }
-          } catch (proxyError) {
-            console.error("Error proxying video file:", proxyError);
-            // Fallback to redirect
-            res.redirect(downloadLink);
+          } catch (stripeError) {
+            console.warn(
+              "Failed to check Stripe subscription status:",
+              stripeError,
+            );
+            // Continue with stored values
+          }
+        }
+
+        // If user has active subscription, fetch allowance from Stripe product metadata
+        if (actualSubscriptionStatus === "active" && stripeSubscriptionId) {
+          try {
+            const subscription =
+              await payments.retrieveSubscription(stripeSubscriptionId);
+            const productId = subscription.items.data[0]?.price
+              .product as string;
+
+            if (productId) {
+              const product = await payments.retrieveProduct(productId);
+
+              // Map Stripe product ID to its plan; the plans table is the source of truth for allowances
+              const plan = await getPlanByStripeProductId(productId);
+              if (!plan) {
+                console.warn(
+                  `⚠️ No plan found for Stripe product ${productId}, keeping stored tier ${user.subscriptionTier}`,
+                );
+              }
+              const correctTier = plan?.key ?? user.subscriptionTier;
+              planAllowance = plan?.allowance ?? planAllowance;
+
+              // Update local storage if tier is different
+              if (correctTier !== user.subscriptionTier) {
+                console.log(
+                  `🔄 Updating subscription tier from ${user.subscriptionTier} to ${correctTier} (allowance: ${planAllowance})`,
+                );
+                await storage.updateUserSubscription(user.id, {
+                  subscriptionTier: correctTier,
+                });
+              }
+
+              productName = product.name;
+            }
+          } catch (stripeError) {
+            console.warn(
+              "Failed to fetch Stripe subscription details:",
+              stripeError,
+            );
+            // Continue with stored values
           }
-        } else {
-          // Redirect to media platform page for non-direct URLs
-          console.log("Redirecting to media platform page for download");
-          res.redirect(downloadLink);
         }
+
+        // Balances come from the credit ledger; usage is subscription credits spent this
+        // allowance period (a month, even on annual plans)
+        const balances = await storage.getCreditBalances(user.id);
+        const allowancePeriodStart = getAllowancePeriodStart(user);
+        const usageInPeriod = allowancePeriodStart
+          ? await storage.countCreditsConsumedSince(
+              user.id,
+              "subscription",
+              allowancePeriodStart,
+            )
+          : 0;
+
+        const scheduledPlan = await getPlanByKey(user.scheduledPlanKey);
+        const currentPlan = await getPlanByKey(user.subscriptionTier);
+
+        // past_due customers keep subscription access until their grace period ends
+        const inGracePeriod =
+          actualSubscriptionStatus === "past_due" && isInGracePeriod(user);
+
+        res.json({
+          success: true,
+          subscription: {
+            hasActiveSubscription:
+              actualSubscriptionStatus === "active" || inGracePeriod,
+            status: actualSubscriptionStatus,
+            isInGracePeriod: inGracePeriod,
+            gracePeriodEndsAt:
+              actualSubscriptionStatus === "past_due"
+                ? user.gracePeriodEndsAt
+                : null,
+            tier: user.subscriptionTier,
+            productName,
+            usage: usageInPeriod,
+            allowance: planAllowance,
+            periodStart: user.subscriptionPeriodStart,
+            periodEnd: user.subscriptionPeriodEnd,
+            billingInterval: user.billingInterval,
+            cancelAtPeriodEnd: user.cancelAtPeriodEnd,
+            pauseResumesAt:
+              actualSubscriptionStatus === "paused" ? user.pauseResumesAt : null,
+            // When the video allowance next refills (monthly on annual plans)
+            allowanceResetsAt:
+              user.billingInterval === "year" && user.nextAllowanceGrantAt
+                ? user.nextAllowanceGrantAt
+                : user.subscriptionPeriodEnd,
+            stripeCustomerId: canManageBilling ? user.stripeCustomerId : null,
+            hasReachedLimit: balances.subscription <= 0,
+            subscriptionCredits: balances.subscription,
+            prepaidCredits: balances.prepaid,
+            scheduledPlan: scheduledPlan
+              ? { key: scheduledPlan.key, name: scheduledPlan.name }
+              : null,
+            // Price of one extra video once the allowance is used up (null when not offered)
+            overage:
+              currentPlan?.overageLookupKey && currentPlan.overageUnitAmount !== null
+                ? {
+                    amount: currentPlan.overageUnitAmount,
+                    currency: currentPlan.currency,
+                  }
+                : null,
+            organization: organization
+              ? { id: organization.id, name: organization.name, role }
+              : null,
+            canManageBilling,
+          },
+        });
       } catch (error) {
-        console.error("Error downloading video:", error);
+        console.error("Get subscription status error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to download video",
+          message: "Failed to get subscription status",
         });
       }
     },
   );
 
-  // Create revision payment session endpoint
+  // Create or get subscription (redirect to Stripe checkout)
   router.post(
-    "/api/stripe/create-revision-session",
+    "/api/subscription/create-checkout",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        const { projectId } = req.body;
-
-        // Resolve revision price using lookup_key
-        let priceToUse: string;
-        try {
-          const revisionPrice =
-            await resolvePriceByLookupKey("revision_payment");
-          priceToUse = revisionPrice.id;
-          console.log(`✅ Using revision price ${priceToUse} via lookup_key`);
+        const { tier, promoCode, interval = "month" } = req.body;
+        const plan = await getPlanByKey(tier);
 
-          // Verify it's the expected amount ($5)
-          if (revisionPrice.unit_amount !== 500) {
-            console.warn(
-              `⚠️ Revision price amount is ${revisionPrice.unit_amount} cents, expected 500`,
-            );
-          }
-        } catch (error) {
-          console.error("Error resolving revision price:", error);
-          // Fallback to hard-coded price as last resort
-          priceToUse = "price_1Rt2ZhCp6pJe31oC6uMZuOev";
-          console.warn("⚠️ Using fallback hard-coded price ID");
+        if (!plan || !plan.isActive) {
+          return res.status(400).json({
+            success: false,
+            message: "Invalid subscription tier",
+          });
         }
 
-        // Convert to number if it's a string
-        const numericProjectId =
-          typeof projectId === "string" ? parseInt(projectId, 10) : projectId;
-
-        if (
-          !numericProjectId ||
-          typeof numericProjectId !== "number" ||
-          isNaN(numericProjectId)
-        ) {
+        const lookupKey =
+          interval === "month" || interval === "year"
+            ? getPlanLookupKey(plan, interval)
+            : undefined;
+        if (!lookupKey) {
           return res.status(400).json({
             success: false,
-            message: "Valid project ID is required",
+            message: `${plan.name} isn't available with ${interval === "year" ? "annual" : "this"} billing`,
           });
         }
 
-        // Verify project exists and user has access
-        const project = await storage.getProject(numericProjectId);
-        console.log("Project lookup result:", {
-          projectExists: !!project,
-          projectId: project?.id,
-          projectStatus: project?.status,
-          projectUserId: project?.userId,
-          requestUserId: req.user!.id,
-        });
+        // A code entered on our side (or from a ?promo= link) is applied up front;
+        // otherwise Stripe Checkout shows its own promotion code field
+        let promotionCodeId: string | undefined;
+        if (promoCode) {
+          const promotionCode =
+            typeof promoCode === "string"
+              ? await payments.findPromotionCode(promoCode.trim())
+              : undefined;
+          if (!promotionCode) {
+            return res.status(400).json({
+              success: false,
+              message: "Invalid or expired promo code",
+              invalidPromoCode: true,
+            });
+          }
+          promotionCodeId = promotionCode.id;
+        }
 
-        if (!project || project.userId !== req.user!.id) {
-          console.log("Project access check failed - no access");
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
           return res.status(404).json({
             success: false,
-            message: "Project not found or access denied",
+            message: "User not found",
           });
         }
 
-        // Check if project is in correct status for revision request
-        const validRevisionStatuses = [
-          "video is ready",
-          "delivered",
-          "complete",
-        ];
-        if (!validRevisionStatuses.includes(project.status.toLowerCase())) {
-          return res.status(400).json({
-            success: false,
-            message:
-              "Project must be delivered or completed to request revisions",
-          });
+        let customerId = user.stripeCustomerId;
+
+        // Create Stripe customer if doesn't exist
+        if (!customerId) {
+          // Generate idempotency key for customer creation based on user email
+          const customerIdempotencyKey = `customer_${user.email}`;
+          const customer = await payments.createCustomer(
+            {
+              email: user.email,
+              name: `${user.firstName} ${user.lastName}`,
+              metadata: {
+                userId: user.id,
+              },
+            },
+            {
+              idempotencyKey: customerIdempotencyKey,
+            },
+          );
+          customerId = customer.id;
+          await storage.updateUserStripeInfo(user.id, customerId);
         }
 
-        // Use centralized URL configuration (same as subscription flow)
+        // Use centralized URL configuration
         const baseUrl = getAppBaseUrl();
-        console.log(`🔗 Revision payment will redirect to: ${baseUrl}`);
+
+        // Resolve price using the plan's lookup_key (monthly or yearly) instead of product ID
+        const price = await resolvePriceByStripeLookupKey(lookupKey);
         console.log(
-          `   Environment: NODE_ENV=${process.env.NODE_ENV}, PRODUCTION_URL=${process.env.PRODUCTION_URL}`,
+          `✅ Using ${interval}ly price ${price.id} for tier ${tier} via lookup_key`,
         );
 
-        // Generate idempotency key for revision payment
-        // Use combination of project ID and timestamp (rounded to hour) for retry window
-        const idempotencyKey = `revision_${numericProjectId}_${Math.floor(Date.now() / 3600000)}`;
+        // Generate idempotency key for checkout session creation
+        // Use combination of user ID, tier, interval and timestamp (rounded to hour) for reasonable retry window
+        const idempotencyKey = `checkout_${user.id}_${tier}_${interval}_${promotionCodeId ?? "none"}_${Math.floor(Date.now() / 3600000)}`;
         console.log(`🔑 Using idempotency key: ${idempotencyKey}`);
 
-        // Create Stripe checkout session for revision payment
-        const session = await stripe.checkout.sessions.create(
+        const session = await payments.createCheckoutSession(
           {
+            customer: customerId,
             payment_method_types: ["card"],
-            mode: "payment",
+            mode: "subscription",
             line_items: [
               {
-                price: priceToUse,
+                price: price.id, // Use the resolved price ID
                 quantity: 1,
               },
             ],
-            success_url: `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}&project_id=${numericProjectId}&type=revision`,
-            cancel_url: `${baseUrl}/payment-cancelled?session_id={CHECKOUT_SESSION_ID}&project_id=${numericProjectId}&type=revision`,
+            ...(promotionCodeId
+              ? { discounts: [{ promotion_code: promotionCodeId }] }
+              : { allow_promotion_codes: true }),
+            success_url: `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+            cancel_url: `${baseUrl}/payment-cancelled?checkout=cancelled`,
             metadata: {
-              projectId: numericProjectId.toString(),
-              userId: req.user!.id,
-              type: "revision_payment",
+              userId: user.id,
+              tier: tier,
+              interval,
+              productId: plan.stripeProductId || (price.product as string),
             },
           },
           {
@@ -4345,206 +5055,1675 @@ export async function registerRoutes(app: any): Promise<Server> {
           },
         );
 
-        // Store revision payment record
-        await storage.createRevisionPayment(req.user!.id, {
-          projectId: numericProjectId,
-          stripeCheckoutSessionId: session.id,
-          paymentAmount: 500, // $5.00 in cents
-          currency: "usd",
-        });
-
-        console.log("✅ Stripe session created successfully:");
-
-        console.log(
-          `"- Success URL:" ${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}&project_id=${numericProjectId}&type=revision`,
-        );
-        console.log(
-          `"- Cancel URL:" ${baseUrl}/payment-cancelled?session_id={CHECKOUT_SESSION_ID}&project_id=${numericProjectId}&type=revision`,
-        );
-
         res.json({
           success: true,
-          sessionUrl: session.url,
+          message: "Subscription checkout session created",
+          checkoutUrl: session.url,
           sessionId: session.id,
+          customerId,
         });
       } catch (error) {
-        console.error("Error creating revision payment session:", error);
+        console.error("Create checkout session error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to create revision payment session",
+          message: "Failed to create checkout session",
         });
       }
     },
   );
 
-  // API endpoint to check revision payment status - UPDATED TO INCLUDE DATABASE UPDATES
-  router.get(
-    "/api/stripe/check-revision-payment",
+  // Create a one-time checkout session for a prepaid video package
+  router.post(
+    "/api/prepaid/create-checkout",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        const sessionId = req.query.session_id as string;
-        const userId = req.user!.id;
+        const { packageKey } = req.body;
 
-        if (!sessionId) {
+        if (!isPrepaidPackageKey(packageKey)) {
           return res.status(400).json({
             success: false,
-            message: "Session ID is required",
+            message: "Invalid prepaid package",
           });
         }
 
-        // Get revision payment record from database
-        const payment = await storage.getRevisionPayment(sessionId);
-        if (!payment) {
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
           return res.status(404).json({
             success: false,
-            message: "Payment session not found in database",
+            message: "User not found",
           });
         }
 
-        // Verify this payment belongs to the current user
-        if (payment.userId !== userId) {
-          return res.status(403).json({
-            success: false,
-            message: "Access denied",
-          });
+        let customerId = user.stripeCustomerId;
+
+        // Create Stripe customer if doesn't exist
+        if (!customerId) {
+          const customer = await payments.createCustomer(
+            {
+              email: user.email,
+              name: `${user.firstName} ${user.lastName}`,
+              metadata: {
+                userId: user.id,
+              },
+            },
+            {
+              idempotencyKey: `customer_${user.email}`,
+            },
+          );
+          customerId = customer.id;
+          await storage.updateUserStripeInfo(user.id, customerId);
         }
 
-        // Retrieve session from Stripe
-        const session = await stripe.checkout.sessions.retrieve(sessionId);
+        const packageConfig = PREPAID_PACKAGES[packageKey];
+        const price = await resolvePriceByLookupKey(packageKey);
+        console.log(
+          `✅ Using price ${price.id} for prepaid package ${packageKey} via lookup_key`,
+        );
 
-        // Check if payment is completed
-        const isCompleted =
-          session.payment_status === "paid" && session.status === "complete";
+        const baseUrl = getAppBaseUrl();
+        const idempotencyKey = `prepaid_${user.id}_${packageKey}_${Math.floor(Date.now() / 3600000)}`;
 
-        // If payment is completed and not already recorded, update the database
-        if (isCompleted && payment.paymentStatus !== "completed") {
-          console.log(
-            `💳 Recording completed payment for session: ${sessionId}`,
-          );
+        const session = await payments.createCheckoutSession(
+          {
+            customer: customerId,
+            payment_method_types: ["card"],
+            mode: "payment",
+            line_items: [
+              {
+                price: price.id,
+                quantity: 1,
+              },
+            ],
+            success_url: `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}&type=prepaid`,
+            cancel_url: `${baseUrl}/payment-cancelled?checkout=cancelled`,
+            metadata: {
+              userId: user.id,
+              type: "prepaid_package",
+              packageKey,
+              credits: packageConfig.credits.toString(),
+            },
+          },
+          {
+            idempotencyKey,
+          },
+        );
 
-          // Update the revision payment record
-          await storage.updateRevisionPayment(sessionId, {
-            paymentStatus: "completed",
-            paidAt: new Date(),
-            stripePaymentIntentId: session.payment_intent as string,
+        // A retried request within the idempotency window returns the same session
+        const existingPurchase = await storage.getPrepaidPackagePurchase(session.id);
+        if (!existingPurchase) {
+          await storage.createPrepaidPackagePurchase(user.id, {
+            packageKey,
+            credits: packageConfig.credits,
+            stripeCheckoutSessionId: session.id,
+            paymentAmount: price.unit_amount || 0,
+            currency: price.currency,
           });
+        }
 
-          // Increment the project's revision count
-          await storage.incrementProjectRevisionCount(payment.projectId);
-          console.log(
-            `📊 Incremented revision count for project ${payment.projectId}`,
-          );
+        res.json({
+          success: true,
+          message: "Prepaid package checkout session created",
+          checkoutUrl: session.url,
+          sessionId: session.id,
+        });
+      } catch (error) {
+        console.error("Create prepaid checkout session error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to create checkout session",
+        });
+      }
+    },
+  );
 
-          // Update project status to "awaiting revision instructions"
-          await storage.updateProject(payment.projectId, {
-            status: "awaiting revision instructions",
-            updatedAt: new Date(),
+  // Confirm a prepaid package payment on return from Stripe (in case the webhook hasn't arrived yet)
+  router.post(
+    "/api/prepaid/verify-purchase",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const { sessionId } = req.body;
+        if (!sessionId || typeof sessionId !== "string") {
+          return res.status(400).json({
+            success: false,
+            message: "Session ID is required",
           });
-          console.log(
-            `🔄 Updated project ${payment.projectId} status to "awaiting revision instructions"`,
-          );
+        }
 
-          // Log the revision for accounting/tracking
-          console.log(
-            `💰 REVISION PAYMENT RECORDED: Project ${payment.projectId}, Amount: $${payment.paymentAmount / 100}, Session: ${sessionId}`,
-          );
+        const purchase = await storage.getPrepaidPackagePurchase(sessionId);
+        if (!purchase || purchase.userId !== req.user!.id) {
+          return res.status(404).json({
+            success: false,
+            message: "Purchase not found",
+          });
+        }
 
-          // Move revision card to Done (revision request completes the current revision)
-          try {
-            await trelloAutomation.markProjectComplete(payment.projectId, true);
-            console.log(
-              `✅ PAYMENT CHECK: Moved revision card to Done for project ${payment.projectId}`,
-            );
-          } catch (error) {
-            console.error(
-              "Failed to move revision Trello card to Done:",
-              error,
+        if (purchase.paymentStatus === "pending") {
+          const session = await payments.retrieveCheckoutSession(sessionId);
+          if (session.payment_status === "paid") {
+            await storage.completePrepaidPackagePurchase(
+              sessionId,
+              session.payment_intent as string,
             );
           }
         }
 
-        console.log("🔍 Payment status check:", {
-          sessionId: session.id,
-          paymentStatus: session.payment_status,
-          status: session.status,
-          isCompleted,
-        });
+        const [updatedPurchase, balances] = await Promise.all([
+          storage.getPrepaidPackagePurchase(sessionId),
+          storage.getCreditBalances(req.user!.id),
+        ]);
 
         res.json({
           success: true,
-          completed: isCompleted,
-          sessionId: session.id,
-          projectId: session.metadata?.projectId || payment.projectId,
-          paymentStatus: session.payment_status,
-          status: session.status,
+          paymentStatus: updatedPurchase?.paymentStatus,
+          credits: updatedPurchase?.credits,
+          prepaidCredits: balances.prepaid,
         });
       } catch (error) {
-        console.error("Error checking payment status:", error);
+        console.error("Verify prepaid purchase error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to check payment status",
+          message: "Failed to verify purchase",
         });
       }
     },
   );
 
-  // IMPORTANT: These routes MUST be defined before Vite middleware to ensure they work
-  // Stripe revision payment success/cancel endpoints - these are hit by Stripe after checkout
-  router.get(
-    "/stripe/revision-payment-success",
+  // One-off checkout for an extra video once the subscription allowance is used up.
+  // The project is created from the submitted details when the payment completes.
+  router.post(
+    "/api/overage/create-checkout",
+    requireAuth,
     async (req: AppRequest, res: AppResponse) => {
-      const sessionId = req.query.session_id as string;
-      const projectId = req.query.project_id as string;
+      try {
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
 
-      console.log("✅ STRIPE REVISION PAYMENT SUCCESS ENDPOINT HIT!");
+        // Team members share the owner's plan, so only the owner buys extra videos
+        const membership = await storage.getOrganizationMembership(user.id);
+        if (membership && membership.organization.ownerId !== user.id) {
+          return res.status(403).json({
+            success: false,
+            message: "Only the organization owner can buy extra videos",
+          });
+        }
 
-      console.log(
-        `"✅ Stripe revision payment success callback:" { sessionId, projectId }`,
-      );
+        if (!hasSubscriptionAccess(user) || !user.stripeCustomerId) {
+          return res.status(403).json({
+            success: false,
+            message: "An active subscription is required to buy an extra video",
+            requiresSubscription: true,
+          });
+        }
 
-      if (!sessionId || !projectId) {
-        return res.redirect("/dashboard");
+        const plan = await getPlanByKey(user.subscriptionTier);
+        const price = plan ? await getOveragePrice(plan) : undefined;
+        if (!plan || !price) {
+          return res.status(400).json({
+            success: false,
+            message: "Extra videos are not available on your plan",
+          });
+        }
+
+        // Only sold once every other credit is spent
+        const balances = await storage.getCreditBalances(user.id);
+        if (balances.subscription > 0 || balances.prepaid > 0) {
+          return res.status(409).json({
+            success: false,
+            message: "You still have videos available - create your project directly",
+          });
+        }
+
+        const projectData = insertProjectSchema.parse(req.body);
+        const baseUrl = getAppBaseUrl();
+
+        const session = await payments.createCheckoutSession({
+          customer: user.stripeCustomerId,
+          payment_method_types: ["card"],
+          mode: "payment",
+          line_items: [
+            {
+              price: price.id,
+              quantity: 1,
+            },
+          ],
+          success_url: `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}&type=overage`,
+          cancel_url: `${baseUrl}/payment-cancelled?checkout=cancelled`,
+          metadata: {
+            userId: user.id,
+            type: "overage_purchase",
+            planKey: plan.key,
+          },
+        });
+
+        await storage.createOveragePurchase(user.id, {
+          planKey: plan.key,
+          projectData,
+          stripeCheckoutSessionId: session.id,
+          paymentAmount: price.unit_amount || 0,
+          currency: price.currency,
+        });
+
+        console.log(
+          `🧾 Extra video checkout ${session.id} created for user ${user.id} (${plan.key})`,
+        );
+
+        res.json({
+          success: true,
+          message: "Extra video checkout session created",
+          checkoutUrl: session.url,
+          sessionId: session.id,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: "Invalid project data",
+            errors: error.errors,
+          });
+        }
+        console.error("Create overage checkout session error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to create checkout session",
+        });
       }
+    },
+  );
 
-      // Verify the session with Stripe to ensure it's legitimate
+  // Confirm an extra video payment on return from Stripe (in case the webhook hasn't arrived yet)
+  router.post(
+    "/api/overage/verify-purchase",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
       try {
-        const session = await stripe.checkout.sessions.retrieve(sessionId);
-        console.log("🔍 Stripe session verification:", {
-          id: session.id,
-          payment_status: session.payment_status,
-          status: session.status,
-          amount_total: session.amount_total,
-          metadata: session.metadata,
-        });
+        const { sessionId } = req.body;
+        if (!sessionId || typeof sessionId !== "string") {
+          return res.status(400).json({
+            success: false,
+            message: "Session ID is required",
+          });
+        }
 
-        if (session.payment_status !== "paid") {
-          return res.redirect(
-            `/dashboard?revision_payment=pending&session_id=${sessionId}&project_id=${projectId}`,
-          );
+        const purchase = await storage.getOveragePurchase(sessionId);
+        if (!purchase || purchase.userId !== req.user!.id) {
+          return res.status(404).json({
+            success: false,
+            message: "Purchase not found",
+          });
         }
 
-        // Update project status to "awaiting revision instructions" after successful payment
-        const numericProjectId = Number(projectId);
-        if (!isNaN(numericProjectId)) {
-          try {
-            await storage.updateProject(numericProjectId, {
-              status: "awaiting revision instructions",
-              updatedAt: new Date(),
-            });
-            await updateProjectTimestamp(
-              numericProjectId,
-              "revision payment completed",
-            );
-            console.log(
-              "✅ Updated project status to 'awaiting revision instructions'",
+        if (purchase.paymentStatus === "pending") {
+          const session = await payments.retrieveCheckoutSession(sessionId);
+          if (session.payment_status === "paid") {
+            await storage.completeOveragePurchase(
+              sessionId,
+              session.payment_intent as string,
             );
-          } catch (err) {
-            console.error("Failed to update project status:", err);
           }
         }
-      } catch (error) {
-        console.error("Failed to verify Stripe session:", error);
+
+        const updatedPurchase = await storage.getOveragePurchase(sessionId);
+
+        res.json({
+          success: true,
+          paymentStatus: updatedPurchase?.paymentStatus,
+          projectId: updatedPurchase?.projectId ?? null,
+        });
+      } catch (error) {
+        console.error("Verify overage purchase error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to verify purchase",
+        });
+      }
+    },
+  );
+
+  // Create Stripe customer portal session for subscription management
+  router.post(
+    "/api/subscription/create-portal-session",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        if (!user.stripeCustomerId) {
+          return res.status(400).json({
+            success: false,
+            message: "No Stripe customer found for this user",
+          });
+        }
+
+        // Create a Stripe customer portal session
+        // This will use the appropriate environment (test/live) based on your STRIPE_SECRET_KEY
+        const baseUrl = getAppBaseUrl();
+        const session = await payments.createPortalSession(
+          user.stripeCustomerId,
+          `${baseUrl}/dashboard`,
+        );
+
+        console.log(`✅ Customer portal session created for user ${user.id}`);
+        console.log(`Portal URL: ${session.url}`);
+
+        res.json({
+          success: true,
+          portalUrl: session.url,
+        });
+      } catch (error) {
+        console.error("Create customer portal session error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to create customer portal session",
+        });
+      }
+    },
+  );
+
+  // Preview an in-app plan change: the prorated charge for upgrades, the effective date for downgrades
+  router.post(
+    "/api/subscription/change-plan/preview",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        const change = await resolvePlanChange(user, req.body?.tier);
+        if ("error" in change) {
+          return res.status(400).json({
+            success: false,
+            message: change.error,
+          });
+        }
+
+        const { currentPlan, newPlan, subscription, item, priceId, isUpgrade } =
+          change;
+
+        if (!isUpgrade) {
+          return res.json({
+            success: true,
+            preview: {
+              direction: "downgrade",
+              currentPlan: currentPlan.name,
+              newPlan: newPlan.name,
+              amountDue: 0,
+              currency: newPlan.currency,
+              creditsAdded: 0,
+              effectiveAt: user.subscriptionPeriodEnd,
+            },
+          });
+        }
+
+        // Pass the same proration date to change-plan so the charge matches the preview
+        const prorationDate = Math.floor(Date.now() / 1000);
+        const invoice = await payments.previewSubscriptionChange(
+          subscription,
+          priceId,
+          prorationDate,
+        );
+
+        res.json({
+          success: true,
+          preview: {
+            direction: "upgrade",
+            currentPlan: currentPlan.name,
+            newPlan: newPlan.name,
+            amountDue: invoice.amountDue,
+            currency: invoice.currency,
+            creditsAdded: newPlan.allowance - currentPlan.allowance,
+            effectiveAt: new Date(prorationDate * 1000),
+            prorationDate,
+          },
+        });
+      } catch (error) {
+        console.error("Preview plan change error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to preview plan change",
+        });
+      }
+    },
+  );
+
+  // Change plan in-app: upgrades are charged (prorated) and credited now, downgrades wait for renewal
+  router.post(
+    "/api/subscription/change-plan",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        const change = await resolvePlanChange(user, req.body?.tier);
+        if ("error" in change) {
+          return res.status(400).json({
+            success: false,
+            message: change.error,
+          });
+        }
+
+        const { currentPlan, newPlan, subscription, item, priceId, isUpgrade } =
+          change;
+
+        // Drop any pending downgrade before changing the price again
+        if (subscription.schedule) {
+          const scheduleId =
+            typeof subscription.schedule === "string"
+              ? subscription.schedule
+              : subscription.schedule.id;
+          await payments.releaseSubscriptionSchedule(scheduleId);
+        }
+
+        if (isUpgrade) {
+          const prorationDate = Number(req.body?.prorationDate);
+          await payments.updateSubscription(subscription.id, {
+            items: [{ id: item.id, price: priceId }],
+            proration_behavior: "always_invoice",
+            proration_date: Number.isInteger(prorationDate)
+              ? prorationDate
+              : undefined,
+            // Fail instead of upgrading if the prorated charge can't be collected
+            payment_behavior: "error_if_incomplete",
+          });
+
+          await storage.updateUserSubscription(user.id, {
+            subscriptionTier: newPlan.key,
+            scheduledPlanKey: null,
+          });
+
+          // Credits already used this period still count against the new allowance
+          const allowancePeriodStart = getAllowancePeriodStart(user);
+          const grant = allowancePeriodStart
+            ? await storage.topUpSubscriptionCredits(
+                user.id,
+                newPlan.allowance,
+                allowancePeriodStart,
+                subscription.id,
+                `Upgrade from ${currentPlan.key} to ${newPlan.key}`,
+              )
+            : undefined;
+
+          console.log(
+            `⬆️ User ${user.id} upgraded from ${currentPlan.key} to ${newPlan.key} (+${grant?.amount ?? 0} credits)`,
+          );
+
+          return res.json({
+            success: true,
+            message: `Upgraded to ${newPlan.name}`,
+            direction: "upgrade",
+            creditsAdded: grant?.amount ?? 0,
+          });
+        }
+
+        // Downgrade: keep the current price until the period ends, then switch without proration
+        await payments.schedulePriceChangeAtPeriodEnd(subscription, priceId);
+
+        await storage.updateUserSubscription(user.id, {
+          scheduledPlanKey: newPlan.key,
+        });
+
+        console.log(
+          `⬇️ User ${user.id} scheduled downgrade from ${currentPlan.key} to ${newPlan.key} at period end`,
+        );
+
+        // Downgrades chosen from the cancel flow keep their exit survey answers
+        const survey = cancellationSurveySchema.safeParse(
+          req.body?.cancellationSurvey,
+        );
+        if (survey.success) {
+          await storage.createCancellationSurvey(user.id, {
+            ...survey.data,
+            outcome: "downgraded",
+            planKey: currentPlan.key,
+            stripeSubscriptionId: subscription.id,
+          });
+        }
+
+        res.json({
+          success: true,
+          message: `Your plan will change to ${newPlan.name} at the end of the current period`,
+          direction: "downgrade",
+          effectiveAt: user.subscriptionPeriodEnd,
+        });
+      } catch (error) {
+        if (error instanceof Stripe.errors.StripeCardError) {
+          return res.status(402).json({
+            success: false,
+            message: error.message || "Your card was declined",
+          });
+        }
+        console.error("Change plan error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to change plan",
+        });
+      }
+    },
+  );
+
+  // In-app cancellation: the exit survey is required, and the subscription runs to the end of the
+  // period so anything already paid for (including projects in progress) can be finished
+  router.post(
+    "/api/subscription/cancel",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const survey = cancellationSurveySchema.parse(req.body);
+
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        if (
+          !user.stripeSubscriptionId ||
+          !["active", "past_due", "paused"].includes(user.subscriptionStatus ?? "")
+        ) {
+          return res.status(400).json({
+            success: false,
+            message: "No active subscription to cancel",
+          });
+        }
+        if (user.cancelAtPeriodEnd) {
+          return res.status(409).json({
+            success: false,
+            message: "Your subscription is already set to cancel",
+          });
+        }
+
+        // A pending downgrade schedule would otherwise keep renewing the subscription
+        const subscription = await payments.retrieveSubscription(
+          user.stripeSubscriptionId,
+        );
+        if (subscription.schedule) {
+          const scheduleId =
+            typeof subscription.schedule === "string"
+              ? subscription.schedule
+              : subscription.schedule.id;
+          await payments.releaseSubscriptionSchedule(scheduleId);
+        }
+
+        await payments.updateSubscription(subscription.id, {
+          cancel_at_period_end: true,
+        });
+
+        await storage.updateUserSubscription(user.id, {
+          cancelAtPeriodEnd: true,
+          scheduledPlanKey: null,
+        });
+        await storage.createCancellationSurvey(user.id, {
+          ...survey,
+          outcome: "canceled",
+          planKey: user.subscriptionTier,
+          stripeSubscriptionId: subscription.id,
+        });
+
+        console.log(
+          `👋 User ${user.id} canceled subscription ${subscription.id} (reason: ${survey.reason})`,
+        );
+
+        res.json({
+          success: true,
+          message:
+            "Your subscription will end at the close of the current period. Projects already in progress will still be completed.",
+          endsAt: user.subscriptionPeriodEnd,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: "Please tell us why you're canceling",
+            errors: error.errors,
+          });
+        }
+        console.error("Cancel subscription error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to cancel subscription",
+        });
+      }
+    },
+  );
+
+  // Pause billing for 1-3 months instead of canceling (offered in the cancel flow).
+  // Invoices are voided while paused, so no allowance is granted and new projects need prepaid credits.
+  router.post(
+    "/api/subscription/pause",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const { months, ...survey } = pauseSubscriptionSchema.parse(req.body);
+
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        if (!user.stripeSubscriptionId || user.subscriptionStatus !== "active") {
+          return res.status(400).json({
+            success: false,
+            message: "Only active subscriptions can be paused",
+          });
+        }
+
+        const resumesAt = new Date();
+        resumesAt.setMonth(resumesAt.getMonth() + months);
+
+        await payments.updateSubscription(user.stripeSubscriptionId, {
+          pause_collection: {
+            behavior: "void",
+            resumes_at: Math.floor(resumesAt.getTime() / 1000),
+          },
+        });
+
+        await storage.updateUserSubscription(user.id, {
+          subscriptionStatus: "paused",
+          pauseResumesAt: resumesAt,
+        });
+        await storage.createCancellationSurvey(user.id, {
+          ...survey,
+          outcome: "paused",
+          planKey: user.subscriptionTier,
+          stripeSubscriptionId: user.stripeSubscriptionId,
+        });
+
+        console.log(
+          `⏸️ User ${user.id} paused subscription until ${resumesAt.toISOString()} (reason: ${survey.reason})`,
+        );
+
+        res.json({
+          success: true,
+          message: `Your subscription is paused until ${resumesAt.toLocaleDateString()}`,
+          resumesAt,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: "Invalid pause request",
+            errors: error.errors,
+          });
+        }
+        console.error("Pause subscription error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to pause subscription",
+        });
+      }
+    },
+  );
+
+  // Undo a pause or a pending cancellation
+  router.post(
+    "/api/subscription/resume",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        const isPaused = user.subscriptionStatus === "paused";
+        if (!user.stripeSubscriptionId || (!isPaused && !user.cancelAtPeriodEnd)) {
+          return res.status(400).json({
+            success: false,
+            message: "Your subscription is not paused or canceled",
+          });
+        }
+
+        const subscription = await payments.updateSubscription(
+          user.stripeSubscriptionId,
+          {
+            ...(isPaused && { pause_collection: "" }),
+            ...(user.cancelAtPeriodEnd && { cancel_at_period_end: false }),
+          },
+        );
+
+        await storage.updateUserSubscription(user.id, {
+          subscriptionStatus: getLocalSubscriptionStatus(subscription),
+          pauseResumesAt: null,
+          cancelAtPeriodEnd: false,
+        });
+        if (isPaused) {
+          await resumeAllowanceSchedule(user);
+        }
+
+        console.log(`▶️ User ${user.id} resumed subscription ${subscription.id}`);
+
+        res.json({
+          success: true,
+          message: "Your subscription is active again",
+        });
+      } catch (error) {
+        console.error("Resume subscription error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to resume subscription",
+        });
+      }
+    },
+  );
+
+  // Billing timeline: Stripe subscription invoices merged with one-off revision, prepaid and extra video payments
+  router.get(
+    "/api/billing/history",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const user = await storage.getUser(req.user!.id);
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        // Card receipt for a one-off Checkout payment (these don't produce Stripe invoices)
+        const getReceiptUrl = async (paymentIntentId: string) => {
+          try {
+            return await payments.getReceiptUrl(paymentIntentId);
+          } catch (error) {
+            console.warn(
+              `Failed to fetch receipt for payment intent ${paymentIntentId}:`,
+              error,
+            );
+            return null;
+          }
+        };
+
+        const [invoices, revisionPaymentRows, prepaidPurchases, overagePurchases] =
+          await Promise.all([
+            user.stripeCustomerId
+              ? payments.listInvoices(user.stripeCustomerId, 100)
+              : Promise.resolve([] as Stripe.Invoice[]),
+            storage.getRevisionPaymentsByUser(user.id),
+            storage.getPrepaidPackagePurchasesByUser(user.id),
+            storage.getOveragePurchasesByUser(user.id),
+          ]);
+
+        const invoiceItems = invoices
+          .filter((invoice) => invoice.status !== "draft")
+          .map((invoice) => ({
+            id: invoice.id!,
+            type: "subscription_invoice" as const,
+            description:
+              invoice.lines.data[0]?.description ||
+              invoice.description ||
+              "Subscription",
+            amount: invoice.total,
+            currency: invoice.currency,
+            status: invoice.status || "open",
+            date: new Date(invoice.created * 1000),
+            invoiceNumber: invoice.number,
+            pdfUrl: invoice.invoice_pdf ?? null,
+            receiptUrl: invoice.hosted_invoice_url ?? null,
+          }));
+
+        // Checkouts that were abandoned stay pending; only payments that went through are listed
+        const completedRevisionPayments = revisionPaymentRows.filter(
+          (payment) => payment.paymentStatus === "completed",
+        );
+        const completedPrepaidPurchases = prepaidPurchases.filter(
+          (purchase) => purchase.paymentStatus === "completed",
+        );
+        const completedOveragePurchases = overagePurchases.filter(
+          (purchase) => purchase.paymentStatus === "completed",
+        );
+
+        // One Stripe call per receipt, so a few at a time
+        const receiptUrls = new Map<string, string | null>();
+        const receiptQueue = [
+          ...completedRevisionPayments,
+          ...completedPrepaidPurchases,
+          ...completedOveragePurchases,
+        ].flatMap((row) =>
+          row.stripePaymentIntentId ? [row.stripePaymentIntentId] : [],
+        );
+        const receiptWorkers = Array.from(
+          { length: Math.min(RECEIPT_FETCH_CONCURRENCY, receiptQueue.length) },
+          async () => {
+            for (
+              let paymentIntentId = receiptQueue.shift();
+              paymentIntentId;
+              paymentIntentId = receiptQueue.shift()
+            ) {
+              receiptUrls.set(
+                paymentIntentId,
+                await getReceiptUrl(paymentIntentId),
+              );
+            }
+          },
+        );
+        await Promise.all(receiptWorkers);
+        const receiptUrlFor = (paymentIntentId: string | null) =>
+          (paymentIntentId && receiptUrls.get(paymentIntentId)) || null;
+
+        const revisionItems = completedRevisionPayments.map((payment) => ({
+          id: `revision_payment_${payment.id}`,
+          type: "revision_payment" as const,
+          description: `Revision for "${payment.projectTitle}"`,
+          amount: payment.paymentAmount,
+          currency: payment.currency,
+          status: payment.paymentStatus,
+          date: payment.paidAt || payment.createdAt,
+          invoiceNumber: null,
+          pdfUrl: null,
+          receiptUrl: receiptUrlFor(payment.stripePaymentIntentId),
+        }));
+
+        const prepaidItems = completedPrepaidPurchases.map((purchase) => ({
+          id: `prepaid_purchase_${purchase.id}`,
+          type: "prepaid_package" as const,
+          description: isPrepaidPackageKey(purchase.packageKey)
+            ? PREPAID_PACKAGES[purchase.packageKey].name
+            : `${purchase.credits} Video Package`,
+          amount: purchase.paymentAmount,
+          currency: purchase.currency,
+          status: purchase.paymentStatus,
+          date: purchase.paidAt || purchase.createdAt,
+          invoiceNumber: null,
+          pdfUrl: null,
+          receiptUrl: receiptUrlFor(purchase.stripePaymentIntentId),
+        }));
+
+        const overageItems = completedOveragePurchases.map((purchase) => ({
+          id: `overage_purchase_${purchase.id}`,
+          type: "overage_purchase" as const,
+          description: `Extra video "${purchase.projectData.title}"`,
+          amount: purchase.paymentAmount,
+          currency: purchase.currency,
+          status: purchase.paymentStatus,
+          date: purchase.paidAt || purchase.createdAt,
+          invoiceNumber: null,
+          pdfUrl: null,
+          receiptUrl: receiptUrlFor(purchase.stripePaymentIntentId),
+        }));
+
+        const history = [
+          ...invoiceItems,
+          ...revisionItems,
+          ...prepaidItems,
+          ...overageItems,
+        ].sort(
+          (a, b) => b.date.getTime() - a.date.getTime(),
+        );
+
+        res.json({ success: true, history });
+      } catch (error) {
+        console.error("Get billing history error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get billing history",
+        });
+      }
+    },
+  );
+
+  // Project Management Routes
+
+  // Get user's projects
+  router.get(
+    "/api/projects",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        // Get projects directly from database - updatedAt is now maintained by individual actions
+        // Members of an organization also see every project in it
+        const projects = await storage.getAccessibleProjects(req.user!.id);
+
+        // Footage totals ("47 minutes of footage, mostly 4K 30fps") from metadata already extracted
+        const footage = await storage.getMediaMetadata(
+          projects.map((project) => project.id),
+          "footage",
+        );
+        const projectsWithFootage = projects.map((project) => {
+          const summary = summarizeFootage(
+            footage.filter((row) => row.projectId === project.id),
+          );
+          return {
+            ...project,
+            footageSummary: summary ? formatFootageSummary(summary) : null,
+          };
+        });
+
+        console.log(
+          `Returning ${projects.length} projects using reliable database timestamps`,
+        );
+        res.json({
+          success: true,
+          projects: projectsWithFootage,
+        });
+      } catch (error) {
+        console.error("Get projects error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get projects",
+        });
+      }
+    },
+  );
+
+  // Create new project with subscription check
+  router.post(
+    "/api/projects",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        // Check subscription status before creating project
+        const requester = await storage.getUser(req.user!.id);
+        if (!requester) {
+          return res.status(404).json({
+            success: false,
+            message: "User not found",
+          });
+        }
+
+        // Organization projects draw on the owner's subscription and credits
+        const {
+          billingUser: user,
+          organization,
+          hasActiveSubscription,
+          creditTypes,
+        } = await getProjectCreditContext(requester);
+        const validatedData = insertProjectSchema.parse(req.body);
+
+        // The credit is only spent when the project is sent to the editor, but a draft needs one available
+        const balances = await storage.getCreditBalances(user.id);
+        if (!creditTypes.some((type) => balances[type] > 0)) {
+          return res.status(403).json({
+            success: false,
+            ...(await getNoCreditDetails(
+              user,
+              hasActiveSubscription,
+              "create projects",
+            )),
+          });
+        }
+
+        const project = await storage.createProject(
+          req.user!.id,
+          validatedData,
+          organization,
+        );
+
+        // Track project creation timestamp
+        await updateProjectTimestamp(project.id, "project created");
+
+        // 🚨 CRITICAL: Frame.io folders are ONLY created when "New Video Request" button is clicked
+        // This project creation endpoint should NOT create folders automatically
+        console.log(
+          `🚨 PROJECT CREATED WITHOUT FRAME.IO FOLDERS - folders only created on "New Video Request" button`,
+        );
+        let frameioConfigured = false;
+
+        // Only prepare the media provider but don't create folders yet
+        try {
+          await media.connect();
+
+          if (media.isAvailable()) {
+            console.log(
+              `Media provider (${media.name}) ready for user ${req.user!.id} - folders will be created on first "New Video Request"`,
+            );
+            frameioConfigured = true;
+          } else {
+            console.log(
+              "Frame.io V4 OAuth not completed - will need authentication before folder creation",
+            );
+          }
+        } catch (frameioError) {
+          console.error(
+            "Frame.io V4 service preparation failed:",
+            frameioError,
+          );
+        }
+
+        // Always return success for project creation
+        const updatedProject = frameioConfigured
+          ? await storage.getProject(project.id)
+          : project;
+
+        res.status(201).json({
+          success: true,
+          message: "Project created successfully",
+          project: updatedProject,
+          frameio: frameioConfigured
+            ? {
+                status: "ready",
+                note: 'Frame.io V4 service ready - folders will be created on first "New Video Request"',
+              }
+            : {
+                status: "pending",
+                note: "Complete Frame.io OAuth to enable folder organization",
+                authUrl: `${req.protocol}://${req.get("host")}/api/auth/frameio`,
+              },
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json({
+            success: false,
+            message: "Invalid project data",
+            errors: error.errors,
+          });
+        } else {
+          console.error("Create project error:", error);
+          res.status(500).json({
+            success: false,
+            message: "Failed to create project",
+          });
+        }
+      }
+    },
+  );
+
+  // REMOVED DUPLICATE: Project acceptance endpoint moved to line 1827
+
+  // Get video download link endpoint
+  router.get(
+    "/api/projects/:id/download-link",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const projectId = Number(req.params.id);
+
+        // Get user ID from authenticated request
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            message: "Authentication required",
+          });
+        }
+
+        // Verify project belongs to user
+        const project = await storage.getProject(projectId);
+        if (!project || !(await canAccessProject(project, userId))) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
+
+        // Try to get download link from project files first
+        const projectFiles = await storage.getProjectFiles(projectId);
+        const completedVideo = projectFiles.find((file) => file.mediaAssetUrl);
+
+        if (completedVideo?.mediaAssetUrl) {
+          return res.json({
+            success: true,
+            downloadLink: completedVideo.mediaAssetUrl,
+            filename: completedVideo.filename,
+          });
+        }
+
+        // If no stored download link, try to generate one from Frame.io videos
+        if (project.mediaFolderId) {
+          try {
+            await media.connect();
+            const frameioVideos = await media.getFolderAssets(
+              project.mediaFolderId,
+            );
+            if (frameioVideos && frameioVideos.length > 0) {
+              const latestVideo = frameioVideos[0];
+              const videoId =
+                latestVideo.id || latestVideo.uri?.split("/").pop();
+
+              // Generate download link for the latest video (V4)
+              const downloadLink =
+                await media.generateAssetDownloadLink(videoId);
+
+              if (downloadLink) {
+                return res.json({
+                  success: true,
+                  downloadLink: downloadLink,
+                  filename: latestVideo.name,
+                });
+              }
+            }
+          } catch (frameioError) {
+            console.error(
+              "Error generating download link from Frame.io:",
+              frameioError,
+            );
+          }
+        }
+
+        return res.status(404).json({
+          success: false,
+          message: "No download link available for this project",
+        });
+      } catch (error) {
+        console.error("Get download link error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get download link",
+        });
+      }
+    },
+  );
+
+  // Direct video download endpoint - triggers file download to user's device
+  router.get(
+    "/api/projects/:id/download-video",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const projectId = Number(req.params.id);
+
+        // Get user ID from authenticated request (handle both session and Supabase auth)
+        const userId = req.session?.userId || req.user?.id;
+
+        if (!userId) {
+          console.error("No user ID found in request:", {
+            session: !!req.session,
+            user: !!req.user,
+          });
+          return res.status(401).json({
+            success: false,
+            message: "Authentication required",
+          });
+        }
+
+        // Verify project belongs to user
+        const project = await storage.getProject(projectId);
+        if (!project || !(await canAccessProject(project, userId))) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
+
+        // Get the latest video from the Frame.io folder
+        if (!project.mediaFolderId) {
+          return res.status(404).json({
+            success: false,
+            message: "No Frame.io folder configured for this project",
+          });
+        }
+
+        await media.connect();
+        const frameioVideos = await media.getFolderAssets(
+          project.mediaFolderId,
+        );
+        if (!frameioVideos || frameioVideos.length === 0) {
+          return res.status(404).json({
+            success: false,
+            message: "No videos found for this project",
+          });
+        }
+
+        const latestVideo = frameioVideos[0];
+        const videoId = latestVideo.id;
+
+        if (!videoId) {
+          return res.status(404).json({
+            success: false,
+            message: "Invalid video ID",
+          });
+        }
+
+        // Get the direct download link from Frame.io V4
+        const downloadLink =
+          await media.generateAssetDownloadLink(videoId);
+
+        if (!downloadLink) {
+          return res.status(404).json({
+            success: false,
+            message: "No download link available",
+          });
+        }
+
+        console.log(`Got download link for video ${videoId}: ${downloadLink}`);
+
+        // Check if it's a direct file URL that we can proxy for download
+        if (
+          downloadLink.includes(".mp4") ||
+          downloadLink.includes(".mov") ||
+          downloadLink.includes("akamaized") ||
+          downloadLink.includes("progressive") ||
+          downloadLink.includes("frame.io")
+        ) {
+          try {
+            console.log("Attempting to proxy direct video file download...");
+
+            // Fetch the video file directly
+            const response = await fetch(downloadLink, {
+              method: "GET",
+              headers: {
+                "User-Agent":
+                  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+              },
+            });
+
+            if (!response.ok) {
+              console.error(
+                `Failed to fetch video file: ${response.status} ${response.statusText}`,
+              );
+              return res.redirect(downloadLink);
+            }
+
+            // Set headers for file download
+            const filename = `${latestVideo.name || `video_${videoId}`}.mp4`;
+            (res as any).setHeader(
+              "Content-Disposition",
+              `attachment; filename="${filename}"`,
+            );
+            (res as any).setHeader("Content-Type", "video/mp4");
+
+            // Get content length if available
+            const contentLength = response.headers.get("content-length");
+            if (contentLength) {
+              (res as any).setHeader("Content-Length", contentLength);
+            }
+
+            console.log(
+              `Streaming video file: ${filename} (${contentLength || "unknown size"})`,
+            );
+
+            // Stream the video file using Node.js streams
+            if (response.body) {
+              const reader = response.body.getReader();
+
+              const pump = async () => {
+                try {
+                  while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    res.write(Buffer.from(value));
+                  }
+                  res.end();
+                  console.log("✅ Video download completed successfully");
+                } catch (streamError) {
+                  console.error("Error during video streaming:", streamError);
+                  if (!res.headersSent) {
+                    res
+                      .status(500)
+                      .json({ success: false, message: "Stream error" });
+                  }
+                }
+              };
+
+              await pump();
+            } else {
+              throw new Error("No response body available");
+            }
+          } catch (proxyError) {
+            console.error("Error proxying video file:", proxyError);
+            // Fallback to redirect
+            res.redirect(downloadLink);
+          }
+        } else {
+          // Redirect to media platform page for non-direct URLs
+          console.log("Redirecting to media platform page for download");
+          res.redirect(downloadLink);
+        }
+      } catch (error) {
+        console.error("Error downloading video:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to download video",
+        });
+      }
+    },
+  );
+
+  // Create revision payment session endpoint
+  router.post(
+    "/api/stripe/create-revision-session",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const { projectId } = req.body;
+
+        // Resolve revision price using lookup_key
+        let priceToUse: string;
+        try {
+          const revisionPrice =
+            await resolvePriceByLookupKey("revision_payment");
+          priceToUse = revisionPrice.id;
+          console.log(`✅ Using revision price ${priceToUse} via lookup_key`);
+
+          // Verify it's the expected amount ($5)
+          if (revisionPrice.unit_amount !== 500) {
+            console.warn(
+              `⚠️ Revision price amount is ${revisionPrice.unit_amount} cents, expected 500`,
+            );
+          }
+        } catch (error) {
+          console.error("Error resolving revision price:", error);
+          // Fallback to hard-coded price as last resort
+          priceToUse = "price_1Rt2ZhCp6pJe31oC6uMZuOev";
+          console.warn("⚠️ Using fallback hard-coded price ID");
+        }
+
+        // Convert to number if it's a string
+        const numericProjectId =
+          typeof projectId === "string" ? parseInt(projectId, 10) : projectId;
+
+        if (
+          !numericProjectId ||
+          typeof numericProjectId !== "number" ||
+          isNaN(numericProjectId)
+        ) {
+          return res.status(400).json({
+            success: false,
+            message: "Valid project ID is required",
+          });
+        }
+
+        // Verify project exists and user has access
+        const project = await storage.getProject(numericProjectId);
+        console.log("Project lookup result:", {
+          projectExists: !!project,
+          projectId: project?.id,
+          projectStatus: project?.status,
+          projectUserId: project?.userId,
+          requestUserId: req.user!.id,
+        });
+
+        if (!project || !(await canAccessProject(project, req.user!.id))) {
+          console.log("Project access check failed - no access");
+          return res.status(404).json({
+            success: false,
+            message: "Project not found or access denied",
+          });
+        }
+
+        // Check if project is in correct status for revision request
+        const validRevisionStatuses: string[] = [
+          PROJECT_STATUS.VIDEO_IS_READY,
+          PROJECT_STATUS.COMPLETE,
+        ];
+        if (!validRevisionStatuses.includes(project.status)) {
+          return res.status(400).json({
+            success: false,
+            message:
+              "Project must be delivered or completed to request revisions",
+          });
+        }
+
+        // Plans with included revisions skip checkout until they're used up
+        // (reserving one also moves the project to awaiting revision instructions)
+        const user = await storage.getUser(req.user!.id);
+        const reservation = user
+          ? await reserveIncludedRevision(user, numericProjectId)
+          : null;
+        if (reservation) {
+          console.log(
+            `🎁 Reserved included revision for project ${numericProjectId} (${reservation.remaining} of ${reservation.included} remaining per ${reservation.per})`,
+          );
+
+          return res.json({
+            success: true,
+            includedRevision: true,
+            remainingIncludedRevisions: reservation.remaining,
+            message: "Revision included in your plan - no payment required",
+          });
+        }
+
+        // Use centralized URL configuration (same as subscription flow)
+        const baseUrl = getAppBaseUrl();
+        console.log(`🔗 Revision payment will redirect to: ${baseUrl}`);
+        console.log(
+          `   Environment: NODE_ENV=${process.env.NODE_ENV}, PRODUCTION_URL=${process.env.PRODUCTION_URL}`,
+        );
+
+        // Generate idempotency key for revision payment
+        // Use combination of project ID and timestamp (rounded to hour) for retry window
+        const idempotencyKey = `revision_${numericProjectId}_${Math.floor(Date.now() / 3600000)}`;
+        console.log(`🔑 Using idempotency key: ${idempotencyKey}`);
+
+        // Create Stripe checkout session for revision payment
+        const session = await payments.createCheckoutSession(
+          {
+            payment_method_types: ["card"],
+            mode: "payment",
+            line_items: [
+              {
+                price: priceToUse,
+                quantity: 1,
+              },
+            ],
+            success_url: `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}&project_id=${numericProjectId}&type=revision`,
+            cancel_url: `${baseUrl}/payment-cancelled?session_id={CHECKOUT_SESSION_ID}&project_id=${numericProjectId}&type=revision`,
+            metadata: {
+              projectId: numericProjectId.toString(),
+              userId: req.user!.id,
+              type: "revision_payment",
+            },
+          },
+          {
+            idempotencyKey: idempotencyKey,
+          },
+        );
+
+        // Store revision payment record
+        await storage.createRevisionPayment(req.user!.id, {
+          projectId: numericProjectId,
+          stripeCheckoutSessionId: session.id,
+          paymentAmount: 500, // $5.00 in cents
+          currency: "usd",
+        });
+
+        console.log("✅ Stripe session created successfully:");
+
+        console.log(
+          `"- Success URL:" ${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}&project_id=${numericProjectId}&type=revision`,
+        );
+        console.log(
+          `"- Cancel URL:" ${baseUrl}/payment-cancelled?session_id={CHECKOUT_SESSION_ID}&project_id=${numericProjectId}&type=revision`,
+        );
+
+        res.json({
+          success: true,
+          sessionUrl: session.url,
+          sessionId: session.id,
+        });
+      } catch (error) {
+        console.error("Error creating revision payment session:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to create revision payment session",
+        });
+      }
+    },
+  );
+
+  // API endpoint to check revision payment status - UPDATED TO INCLUDE DATABASE UPDATES
+  router.get(
+    "/api/stripe/check-revision-payment",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const sessionId = req.query.session_id as string;
+        const userId = req.user!.id;
+
+        if (!sessionId) {
+          return res.status(400).json({
+            success: false,
+            message: "Session ID is required",
+          });
+        }
+
+        // Get revision payment record from database
+        const payment = await storage.getRevisionPayment(sessionId);
+        if (!payment) {
+          return res.status(404).json({
+            success: false,
+            message: "Payment session not found in database",
+          });
+        }
+
+        // Verify this payment belongs to the current user
+        if (payment.userId !== userId) {
+          return res.status(403).json({
+            success: false,
+            message: "Access denied",
+          });
+        }
+
+        // Retrieve session from Stripe
+        const session = await payments.retrieveCheckoutSession(sessionId);
+
+        // Check if payment is completed
+        const isCompleted =
+          session.payment_status === "paid" && session.status === "complete";
+
+        // If payment is completed and not already recorded, update the database
+        if (isCompleted && payment.paymentStatus !== "completed") {
+          console.log(
+            `💳 Recording completed payment for session: ${sessionId}`,
+          );
+
+          // Update the revision payment record
+          await storage.updateRevisionPayment(sessionId, {
+            paymentStatus: "completed",
+            paidAt: new Date(),
+            stripePaymentIntentId: session.payment_intent as string,
+          });
+
+          // Update project status to "awaiting revision instructions"
+          await storage.updateProject(payment.projectId, {
+            status: "awaiting revision instructions",
+            updatedAt: new Date(),
+          });
+          console.log(
+            `🔄 Updated project ${payment.projectId} status to "awaiting revision instructions"`,
+          );
+
+          // Log the revision for accounting/tracking
+          console.log(
+            `💰 REVISION PAYMENT RECORDED: Project ${payment.projectId}, Amount: $${payment.paymentAmount / 100}, Session: ${sessionId}`,
+          );
+
+          // Move revision card to Done (revision request completes the current revision)
+          try {
+            await trelloAutomation.markProjectComplete(payment.projectId, true);
+            console.log(
+              `✅ PAYMENT CHECK: Moved revision card to Done for project ${payment.projectId}`,
+            );
+          } catch (error) {
+            console.error(
+              "Failed to move revision Trello card to Done:",
+              error,
+            );
+          }
+        }
+
+        console.log("🔍 Payment status check:", {
+          sessionId: session.id,
+          paymentStatus: session.payment_status,
+          status: session.status,
+          isCompleted,
+        });
+
+        res.json({
+          success: true,
+          completed: isCompleted,
+          sessionId: session.id,
+          projectId: session.metadata?.projectId || payment.projectId,
+          paymentStatus: session.payment_status,
+          status: session.status,
+        });
+      } catch (error) {
+        console.error("Error checking payment status:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to check payment status",
+        });
+      }
+    },
+  );
+
+  // IMPORTANT: These routes MUST be defined before Vite middleware to ensure they work
+  // Stripe revision payment success/cancel endpoints - these are hit by Stripe after checkout
+  router.get(
+    "/stripe/revision-payment-success",
+    async (req: AppRequest, res: AppResponse) => {
+      const sessionId = req.query.session_id as string;
+      const projectId = req.query.project_id as string;
+
+      console.log("✅ STRIPE REVISION PAYMENT SUCCESS ENDPOINT HIT!");
+
+      console.log(
+        `"✅ Stripe revision payment success callback:" { sessionId, projectId }`,
+      );
+
+      if (!sessionId || !projectId) {
+        return res.redirect("/dashboard");
+      }
+
+      // Verify the session with Stripe to ensure it's legitimate
+      try {
+        const session = await payments.retrieveCheckoutSession(sessionId);
+        console.log("🔍 Stripe session verification:", {
+          id: session.id,
+          payment_status: session.payment_status,
+          status: session.status,
+          amount_total: session.amount_total,
+          metadata: session.metadata,
+        });
+
+        if (session.payment_status !== "paid") {
+          return res.redirect(
+            `/dashboard?revision_payment=pending&session_id=${sessionId}&project_id=${projectId}`,
+          );
+        }
+
+        // Update project status to "awaiting revision instructions" after successful payment
+        const numericProjectId = Number(projectId);
+        if (!isNaN(numericProjectId)) {
+          try {
+            await storage.updateProject(numericProjectId, {
+              status: "awaiting revision instructions",
+              updatedAt: new Date(),
+            });
+            await updateProjectTimestamp(
+              numericProjectId,
+              "revision payment completed",
+            );
+            console.log(
+              "✅ Updated project status to 'awaiting revision instructions'",
+            );
+          } catch (err) {
+            console.error("Failed to update project status:", err);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to verify Stripe session:", error);
         // Continue with redirect anyway - payment can be verified client-side
       }
 
@@ -4552,13 +6731,138 @@ export async function registerRoutes(app: any): Promise<Server> {
       // This approach works better in development environments like Replit
       const redirectUrl =
         getDashboardUrl() +
-        `?revision_payment=success&session_id=${sessionId}&project_id=${projectId}`;
+        `?revision_payment=success&session_id=${sessionId}&project_id=${projectId}`;
+
+      (res as any).send(`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Payment Success - Redirecting...</title>
+        <meta charset="utf-8">
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            height: 100vh;
+            margin: 0;
+            background: linear-gradient(135deg, #06b6d4 0%, #0891b2 100%);
+          }
+          .container {
+            background: white;
+            padding: 40px;
+            border-radius: 16px;
+            box-shadow: 0 20px 60px rgba(0,0,0,0.2);
+            text-align: center;
+            max-width: 400px;
+          }
+          .success-icon {
+            width: 80px;
+            height: 80px;
+            margin: 0 auto 20px;
+            background: #10b981;
+            border-radius: 50%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+          }
+          .checkmark {
+            width: 40px;
+            height: 40px;
+            stroke: white;
+            stroke-width: 3;
+            fill: none;
+            stroke-dasharray: 50;
+            stroke-dashoffset: 0;
+            animation: checkmark 0.4s ease-in-out forwards;
+          }
+          @keyframes checkmark {
+            from { stroke-dashoffset: 50; }
+            to { stroke-dashoffset: 0; }
+          }
+          h1 { color: #1f2937; margin-bottom: 10px; font-size: 24px; }
+          p { color: #6b7280; margin-bottom: 20px; }
+          .spinner {
+            border: 3px solid #f3f4f6;
+            border-top: 3px solid #06b6d4;
+            border-radius: 50%;
+            width: 30px;
+            height: 30px;
+            animation: spin 1s linear infinite;
+            margin: 20px auto;
+          }
+          @keyframes spin {
+            0% { transform: rotate(0deg); }
+            100% { transform: rotate(360deg); }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="success-icon">
+            <svg class="checkmark" viewBox="0 0 52 52">
+              <path d="M14 27l10 10 20-20" />
+            </svg>
+          </div>
+          <h1>Payment Successful!</h1>
+          <p>Your $5 revision payment has been processed.</p>
+          <div class="spinner"></div>
+          <p style="font-size: 14px; color: #9ca3af;">Redirecting to your dashboard...</p>
+        </div>
+        <script>
+          // Store payment info in localStorage for backup
+          const paymentInfo = {
+            sessionId: '${sessionId}',
+            projectId: '${projectId}',
+            timestamp: Date.now()
+          };
+          localStorage.setItem('stripe_revision_payment', JSON.stringify(paymentInfo));
+
+          
+          // Redirect to dashboard with parameters
+          const redirectUrl = '${redirectUrl}';
+
+          
+          setTimeout(() => {
+            window.location.href = redirectUrl;
+          }, 1000);
+        </script>
+      </body>
+      </html>
+    `);
+    },
+  );
+
+  router.get(
+    "/stripe/revision-payment-cancel",
+    async (req: AppRequest, res: AppResponse) => {
+      const sessionId = req.query.session_id as string;
+      const projectId = req.query.project_id as string;
+
+      console.log("❌ STRIPE REVISION PAYMENT CANCEL ENDPOINT HIT!");
+
+      console.log(
+        `"❌ Stripe revision payment cancelled:" { sessionId, projectId }`,
+      );
+
+      if (!sessionId || !projectId) {
+        return res.redirect("/dashboard");
+      }
+
+      // Clear any pending payment from localStorage via cookie
+      // We can't directly clear localStorage from server, but can send a signal
+
+      // Send HTML with client-side redirect for better reliability
+      const redirectUrl =
+        getDashboardUrl() +
+        `?revision_payment=cancelled&session_id=${sessionId}&project_id=${projectId}`;
 
       (res as any).send(`
       <!DOCTYPE html>
       <html>
       <head>
-        <title>Payment Success - Redirecting...</title>
+        <title>Payment Cancelled - Redirecting...</title>
         <meta charset="utf-8">
         <style>
           body {
@@ -4568,7 +6872,7 @@ export async function registerRoutes(app: any): Promise<Server> {
             align-items: center;
             height: 100vh;
             margin: 0;
-            background: linear-gradient(135deg, #06b6d4 0%, #0891b2 100%);
+            background: linear-gradient(135deg, #fbbf24 0%, #f59e0b 100%);
           }
           .container {
             background: white;
@@ -4578,35 +6882,28 @@ export async function registerRoutes(app: any): Promise<Server> {
             text-align: center;
             max-width: 400px;
           }
-          .success-icon {
+          .cancel-icon {
             width: 80px;
             height: 80px;
             margin: 0 auto 20px;
-            background: #10b981;
+            background: #ef4444;
             border-radius: 50%;
             display: flex;
             align-items: center;
             justify-content: center;
           }
-          .checkmark {
+          .cross {
             width: 40px;
             height: 40px;
             stroke: white;
             stroke-width: 3;
             fill: none;
-            stroke-dasharray: 50;
-            stroke-dashoffset: 0;
-            animation: checkmark 0.4s ease-in-out forwards;
-          }
-          @keyframes checkmark {
-            from { stroke-dashoffset: 50; }
-            to { stroke-dashoffset: 0; }
           }
           h1 { color: #1f2937; margin-bottom: 10px; font-size: 24px; }
           p { color: #6b7280; margin-bottom: 20px; }
           .spinner {
             border: 3px solid #f3f4f6;
-            border-top: 3px solid #06b6d4;
+            border-top: 3px solid #f59e0b;
             border-radius: 50%;
             width: 30px;
             height: 30px;
@@ -4621,27 +6918,21 @@ export async function registerRoutes(app: any): Promise<Server> {
       </head>
       <body>
         <div class="container">
-          <div class="success-icon">
-            <svg class="checkmark" viewBox="0 0 52 52">
-              <path d="M14 27l10 10 20-20" />
+          <div class="cancel-icon">
+            <svg class="cross" viewBox="0 0 52 52">
+              <path d="M16 16l20 20M36 16l-20 20" />
             </svg>
           </div>
-          <h1>Payment Successful!</h1>
-          <p>Your $5 revision payment has been processed.</p>
+          <h1>Payment Cancelled</h1>
+          <p>Your revision payment was cancelled.</p>
           <div class="spinner"></div>
-          <p style="font-size: 14px; color: #9ca3af;">Redirecting to your dashboard...</p>
+          <p style="font-size: 14px; color: #9ca3af;">Returning to dashboard...</p>
         </div>
         <script>
-          // Store payment info in localStorage for backup
-          const paymentInfo = {
-            sessionId: '${sessionId}',
-            projectId: '${projectId}',
-            timestamp: Date.now()
-          };
-          localStorage.setItem('stripe_revision_payment', JSON.stringify(paymentInfo));
-
+          // Clear any stored payment info
+          localStorage.removeItem('stripe_revision_payment');
           
-          // Redirect to dashboard with parameters
+          // Redirect to dashboard
           const redirectUrl = '${redirectUrl}';
 
           
@@ -4655,133 +6946,447 @@ export async function registerRoutes(app: any): Promise<Server> {
     },
   );
 
+  // Generate media platform review link and start revision process
+  router.post(
+    "/api/projects/:id/generate-review-link",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const projectId = Number(req.params.id);
+        const userId = req.user!.id;
+
+        console.log(
+          `Generating review link for project ${projectId} by user ${userId}`,
+        );
+
+        // Get project details
+        const project = await storage.getProject(projectId);
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
+
+        // Verify ownership
+        if (!(await canAccessProject(project, userId))) {
+          return res.status(403).json({
+            success: false,
+            message: "Access denied",
+          });
+        }
+
+        // Check if project is in correct status for review link generation
+        if (project.status.toLowerCase() !== "awaiting revision instructions") {
+          return res.status(400).json({
+            success: false,
+            message:
+              "Project must be awaiting revision instructions to generate review link",
+          });
+        }
+
+        // Get the latest video for review
+        // Get videos from the folder and find latest
+        const folderVideos = await media.getFolderAssets(
+          project.mediaFolderId!,
+        );
+        const latestVideo = folderVideos.find(
+          (asset) =>
+            asset.type === "file" && asset.media_type?.startsWith("video/"),
+        );
+        if (!latestVideo) {
+          return res.status(404).json({
+            success: false,
+            message: "No video found for review",
+          });
+        }
+
+        // Create media platform review link using project folder ID
+        const projectFolderId = project.mediaFolderId?.split("/").pop();
+        if (!projectFolderId) {
+          return res.status(400).json({
+            success: false,
+            message: "No media platform folder found for this project",
+          });
+        }
+
+        const reviewLink = await createFrameioReviewLink(projectFolderId);
+
+        // Store review link in project
+        await storage.updateProject(projectId, {
+          updatedAt: new Date(),
+        });
+
+        // Get user for email
+        const user = await storage.getUser(userId);
+        if (user && user.email) {
+          // Send revision instruction email
+          const emailTemplate = emailService.generateRevisionInstructionEmail(
+            user.email,
+            project.title,
+            reviewLink || "",
+            projectId,
+          );
+
+          try {
+            await emailService.sendEmail(emailTemplate);
+            console.log(
+              `Revision instruction email sent to ${user.email} for project ${projectId}`,
+            );
+          } catch (emailError) {
+            console.error(
+              "Failed to send revision instruction email:",
+              emailError,
+            );
+          }
+        }
+
+        res.json({
+          success: true,
+          reviewLink,
+          videoName: latestVideo.name,
+          message: "Review link generated successfully",
+        });
+      } catch (error) {
+        console.error("Error generating review link:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to generate review link",
+        });
+      }
+    },
+  );
+
+  // Get project by ID
   router.get(
-    "/stripe/revision-payment-cancel",
+    "/api/projects/:id",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const projectId = Number(req.params.id);
+        const project = await storage.getProject(projectId);
+
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
+
+        // Check if user owns this project
+        if (!(await canAccessProject(project, req.user!.id))) {
+          return res.status(403).json({
+            success: false,
+            message: "Access denied",
+          });
+        }
+
+        // Get project files
+        const files = await storage.getProjectFiles(projectId);
+
+        res.json({
+          success: true,
+          project: {
+            ...project,
+            files,
+          },
+        });
+      } catch (error) {
+        console.error("Get project error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to get project",
+        });
+      }
+    },
+  );
+
+  // Update project
+  router.put(
+    "/api/projects/:id",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const projectId = Number(req.params.id);
+        const project = await storage.getProject(projectId);
+
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
+
+        // Check if user owns this project
+        if (!(await canAccessProject(project, req.user!.id))) {
+          return res.status(403).json({
+            success: false,
+            message: "Access denied",
+          });
+        }
+
+        const validatedData = updateProjectSchema.parse({
+          ...req.body,
+          ...(req.body.status && {
+            status: normalizeProjectStatus(req.body.status) ?? req.body.status,
+          }),
+        });
+        const updatedProject = await storage.updateProject(
+          projectId,
+          validatedData,
+          "user",
+        );
+
+        res.json({
+          success: true,
+          message: "Project updated successfully",
+          project: updatedProject,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json({
+            success: false,
+            message: "Invalid project data",
+            errors: error.errors,
+          });
+        } else if (
+          error instanceof ProjectStatusTransitionError ||
+          error instanceof InvalidProjectStatusError
+        ) {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+          });
+        } else {
+          console.error("Update project error:", error);
+          res.status(500).json({
+            success: false,
+            message: "Failed to update project",
+          });
+        }
+      }
+    },
+  );
+
+  // Update project status only
+  router.patch(
+    "/api/projects/:id/status",
+    requireAuth,
     async (req: AppRequest, res: AppResponse) => {
-      const sessionId = req.query.session_id as string;
-      const projectId = req.query.project_id as string;
+      try {
+        const projectId = Number(req.params.id);
 
-      console.log("❌ STRIPE REVISION PAYMENT CANCEL ENDPOINT HIT!");
+        if (!req.body.status) {
+          return res.status(400).json({
+            success: false,
+            message: "Status is required",
+          });
+        }
 
-      console.log(
-        `"❌ Stripe revision payment cancelled:" { sessionId, projectId }`,
-      );
+        const status = normalizeProjectStatus(req.body.status);
+        if (!status) {
+          return res.status(400).json({
+            success: false,
+            message: `Unknown project status: ${req.body.status}`,
+          });
+        }
 
-      if (!sessionId || !projectId) {
-        return res.redirect("/dashboard");
-      }
+        const project = await storage.getProject(projectId);
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
 
-      // Clear any pending payment from localStorage via cookie
-      // We can't directly clear localStorage from server, but can send a signal
+        // Check if user owns this project
+        if (!(await canAccessProject(project, req.user!.id))) {
+          return res.status(403).json({
+            success: false,
+            message: "Access denied",
+          });
+        }
 
-      // Send HTML with client-side redirect for better reliability
-      const redirectUrl =
-        getDashboardUrl() +
-        `?revision_payment=cancelled&session_id=${sessionId}&project_id=${projectId}`;
+        // IMPORTANT: Prevent duplicate submissions to editor
+        if (
+          status === "edit in progress" &&
+          (project.status === "edit in progress" ||
+            project.status === "video is ready" ||
+            project.status === "complete" ||
+            project.status === "revision in progress")
+        ) {
+          console.log(
+            `⚠️ Blocking duplicate submission for project ${projectId}. Current status: ${project.status}`,
+          );
+          // Return 200 with success:false so frontend can handle in onSuccess
+          return res.json({
+            success: false,
+            message: "This project has already been submitted to the editor.",
+            alreadySubmitted: true,
+          });
+        }
 
-      (res as any).send(`
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>Payment Cancelled - Redirecting...</title>
-        <meta charset="utf-8">
-        <style>
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
-            display: flex;
-            justify-content: center;
-            align-items: center;
-            height: 100vh;
-            margin: 0;
-            background: linear-gradient(135deg, #fbbf24 0%, #f59e0b 100%);
+        // IMPORTANT: Validate that Frame.io folder contains at least 1 video before submission
+        if (status === "edit in progress") {
+          if (!project.mediaFolderId) {
+            console.log(
+              `⚠️ Blocking submission for project ${projectId}: No Frame.io folder configured`,
+            );
+            // Return 200 with success:false so frontend can handle in onSuccess
+            return res.json({
+              success: false,
+              message: "You must first upload your raw video footage before submitting to the editor. Please check your files in Step 1.",
+              noVideosFound: true,
+            });
           }
-          .container {
-            background: white;
-            padding: 40px;
-            border-radius: 16px;
-            box-shadow: 0 20px 60px rgba(0,0,0,0.2);
-            text-align: center;
-            max-width: 400px;
+
+          try {
+            const videos = await getFolderVideos(project.mediaFolderId);
+            console.log(
+              `🎬 Video validation for project ${projectId}: Found ${videos.length} video(s) in folder ${project.mediaFolderId}`,
+            );
+
+            if (videos.length === 0) {
+              console.log(
+                `⚠️ Blocking submission for project ${projectId}: No video files found in Frame.io folder`,
+              );
+              // Return 200 with success:false so frontend can handle in onSuccess
+              return res.json({
+                success: false,
+                message: "You must first upload your raw video footage before submitting to the editor. Please check your files in Step 1.",
+                noVideosFound: true,
+              });
+            }
+          } catch (videoCheckError) {
+            console.error(
+              `❌ Video validation error for project ${projectId}:`,
+              videoCheckError,
+            );
+            // If Frame.io is unavailable, still block submission to be safe
+            // Return 200 with success:false so frontend can handle in onSuccess
+            return res.json({
+              success: false,
+              message: "Unable to verify your uploaded files. Please try again or contact support if the issue persists.",
+              noVideosFound: true,
+            });
           }
-          .cancel-icon {
-            width: 80px;
-            height: 80px;
-            margin: 0 auto 20px;
-            background: #ef4444;
-            border-radius: 50%;
-            display: flex;
-            align-items: center;
-            justify-content: center;
+        }
+
+        // Prepare update object
+        const updateObject: any = {
+          status,
+          updatedAt: new Date(),
+        };
+
+        // If changing status to "edit in progress", set submission timestamp
+        if (status === "edit in progress") {
+          updateObject.submittedToEditorAt = new Date();
+          console.log(
+            `📅 Setting submittedToEditorAt timestamp for project ${projectId}: ${updateObject.submittedToEditorAt.toISOString()}`,
+          );
+        }
+
+        // Sending to the editor is what spends the video credit
+        let updatedProject: Project | undefined;
+        if (status === "edit in progress") {
+          const requester = await storage.getUser(req.user!.id);
+          if (!requester) {
+            return res.status(404).json({
+              success: false,
+              message: "User not found",
+            });
           }
-          .cross {
-            width: 40px;
-            height: 40px;
-            stroke: white;
-            stroke-width: 3;
-            fill: none;
+
+          const {
+            billingUser,
+            organization,
+            hasActiveSubscription,
+            creditTypes,
+          } = await getProjectCreditContext(requester);
+          const started = await storage.startProjectEditWithCredit(
+            req.user!.id,
+            projectId,
+            updateObject,
+            creditTypes,
+            organization,
+          );
+
+          if (!started) {
+            // Return 200 with success:false so frontend can handle in onSuccess
+            return res.json({
+              success: false,
+              ...(await getNoCreditDetails(
+                billingUser,
+                hasActiveSubscription,
+                "send projects to the editor",
+              )),
+            });
           }
-          h1 { color: #1f2937; margin-bottom: 10px; font-size: 24px; }
-          p { color: #6b7280; margin-bottom: 20px; }
-          .spinner {
-            border: 3px solid #f3f4f6;
-            border-top: 3px solid #f59e0b;
-            border-radius: 50%;
-            width: 30px;
-            height: 30px;
-            animation: spin 1s linear infinite;
-            margin: 20px auto;
+
+          updatedProject = started.project;
+          if (started.creditType) {
+            console.log(
+              `🎟️ Project ${projectId} used a ${started.creditType} credit for user ${billingUser.id}${organization ? ` (organization ${organization.id})` : ""}`,
+            );
           }
-          @keyframes spin {
-            0% { transform: rotate(0deg); }
-            100% { transform: rotate(360deg); }
+        } else {
+          updatedProject = await storage.updateProject(
+            projectId,
+            updateObject,
+            "user",
+          );
+        }
+
+        // Update timestamp tracking for "edit in progress" status
+        if (status === "edit in progress") {
+          await updateProjectTimestamp(projectId, "project sent to editor");
+
+          // Create Trello card for project submission
+          try {
+            await trelloAutomation.createProjectCard(projectId);
+          } catch (error) {
+            console.error("Failed to create Trello card:", error);
           }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="cancel-icon">
-            <svg class="cross" viewBox="0 0 52 52">
-              <path d="M16 16l20 20M36 16l-20 20" />
-            </svg>
-          </div>
-          <h1>Payment Cancelled</h1>
-          <p>Your revision payment was cancelled.</p>
-          <div class="spinner"></div>
-          <p style="font-size: 14px; color: #9ca3af;">Returning to dashboard...</p>
-        </div>
-        <script>
-          // Clear any stored payment info
-          localStorage.removeItem('stripe_revision_payment');
-          
-          // Redirect to dashboard
-          const redirectUrl = '${redirectUrl}';
+        }
 
-          
-          setTimeout(() => {
-            window.location.href = redirectUrl;
-          }, 1000);
-        </script>
-      </body>
-      </html>
-    `);
+        res.json({
+          success: true,
+          message: "Project status updated successfully",
+          project: updatedProject,
+        });
+      } catch (error) {
+        if (error instanceof ProjectStatusTransitionError) {
+          return res.status(409).json({
+            success: false,
+            message: `Project cannot move from "${error.from}" to "${error.to}"`,
+          });
+        }
+        console.error("Update project status error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to update project status",
+        });
+      }
     },
   );
 
-  // Generate media platform review link and start revision process
-  router.post(
-    "/api/projects/:id/generate-review-link",
-    requireAuth,
-    async (req: AppRequest, res: AppResponse) => {
-      try {
+  // Sync project to Frame.io V4
+  router.post(
+    "/api/projects/:id/sync-frameio",
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        // Skip auth for this internal endpoint - it's already handled by requireAuth middleware when needed
+        const user = req.user;
+        if (!user) {
+          return res.status(401).json({
+            success: false,
+            message: "Authentication required",
+          });
+        }
+
         const projectId = Number(req.params.id);
-        const userId = req.user!.id;
-
-        console.log(
-          `Generating review link for project ${projectId} by user ${userId}`,
-        );
-
-        // Get project details
         const project = await storage.getProject(projectId);
+
         if (!project) {
           return res.status(404).json({
             success: false,
@@ -4789,98 +7394,99 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        // Verify ownership
-        if (project.userId !== userId) {
+        // Check if user owns this project
+        if (!(await canAccessProject(project, user.id))) {
           return res.status(403).json({
             success: false,
             message: "Access denied",
           });
         }
 
-        // Check if project is in correct status for review link generation
-        if (project.status.toLowerCase() !== "awaiting revision instructions") {
-          return res.status(400).json({
-            success: false,
-            message:
-              "Project must be awaiting revision instructions to generate review link",
+        // Skip if already synced
+        if (project.mediaFolderId && project.mediaUserFolderId) {
+          return res.json({
+            success: true,
+            message: "Project already synced to Frame.io",
+            project: project,
           });
         }
 
-        // Get the latest video for review
-        // Get videos from the folder and find latest
-        const folderVideos = await frameioV4Service.getFolderAssets(
-          project.mediaFolderId!,
-        );
-        const latestVideo = folderVideos.find(
-          (asset) =>
-            asset.type === "file" && asset.media_type?.startsWith("video/"),
-        );
-        if (!latestVideo) {
-          return res.status(404).json({
-            success: false,
-            message: "No video found for review",
-          });
-        }
+        // Try to configure Frame.io V4 organization structure
+        let frameioConfigured = false;
 
-        // Create media platform review link using project folder ID
-        const projectFolderId = project.mediaFolderId?.split("/").pop();
-        if (!projectFolderId) {
-          return res.status(400).json({
-            success: false,
-            message: "No media platform folder found for this project",
-          });
-        }
+        try {
+          await frameioV4Service.loadServiceAccountToken();
 
-        const reviewLink = await createFrameioReviewLink(projectFolderId);
+          if (frameioV4Service.accessToken) {
+            console.log(
+              `Syncing project ${projectId} to Frame.io V4 for user ${user.id}`,
+            );
 
-        // Store review link in project
-        await storage.updateProject(projectId, {
-          updatedAt: new Date(),
-        });
+            await frameioV4Service.initialize();
 
-        // Get user for email
-        const user = await storage.getUser(userId);
-        if (user && user.email) {
-          // Send revision instruction email
-          const emailTemplate = emailService.generateRevisionInstructionEmail(
-            user.email,
-            project.title,
-            reviewLink || "",
-            projectId,
-          );
+            // Create virtual folder structure using V4 API
+            const rootProject = await frameioV4Service.getOrCreateRootProject();
 
-          try {
-            await emailService.sendEmail(emailTemplate);
-            console.log(
-              `Revision instruction email sent to ${user.email} for project ${projectId}`,
+            const userFolderName = `User-${user.email.split("@")[0]}-${user.id.slice(0, 8)}`;
+            const userFolder = await frameioV4Service.createFolder(
+              rootProject.root_asset_id,
+              userFolderName,
             );
-          } catch (emailError) {
-            console.error(
-              "Failed to send revision instruction email:",
-              emailError,
+
+            const projectFolderName = `${project.title}-${project.id.toString().slice(0, 8)}`;
+            const projectFolder = await frameioV4Service.createFolder(
+              userFolder.id,
+              projectFolderName,
+            );
+
+            // Store organization structure in database
+            await storage.updateProjectMediaInfo(
+              project.id,
+              projectFolder.id,
+              userFolder.id,
+            );
+
+            console.log(
+              `✓ Frame.io V4 sync complete: ${userFolder.id} -> ${projectFolder.id}`,
             );
+
+            frameioConfigured = true;
+          } else {
+            throw new Error("Frame.io V4 OAuth not completed");
           }
+        } catch (frameioError) {
+          console.error("Frame.io V4 sync failed:", frameioError);
+          return res.status(500).json({
+            success: false,
+            message: "Failed to sync with Frame.io",
+            error:
+              frameioError instanceof Error
+                ? frameioError.message
+                : String(frameioError),
+          });
         }
 
+        // Get updated project
+        const updatedProject = await storage.getProject(project.id);
+
         res.json({
           success: true,
-          reviewLink,
-          videoName: latestVideo.name,
-          message: "Review link generated successfully",
+          message: "Project synced to Frame.io successfully",
+          project: updatedProject,
         });
       } catch (error) {
-        console.error("Error generating review link:", error);
+        console.error("Sync project error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to generate review link",
+          message: "Failed to sync project",
         });
       }
     },
   );
 
-  // Get project by ID
+  // Get latest video from project folder
   router.get(
-    "/api/projects/:id",
+    "/api/projects/:id/latest-video",
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
@@ -4894,248 +7500,320 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        // Check if user owns this project
-        if (project.userId !== req.user!.id) {
+        // Check if user owns this project (handle both session and Supabase auth)
+        const userId = req.session?.userId || req.user?.claims?.sub;
+        if (!(await canAccessProject(project, String(userId)))) {
           return res.status(403).json({
             success: false,
             message: "Access denied",
           });
         }
 
-        // Get project files
-        const files = await storage.getProjectFiles(projectId);
+        // Get the latest video from project files in database
+        const projectFiles = await storage.getProjectFiles(projectId);
+        const latestVideo = projectFiles
+          .filter((file) => file.mediaAssetId)
+          .sort(
+            (a, b) =>
+              new Date(b.uploadDate).getTime() -
+              new Date(a.uploadDate).getTime(),
+          )[0];
 
-        res.json({
-          success: true,
-          project: {
-            ...project,
-            files,
-          },
-        });
+        if (latestVideo?.mediaAssetId) {
+          console.log(
+            `Found video in DB for project ${projectId}: ${latestVideo.mediaAssetId}`,
+          );
+          res.json({
+            success: true,
+            videoId: latestVideo.mediaAssetId,
+            filename: latestVideo.filename,
+            uploadDate: latestVideo.uploadDate,
+          });
+        } else {
+          // If no video in DB, try to get from Frame.io folder directly
+          console.log(
+            `No video in DB for project ${projectId}, checking Frame.io folder`,
+          );
+          try {
+            if (project.mediaFolderId) {
+              await media.connect();
+              const frameioAssets = await media.getFolderAssets(
+                project.mediaFolderId,
+              );
+              if (frameioAssets && frameioAssets.length > 0) {
+                // Get the most recent asset
+                const latestAsset = frameioAssets[0]; // Already sorted by date
+                console.log(
+                  `Found video in Frame.io folder: ${latestAsset.name}`,
+                );
+
+                res.json({
+                  success: true,
+                  videoId: latestAsset.id,
+                  filename: latestAsset.name,
+                  uploadDate: latestAsset.uploaded_at,
+                  directLink: latestAsset.download_url,
+                });
+              } else {
+                res.json({
+                  success: false,
+                  message: "No video found for this project",
+                });
+              }
+            } else {
+              res.json({
+                success: false,
+                message: "No Frame.io folder configured for this project",
+              });
+            }
+          } catch (frameioError) {
+            console.error("Error fetching from Frame.io:", frameioError);
+            res.json({
+              success: false,
+              message: "No video found for this project",
+            });
+          }
+        }
       } catch (error) {
-        console.error("Get project error:", error);
+        console.error("Get latest video error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to get project",
+          message: "Failed to get latest video",
         });
       }
     },
   );
 
-  // Update project
-  router.put(
-    "/api/projects/:id",
-    requireAuth,
-    async (req: AppRequest, res: AppResponse) => {
-      try {
-        const projectId = Number(req.params.id);
-        const project = await storage.getProject(projectId);
+  // REMOVED: Legacy Frame.io photo test endpoint - functionality moved to V4 API
 
-        if (!project) {
-          return res.status(404).json({
-            success: false,
-            message: "Project not found",
-          });
-        }
+  // Serve Object Storage assets with HTTP Range support for video streaming
+  router.get("/api/assets/*", async (req: AppRequest, res: AppResponse) => {
+    try {
+      // Add preconnect hint for faster subsequent requests
+      res.set("Link", "<https://storage.googleapis.com>; rel=preconnect");
+      // Strip EditingPortfolioAssets prefix and keep the full Objects/ path
+      let assetPath = req.params[0] || "";
+      if (assetPath.startsWith("EditingPortfolioAssets/")) {
+        assetPath = assetPath.replace("EditingPortfolioAssets/", "");
+      }
 
-        // Check if user owns this project
-        if (project.userId !== req.user!.id) {
-          return res.status(403).json({
-            success: false,
-            message: "Access denied",
+      const isVideo = assetPath.includes("Videos/");
+      const isThumbnail = assetPath.includes("Thumbnails/");
+      const range = (req.headers as any).range;
+
+      // Clean cache periodically
+      if (Math.random() < 0.1) cleanCache(); // 10% chance to clean on each request
+
+      // Check cache for thumbnails and videos
+      if (isThumbnail && assetCache.has(assetPath)) {
+        const cached = assetCache.get(assetPath)!;
+        if (Date.now() - cached.timestamp < CACHE_TTL) {
+          console.log(`Thumbnail cache hit for: ${assetPath}`);
+          (res as any).set({
+            "Content-Type": cached.contentType,
+            "Cache-Control": "public, max-age=600",
+            ETag: `"${assetPath}-${cached.timestamp}"`,
           });
+          return (res as any).send(Buffer.from(cached.content));
+        } else {
+          assetCache.delete(assetPath);
         }
+      }
 
-        const validatedData = updateProjectSchema.parse(req.body);
-        const updatedProject = await storage.updateProject(
-          projectId,
-          validatedData,
-        );
+      // Check video cache - serve full video for cached content
+      if (isVideo && videoCache.has(assetPath)) {
+        const cached = videoCache.get(assetPath)!;
+        if (Date.now() - cached.timestamp < VIDEO_CACHE_TTL) {
+          console.log(`Video cache hit for: ${assetPath} - serving full video`);
 
-        res.json({
-          success: true,
-          message: "Project updated successfully",
-          project: updatedProject,
-        });
-      } catch (error) {
-        if (error instanceof z.ZodError) {
-          res.status(400).json({
-            success: false,
-            message: "Invalid project data",
-            errors: error.errors,
+          (res as any).set({
+            "Content-Type": cached.contentType,
+            "Cache-Control": "public, max-age=3600",
+            "Content-Length": cached.content.length.toString(),
+            "Accept-Ranges": "bytes",
+            ETag: `"${assetPath}-${cached.timestamp}"`,
           });
+          return (res as any).send(Buffer.from(cached.content));
         } else {
-          console.error("Update project error:", error);
-          res.status(500).json({
-            success: false,
-            message: "Failed to update project",
-          });
+          videoCache.delete(assetPath);
         }
       }
-    },
-  );
 
-  // Update project status only
-  router.patch(
-    "/api/projects/:id/status",
-    requireAuth,
-    async (req: AppRequest, res: AppResponse) => {
+      // For video range requests, we need to download full file first
+      // Check for ongoing request (deduplication)
+      if (pendingRequests.has(assetPath)) {
+        console.log(`Waiting for ongoing request: ${assetPath}`);
+        const result = await pendingRequests.get(assetPath)!;
+
+        // For videos from pending requests, serve full content
+        (res as any).set({
+          "Content-Type": result.contentType,
+          "Cache-Control": isVideo
+            ? "public, max-age=3600"
+            : "public, max-age=600",
+          "Content-Length": result.content.length.toString(),
+          "Accept-Ranges": isVideo ? "bytes" : "none",
+        });
+        return (res as any).send(Buffer.from(result.content));
+      }
+
+      // Fetching asset
+
+      // Create pending request promise
+      const downloadPromise = downloadAsset(assetPath);
+      pendingRequests.set(assetPath, downloadPromise);
+
       try {
-        const projectId = Number(req.params.id);
-        const { status } = req.body;
+        const result = await downloadPromise;
 
-        if (!status) {
-          return res.status(400).json({
-            success: false,
-            message: "Status is required",
-          });
-        }
+        // Check file size for large videos (>40MB threshold for memory safety)
+        const sizeInMB = result.content.length / (1024 * 1024);
+        const isLargeVideo = isVideo && sizeInMB > 40;
 
-        const project = await storage.getProject(projectId);
-        if (!project) {
-          return res.status(404).json({
-            success: false,
-            message: "Project not found",
-          });
-        }
+        if (isLargeVideo) {
+          console.log(
+            `Large video detected (${sizeInMB.toFixed(1)}MB): ${assetPath} - serving without cache`,
+          );
 
-        // Check if user owns this project
-        if (project.userId !== req.user!.id) {
-          return res.status(403).json({
-            success: false,
-            message: "Access denied",
+          // Serve large videos directly without caching to avoid memory pressure
+          (res as any).set({
+            "Content-Type": result.contentType,
+            "Cache-Control": "public, max-age=3600",
+            "Content-Length": result.content.length.toString(),
+            ETag: `"${assetPath}-${Date.now()}"`,
+            "Accept-Ranges": "bytes",
+            Connection: "keep-alive",
           });
+
+          (res as any).send(Buffer.from(result.content));
+          return;
         }
 
-        // IMPORTANT: Prevent duplicate submissions to editor
-        if (
-          status === "edit in progress" &&
-          (project.status === "edit in progress" ||
-            project.status === "video is ready" ||
-            project.status === "complete" ||
-            project.status === "revision in progress")
-        ) {
+        // Cache smaller files (thumbnails and videos under 40MB)
+        if (isThumbnail && result.content.length < 10 * 1024 * 1024) {
+          assetCache.set(assetPath, {
+            content: result.content,
+            contentType: result.contentType,
+            timestamp: Date.now(),
+          });
+        } else if (isVideo && !isLargeVideo) {
+          // Cache videos under 40MB for performance
+          videoCache.set(assetPath, {
+            content: result.content,
+            contentType: result.contentType,
+            timestamp: Date.now(),
+          });
           console.log(
-            `⚠️ Blocking duplicate submission for project ${projectId}. Current status: ${project.status}`,
+            `Video cached for performance (${sizeInMB.toFixed(1)}MB): ${assetPath}`,
           );
-          // Return 200 with success:false so frontend can handle in onSuccess
-          return res.json({
-            success: false,
-            message: "This project has already been submitted to the editor.",
-            alreadySubmitted: true,
-          });
         }
 
-        // IMPORTANT: Validate that Frame.io folder contains at least 1 video before submission
-        if (status === "edit in progress") {
-          if (!project.mediaFolderId) {
-            console.log(
-              `⚠️ Blocking submission for project ${projectId}: No Frame.io folder configured`,
-            );
-            // Return 200 with success:false so frontend can handle in onSuccess
-            return res.json({
-              success: false,
-              message: "You must first upload your raw video footage before submitting to the editor. Please check your files in Step 1.",
-              noVideosFound: true,
-            });
-          }
+        // For new video downloads, serve full content for smooth playback
+        (res as any).set({
+          "Content-Type": result.contentType,
+          "Cache-Control": isVideo
+            ? "public, max-age=3600"
+            : "public, max-age=600",
+          "Content-Length": result.content.length.toString(),
+          ETag: `"${assetPath}-${Date.now()}"`,
+          "Accept-Ranges": isVideo ? "bytes" : "none",
+          Connection: "keep-alive",
+        });
 
-          try {
-            const videos = await getFolderVideos(project.mediaFolderId);
-            console.log(
-              `🎬 Video validation for project ${projectId}: Found ${videos.length} video(s) in folder ${project.mediaFolderId}`,
-            );
+        (res as any).send(Buffer.from(result.content));
+      } finally {
+        pendingRequests.delete(assetPath);
+      }
+    } catch (error) {
+      console.error("Asset serving error:", error);
+      res.status(500).json({ error: "Failed to serve asset" });
+    }
+  });
 
-            if (videos.length === 0) {
-              console.log(
-                `⚠️ Blocking submission for project ${projectId}: No video files found in Frame.io folder`,
-              );
-              // Return 200 with success:false so frontend can handle in onSuccess
-              return res.json({
-                success: false,
-                message: "You must first upload your raw video footage before submitting to the editor. Please check your files in Step 1.",
-                noVideosFound: true,
-              });
-            }
-          } catch (videoCheckError) {
-            console.error(
-              `❌ Video validation error for project ${projectId}:`,
-              videoCheckError,
-            );
-            // If Frame.io is unavailable, still block submission to be safe
-            // Return 200 with success:false so frontend can handle in onSuccess
-            return res.json({
-              success: false,
-              message: "Unable to verify your uploaded files. Please try again or contact support if the issue persists.",
-              noVideosFound: true,
-            });
-          }
-        }
+  // Helper function to handle video range requests with optimized chunk sizes
+  function handleVideoRange(
+    req: Request,
+    res: Response,
+    content: Uint8Array,
+    contentType: string,
+  ) {
+    const range = (req.headers as any).range!;
+    const parts = range.replace(/bytes=/, "").split("-");
+    const start = parseInt(parts[0], 10);
 
-        // Prepare update object
-        const updateObject: any = {
-          status,
-          updatedAt: new Date(),
-        };
+    // Optimize chunk size based on request
+    let end: number;
+    if (parts[1]) {
+      end = parseInt(parts[1], 10);
+    } else {
+      // For initial requests (start=0), send much larger chunk for immediate playback
+      if (start === 0) {
+        end = Math.min(start + 10 * 1024 * 1024, content.length - 1); // 10MB initial chunk
+      } else if (start < 5 * 1024 * 1024) {
+        end = Math.min(start + 5 * 1024 * 1024, content.length - 1); // 5MB for early chunks
+      } else {
+        end = Math.min(start + 2 * 1024 * 1024, content.length - 1); // 2MB for later chunks
+      }
+    }
 
-        // If changing status to "edit in progress", set submission timestamp
-        if (status === "edit in progress") {
-          updateObject.submittedToEditorAt = new Date();
-          console.log(
-            `📅 Setting submittedToEditorAt timestamp for project ${projectId}: ${updateObject.submittedToEditorAt.toISOString()}`,
-          );
-        }
+    const chunksize = end - start + 1;
+    const chunk = content.slice(start, end + 1);
 
-        // Update project status
-        const updatedProject = await storage.updateProject(
-          projectId,
-          updateObject,
-        );
+    console.log(
+      `Range request: ${start}-${end}/${content.length} (${chunksize} bytes) ${start === 0 ? "(INITIAL)" : ""}`,
+    );
 
-        // Update timestamp tracking for "edit in progress" status
-        if (status === "edit in progress") {
-          await updateProjectTimestamp(projectId, "project sent to editor");
+    res.status(206); // Partial Content
+    (res as any).set({
+      "Content-Range": `bytes ${start}-${end}/${content.length}`,
+      "Accept-Ranges": "bytes",
+      "Content-Length": chunksize.toString(),
+      "Content-Type": contentType,
+      "Cache-Control": "public, max-age=3600",
+    });
 
-          // Create Trello card for project submission
-          try {
-            await trelloAutomation.createProjectCard(projectId);
-          } catch (error) {
-            console.error("Failed to create Trello card:", error);
-          }
-        }
+    (res as any).send(Buffer.from(chunk));
+  }
 
-        res.json({
-          success: true,
-          message: "Project status updated successfully",
-          project: updatedProject,
-        });
-      } catch (error) {
-        console.error("Update project status error:", error);
-        res.status(500).json({
-          success: false,
-          message: "Failed to update project status",
-        });
-      }
+  // Legacy server upload route (removed - TUS direct upload only)
+  router.post(
+    "/api/projects/:id/upload",
+    requireAuth,
+    async (req: AppRequest, res: AppResponse) => {
+      res.status(410).json({
+        success: false,
+        message:
+          "Server uploads are no longer supported. Please use direct TUS upload to media platform.",
+        migration:
+          "Use /api/projects/:id/upload-session endpoint for direct uploads",
+      });
     },
   );
 
-  // Sync project to Frame.io V4
+  // Create direct media platform upload session. The session is recorded before any bytes are sent
+  // so the upload can resume after a reload and is cleaned up if abandoned.
   router.post(
-    "/api/projects/:id/sync-frameio",
+    "/api/projects/:id/upload-session",
+    requireAuth,
+    requireProjectAccess,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        // Skip auth for this internal endpoint - it's already handled by requireAuth middleware when needed
-        const user = req.user;
-        if (!user) {
-          return res.status(401).json({
+        // Check the media provider can accept uploads (Frame.io needs a live token)
+        if (!media.isAvailable()) {
+          console.log(`❌ Upload blocked: ${media.name} media provider is unavailable`);
+          return res.status(503).json({
             success: false,
-            message: "Authentication required",
+            message: "Upload service is temporarily unavailable. Please try again later.",
+            retryable: true,
           });
         }
 
         const projectId = Number(req.params.id);
-        const project = await storage.getProject(projectId);
+        const { fileName, fileSize, mimeType, fileLastModified, contentHash, allowDuplicate } =
+          createUploadSessionSchema.parse(req.body);
 
+        // Get project and verify ownership
+        const project = await storage.getProject(projectId);
         if (!project) {
           return res.status(404).json({
             success: false,
@@ -5143,432 +7821,483 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        // Check if user owns this project
-        if (project.userId !== user.id) {
+        if (!(await canAccessProject(project, req.user!.id))) {
           return res.status(403).json({
             success: false,
             message: "Access denied",
           });
         }
 
-        // Skip if already synced
-        if (project.mediaFolderId && project.mediaUserFolderId) {
-          return res.json({
-            success: true,
-            message: "Project already synced to Frame.io",
-            project: project,
+        if (!project.mediaFolderId) {
+          return res.status(409).json({
+            success: false,
+            message: "Project folder is still being set up. Please try again in a moment.",
+            retryable: true,
           });
         }
 
-        // Try to configure Frame.io V4 organization structure
-        let frameioConfigured = false;
-
-        try {
-          await frameioV4Service.loadServiceAccountToken();
-
-          if (frameioV4Service.accessToken) {
-            console.log(
-              `Syncing project ${projectId} to Frame.io V4 for user ${user.id}`,
-            );
-
-            await frameioV4Service.initialize();
+        // Same clip already in the project (usually re-selected after a crashed tab): refuse unless confirmed
+        if (contentHash) {
+          const inProgress = (await storage.getActiveUploadSessions(projectId)).find(
+            (activeSession) => activeSession.contentHash === contentHash,
+          );
+          if (inProgress) {
+            return res.status(409).json({
+              success: false,
+              message: `"${inProgress.fileName}" is already being uploaded to this project. Resume that upload instead.`,
+              duplicate: { type: "upload", sessionId: inProgress.id, fileName: inProgress.fileName },
+            });
+          }
 
-            // Create virtual folder structure using V4 API
-            const rootProject = await frameioV4Service.getOrCreateRootProject();
+          const existingFile = await storage.getProjectFileByContentHash(projectId, contentHash);
+          if (existingFile && !allowDuplicate) {
+            console.log(`🔁 Duplicate upload of "${fileName}" refused for project ${projectId} (matches file ${existingFile.id})`);
+            return res.status(409).json({
+              success: false,
+              message: `This file was already uploaded to this project as "${existingFile.filename}" on ${existingFile.uploadDate.toLocaleDateString()}.`,
+              duplicate: {
+                type: "file",
+                fileId: existingFile.id,
+                fileName: existingFile.filename,
+                uploadDate: existingFile.uploadDate,
+              },
+            });
+          }
+        }
 
-            const userFolderName = `User-${user.email.split("@")[0]}-${user.id.slice(0, 8)}`;
-            const userFolder = await frameioV4Service.createFolder(
-              rootProject.root_asset_id,
-              userFolderName,
-            );
+        // Check the plan's project and account quotas before reserving space at the media provider
+        const quotas = await getStorageQuotas(project);
+        const exceeded = getExceededQuota(quotas, fileSize);
+        if (exceeded) {
+          console.log(
+            `🚫 Upload blocked: ${fileName} (${fileSize} bytes) exceeds ${exceeded.scope} storage quota for project ${projectId}`,
+          );
+          return res.status(413).json({
+            success: false,
+            message: exceeded.message,
+            quotaExceeded: exceeded.scope,
+            quotas,
+          });
+        }
 
-            const projectFolderName = `${project.title}-${project.id.toString().slice(0, 8)}`;
-            const projectFolder = await frameioV4Service.createFolder(
-              userFolder.id,
-              projectFolderName,
-            );
+        // Create Frame.io upload session
+        const uploadSession = await createFrameioUploadSession(
+          fileName,
+          fileSize,
+          mimeType || "video/mp4",
+          project.mediaFolderId, // Frame.io folder ID
+        );
 
-            // Store organization structure in database
-            await storage.updateProjectMediaInfo(
-              project.id,
-              projectFolder.id,
-              userFolder.id,
-            );
+        const session = await storage.createUploadSession({
+          projectId,
+          userId: req.user!.id,
+          assetId: uploadSession.assetId,
+          uploadUrl: uploadSession.uploadUrl,
+          fileName,
+          fileSize,
+          mimeType: uploadSession.mimeType,
+          fileLastModified: fileLastModified ?? null,
+          contentHash: contentHash ?? null,
+          expiresAt: getUploadSessionExpiry(),
+        });
 
-            console.log(
-              `✓ Frame.io V4 sync complete: ${userFolder.id} -> ${projectFolder.id}`,
-            );
+        console.log(`📤 Upload session ${session.id} created for "${fileName}" (${fileSize} bytes, project ${projectId})`);
 
-            frameioConfigured = true;
-          } else {
-            throw new Error("Frame.io V4 OAuth not completed");
-          }
-        } catch (frameioError) {
-          console.error("Frame.io V4 sync failed:", frameioError);
-          return res.status(500).json({
+        res.json({
+          success: true,
+          uploadSession: {
+            ...toUploadSessionResponse(session),
+            completeUri: uploadSession.completeUri,
+          },
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
             success: false,
-            message: "Failed to sync with Frame.io",
-            error:
-              frameioError instanceof Error
-                ? frameioError.message
-                : String(frameioError),
+            message: "fileName and fileSize are required",
+            errors: error.errors,
           });
         }
+        console.error("Create upload session error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to create upload session",
+        });
+      }
+    },
+  );
 
-        // Get updated project
-        const updatedProject = await storage.getProject(project.id);
+  // Uploads in progress for a project, so a reloaded upload page can offer to resume them
+  router.get(
+    "/api/projects/:id/upload-sessions",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const sessions = await storage.getActiveUploadSessions(Number(req.params.id));
 
         res.json({
           success: true,
-          message: "Project synced to Frame.io successfully",
-          project: updatedProject,
+          sessions: sessions.map(toUploadSessionResponse),
         });
       } catch (error) {
-        console.error("Sync project error:", error);
+        console.error("List upload sessions error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to sync project",
+          message: "Failed to load upload sessions",
         });
       }
     },
   );
 
-  // Get latest video from project folder
+  // Duration, resolution, frame rate and codecs of a project's footage and deliveries
   router.get(
-    "/api/projects/:id/latest-video",
+    "/api/projects/:id/media-metadata",
     requireAuth,
+    requireProjectAccess,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        const projectId = Number(req.params.id);
-        const project = await storage.getProject(projectId);
-
-        if (!project) {
-          return res.status(404).json({
-            success: false,
-            message: "Project not found",
-          });
-        }
-
-        // Check if user owns this project (handle both session and Supabase auth)
-        const userId = req.session?.userId || req.user?.claims?.sub;
-        if (project.userId !== String(userId)) {
-          return res.status(403).json({
-            success: false,
-            message: "Access denied",
-          });
-        }
-
-        // Get the latest video from project files in database
-        const projectFiles = await storage.getProjectFiles(projectId);
-        const latestVideo = projectFiles
-          .filter((file) => file.mediaAssetId)
-          .sort(
-            (a, b) =>
-              new Date(b.uploadDate).getTime() -
-              new Date(a.uploadDate).getTime(),
-          )[0];
+        const metadata = await storage.getMediaMetadata([Number(req.params.id)]);
+        const summary = summarizeFootage(
+          metadata.filter((row) => row.role === "footage"),
+        );
 
-        if (latestVideo?.mediaAssetId) {
-          console.log(
-            `Found video in DB for project ${projectId}: ${latestVideo.mediaAssetId}`,
-          );
-          res.json({
-            success: true,
-            videoId: latestVideo.mediaAssetId,
-            filename: latestVideo.filename,
-            uploadDate: latestVideo.uploadDate,
-          });
-        } else {
-          // If no video in DB, try to get from Frame.io folder directly
-          console.log(
-            `No video in DB for project ${projectId}, checking Frame.io folder`,
-          );
-          try {
-            if (project.mediaFolderId) {
-              await frameioV4Service.loadServiceAccountToken();
-              const frameioAssets = await frameioV4Service.getFolderAssets(
-                project.mediaFolderId,
-              );
-              if (frameioAssets && frameioAssets.length > 0) {
-                // Get the most recent asset
-                const latestAsset = frameioAssets[0]; // Already sorted by date
-                console.log(
-                  `Found video in Frame.io folder: ${latestAsset.name}`,
-                );
+        res.json({
+          success: true,
+          metadata,
+          footage: summary
+            ? { ...summary, description: formatFootageSummary(summary) }
+            : null,
+        });
+      } catch (error) {
+        console.error("Get media metadata error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to load media metadata",
+        });
+      }
+    },
+  );
 
-                res.json({
-                  success: true,
-                  videoId: latestAsset.id,
-                  filename: latestAsset.name,
-                  uploadDate: latestAsset.uploaded_at,
-                  directLink: latestAsset.download_url,
-                });
-              } else {
-                res.json({
-                  success: false,
-                  message: "No video found for this project",
-                });
-              }
-            } else {
-              res.json({
-                success: false,
-                message: "No Frame.io folder configured for this project",
-              });
-            }
-          } catch (frameioError) {
-            console.error("Error fetching from Frame.io:", frameioError);
-            res.json({
-              success: false,
-              message: "No video found for this project",
-            });
-          }
+  // Footage and deliverables that can go into a ZIP download, with their revision numbers
+  router.get(
+    "/api/projects/:id/archive-files",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const project = await storage.getProject(Number(req.params.id));
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
         }
+
+        res.json({ success: true, files: await getProjectArchiveEntries(project) });
       } catch (error) {
-        console.error("Get latest video error:", error);
+        console.error("Get archive files error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to get latest video",
+          message: "Failed to list project files",
         });
       }
     },
   );
 
-  // REMOVED: Legacy Frame.io photo test endpoint - functionality moved to V4 API
-
-  // Serve Object Storage assets with HTTP Range support for video streaming
-  router.get("/api/assets/*", async (req: AppRequest, res: AppResponse) => {
-    try {
-      // Add preconnect hint for faster subsequent requests
-      res.set("Link", "<https://storage.googleapis.com>; rel=preconnect");
-      // Strip EditingPortfolioAssets prefix and keep the full Objects/ path
-      let assetPath = req.params[0] || "";
-      if (assetPath.startsWith("EditingPortfolioAssets/")) {
-        assetPath = assetPath.replace("EditingPortfolioAssets/", "");
-      }
-
-      const isVideo = assetPath.includes("Videos/");
-      const isThumbnail = assetPath.includes("Thumbnails/");
-      const range = (req.headers as any).range;
+  // Prepare a ZIP download of selected footage and deliverables. Returns a short-lived link the
+  // browser can navigate to, since a plain download can't send the auth header.
+  router.post(
+    "/api/projects/:id/download-archive",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const { assetIds, kind } = createDownloadArchiveSchema.parse(req.body ?? {});
+        const project = await storage.getProject(Number(req.params.id));
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
 
-      // Clean cache periodically
-      if (Math.random() < 0.1) cleanCache(); // 10% chance to clean on each request
+        const entries = (await getProjectArchiveEntries(project)).filter(
+          (entry) => !kind || entry.kind === kind,
+        );
+        const available = new Set(entries.map((entry) => entry.assetId));
+        if (assetIds?.some((assetId) => !available.has(assetId))) {
+          return res.status(400).json({
+            success: false,
+            message: "Some selected files are not part of this project",
+          });
+        }
 
-      // Check cache for thumbnails and videos
-      if (isThumbnail && assetCache.has(assetPath)) {
-        const cached = assetCache.get(assetPath)!;
-        if (Date.now() - cached.timestamp < CACHE_TTL) {
-          console.log(`Thumbnail cache hit for: ${assetPath}`);
-          (res as any).set({
-            "Content-Type": cached.contentType,
-            "Cache-Control": "public, max-age=600",
-            ETag: `"${assetPath}-${cached.timestamp}"`,
+        const selected = assetIds
+          ? entries.filter((entry) => assetIds.includes(entry.assetId))
+          : entries;
+        if (selected.length === 0) {
+          return res.status(404).json({
+            success: false,
+            message: "There are no files to download yet",
           });
-          return (res as any).send(Buffer.from(cached.content));
-        } else {
-          assetCache.delete(assetPath);
         }
-      }
 
-      // Check video cache - serve full video for cached content
-      if (isVideo && videoCache.has(assetPath)) {
-        const cached = videoCache.get(assetPath)!;
-        if (Date.now() - cached.timestamp < VIDEO_CACHE_TTL) {
-          console.log(`Video cache hit for: ${assetPath} - serving full video`);
+        const archive = await storage.createDownloadArchive({
+          projectId: project.id,
+          userId: req.user.id,
+          assetIds: selected.map((entry) => entry.assetId),
+          expiresAt: new Date(Date.now() + DOWNLOAD_ARCHIVE_TTL_MS),
+        });
 
-          (res as any).set({
-            "Content-Type": cached.contentType,
-            "Cache-Control": "public, max-age=3600",
-            "Content-Length": cached.content.length.toString(),
-            "Accept-Ranges": "bytes",
-            ETag: `"${assetPath}-${cached.timestamp}"`,
+        console.log(
+          `📦 Prepared ZIP download of ${selected.length} files for project ${project.id}`,
+        );
+        res.json({
+          success: true,
+          downloadUrl: `/api/download-archives/${archive.token}`,
+          fileCount: selected.length,
+          expiresAt: archive.expiresAt,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: "Invalid download selection",
+            errors: error.errors,
           });
-          return (res as any).send(Buffer.from(cached.content));
-        } else {
-          videoCache.delete(assetPath);
         }
+        console.error("Create download archive error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to prepare download",
+        });
       }
+    },
+  );
 
-      // For video range requests, we need to download full file first
-      // Check for ongoing request (deduplication)
-      if (pendingRequests.has(assetPath)) {
-        console.log(`Waiting for ongoing request: ${assetPath}`);
-        const result = await pendingRequests.get(assetPath)!;
-
-        // For videos from pending requests, serve full content
-        (res as any).set({
-          "Content-Type": result.contentType,
-          "Cache-Control": isVideo
-            ? "public, max-age=3600"
-            : "public, max-age=600",
-          "Content-Length": result.content.length.toString(),
-          "Accept-Ranges": isVideo ? "bytes" : "none",
+  // Stream a prepared ZIP download. The token from the POST above is the credential.
+  router.get(
+    "/api/download-archives/:token",
+    async (req: AppRequest, res: AppResponse) => {
+      const archive = await storage
+        .getDownloadArchive(req.params.token)
+        .catch(() => undefined);
+      const project = archive ? await storage.getProject(archive.projectId) : undefined;
+      if (!archive || !project) {
+        return res.status(404).json({
+          success: false,
+          message: "This download link has expired. Start the download again from your dashboard.",
         });
-        return (res as any).send(Buffer.from(result.content));
       }
 
-      // Fetching asset
-
-      // Create pending request promise
-      const downloadPromise = downloadAsset(assetPath);
-      pendingRequests.set(assetPath, downloadPromise);
-
       try {
-        const result = await downloadPromise;
-
-        // Check file size for large videos (>40MB threshold for memory safety)
-        const sizeInMB = result.content.length / (1024 * 1024);
-        const isLargeVideo = isVideo && sizeInMB > 40;
+        const entries = await getProjectArchiveEntries(project);
+        const selected = archive.assetIds
+          .map((assetId) => entries.find((entry) => entry.assetId === assetId))
+          .filter((entry) => entry !== undefined);
+        const filename =
+          (project.title.replace(/[^\w\- ]+/g, "").trim() || `project-${project.id}`) + ".zip";
 
-        if (isLargeVideo) {
-          console.log(
-            `Large video detected (${sizeInMB.toFixed(1)}MB): ${assetPath} - serving without cache`,
-          );
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        res.setHeader("Cache-Control", "no-store");
 
-          // Serve large videos directly without caching to avoid memory pressure
-          (res as any).set({
-            "Content-Type": result.contentType,
-            "Cache-Control": "public, max-age=3600",
-            "Content-Length": result.content.length.toString(),
-            ETag: `"${assetPath}-${Date.now()}"`,
-            "Accept-Ranges": "bytes",
-            Connection: "keep-alive",
+        console.log(
+          `📦 Streaming ZIP of ${selected.length} files for project ${project.id}`,
+        );
+        await writeProjectArchive(selected, res);
+      } catch (error) {
+        console.error(`❌ ZIP download failed for project ${project.id}:`, error);
+        if (!res.headersSent) {
+          res.removeHeader("Content-Disposition");
+          res.status(500).json({
+            success: false,
+            message: "Failed to create download",
           });
-
-          (res as any).send(Buffer.from(result.content));
-          return;
+        } else {
+          // Part of the archive is already on its way; cut it off so the browser reports a failed download
+          res.destroy();
         }
+      }
+    },
+  );
 
-        // Cache smaller files (thumbnails and videos under 40MB)
-        if (isThumbnail && result.content.length < 10 * 1024 * 1024) {
-          assetCache.set(assetPath, {
-            content: result.content,
-            contentType: result.contentType,
-            timestamp: Date.now(),
-          });
-        } else if (isVideo && !isLargeVideo) {
-          // Cache videos under 40MB for performance
-          videoCache.set(assetPath, {
-            content: result.content,
-            contentType: result.contentType,
-            timestamp: Date.now(),
+  // Public share link status, expiry and settings for the link controls
+  router.get(
+    "/api/projects/:id/share-link",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const project = await storage.getProject(Number(req.params.id));
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
           });
-          console.log(
-            `Video cached for performance (${sizeInMB.toFixed(1)}MB): ${assetPath}`,
-          );
         }
 
-        // For new video downloads, serve full content for smooth playback
-        (res as any).set({
-          "Content-Type": result.contentType,
-          "Cache-Control": isVideo
-            ? "public, max-age=3600"
-            : "public, max-age=600",
-          "Content-Length": result.content.length.toString(),
-          ETag: `"${assetPath}-${Date.now()}"`,
-          "Accept-Ranges": isVideo ? "bytes" : "none",
-          Connection: "keep-alive",
+        res.json({
+          success: true,
+          shareLink: getShareLinkState(project),
+          accessEndsAt: getProjectAccessEndsAt(project),
+        });
+      } catch (error) {
+        console.error("Get share link error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to load share link",
         });
-
-        (res as any).send(Buffer.from(result.content));
-      } finally {
-        pendingRequests.delete(assetPath);
-      }
-    } catch (error) {
-      console.error("Asset serving error:", error);
-      res.status(500).json({ error: "Failed to serve asset" });
-    }
-  });
-
-  // Helper function to handle video range requests with optimized chunk sizes
-  function handleVideoRange(
-    req: Request,
-    res: Response,
-    content: Uint8Array,
-    contentType: string,
-  ) {
-    const range = (req.headers as any).range!;
-    const parts = range.replace(/bytes=/, "").split("-");
-    const start = parseInt(parts[0], 10);
-
-    // Optimize chunk size based on request
-    let end: number;
-    if (parts[1]) {
-      end = parseInt(parts[1], 10);
-    } else {
-      // For initial requests (start=0), send much larger chunk for immediate playback
-      if (start === 0) {
-        end = Math.min(start + 10 * 1024 * 1024, content.length - 1); // 10MB initial chunk
-      } else if (start < 5 * 1024 * 1024) {
-        end = Math.min(start + 5 * 1024 * 1024, content.length - 1); // 5MB for early chunks
-      } else {
-        end = Math.min(start + 2 * 1024 * 1024, content.length - 1); // 2MB for later chunks
       }
-    }
-
-    const chunksize = end - start + 1;
-    const chunk = content.slice(start, end + 1);
+    },
+  );
 
-    console.log(
-      `Range request: ${start}-${end}/${content.length} (${chunksize} bytes) ${start === 0 ? "(INITIAL)" : ""}`,
-    );
+  // Replace the share link with a new URL (the old one stops working), optionally with new settings
+  router.post(
+    "/api/projects/:id/share-link/regenerate",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const settings = shareLinkSettingsSchema.parse(req.body ?? {});
+        const project = await storage.getProject(Number(req.params.id));
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
 
-    res.status(206); // Partial Content
-    (res as any).set({
-      "Content-Range": `bytes ${start}-${end}/${content.length}`,
-      "Accept-Ranges": "bytes",
-      "Content-Length": chunksize.toString(),
-      "Content-Type": contentType,
-      "Cache-Control": "public, max-age=3600",
-    });
+        if (settings.password && media.name !== "frameio") {
+          return res.status(400).json({
+            success: false,
+            message: "Password protection isn't available for this project's video",
+          });
+        }
+        // The old password isn't stored, so it can't be carried over silently
+        if (project.sharePasswordProtected && settings.password === undefined) {
+          return res.status(400).json({
+            success: false,
+            message: "Enter a password for the new link, or turn password protection off",
+            passwordRequired: true,
+          });
+        }
+        if (!(await getSharedVideoAssetId(project))) {
+          return res.status(409).json({
+            success: false,
+            message: "There's no delivered video to share yet",
+          });
+        }
 
-    (res as any).send(Buffer.from(chunk));
-  }
+        const updated = await regenerateProjectShare(project, settings);
+        res.json({ success: true, shareLink: getShareLinkState(updated) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: "Invalid link settings",
+            errors: error.errors,
+          });
+        }
+        console.error("Regenerate share link error:", error);
+        res.status(502).json({
+          success: false,
+          message: "Could not create a new share link. Please try again.",
+        });
+      }
+    },
+  );
 
-  // Legacy server upload route (removed - TUS direct upload only)
+  // Turn the share link off so nobody can open it
   router.post(
-    "/api/projects/:id/upload",
+    "/api/projects/:id/share-link/revoke",
     requireAuth,
+    requireProjectAccess,
     async (req: AppRequest, res: AppResponse) => {
-      res.status(410).json({
-        success: false,
-        message:
-          "Server uploads are no longer supported. Please use direct TUS upload to media platform.",
-        migration:
-          "Use /api/projects/:id/upload-session endpoint for direct uploads",
-      });
+      try {
+        const project = await storage.getProject(Number(req.params.id));
+        if (!project) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found",
+          });
+        }
+        if (!project.frameioReviewLink) {
+          return res.status(404).json({
+            success: false,
+            message: "This project has no active share link",
+          });
+        }
+
+        const updated = await revokeProjectShare(project);
+        res.json({ success: true, shareLink: getShareLinkState(updated) });
+      } catch (error) {
+        console.error("Revoke share link error:", error);
+        res.status(502).json({
+          success: false,
+          message: "Could not turn off the share link. Please try again.",
+        });
+      }
     },
   );
 
-  // Create direct media platform upload session
-  router.post(
-    "/api/projects/:id/upload-session",
+  // Change password protection or download permission on the current link (Frame.io only)
+  router.patch(
+    "/api/projects/:id/share-link",
     requireAuth,
     requireProjectAccess,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        // Check Frame.io token status before attempting upload
-        const tokenStatus = frameioV4Service.getTokenStatus();
-        if (tokenStatus.status === 'disconnected' || tokenStatus.status === 'expired') {
-          console.log('❌ Upload blocked: Frame.io token is', tokenStatus.status);
-          return res.status(503).json({
+        const settings = shareLinkSettingsSchema.parse(req.body ?? {});
+        const project = await storage.getProject(Number(req.params.id));
+        if (!project) {
+          return res.status(404).json({
             success: false,
-            message: "Upload service is temporarily unavailable. Please try again later.",
-            retryable: true,
+            message: "Project not found",
           });
         }
 
-        const projectId = Number(req.params.id);
-        const { fileName, fileSize } = req.body;
+        if (media.name !== "frameio") {
+          return res.status(400).json({
+            success: false,
+            message: "Link settings aren't available for this project's video",
+          });
+        }
+        if (!project.frameioReviewShareId || project.shareStatus === "revoked") {
+          return res.status(404).json({
+            success: false,
+            message: "This project has no active share link",
+          });
+        }
 
-        if (!fileName || !fileSize) {
+        const updated = await updateProjectShareSettings(project, settings);
+        res.json({ success: true, shareLink: getShareLinkState(updated) });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
           return res.status(400).json({
             success: false,
-            message: "fileName and fileSize are required",
+            message: "Invalid link settings",
+            errors: error.errors,
           });
         }
+        console.error("Update share link settings error:", error);
+        res.status(502).json({
+          success: false,
+          message: "Could not update the share link. Please try again.",
+        });
+      }
+    },
+  );
 
-        // Get project and verify ownership
-        const project = await storage.getProject(projectId);
+  // Storage quotas and usage for a project and its account, for the upload meter
+  router.get(
+    "/api/projects/:id/storage",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const project = await storage.getProject(Number(req.params.id));
         if (!project) {
           return res.status(404).json({
             success: false,
@@ -5576,50 +8305,132 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        if (project.userId !== req.user!.id) {
-          return res.status(403).json({
+        res.json({
+          success: true,
+          quotas: await getStorageQuotas(project),
+        });
+      } catch (error) {
+        console.error("Get storage quotas error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to load storage usage",
+        });
+      }
+    },
+  );
+
+  // Pick up an upload session again (same file reselected after a reload)
+  router.post(
+    "/api/projects/:id/upload-sessions/:sessionId/resume",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const session = await findProjectUploadSession(req);
+        if (!session) {
+          return res.status(404).json({
             success: false,
-            message: "Access denied",
+            message: "Upload session not found",
           });
         }
 
-        // Check size limits (10GB per project)
-        const maxSize = 10 * 1024 * 1024 * 1024; // 10GB
-        const currentSize = await getProjectUploadSize(projectId);
+        if (session.status !== "active" || session.expiresAt <= new Date()) {
+          return res.status(410).json({
+            success: false,
+            message: "This upload can no longer be resumed. Please start it again.",
+          });
+        }
 
-        if (currentSize + fileSize > maxSize) {
-          return res.status(400).json({
+        const resumed = await storage.updateUploadSession(session.id, {
+          expiresAt: getUploadSessionExpiry(session.createdAt),
+        });
+
+        console.log(`▶️ Upload session ${session.id} resumed at ${session.bytesUploaded}/${session.fileSize} bytes`);
+
+        res.json({
+          success: true,
+          uploadSession: toUploadSessionResponse(resumed ?? session),
+        });
+      } catch (error) {
+        console.error("Resume upload session error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to resume upload session",
+        });
+      }
+    },
+  );
+
+  // Record how far an upload got; each confirmed chunk keeps the session from being swept
+  router.patch(
+    "/api/projects/:id/upload-sessions/:sessionId/progress",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const { bytesUploaded } = uploadSessionProgressSchema.parse(req.body);
+        const session = await findProjectUploadSession(req);
+
+        if (!session || session.status !== "active") {
+          return res.status(404).json({
             success: false,
-            message: `Upload would exceed 10GB limit for this project. Current: ${Math.round(currentSize / 1024 / 1024)}MB, Requested: ${Math.round(fileSize / 1024 / 1024)}MB`,
+            message: "Upload session not found",
           });
         }
 
-        // Create Frame.io upload session
-        const uploadSession = await createFrameioUploadSession(
-          fileName,
-          fileSize,
-          "video/mp4", // Default MIME type, should be passed from frontend
-          project.mediaFolderId || "", // Frame.io folder ID
-        );
+        const updated = await storage.updateUploadSession(session.id, {
+          bytesUploaded: Math.min(bytesUploaded, session.fileSize),
+          expiresAt: getUploadSessionExpiry(session.createdAt),
+        });
+
+        res.json({
+          success: true,
+          bytesUploaded: updated?.bytesUploaded ?? bytesUploaded,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            success: false,
+            message: "bytesUploaded must be a non-negative number",
+            errors: error.errors,
+          });
+        }
+        console.error("Upload progress error:", error);
+        res.status(500).json({
+          success: false,
+          message: "Failed to record upload progress",
+        });
+      }
+    },
+  );
 
-        console.log("Creating upload session...");
+  // Cancel an upload and delete its partial asset
+  router.delete(
+    "/api/projects/:id/upload-sessions/:sessionId",
+    requireAuth,
+    requireProjectAccess,
+    async (req: AppRequest, res: AppResponse) => {
+      try {
+        const session = await findProjectUploadSession(req);
+        if (!session || session.status !== "active") {
+          return res.status(404).json({
+            success: false,
+            message: "Upload session not found",
+          });
+        }
 
-        const sessionResponse = {
-          uploadUrl: uploadSession.uploadUrl,
-          videoUri: uploadSession.assetId,
-          completeUri: uploadSession.completeUri,
-          assetId: uploadSession.assetId,
-        };
+        await discardUploadSession(session, "canceled");
+        console.log(`🗑️ Upload session ${session.id} canceled: "${session.fileName}"`);
 
         res.json({
           success: true,
-          uploadSession: sessionResponse,
+          message: "Upload canceled",
         });
       } catch (error) {
-        console.error("Create upload session error:", error);
+        console.error("Cancel upload session error:", error);
         res.status(500).json({
           success: false,
-          message: "Failed to create upload session",
+          message: "Failed to cancel upload",
         });
       }
     },
@@ -5639,7 +8450,30 @@ export async function registerRoutes(app: any): Promise<Server> {
         console.log("Body received successfully");
 
         const projectId = Number(req.params.id);
-        const { completeUri, videoUri, fileName, fileSize } = req.body;
+        const { completeUri, sessionId } = req.body;
+        let { videoUri, fileName, fileSize } = req.body;
+
+        // Sessions carry the asset and file details; the explicit fields are kept for older clients
+        const session = sessionId
+          ? await storage.getUploadSession(Number(sessionId))
+          : undefined;
+        if (sessionId && (!session || session.projectId !== projectId)) {
+          return res.status(404).json({
+            success: false,
+            message: "Upload session not found",
+          });
+        }
+        if (session && session.status !== "active" && session.status !== "completed") {
+          return res.status(410).json({
+            success: false,
+            message: "This upload was canceled or expired. Please upload the file again.",
+          });
+        }
+        if (session) {
+          videoUri = session.assetId;
+          fileName = session.fileName;
+          fileSize = session.fileSize;
+        }
 
         console.log("Extracted values:", {
           completeUri,
@@ -5673,13 +8507,41 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        if (project.userId !== req.user!.id) {
+        if (!(await canAccessProject(project, req.user!.id))) {
           return res.status(403).json({
             success: false,
             message: "Access denied",
           });
         }
 
+        // A retried completion after a dropped response must not record the file twice
+        if (session?.status === "completed") {
+          return res.json({
+            success: true,
+            message: "Upload already completed",
+          });
+        }
+
+        // Check the stored file against the size and fingerprint the client sent before recording it
+        if (session) {
+          const verification = await verifyFrameioUpload(session.assetId, {
+            fileSize: session.fileSize,
+            contentHash: session.contentHash,
+          });
+          if (verification.sizeMatches === false || verification.hashMatches === false) {
+            console.error(
+              `❌ Upload session ${session.id} failed verification (${verification.mismatch}); discarding "${session.fileName}"`,
+            );
+            await deleteFrameioAsset(session.assetId);
+            await storage.updateUploadSession(session.id, { status: "canceled" });
+            return res.status(422).json({
+              success: false,
+              message: `"${session.fileName}" was not stored correctly (${verification.mismatch}). Please upload it again.`,
+              verification,
+            });
+          }
+        }
+
         // Complete the Frame.io upload
         console.log("Completing Frame.io upload for asset:", videoUri);
 
@@ -5691,14 +8553,24 @@ export async function registerRoutes(app: any): Promise<Server> {
         );
 
         // Save file record
-        const fileRecord = await storage.createProjectFile(projectId, {
+        const fileRecord = await storage.createProjectFile({
+          projectId,
           mediaAssetId: videoUri.replace("/videos/", ""),
           filename: fileName,
 
-          fileType: "video",
+          fileType: session?.mimeType ?? "video",
           fileSize: fileSize || 0,
+          contentHash: session?.contentHash ?? null,
         });
 
+        if (session) {
+          await storage.updateUploadSession(session.id, {
+            status: "completed",
+            bytesUploaded: session.fileSize,
+            completedAt: new Date(),
+          });
+        }
+
         // If project is still in draft status, update to "awaiting instructions" after first upload
         if (project.status === "draft") {
           await storage.updateProject(projectId, {
@@ -5709,6 +8581,12 @@ export async function registerRoutes(app: any): Promise<Server> {
         // Track asset upload timestamp
         await updateProjectTimestamp(projectId, "asset uploaded");
 
+        if (isProbeableMediaType(fileRecord.fileType) && fileRecord.mediaAssetId) {
+          extractMediaMetadata(projectId, fileRecord.mediaAssetId, "footage").catch((error) => {
+            console.error(`❌ Failed to extract metadata for ${fileName}:`, error);
+          });
+        }
+
         res.json({
           success: true,
           message: "Upload completed successfully",
@@ -5741,7 +8619,7 @@ export async function registerRoutes(app: any): Promise<Server> {
             .json({ success: false, message: "Project not found" });
         }
 
-        if (project.userId !== req.user!.id) {
+        if (!(await canAccessProject(project, req.user!.id))) {
           return res
             .status(403)
             .json({ success: false, message: "Access denied" });
@@ -5749,14 +8627,14 @@ export async function registerRoutes(app: any): Promise<Server> {
 
         const files = await storage.getProjectFiles(projectId);
         const totalSize = await getProjectUploadSize(projectId);
-        const maxSize = 10 * 1024 * 1024 * 1024; // 10GB limit
+        const maxSize = (await getStorageQuotas(project)).project.limitBytes;
 
         // Get Frame.io folder videos if folder exists
         let frameioVideos: any[] = [];
         if (project.mediaFolderId) {
           try {
-            await frameioV4Service.loadServiceAccountToken();
-            const rawFrameioVideos = await frameioV4Service.getFolderAssets(
+            await media.connect();
+            const rawFrameioVideos = await media.getFolderAssets(
               project.mediaFolderId,
             );
             console.log(
@@ -5894,7 +8772,7 @@ export async function registerRoutes(app: any): Promise<Server> {
             max: maxSize,
             usedGB: totalSizeGB,
             usedMB: totalSizeMB,
-            maxGB: 10,
+            maxGB: maxSize / (1024 * 1024 * 1024),
             percentUsed,
           },
         });
@@ -5909,7 +8787,7 @@ export async function registerRoutes(app: any): Promise<Server> {
               max: maxSize,
               usedGB: totalSizeGB,
               usedMB: totalSizeMB,
-              maxGB: 10,
+              maxGB: parseFloat((maxSize / (1024 * 1024 * 1024)).toFixed(2)),
               percentUsed,
             },
           },
@@ -5929,8 +8807,8 @@ export async function registerRoutes(app: any): Promise<Server> {
     requireAuth,
     async (req: AppRequest, res: AppResponse) => {
       try {
-        await frameioV4Service.loadServiceAccountToken();
-        const folders = await frameioV4Service.getUserFolders(req.user!.id);
+        await media.connect();
+        const folders = await media.getUserFolders(req.user!.id);
         res.json({ success: true, data: folders });
       } catch (error) {
         console.error("Error fetching Frame.io folders:", error);
@@ -5958,7 +8836,7 @@ export async function registerRoutes(app: any): Promise<Server> {
 
         // Verify user owns the project
         const project = await storage.getProject(Number(projectId));
-        if (!project || project.userId !== req.user!.id) {
+        if (!project || !(await canAccessProject(project, req.user!.id))) {
           return res.status(403).json({
             success: false,
             message: "Access denied - project not found or unauthorized",
@@ -6004,7 +8882,7 @@ export async function registerRoutes(app: any): Promise<Server> {
             .json({ success: false, message: "Project not found" });
         }
 
-        if (project.userId !== req.user!.id) {
+        if (!(await canAccessProject(project, req.user!.id))) {
           return res
             .status(403)
             .json({ success: false, message: "Access denied" });
@@ -6024,10 +8902,32 @@ export async function registerRoutes(app: any): Promise<Server> {
             },
           );
 
-          // Update project status to "Edit in Progress" with timestamp tracking
-          await storage.updateProject(projectId, {
-            status: "Edit in Progress",
-          });
+          // Resubmitting instructions sends the project back to the editor, unless it has moved on already.
+          // That spends the video credit like "Send to Editor"; without one it waits for the user to send it.
+          const requester = await storage.getUser(req.user!.id);
+          if (
+            requester &&
+            canTransitionProjectStatus(
+              normalizeProjectStatus(project.status),
+              PROJECT_STATUS.EDIT_IN_PROGRESS,
+              "user",
+            )
+          ) {
+            const { organization, creditTypes } =
+              await getProjectCreditContext(requester);
+            const started = await storage.startProjectEditWithCredit(
+              req.user!.id,
+              projectId,
+              {},
+              creditTypes,
+              organization,
+            );
+            if (!started) {
+              console.log(
+                `⚠️ Project ${projectId} left awaiting instructions: no credit available`,
+              );
+            }
+          }
           await updateProjectTimestamp(projectId, "form submission updated");
 
           return res.json({
@@ -6083,7 +8983,7 @@ export async function registerRoutes(app: any): Promise<Server> {
             .json({ success: false, message: "Project not found" });
         }
 
-        if (project.userId !== req.user!.id) {
+        if (!(await canAccessProject(project, req.user!.id))) {
           return res
             .status(403)
             .json({ success: false, message: "Access denied" });
@@ -6122,7 +9022,7 @@ export async function registerRoutes(app: any): Promise<Server> {
             .json({ success: false, message: "Project not found" });
         }
 
-        if (project.userId !== req.user!.id) {
+        if (!(await canAccessProject(project, req.user!.id))) {
           return res
             .status(403)
             .json({ success: false, message: "Access denied" });
@@ -6138,8 +9038,8 @@ export async function registerRoutes(app: any): Promise<Server> {
         }
 
         // Check folder contents using Frame.io V4 API
-        await frameioV4Service.loadServiceAccountToken();
-        const folderVideos = await frameioV4Service.getFolderAssets(
+        await media.connect();
+        const folderVideos = await media.getFolderAssets(
           project.mediaFolderId,
         );
 
@@ -6194,7 +9094,7 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        if (project.userId !== userId) {
+        if (!(await canAccessProject(project, userId))) {
           return res.status(403).json({
             success: false,
             message: "Access denied",
@@ -6202,11 +9102,11 @@ export async function registerRoutes(app: any): Promise<Server> {
         }
 
         // Initialize Frame.io V4 service
-        await frameioV4Service.loadServiceAccountToken();
+        await media.connect();
 
         let frameioConfigured = false;
-        let userFolderId = null;
-        let projectFolderId = null;
+        let userFolderId: string | null = null;
+        let projectFolderId: string | null = null;
 
         try {
           // Step 1: Get or create user folder using the CORRECT method
@@ -6218,7 +9118,7 @@ export async function registerRoutes(app: any): Promise<Server> {
           );
 
           // Use getUserFolder() which properly manages the Mementiq > User structure
-          const userFolder = await frameioV4Service.getUserFolder(userId);
+          const userFolder = await media.getUserFolder(userId);
           userFolderId = userFolder.id;
           console.log(
             `✅ User folder ready: ${userFolderId} (${userFolder.name})`,
@@ -6234,7 +9134,7 @@ export async function registerRoutes(app: any): Promise<Server> {
 
           // Use dynamic folder discovery instead of trusting stored ID
           const userFolderChildren =
-            await frameioV4Service.getFolderChildren(userFolderId);
+            await media.getFolderChildren(userFolderId);
           let projectFolder = userFolderChildren.find(
             (child: any) =>
               child.type === "folder" &&
@@ -6279,7 +9179,7 @@ export async function registerRoutes(app: any): Promise<Server> {
               `🚨🚨🚨 HIERARCHY CHECK: Target hierarchy = User(${userFolderId}) > Project(${project.title}) 🚨🚨🚨`,
             );
 
-            const projectFolder = await frameioV4Service.createProjectFolder(
+            const projectFolder = await media.createProjectFolder(
               userFolderId,
               project.title,
               project.id,
@@ -6325,13 +9225,13 @@ export async function registerRoutes(app: any): Promise<Server> {
           }
 
           // Step 4: Get existing files in the project folder
-          let existingFiles = [];
+          let existingFiles: any[] = [];
           let totalStorageUsed = 0;
           let fileCount = 0;
 
           try {
             existingFiles =
-              await frameioV4Service.getFolderAssets(projectFolderId);
+              await media.getFolderAssets(projectFolderId);
 
             // Calculate storage usage and file count
             existingFiles.forEach((file) => {
@@ -6441,7 +9341,7 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        if (project.userId !== req.user!.id) {
+        if (!(await canAccessProject(project, req.user!.id))) {
           return res.status(403).json({
             success: false,
             message: "Access denied",
@@ -6457,11 +9357,41 @@ export async function registerRoutes(app: any): Promise<Server> {
           });
         }
 
-        await frameioV4Service.loadServiceAccountToken();
+        const quotas = await getStorageQuotas(project);
+        const exceeded = getExceededQuota(quotas, req.file.size);
+        if (exceeded) {
+          return res.status(413).json({
+            success: false,
+            message: exceeded.message,
+            quotaExceeded: exceeded.scope,
+            quotas,
+          });
+        }
+
+        const fileBuffer = req.file.buffer;
+        const contentHash = await computeContentHash(
+          fileBuffer.length,
+          async (start, end) => fileBuffer.subarray(start, end),
+        );
+        const existingFile = await storage.getProjectFileByContentHash(project.id, contentHash);
+        if (existingFile && req.body.allowDuplicate !== "true") {
+          return res.status(409).json({
+            success: false,
+            message: `This file was already uploaded to this project as "${existingFile.filename}" on ${existingFile.uploadDate.toLocaleDateString()}.`,
+            duplicate: {
+              type: "file",
+              fileId: existingFile.id,
+              fileName: existingFile.filename,
+              uploadDate: existingFile.uploadDate,
+            },
+          });
+        }
+
+        await media.connect();
 
         // Ensure folder structure exists
-        const userFolder = await frameioV4Service.getUserFolder(req.user!.id);
-        const projectFolder = await frameioV4Service.createProjectFolder(
+        const userFolder = await media.getUserFolder(req.user!.id);
+        const projectFolder = await media.createProjectFolder(
           userFolder.id,
           project.title,
           project.id,
@@ -6471,7 +9401,7 @@ export async function registerRoutes(app: any): Promise<Server> {
         console.log(
           `📤 Uploading file ${req.file.originalname} to Frame.io folder ${projectFolder.id}`,
         );
-        const uploadResult = await frameioV4Service.uploadFile(
+        const uploadResult = await media.uploadFile(
           req.file.buffer,
           req.file.originalname,
           projectFolder.id,
@@ -6496,8 +9426,15 @@ export async function registerRoutes(app: any): Promise<Server> {
           filename: uploadResult.name,
           fileType: req.file.mimetype || "application/octet-stream",
           fileSize: req.file.size,
+          contentHash,
         });
 
+        if (isProbeableMediaType(projectFile.fileType)) {
+          extractMediaMetadata(parsedProjectId, frameioId, "footage").catch((error) => {
+            console.error(`❌ Failed to extract metadata for ${uploadResult.name}:`, error);
+          });
+        }
+
         res.json({
           success: true,
           message: "File uploaded successfully to Frame.io V4",
@@ -6552,6 +9489,83 @@ export async function registerRoutes(app: any): Promise<Server> {
     }
   });
 
+  // List Frame.io webhooks on the service workspace (admin only)
+  router.get("/api/admin/frameio/webhooks", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      await frameioV4Service.connect();
+      const webhooks = await frameioV4Service.listWebhooks();
+
+      res.json({
+        success: true,
+        webhooks,
+        endpoint: `${getAppBaseUrl()}/api/webhooks/frameio`,
+        secretConfigured: !!getFrameioWebhookSecret(),
+        reconcileIntervalMinutes: getAssetReconcileIntervalMinutes(),
+      });
+    } catch (error) {
+      console.error("Failed to list Frame.io webhooks:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to list Frame.io webhooks",
+      });
+    }
+  });
+
+  // Register the delivery webhook with Frame.io (admin only). The signing secret is only returned here.
+  router.post("/api/admin/frameio/webhooks", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const endpoint = `${getAppBaseUrl()}/api/webhooks/frameio`;
+      await frameioV4Service.connect();
+
+      const existing = await frameioV4Service.listWebhooks();
+      if (existing.some((webhook: any) => webhook.url === endpoint)) {
+        return res.status(409).json({
+          success: false,
+          message: "A Frame.io webhook for this endpoint is already registered",
+        });
+      }
+
+      const webhook = await frameioV4Service.createWebhook(
+        "Mementiq video delivery",
+        endpoint,
+        [...FRAMEIO_DELIVERY_EVENTS],
+      );
+      console.log(`🔔 Frame.io webhook registered: ${webhook?.id} -> ${endpoint}`);
+
+      res.json({
+        success: true,
+        message: "Webhook registered. Set FRAMEIO_WEBHOOK_SECRET to the secret below and restart the server.",
+        webhook: { id: webhook?.id, name: webhook?.name, url: webhook?.url, events: webhook?.events },
+        secret: webhook?.secret,
+      });
+    } catch (error) {
+      console.error("Failed to register Frame.io webhook:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to register Frame.io webhook",
+      });
+    }
+  });
+
+  // Remove a Frame.io webhook (admin only)
+  router.delete("/api/admin/frameio/webhooks/:webhookId", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      await frameioV4Service.connect();
+      await frameioV4Service.deleteWebhook(req.params.webhookId);
+
+      res.json({
+        success: true,
+        message: "Webhook removed",
+      });
+    } catch (error) {
+      console.error("Failed to remove Frame.io webhook:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to remove Frame.io webhook",
+      });
+    }
+  });
+
   // Manually refresh Frame.io token (admin only)
   router.post("/api/admin/frameio/refresh", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
     try {
@@ -6658,6 +9672,487 @@ export async function registerRoutes(app: any): Promise<Server> {
     }
   });
 
+  // List all plans, including inactive ones (admin only)
+  router.get("/api/admin/plans", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const plans = await getAllPlans();
+      res.json({ success: true, plans });
+    } catch (error) {
+      console.error("Failed to get plans:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get plans",
+      });
+    }
+  });
+
+  // Create a plan (admin only)
+  router.post("/api/admin/plans", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const planData = insertPlanSchema.parse(req.body);
+
+      const existingPlan = await getPlanByKey(planData.key);
+      if (existingPlan) {
+        return res.status(409).json({
+          success: false,
+          message: `A plan with key "${planData.key}" already exists`,
+        });
+      }
+
+      let plan = await storage.createPlan(planData);
+      clearPlanCache();
+      console.log(`📦 Plan created: ${plan.key} by ${req.user?.email}`);
+
+      // Pick up the Stripe price straight away; the plan is still saved if Stripe has no match yet
+      let syncError: string | undefined;
+      try {
+        plan = await syncPlanFromStripe(plan);
+      } catch (error) {
+        syncError = error instanceof Error ? error.message : "Stripe sync failed";
+      }
+
+      res.status(201).json({ success: true, plan, syncError });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid plan data",
+          errors: error.errors,
+        });
+      }
+      console.error("Failed to create plan:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to create plan",
+      });
+    }
+  });
+
+  // Update a plan (admin only). Allowance changes apply to users on their next subscription update.
+  router.patch("/api/admin/plans/:id", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const planId = parseInt(req.params.id);
+      const updates = updatePlanSchema.parse(req.body);
+
+      const existingPlan = await storage.getPlan(planId);
+      if (!existingPlan) {
+        return res.status(404).json({
+          success: false,
+          message: "Plan not found",
+        });
+      }
+
+      let plan = (await storage.updatePlan(planId, updates))!;
+      clearPlanCache();
+      console.log(`📦 Plan updated: ${plan.key} by ${req.user?.email}`);
+
+      // A new lookup_key points at a different Stripe price
+      let syncError: string | undefined;
+      if (
+        (updates.stripeLookupKey && updates.stripeLookupKey !== existingPlan.stripeLookupKey) ||
+        (updates.overageLookupKey !== undefined && updates.overageLookupKey !== existingPlan.overageLookupKey) ||
+        (updates.annualLookupKey !== undefined && updates.annualLookupKey !== existingPlan.annualLookupKey)
+      ) {
+        try {
+          plan = await syncPlanFromStripe(plan);
+        } catch (error) {
+          syncError = error instanceof Error ? error.message : "Stripe sync failed";
+        }
+      }
+
+      res.json({ success: true, plan, syncError });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid plan data",
+          errors: error.errors,
+        });
+      }
+      console.error("Failed to update plan:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update plan",
+      });
+    }
+  });
+
+  // Delete a plan (admin only). Plans with subscribers must be deactivated instead.
+  router.delete("/api/admin/plans/:id", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const planId = parseInt(req.params.id);
+      const plan = await storage.getPlan(planId);
+      if (!plan) {
+        return res.status(404).json({
+          success: false,
+          message: "Plan not found",
+        });
+      }
+
+      const subscriberCount = await storage.countUsersOnPlan(plan.key);
+      if (subscriberCount > 0) {
+        return res.status(409).json({
+          success: false,
+          message: `${subscriberCount} user(s) are on this plan. Deactivate it instead of deleting it.`,
+        });
+      }
+
+      await storage.deletePlan(planId);
+      clearPlanCache();
+      console.log(`🗑️ Plan deleted: ${plan.key} by ${req.user?.email}`);
+
+      res.json({ success: true, message: "Plan deleted" });
+    } catch (error) {
+      console.error("Failed to delete plan:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to delete plan",
+      });
+    }
+  });
+
+  // Sync prices and product IDs for every plan from Stripe (admin only)
+  router.post("/api/admin/plans/sync", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const results = await syncPlansFromStripe();
+      const failed = results.filter((result) => !result.success);
+
+      res.json({
+        success: failed.length === 0,
+        message: failed.length === 0
+          ? `Synced ${results.length} plan(s) from Stripe`
+          : `${failed.length} of ${results.length} plan(s) failed to sync`,
+        results,
+        plans: await getAllPlans(),
+      });
+    } catch (error) {
+      console.error("Failed to sync plans from Stripe:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to sync plans from Stripe",
+      });
+    }
+  });
+
+  // Credit balances and full ledger for a user (admin only) - used to resolve allowance disputes
+  router.get("/api/admin/users/:userId/credits", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      const [balances, entries] = await Promise.all([
+        storage.getCreditBalances(user.id),
+        storage.getCreditLedger(user.id),
+      ]);
+
+      res.json({ success: true, balances, entries });
+    } catch (error) {
+      console.error("Failed to get credit ledger:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get credit ledger",
+      });
+    }
+  });
+
+  // Comp or remove credits manually (admin only). Positive amounts are grants, negative amounts expire credits.
+  router.post("/api/admin/users/:userId/credits", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const { amount, creditType, note } = adminCreditAdjustmentSchema.parse(req.body);
+
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      if (amount < 0) {
+        const balances = await storage.getCreditBalances(user.id);
+        if (balances[creditType] + amount < 0) {
+          return res.status(400).json({
+            success: false,
+            message: `User only has ${balances[creditType]} ${creditType} credit(s)`,
+          });
+        }
+      }
+
+      const entry = await storage.addCreditLedgerEntry({
+        userId: user.id,
+        entryType: amount > 0 ? "grant" : "expiration",
+        creditType,
+        amount,
+        sourceType: "admin_comp",
+        sourceId: req.user?.email || null,
+        note,
+      });
+      console.log(`🎟️ Admin ${req.user?.email} adjusted ${creditType} credits for user ${user.id} by ${amount}`);
+
+      res.status(201).json({
+        success: true,
+        entry,
+        balances: await storage.getCreditBalances(user.id),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid credit adjustment",
+          errors: error.errors,
+        });
+      }
+      console.error("Failed to adjust credits:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to adjust credits",
+      });
+    }
+  });
+
+  // One-off storage quota increases for the account a user bills to (admin only)
+  router.get("/api/admin/users/:userId/storage-grants", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      const { billingUser } = await getBillingContext(user);
+      res.json({
+        success: true,
+        billingUserId: billingUser.id,
+        grants: await storage.getStorageQuotaGrants(billingUser.id),
+      });
+    } catch (error) {
+      console.error("Failed to get storage quota grants:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get storage quota grants",
+      });
+    }
+  });
+
+  router.post("/api/admin/users/:userId/storage-grants", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const { gb, projectId, note } = adminStorageQuotaGrantSchema.parse(req.body);
+
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "User not found",
+        });
+      }
+
+      // Team members draw on the owner's account, so the grant goes there
+      const { billingUser } = await getBillingContext(user);
+
+      if (projectId) {
+        const project = await storage.getProject(projectId);
+        const projectOwner = project ? await storage.getUser(project.userId) : undefined;
+        const projectBillingUser = projectOwner ? (await getBillingContext(projectOwner)).billingUser : undefined;
+        if (!projectBillingUser || projectBillingUser.id !== billingUser.id) {
+          return res.status(404).json({
+            success: false,
+            message: "Project not found for this account",
+          });
+        }
+      }
+
+      const grant = await storage.createStorageQuotaGrant({
+        userId: billingUser.id,
+        projectId: projectId ?? null,
+        extraBytes: Math.round(gb * 1024 * 1024 * 1024),
+        note,
+        grantedBy: req.user?.email || null,
+      });
+      console.log(
+        `💾 Admin ${req.user?.email} granted ${gb} GB of storage to ${projectId ? `project ${projectId}` : "account"} of user ${billingUser.id}`,
+      );
+
+      res.status(201).json({ success: true, grant });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid storage quota grant",
+          errors: error.errors,
+        });
+      }
+      console.error("Failed to grant storage quota:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to grant storage quota",
+      });
+    }
+  });
+
+  // Return the credit a project consumed (admin only), e.g. a request that was abandoned before editing
+  router.post("/api/admin/projects/:id/refund-credit", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const entry = await storage.refundProjectCredit(
+        projectId,
+        req.body?.note || `Refunded by ${req.user?.email}`,
+      );
+
+      if (!entry) {
+        return res.status(409).json({
+          success: false,
+          message: "Project has no credit to refund or was already refunded",
+        });
+      }
+
+      console.log(`🎟️ Refunded ${entry.creditType} credit for project ${projectId}`);
+      res.json({ success: true, entry });
+    } catch (error) {
+      console.error("Failed to refund project credit:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to refund project credit",
+      });
+    }
+  });
+
+  // Check every project waiting on a video now instead of at its next reconcile (admin only)
+  router.post("/api/admin/asset-detection/run", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const summary = await assetDetectionService.triggerManualCheck();
+
+      if (!summary) {
+        return res.status(409).json({
+          success: false,
+          message: "Asset detection is already running on another server, try again shortly",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `Checked ${summary.checked} projects: ${summary.updated} delivered, ${summary.failed} failed`,
+        ...summary,
+      });
+    } catch (error) {
+      console.error("Manual asset detection failed:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to run asset detection",
+      });
+    }
+  });
+
+  // Background job run history, newest first (admin only). Filter with ?status=failed&projectId=12
+  router.get("/api/admin/job-runs", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const status = JOB_RUN_STATUSES.find((s) => s === req.query.status);
+      const jobType = typeof req.query.jobType === "string" ? req.query.jobType : undefined;
+      const projectId = parseInt(String(req.query.projectId)) || undefined;
+      const limit = Math.min(parseInt(String(req.query.limit)) || 100, 500);
+
+      const runs = await storage.getJobRuns({ jobType, projectId, status, limit });
+
+      res.json({ success: true, runs });
+    } catch (error) {
+      console.error("Failed to list job runs:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to list job runs",
+      });
+    }
+  });
+
+  // Recorded webhook events, newest first (admin only). Filter with ?status=failed&provider=stripe
+  router.get("/api/admin/webhook-events", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const status = WEBHOOK_EVENT_STATUSES.find((s) => s === req.query.status);
+      const provider = typeof req.query.provider === "string" ? req.query.provider : undefined;
+      const limit = Math.min(parseInt(String(req.query.limit)) || 100, 500);
+
+      const events = await storage.getWebhookEvents({ status, provider, limit });
+
+      res.json({ success: true, events });
+    } catch (error) {
+      console.error("Failed to list webhook events:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to list webhook events",
+      });
+    }
+  });
+
+  // Re-run a failed webhook event with a fresh retry budget (admin only)
+  router.post("/api/admin/webhook-events/:id/replay", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const eventId = parseInt(req.params.id);
+      const existing = await storage.getWebhookEvent(eventId);
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: "Webhook event not found",
+        });
+      }
+
+      if (existing.status !== "failed") {
+        return res.status(409).json({
+          success: false,
+          message: `Only failed events can be replayed (event is ${existing.status})`,
+        });
+      }
+
+      const event = await replayWebhookEvent(eventId);
+
+      res.json({
+        success: event?.status === "succeeded",
+        message: event?.status === "succeeded"
+          ? "Webhook event replayed successfully"
+          : `Replay failed: ${event?.lastError || "unknown error"}`,
+        event,
+      });
+    } catch (error) {
+      console.error("Failed to replay webhook event:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to replay webhook event",
+      });
+    }
+  });
+
+  // Exit survey answers with totals per reason and outcome (admin only)
+  router.get("/api/admin/cancellation-surveys", requireAuth, requireAdmin, async (req: AppRequest, res: AppResponse) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit)) || 200, 1000);
+      const surveys = await storage.getCancellationSurveys(limit);
+
+      const byReason = Object.fromEntries(CANCELLATION_REASONS.map((reason) => [reason, 0]));
+      const byOutcome: Record<string, number> = { canceled: 0, paused: 0, downgraded: 0 };
+      for (const survey of surveys) {
+        byReason[survey.reason] += 1;
+        byOutcome[survey.outcome] += 1;
+      }
+
+      res.json({
+        success: true,
+        surveys,
+        summary: { total: surveys.length, byReason, byOutcome },
+      });
+    } catch (error) {
+      console.error("Failed to list cancellation surveys:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to list cancellation surveys",
+      });
+    }
+  });
+
   // Frame.io V4 OAuth endpoints - Manual approach for Adobe's static URI requirement
   router.get("/api/auth/frameio", async (req: AppRequest, res: AppResponse) => {
     try {
@@ -0,0 +1,199 @@
+import type Stripe from 'stripe';
+import { storage } from '../storage.js';
+import { emailService } from '../emailService.js';
+import { getAnnualRenewalReminderDays } from '../config/annualBilling.js';
+import { getPlanByKey } from './plan-catalog.js';
+import { hasSubscriptionAccess } from './dunning.js';
+import type { BillingInterval, User } from '../../shared/schema.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // Check every hour
+
+let annualBillingInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Billing interval of a subscription's price. Anything but yearly is treated as monthly.
+ */
+export function getSubscriptionInterval(subscription: Stripe.Subscription): BillingInterval {
+  return subscription.items.data[0]?.price.recurring?.interval === 'year' ? 'year' : 'month';
+}
+
+// Add calendar months, clamping to the last day of shorter months (Jan 31 + 1 month = Feb 28/29)
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+// First monthly anchor after `after` that still falls inside the subscription period.
+// Anchored to the period start so month lengths don't drift the schedule.
+function nextMonthlyGrantAt(periodStart: Date, periodEnd: Date, after: Date): Date | null {
+  for (let month = 1; ; month++) {
+    const grantAt = addMonths(periodStart, month);
+    if (grantAt.getTime() >= periodEnd.getTime()) return null;
+    if (grantAt.getTime() > after.getTime()) return grantAt;
+  }
+}
+
+/**
+ * Start of the user's current allowance period. Annual plans renew their allowance monthly,
+ * so this is the latest monthly grant rather than the start of the yearly subscription period.
+ */
+export function getAllowancePeriodStart(user: User): Date | null {
+  if (user.billingInterval === 'year' && user.allowancePeriodStart) {
+    return user.allowancePeriodStart;
+  }
+  return user.subscriptionPeriodStart;
+}
+
+/**
+ * Reset the allowance schedule when a subscription period starts (checkout or renewal).
+ * The period's first allowance is granted from the invoice; annual plans then get the rest monthly.
+ */
+export async function startAllowanceSchedule(
+  userId: string,
+  interval: BillingInterval,
+  periodStart: Date,
+  periodEnd: Date,
+): Promise<void> {
+  await storage.updateUserSubscription(userId, {
+    billingInterval: interval,
+    allowancePeriodStart: periodStart,
+    nextAllowanceGrantAt: interval === 'year' ? nextMonthlyGrantAt(periodStart, periodEnd, periodStart) : null,
+  });
+}
+
+/**
+ * Pick the monthly schedule up again when a paused annual subscription resumes.
+ * Months that fell inside the pause are not granted.
+ */
+export async function resumeAllowanceSchedule(user: User): Promise<void> {
+  if (user.billingInterval !== 'year' || !user.subscriptionPeriodStart || !user.subscriptionPeriodEnd) {
+    return;
+  }
+  await storage.updateUserSubscription(user.id, {
+    nextAllowanceGrantAt: nextMonthlyGrantAt(user.subscriptionPeriodStart, user.subscriptionPeriodEnd, new Date()),
+  });
+}
+
+// Grant one monthly allowance and move the schedule on. Idempotent per month via the ledger source ID.
+async function grantDueAllowance(user: User): Promise<void> {
+  const dueAt = user.nextAllowanceGrantAt;
+  if (!dueAt || !user.stripeSubscriptionId) {
+    return;
+  }
+
+  const nextGrantAt =
+    user.subscriptionPeriodStart && user.subscriptionPeriodEnd
+      ? nextMonthlyGrantAt(user.subscriptionPeriodStart, user.subscriptionPeriodEnd, dueAt)
+      : null;
+
+  // Ended subscriptions stop the schedule; past_due ones wait until payment recovers.
+  // Paused ones aren't billed, so the month is skipped but the schedule carries on.
+  if (!hasSubscriptionAccess(user)) {
+    if (user.subscriptionStatus === 'paused') {
+      await storage.updateUserSubscription(user.id, { nextAllowanceGrantAt: nextGrantAt });
+    } else if (user.subscriptionStatus !== 'past_due') {
+      await storage.advanceAllowancePeriod(user.id, dueAt, null);
+    }
+    return;
+  }
+
+  const plan = await getPlanByKey(user.subscriptionTier);
+  if (!plan) {
+    console.warn(`⚠️ No plan found for tier ${user.subscriptionTier}, skipping monthly allowance for user ${user.id}`);
+    return;
+  }
+
+  const grant = await storage.grantSubscriptionPeriodCredits(
+    user.id,
+    `${user.stripeSubscriptionId}:${dueAt.toISOString()}`,
+    plan.allowance,
+    plan.creditRollover,
+    `${plan.name} monthly allowance (annual plan)`,
+    'allowance_schedule',
+  );
+
+  await storage.advanceAllowancePeriod(user.id, dueAt, nextGrantAt);
+
+  if (grant) {
+    console.log(`🎟️ Granted ${plan.allowance} monthly credits to annual subscriber ${user.id} (due ${dueAt.toISOString()})`);
+  }
+}
+
+async function sendRenewalReminder(user: User): Promise<void> {
+  if (!user.subscriptionPeriodEnd) {
+    return;
+  }
+
+  const plan = await getPlanByKey(user.subscriptionTier);
+  const amount =
+    plan?.annualUnitAmount != null
+      ? new Intl.NumberFormat('en-US', { style: 'currency', currency: plan.currency.toUpperCase() }).format(
+          plan.annualUnitAmount / 100,
+        )
+      : 'your annual plan price';
+
+  await emailService.sendAnnualRenewalReminderEmail(
+    user.email,
+    user.firstName,
+    plan?.name ?? 'Mementiq',
+    amount,
+    user.subscriptionPeriodEnd,
+  );
+  await storage.recordRenewalReminderSent(user.id);
+}
+
+async function runAnnualBillingChecks(): Promise<void> {
+  const now = new Date();
+
+  for (const user of await storage.getUsersDueAllowanceGrant(now)) {
+    try {
+      await grantDueAllowance(user);
+    } catch (error) {
+      console.error(`❌ Failed to grant monthly allowance to user ${user.id}:`, error);
+    }
+  }
+
+  const renewsBefore = new Date(now.getTime() + getAnnualRenewalReminderDays() * DAY_MS);
+  for (const user of await storage.getUsersDueRenewalReminder(renewsBefore)) {
+    try {
+      await sendRenewalReminder(user);
+    } catch (error) {
+      console.error(`❌ Failed to send annual renewal reminder to user ${user.id}:`, error);
+    }
+  }
+}
+
+export function startAnnualBillingWorker(): void {
+  if (annualBillingInterval) {
+    console.log('📅 Annual billing: Already running');
+    return;
+  }
+
+  console.log('🚀 Starting annual billing service...');
+
+  runAnnualBillingChecks().catch((error) => {
+    console.error('❌ Initial annual billing check failed:', error);
+  });
+
+  annualBillingInterval = setInterval(() => {
+    runAnnualBillingChecks().catch((error) => {
+      console.error('❌ Scheduled annual billing check failed:', error);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log('✅ Annual billing service started (checking every hour)');
+}
+
+export function stopAnnualBillingWorker(): void {
+  if (annualBillingInterval) {
+    clearInterval(annualBillingInterval);
+    annualBillingInterval = null;
+    console.log('🛑 Annual billing service stopped');
+  }
+}
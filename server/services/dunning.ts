@@ -0,0 +1,128 @@
+import { storage } from '../storage.js';
+import { emailService } from '../emailService.js';
+import { getGracePeriodDays, getDunningReminderDays } from '../config/dunning.js';
+import type { User } from '../../shared/schema.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // Check every hour
+
+let dunningInterval: NodeJS.Timeout | null = null;
+
+/**
+ * A past_due customer whose grace period has not run out yet
+ */
+export function isInGracePeriod(user: User): boolean {
+  return (
+    user.subscriptionStatus === 'past_due' &&
+    !!user.gracePeriodEndsAt &&
+    user.gracePeriodEndsAt.getTime() > Date.now()
+  );
+}
+
+/**
+ * Whether subscription benefits (new projects, included revisions) are available
+ */
+export function hasSubscriptionAccess(user: User): boolean {
+  return user.subscriptionStatus === 'active' || isInGracePeriod(user);
+}
+
+/**
+ * Start the grace period after a failed renewal and send the first reminder.
+ * Safe to call for every failure/update event; only the first one starts the clock.
+ */
+export async function startGracePeriod(user: User): Promise<void> {
+  const gracePeriodEndsAt = new Date(Date.now() + getGracePeriodDays() * DAY_MS);
+  const updatedUser = await storage.startGracePeriod(user.id, gracePeriodEndsAt);
+
+  if (!updatedUser) {
+    return;
+  }
+
+  console.log(
+    `⏳ Grace period started for user ${user.id}, new projects allowed until ${gracePeriodEndsAt.toISOString()}`,
+  );
+
+  try {
+    await sendDueReminder(updatedUser);
+  } catch (error) {
+    // The hourly check retries the reminder
+    console.error(`❌ Failed to send first payment reminder to user ${user.id}:`, error);
+  }
+}
+
+/**
+ * Clear dunning state once the subscription recovers or ends
+ */
+export async function endGracePeriod(user: User): Promise<void> {
+  if (!user.paymentFailedAt) {
+    return;
+  }
+
+  await storage.clearGracePeriod(user.id);
+  console.log(`✅ Grace period cleared for user ${user.id}`);
+}
+
+// Send the latest reminder whose scheduled day has passed (missed ones are not sent in bulk)
+async function sendDueReminder(user: User): Promise<boolean> {
+  if (!user.paymentFailedAt || !user.gracePeriodEndsAt || user.subscriptionStatus !== 'past_due') {
+    return false;
+  }
+
+  const reminderDays = getDunningReminderDays();
+  const elapsedMs = Date.now() - user.paymentFailedAt.getTime();
+  const dueCount = reminderDays.filter(day => day * DAY_MS <= elapsedMs).length;
+
+  if (dueCount <= user.dunningRemindersSent) {
+    return false;
+  }
+
+  await emailService.sendPaymentFailedReminderEmail(
+    user.email,
+    user.firstName,
+    user.gracePeriodEndsAt,
+    dueCount === reminderDays.length,
+  );
+  await storage.recordDunningRemindersSent(user.id, dueCount);
+  return true;
+}
+
+async function sendDueReminders(): Promise<void> {
+  const users = await storage.getUsersInGracePeriod();
+
+  for (const user of users) {
+    try {
+      await sendDueReminder(user);
+    } catch (error) {
+      console.error(`❌ Failed to send payment reminder to user ${user.id}:`, error);
+    }
+  }
+}
+
+export function startDunningWorker(): void {
+  if (dunningInterval) {
+    console.log('💳 Dunning reminders: Already running');
+    return;
+  }
+
+  console.log('🚀 Starting dunning reminder service...');
+
+  sendDueReminders().catch((error) => {
+    console.error('❌ Initial dunning reminder check failed:', error);
+  });
+
+  dunningInterval = setInterval(() => {
+    sendDueReminders().catch((error) => {
+      console.error('❌ Scheduled dunning reminder check failed:', error);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log('✅ Dunning reminder service started (checking every hour)');
+}
+
+export function stopDunningWorker(): void {
+  if (dunningInterval) {
+    clearInterval(dunningInterval);
+    dunningInterval = null;
+    console.log('🛑 Dunning reminder service stopped');
+  }
+}
@@ -0,0 +1,504 @@
+import type Stripe from 'stripe';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { storage } from '../storage.js';
+import type { PaymentProvider, PaymentRequestOptions } from './payment-provider.js';
+
+// Used when STRIPE_WEBHOOK_SECRET is not set, so the fake works with no Stripe configuration at all
+const DEFAULT_FAKE_WEBHOOK_SECRET = 'whsec_fake_local';
+// Same tolerance Stripe applies to webhook signature timestamps
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// One-time prices that aren't on the plans table (placeholder amounts in cents)
+const FAKE_ONE_TIME_AMOUNTS: Record<string, number> = {
+  revision_launch: 500,
+  package_5_videos: 10000,
+  package_10_videos: 19000,
+  package_20_videos: 36000,
+};
+const DEFAULT_FAKE_AMOUNT = 1000;
+// Every promotion code is accepted locally and takes this much off the first payment
+const FAKE_PROMOTION_PERCENT_OFF = 10;
+
+type Interval = 'day' | 'week' | 'month' | 'year';
+
+function fakeId(prefix: string): string {
+  return `${prefix}_fake_${randomBytes(8).toString('hex')}`;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function addInterval(seconds: number, interval: Interval): number {
+  const date = new Date(seconds * 1000);
+  if (interval === 'day') date.setDate(date.getDate() + 1);
+  if (interval === 'week') date.setDate(date.getDate() + 7);
+  if (interval === 'month') date.setMonth(date.getMonth() + 1);
+  if (interval === 'year') date.setFullYear(date.getFullYear() + 1);
+  return Math.floor(date.getTime() / 1000);
+}
+
+function signPayload(payload: string, timestamp: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+/**
+ * In-memory stand-in for Stripe (PAYMENT_PROVIDER=fake).
+ * Checkout URLs point at /api/fake-payments/checkout/:id, which completes the session and
+ * delivers Stripe-signed events to our own /api/webhooks/stripe endpoint, so the whole
+ * subscribe -> create project -> pay for revision flow runs without the Stripe API.
+ * State lives in memory and is lost on restart.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+
+  private customers = new Map<string, Stripe.Customer>();
+  private sessions = new Map<string, Stripe.Checkout.Session>();
+  private subscriptions = new Map<string, Stripe.Subscription>();
+  private invoices = new Map<string, Stripe.Invoice>();
+  private prices = new Map<string, Stripe.Price>();
+  private products = new Map<string, Stripe.Product>();
+  private promotionCodes = new Map<string, Stripe.PromotionCode>();
+  private idempotentResults = new Map<string, unknown>();
+  // Price a subscription moves to at its next renewal (fake subscription schedules)
+  private scheduledPrices = new Map<string, string>();
+  private invoiceCount = 0;
+
+  private get webhookUrl(): string {
+    return process.env.FAKE_PAYMENT_WEBHOOK_URL || `http://localhost:${process.env.PORT || 5000}/api/webhooks/stripe`;
+  }
+
+  private idempotent<T>(options: PaymentRequestOptions | undefined, create: () => T): T {
+    if (options?.idempotencyKey && this.idempotentResults.has(options.idempotencyKey)) {
+      return this.idempotentResults.get(options.idempotencyKey) as T;
+    }
+    const result = create();
+    if (options?.idempotencyKey) {
+      this.idempotentResults.set(options.idempotencyKey, result);
+    }
+    return result;
+  }
+
+  async createCustomer(params: Stripe.CustomerCreateParams, options?: PaymentRequestOptions): Promise<Stripe.Customer> {
+    return this.idempotent(options, () => {
+      const customer = {
+        id: fakeId('cus'),
+        object: 'customer',
+        email: params.email ?? null,
+        name: params.name ?? null,
+        metadata: params.metadata ?? {},
+        created: nowSeconds(),
+      } as unknown as Stripe.Customer;
+      this.customers.set(customer.id, customer);
+      return customer;
+    });
+  }
+
+  async createCheckoutSession(
+    params: Stripe.Checkout.SessionCreateParams,
+    options?: PaymentRequestOptions,
+  ): Promise<Stripe.Checkout.Session> {
+    const priceId = params.line_items?.[0]?.price;
+    const price = priceId ? await this.retrievePrice(priceId) : undefined;
+    const promotionCode = params.discounts?.[0]?.promotion_code
+      ? this.promotionCodes.get(params.discounts[0].promotion_code)
+      : undefined;
+    const percentOff = promotionCode?.coupon.percent_off ?? 0;
+
+    return this.idempotent(options, () => {
+      const id = fakeId('cs');
+      const fillSessionId = (url?: string) => url?.replace('{CHECKOUT_SESSION_ID}', id) ?? null;
+      const session = {
+        id,
+        object: 'checkout.session',
+        mode: params.mode,
+        customer: params.customer ?? null,
+        metadata: params.metadata ?? {},
+        status: 'open',
+        payment_status: 'unpaid',
+        amount_total: Math.round((price?.unit_amount ?? 0) * (1 - percentOff / 100)),
+        currency: price?.currency ?? 'usd',
+        line_items: { object: 'list', data: price ? [{ price, quantity: 1 }] : [] },
+        success_url: fillSessionId(params.success_url),
+        cancel_url: fillSessionId(params.cancel_url),
+        url: `/api/fake-payments/checkout/${id}`,
+        subscription: null,
+        invoice: null,
+        payment_intent: null,
+        created: nowSeconds(),
+      } as unknown as Stripe.Checkout.Session;
+      this.sessions.set(id, session);
+      return session;
+    });
+  }
+
+  async retrieveCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`No such checkout.session: ${sessionId}`);
+    }
+    return session;
+  }
+
+  async retrieveSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`No such subscription: ${subscriptionId}`);
+    }
+    return subscription;
+  }
+
+  async listSubscriptions(customerId: string, status: Stripe.SubscriptionListParams.Status): Promise<Stripe.Subscription[]> {
+    return Array.from(this.subscriptions.values()).filter(
+      (subscription) =>
+        subscription.customer === customerId && (status === 'all' || subscription.status === status),
+    );
+  }
+
+  async updateSubscription(subscriptionId: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription> {
+    const subscription = await this.retrieveSubscription(subscriptionId);
+    const events: Stripe.Event[] = [];
+    const newPriceId = params.items?.[0]?.price;
+
+    if (newPriceId) {
+      const amountDue = await this.prorate(subscription, newPriceId, nowSeconds());
+      const price = await this.retrievePrice(newPriceId);
+      subscription.items.data[0].price = price;
+
+      if (params.proration_behavior === 'always_invoice' && amountDue > 0) {
+        const invoice = this.createInvoice(subscription, 'subscription_update', amountDue);
+        events.push(this.buildEvent('invoice.payment_succeeded', invoice));
+      }
+    }
+    if (params.cancel_at_period_end !== undefined) {
+      subscription.cancel_at_period_end = params.cancel_at_period_end;
+    }
+    if (params.pause_collection !== undefined) {
+      // An empty string clears the pause, as in the Stripe API
+      subscription.pause_collection = params.pause_collection
+        ? {
+            behavior: params.pause_collection.behavior,
+            resumes_at: params.pause_collection.resumes_at ?? null,
+          }
+        : null;
+    }
+    if (params.metadata) {
+      subscription.metadata = { ...subscription.metadata, ...(params.metadata as Record<string, string>) };
+    }
+
+    events.push(this.buildEvent('customer.subscription.updated', subscription));
+    this.deliverInBackground(events);
+    return subscription;
+  }
+
+  async previewSubscriptionChange(
+    subscription: Stripe.Subscription,
+    priceId: string,
+    prorationDate: number,
+  ): Promise<{ amountDue: number; currency: string }> {
+    return {
+      amountDue: await this.prorate(subscription, priceId, prorationDate),
+      currency: subscription.items.data[0].price.currency,
+    };
+  }
+
+  async schedulePriceChangeAtPeriodEnd(subscription: Stripe.Subscription, priceId: string): Promise<void> {
+    this.scheduledPrices.set(subscription.id, priceId);
+    subscription.schedule = fakeId('sub_sched');
+  }
+
+  async releaseSubscriptionSchedule(scheduleId: string): Promise<void> {
+    for (const subscription of Array.from(this.subscriptions.values())) {
+      if (subscription.schedule === scheduleId) {
+        this.scheduledPrices.delete(subscription.id);
+        subscription.schedule = null;
+      }
+    }
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string): Promise<{ url: string }> {
+    // There is no fake portal UI; go straight back to the app
+    return { url: returnUrl };
+  }
+
+  async listInvoices(customerId: string, limit: number): Promise<Stripe.Invoice[]> {
+    return Array.from(this.invoices.values())
+      .filter((invoice) => invoice.customer === customerId)
+      .sort((a, b) => b.created - a.created)
+      .slice(0, limit);
+  }
+
+  async getReceiptUrl(): Promise<string | null> {
+    return null;
+  }
+
+  async findPriceByLookupKey(lookupKey: string): Promise<Stripe.Price | undefined> {
+    const plans = await storage.getPlans();
+    const annualPlan = plans.find((p) => p.annualLookupKey === lookupKey);
+    const plan = plans.find((p) => p.stripeLookupKey === lookupKey) ?? annualPlan;
+    const overagePlan = plans.find((p) => p.overageLookupKey === lookupKey);
+    // Yearly prices share the plan's product, like they must in Stripe
+    const productId = plan
+      ? plan.stripeProductId || `prod_fake_${plan.stripeLookupKey}`
+      : `prod_fake_${lookupKey}`;
+
+    const product = {
+      id: productId,
+      object: 'product',
+      name: plan?.name ?? (overagePlan ? `${overagePlan.name} extra video` : lookupKey),
+      active: true,
+    } as unknown as Stripe.Product;
+
+    const price = {
+      id: `price_fake_${lookupKey}`,
+      object: 'price',
+      active: true,
+      lookup_key: lookupKey,
+      currency: plan?.currency ?? 'usd',
+      unit_amount: annualPlan
+        ? annualPlan.annualUnitAmount ?? (annualPlan.unitAmount ?? DEFAULT_FAKE_AMOUNT) * 10
+        : plan?.unitAmount ?? overagePlan?.overageUnitAmount ?? FAKE_ONE_TIME_AMOUNTS[lookupKey] ?? DEFAULT_FAKE_AMOUNT,
+      type: plan ? 'recurring' : 'one_time',
+      recurring: plan ? { interval: annualPlan ? 'year' : plan.billingInterval, interval_count: 1 } : null,
+      product: productId,
+    } as unknown as Stripe.Price;
+
+    this.products.set(product.id, product);
+    this.prices.set(price.id, price);
+    return price;
+  }
+
+  async retrievePrice(priceId: string): Promise<Stripe.Price> {
+    const price = this.prices.get(priceId);
+    if (!price) {
+      throw new Error(`No such price: ${priceId}`);
+    }
+    return price;
+  }
+
+  async retrieveProduct(productId: string): Promise<Stripe.Product> {
+    return this.products.get(productId) ?? ({ id: productId, object: 'product', name: productId } as unknown as Stripe.Product);
+  }
+
+  async findPromotionCode(code: string): Promise<Stripe.PromotionCode | undefined> {
+    const promotionCode = {
+      id: `promo_fake_${code.toLowerCase()}`,
+      object: 'promotion_code',
+      code,
+      active: true,
+      coupon: { id: 'coupon_fake', object: 'coupon', percent_off: FAKE_PROMOTION_PERCENT_OFF, amount_off: null },
+    } as unknown as Stripe.PromotionCode;
+    this.promotionCodes.set(promotionCode.id, promotionCode);
+    return promotionCode;
+  }
+
+  getWebhookSecret(): string | undefined {
+    return process.env.STRIPE_WEBHOOK_SECRET || DEFAULT_FAKE_WEBHOOK_SECRET;
+  }
+
+  // Verifies the same "t=...,v1=..." signature format Stripe uses
+  constructWebhookEvent(payload: Buffer | string, signature: string | string[], secret: string): Stripe.Event {
+    const header = Array.isArray(signature) ? signature[0] : signature;
+    const parts = new Map(header.split(',').map((part) => part.split('=') as [string, string]));
+    const timestamp = Number(parts.get('t'));
+    const received = parts.get('v1') ?? '';
+    const body = payload.toString();
+    const expected = signPayload(body, timestamp, secret);
+
+    if (
+      !Number.isFinite(timestamp) ||
+      Math.abs(nowSeconds() - timestamp) > SIGNATURE_TOLERANCE_SECONDS ||
+      received.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(received), Buffer.from(expected))
+    ) {
+      throw new Error('No signatures found matching the expected signature for payload');
+    }
+
+    return JSON.parse(body) as Stripe.Event;
+  }
+
+  // ---- Simulation controls (used by the /api/fake-payments routes) ----
+
+  /**
+   * Pay for a checkout session and deliver the resulting webhooks. Returns the success URL.
+   */
+  async completeCheckoutSession(sessionId: string): Promise<string | null> {
+    const session = await this.retrieveCheckoutSession(sessionId);
+    if (session.status !== 'open') {
+      return session.success_url;
+    }
+
+    const events: Stripe.Event[] = [];
+    session.status = 'complete';
+    session.payment_status = 'paid';
+
+    if (session.mode === 'subscription') {
+      const price = (session.line_items!.data[0].price as Stripe.Price);
+      const start = nowSeconds();
+      const subscription = {
+        id: fakeId('sub'),
+        object: 'subscription',
+        customer: session.customer,
+        status: 'active',
+        items: {
+          object: 'list',
+          data: [{ id: fakeId('si'), object: 'subscription_item', price, quantity: 1 }],
+        },
+        current_period_start: start,
+        current_period_end: addInterval(start, (price.recurring?.interval ?? 'month') as Interval),
+        cancel_at_period_end: false,
+        schedule: null,
+        metadata: session.metadata ?? {},
+        created: start,
+      } as unknown as Stripe.Subscription;
+      this.subscriptions.set(subscription.id, subscription);
+
+      const invoice = this.createInvoice(subscription, 'subscription_create', session.amount_total ?? 0);
+      session.subscription = subscription.id;
+      session.invoice = invoice.id!;
+
+      events.push(this.buildEvent('checkout.session.completed', session));
+      events.push(this.buildEvent('invoice.payment_succeeded', invoice));
+    } else {
+      session.payment_intent = fakeId('pi');
+      events.push(this.buildEvent('checkout.session.completed', session));
+    }
+
+    await this.deliver(events);
+    return session.success_url;
+  }
+
+  /**
+   * Abandon a checkout session. Returns the cancel URL.
+   */
+  async cancelCheckoutSession(sessionId: string): Promise<string | null> {
+    const session = await this.retrieveCheckoutSession(sessionId);
+    session.status = 'expired';
+    return session.cancel_url;
+  }
+
+  /**
+   * Start the next billing period, either paid or with a failed payment (past_due)
+   */
+  async simulateRenewal(subscriptionId: string, outcome: 'succeeded' | 'failed'): Promise<Stripe.Subscription> {
+    const subscription = await this.retrieveSubscription(subscriptionId);
+    const events: Stripe.Event[] = [];
+
+    if (outcome === 'succeeded') {
+      const scheduledPriceId = this.scheduledPrices.get(subscription.id);
+      if (scheduledPriceId) {
+        subscription.items.data[0].price = await this.retrievePrice(scheduledPriceId);
+        this.scheduledPrices.delete(subscription.id);
+        subscription.schedule = null;
+      }
+
+      const price = subscription.items.data[0].price;
+      const periodStart = (subscription as any).current_period_end as number;
+      (subscription as any).current_period_start = periodStart;
+      (subscription as any).current_period_end = addInterval(periodStart, (price.recurring?.interval ?? 'month') as Interval);
+      subscription.status = 'active';
+
+      const invoice = this.createInvoice(subscription, 'subscription_cycle', price.unit_amount ?? 0);
+      events.push(this.buildEvent('invoice.payment_succeeded', invoice));
+    } else {
+      const invoice = this.createInvoice(subscription, 'subscription_cycle', subscription.items.data[0].price.unit_amount ?? 0, 'open');
+      subscription.status = 'past_due';
+      events.push(this.buildEvent('invoice.payment_failed', invoice));
+    }
+
+    events.push(this.buildEvent('customer.subscription.updated', subscription));
+    await this.deliver(events);
+    return subscription;
+  }
+
+  /**
+   * End a subscription immediately
+   */
+  async cancelSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    const subscription = await this.retrieveSubscription(subscriptionId);
+    subscription.status = 'canceled';
+    await this.deliver([this.buildEvent('customer.subscription.deleted', subscription)]);
+    return subscription;
+  }
+
+  private async prorate(subscription: Stripe.Subscription, priceId: string, prorationDate: number): Promise<number> {
+    const currentAmount = subscription.items.data[0].price.unit_amount ?? 0;
+    const newAmount = (await this.retrievePrice(priceId)).unit_amount ?? 0;
+    const periodStart = (subscription as any).current_period_start as number;
+    const periodEnd = (subscription as any).current_period_end as number;
+    const remaining = Math.max(0, Math.min(1, (periodEnd - prorationDate) / (periodEnd - periodStart)));
+    return Math.max(0, Math.round((newAmount - currentAmount) * remaining));
+  }
+
+  private createInvoice(
+    subscription: Stripe.Subscription,
+    billingReason: Stripe.Invoice.BillingReason,
+    amount: number,
+    status: 'paid' | 'open' = 'paid',
+  ): Stripe.Invoice {
+    const price = subscription.items.data[0].price;
+    const productName = this.products.get(price.product as string)?.name ?? 'Subscription';
+    this.invoiceCount += 1;
+
+    const invoice = {
+      id: fakeId('in'),
+      object: 'invoice',
+      customer: subscription.customer,
+      subscription: subscription.id,
+      billing_reason: billingReason,
+      status,
+      number: `FAKE-${String(this.invoiceCount).padStart(4, '0')}`,
+      amount_due: amount,
+      amount_paid: status === 'paid' ? amount : 0,
+      total: amount,
+      currency: price.currency,
+      description: null,
+      lines: { object: 'list', data: [{ description: `1 × ${productName}` }] },
+      invoice_pdf: null,
+      hosted_invoice_url: null,
+      created: nowSeconds(),
+    } as unknown as Stripe.Invoice;
+    this.invoices.set(invoice.id!, invoice);
+    return invoice;
+  }
+
+  private buildEvent(type: string, object: unknown): Stripe.Event {
+    return {
+      id: fakeId('evt'),
+      object: 'event',
+      type,
+      created: nowSeconds(),
+      livemode: false,
+      data: { object: JSON.parse(JSON.stringify(object)) },
+    } as unknown as Stripe.Event;
+  }
+
+  // POST events to our own webhook endpoint in order, signed like Stripe does
+  private async deliver(events: Stripe.Event[]): Promise<void> {
+    const secret = this.getWebhookSecret()!;
+
+    for (const event of events) {
+      const payload = JSON.stringify(event);
+      const timestamp = nowSeconds();
+      const response = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Stripe-Signature': `t=${timestamp},v1=${signPayload(payload, timestamp, secret)}`,
+        },
+        body: payload,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Fake webhook ${event.type} was rejected with status ${response.status}`);
+      }
+      console.log(`🧪 Delivered fake webhook ${event.type} (${event.id})`);
+    }
+  }
+
+  private deliverInBackground(events: Stripe.Event[]): void {
+    this.deliver(events).catch((error) => {
+      console.error('❌ Failed to deliver fake webhooks:', error);
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { storage } from '../storage.js';
+import { frameioV4Service } from '../frameioV4Service.js';
+import { assetDetectionService } from '../assetDetectionService.js';
+import type { Project } from '../../shared/schema.js';
+
+// Events that can mean an editor delivered a video: a new file finished processing, or a new version was stacked
+export const FRAMEIO_DELIVERY_EVENTS = ['file.ready', 'file.versioned'] as const;
+
+// Reject signed requests older than this so captured deliveries can't be replayed
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface FrameioWebhookPayload {
+  type: string;
+  resource?: { id: string; type: string };
+  account?: { id: string };
+  project?: { id: string };
+  workspace?: { id: string };
+}
+
+/**
+ * Verify a Frame.io V4 webhook: X-Frameio-Signature is "v0=" + HMAC-SHA256 of "v0:<timestamp>:<raw body>"
+ */
+export function verifyFrameioWebhookSignature(
+  rawBody: Buffer,
+  timestamp: unknown,
+  signature: unknown,
+  secret: string,
+): boolean {
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || typeof signature !== 'string' || !signature.startsWith('v0=')) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', secret)
+    .update(`v0:${timestamp}:`)
+    .update(rawBody)
+    .digest();
+  const actual = Buffer.from(signature.slice(3), 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function isFrameioDeliveryEvent(type: string): boolean {
+  return (FRAMEIO_DELIVERY_EVENTS as readonly string[]).includes(type);
+}
+
+/**
+ * Dedupe key for the webhook inbox. Frame.io sends no event ID, so a redelivery is the same event for the same resource.
+ */
+export function getFrameioWebhookEventId(payload: FrameioWebhookPayload): string {
+  return `${payload.type}:${payload.resource?.id}`;
+}
+
+// Walk up from the file to the project folder. Versioned files sit inside a version stack, one level deeper.
+async function findProjectForFile(accountId: string, fileId: string): Promise<Project | undefined> {
+  const file = await frameioV4Service.makeRequest('GET', `/accounts/${accountId}/files/${fileId}`);
+  const parentId: string | undefined = file?.data?.parent_id;
+  if (!parentId) {
+    return undefined;
+  }
+
+  const project = await storage.getProjectByMediaFolderId(parentId);
+  if (project) {
+    return project;
+  }
+
+  try {
+    const stack = await frameioV4Service.makeRequest('GET', `/accounts/${accountId}/version_stacks/${parentId}`);
+    const stackParentId: string | undefined = stack?.data?.parent_id;
+    return stackParentId ? storage.getProjectByMediaFolderId(stackParentId) : undefined;
+  } catch {
+    // Parent is a plain folder that doesn't belong to a project
+    return undefined;
+  }
+}
+
+/**
+ * Apply a Frame.io webhook event (registered with the webhook inbox). Queues the same delivery check as the poll,
+ * so initial edits and revisions both go to "video is ready" with the share link, Trello move and email.
+ */
+export async function handleFrameioEvent(payload: FrameioWebhookPayload): Promise<void> {
+  const fileId = payload.resource?.id;
+  if (!isFrameioDeliveryEvent(payload.type) || !fileId) {
+    console.log(`Unhandled Frame.io webhook type: ${payload.type}`);
+    return;
+  }
+
+  await frameioV4Service.connect();
+  const accountId = payload.account?.id ?? (await frameioV4Service.getAccountId());
+
+  const project = await findProjectForFile(accountId, fileId);
+  if (!project) {
+    console.log(`📭 Frame.io file ${fileId} is not in a project folder, ignoring ${payload.type}`);
+    return;
+  }
+
+  if (project.status !== 'edit in progress' && project.status !== 'revision in progress') {
+    console.log(`⏭️ Project ${project.id} is not waiting on a video (status: ${project.status})`);
+    return;
+  }
+
+  console.log(`📹 Frame.io ${payload.type} for project ${project.id} (file ${fileId}), checking now`);
+  await assetDetectionService.requestProjectCheck(project.id, 'webhook');
+}
@@ -0,0 +1,284 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs, type Stats } from 'fs';
+import path from 'path';
+import type { MediaAsset, MediaLink, MediaProvider, MediaUploadResult, MediaUploadSession } from './media-provider.js';
+import { getLocalMediaDir, getLocalMediaSigningSecret } from '../config/media.js';
+import { getAppBaseUrl } from '../config/appUrl.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const SHARE_LINK_TTL_MS = 30 * 24 * HOUR_MS; // Matches Frame.io share expiry
+const DOWNLOAD_LINK_TTL_MS = 24 * HOUR_MS;
+const UPLOAD_LINK_TTL_MS = 7 * 24 * HOUR_MS; // Lets an upload session resume for its whole lifetime
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/x-m4v',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+};
+
+let fallbackSecret: string | null = null;
+
+function getSigningSecret(): string {
+  const secret = getLocalMediaSigningSecret();
+  if (secret) {
+    return secret;
+  }
+  if (!fallbackSecret) {
+    console.warn('⚠️ LOCAL_MEDIA_SIGNING_SECRET not set - local media links will stop working after a restart');
+    fallbackSecret = randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+// Asset IDs are the path relative to the media root, so no index needs to be kept in sync with the disk
+function toAssetId(relativePath: string): string {
+  return Buffer.from(relativePath, 'utf8').toString('base64url');
+}
+
+/**
+ * Absolute path of a local asset. Throws for IDs that point outside the media root.
+ */
+export function resolveLocalMediaPath(assetId: string): string {
+  const root = getLocalMediaDir();
+  const relativePath = Buffer.from(assetId, 'base64url').toString('utf8');
+  const absolutePath = path.resolve(root, relativePath);
+  if (!relativePath || (absolutePath !== root && !absolutePath.startsWith(root + path.sep))) {
+    throw new Error(`Invalid media asset ID: ${assetId}`);
+  }
+  return absolutePath;
+}
+
+export function getLocalMediaType(filename: string): string {
+  return MEDIA_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function sign(method: 'GET' | 'PUT', assetId: string, expires: number): string {
+  return createHmac('sha256', getSigningSecret()).update(`${method}:${assetId}:${expires}`).digest('hex');
+}
+
+function signUrl(method: 'GET' | 'PUT', assetId: string, ttlMs: number, download = false): string {
+  const expires = Date.now() + ttlMs;
+  const params = new URLSearchParams({ expires: String(expires), signature: sign(method, assetId, expires) });
+  if (download) {
+    params.set('download', '1');
+  }
+  return `${getAppBaseUrl()}/api/media/local/${assetId}?${params}`;
+}
+
+/**
+ * Check a signed local media URL (share, download or upload link)
+ */
+export function verifyLocalMediaSignature(
+  method: 'GET' | 'PUT',
+  assetId: string,
+  expires: unknown,
+  signature: unknown,
+): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isFinite(expiresAt) || expiresAt < Date.now() || typeof signature !== 'string') {
+    return false;
+  }
+  const expected = Buffer.from(sign(method, assetId, expiresAt), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Media provider backed by a directory (MEDIA_PROVIDER=local). Folders are directories and
+ * files are served through signed /api/media/local links, so the app runs without Frame.io.
+ */
+export class LocalMediaProvider implements MediaProvider {
+  readonly name = 'local' as const;
+
+  private toAsset(absolutePath: string, stats: Stats): MediaAsset {
+    const root = getLocalMediaDir();
+    const relativePath = path.relative(root, absolutePath);
+    const parent = path.dirname(relativePath);
+    const name = path.basename(absolutePath);
+    const isFolder = stats.isDirectory();
+
+    return {
+      id: toAssetId(relativePath),
+      name,
+      type: isFolder ? 'folder' : 'file',
+      parent_id: parent === '.' ? undefined : toAssetId(parent),
+      media_type: isFolder ? undefined : getLocalMediaType(name),
+      file_size: isFolder ? undefined : stats.size,
+      // Older code paths read the V2-style names
+      filetype: isFolder ? undefined : getLocalMediaType(name),
+      filesize: isFolder ? undefined : stats.size,
+      created_at: stats.birthtime.toISOString(),
+      updated_at: stats.mtime.toISOString(),
+    };
+  }
+
+  private async ensureFolder(relativePath: string): Promise<MediaAsset> {
+    const absolutePath = path.join(getLocalMediaDir(), relativePath);
+    await fs.mkdir(absolutePath, { recursive: true });
+    return this.toAsset(absolutePath, await fs.stat(absolutePath));
+  }
+
+  // Keep earlier uploads with the same name, like Frame.io does ("clip.mp4", "clip (1).mp4", ...)
+  private async availableFilePath(folderId: string, filename: string): Promise<string> {
+    const folderPath = resolveLocalMediaPath(folderId);
+    const safeName = path.basename(filename).replace(/^\.+/, '') || 'upload';
+    const { name, ext } = path.parse(safeName);
+
+    for (let copy = 0; ; copy++) {
+      const candidate = path.join(folderPath, copy === 0 ? safeName : `${name} (${copy})${ext}`);
+      try {
+        await fs.access(candidate);
+      } catch {
+        return candidate;
+      }
+    }
+  }
+
+  async connect(): Promise<void> {
+    await fs.mkdir(getLocalMediaDir(), { recursive: true });
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getUserFolder(userId: string): Promise<MediaAsset> {
+    return this.ensureFolder(path.join('users', `User-${userId}`));
+  }
+
+  async getUserFolders(userId: string): Promise<MediaAsset[]> {
+    const userFolder = await this.getUserFolder(userId);
+    const children = await this.getFolderChildren(userFolder.id);
+    return children.filter((child) => child.type === 'folder');
+  }
+
+  async createProjectFolder(userFolderId: string, projectTitle: string, projectId: number): Promise<MediaAsset> {
+    const userFolderPath = resolveLocalMediaPath(userFolderId);
+    const relativePath = path.relative(getLocalMediaDir(), path.join(userFolderPath, `Project-${projectId}`));
+    console.log(`📁 Local project folder for "${projectTitle}": ${relativePath}`);
+    return this.ensureFolder(relativePath);
+  }
+
+  async getFolderChildren(folderId: string): Promise<MediaAsset[]> {
+    const folderPath = resolveLocalMediaPath(folderId);
+    const entries = await fs.readdir(folderPath, { withFileTypes: true });
+
+    const assets: MediaAsset[] = [];
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const entryPath = path.join(folderPath, entry.name);
+      assets.push(this.toAsset(entryPath, await fs.stat(entryPath)));
+    }
+    return assets;
+  }
+
+  async getFolderAssets(folderId: string): Promise<MediaAsset[]> {
+    try {
+      return await this.getFolderChildren(folderId);
+    } catch (error) {
+      console.error(`Failed to list local media folder ${folderId}:`, error);
+      return [];
+    }
+  }
+
+  async getAsset(assetId: string): Promise<MediaAsset> {
+    const assetPath = resolveLocalMediaPath(assetId);
+    return this.toAsset(assetPath, await fs.stat(assetPath));
+  }
+
+  async deleteAsset(assetId: string): Promise<boolean> {
+    try {
+      await fs.rm(resolveLocalMediaPath(assetId), { recursive: true });
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete local media asset ${assetId}:`, error);
+      return false;
+    }
+  }
+
+  async createUploadSession(folderId: string, filename: string, filesize: number, mimeType: string): Promise<MediaUploadSession> {
+    // Reserve the name now; the client PUTs the bytes (or PATCHes them in chunks) to the signed upload URL
+    const filePath = await this.availableFilePath(folderId, filename);
+    await fs.writeFile(filePath, '');
+    const assetId = toAssetId(path.relative(getLocalMediaDir(), filePath));
+
+    return {
+      assetId,
+      uploadUrl: signUrl('PUT', assetId, UPLOAD_LINK_TTL_MS),
+      completeUri: `/api/media/local/${assetId}`,
+      parentFolderId: folderId,
+      fileName: path.basename(filePath),
+      fileSize: filesize,
+      mimeType,
+    };
+  }
+
+  async uploadFile(fileBuffer: Buffer, filename: string, folderId: string, mimeType: string): Promise<MediaUploadResult> {
+    const filePath = await this.availableFilePath(folderId, filename);
+    await fs.writeFile(filePath, fileBuffer);
+    const asset = this.toAsset(filePath, await fs.stat(filePath));
+
+    console.log(`📥 Stored ${asset.name} (${fileBuffer.length} bytes, ${mimeType}) in local media`);
+
+    return {
+      id: asset.id,
+      name: asset.name,
+      url: signUrl('GET', asset.id, DOWNLOAD_LINK_TTL_MS),
+      type: 'file',
+      filesize: fileBuffer.length,
+      created_at: asset.created_at,
+      updated_at: asset.updated_at,
+      status: 'uploaded',
+      upload_urls_count: 0,
+    };
+  }
+
+  async readAssetRange(assetId: string, start: number, end: number): Promise<Buffer | null> {
+    const handle = await fs.open(resolveLocalMediaPath(assetId), 'r');
+    try {
+      const buffer = Buffer.alloc(end - start);
+      const { bytesRead } = await handle.read(buffer, 0, end - start, start);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async createAssetShareLink(assetId: string, name: string): Promise<MediaLink> {
+    await this.getAsset(assetId);
+    const url = signUrl('GET', assetId, SHARE_LINK_TTL_MS);
+    console.log(`🔗 Local share link "${name}" created for ${assetId}`);
+    const params = new URL(url).searchParams;
+    return { url, id: params.get('signature')!, expiresAt: new Date(Number(params.get('expires'))) };
+  }
+
+  async createAssetReviewLink(assetId: string, name: string = 'Review Link'): Promise<MediaLink> {
+    return this.createAssetShareLink(assetId, name);
+  }
+
+  async generateAssetDownloadLink(assetId: string): Promise<string | null> {
+    try {
+      await this.getAsset(assetId);
+    } catch {
+      return null;
+    }
+    return signUrl('GET', assetId, DOWNLOAD_LINK_TTL_MS, true);
+  }
+
+  async updateProjectAssetsStatus(projectId: number, status: string): Promise<void> {
+    // Local files carry no review status; the project status in the database is the record
+    console.log(`ℹ️ Local media: project ${projectId} assets marked "${status}"`);
+  }
+}
@@ -0,0 +1,261 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { storage } from '../storage.js';
+import { frameioV4Service } from '../frameioV4Service.js';
+import { getMediaProvider } from './media-provider.js';
+import { resolveLocalMediaPath } from './local-media-provider.js';
+import { getFfprobePath, getFfprobeTimeoutSeconds } from '../config/mediaMetadata.js';
+import type { InsertMediaMetadata, MediaMetadata, MediaMetadataRole } from '../../shared/schema.js';
+
+const execFileAsync = promisify(execFile);
+
+// Backfill cap per run so one large project doesn't tie up the server with probes
+const BACKFILL_BATCH_SIZE = 20;
+
+type ExtractedMetadata = Pick<
+  InsertMediaMetadata,
+  'durationSeconds' | 'width' | 'height' | 'frameRate' | 'videoCodec' | 'audioCodec'
+>;
+
+export interface FootageSummary {
+  fileCount: number;
+  totalDurationSeconds: number;
+  format: string | null; // Most common resolution and frame rate by duration, e.g. "4K 30fps"
+  formatShare: number; // Fraction of the footage in that format
+}
+
+let ffprobeMissing = false;
+
+/**
+ * Only audio and video have durations and codecs worth probing
+ */
+export function isProbeableMediaType(mimeType: string | null | undefined): boolean {
+  // Older upload records store just "video"
+  return !!mimeType && /^(video|audio)(\/|$)/.test(mimeType);
+}
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+// ffprobe reports frame rates as fractions ("30000/1001")
+function parseFrameRate(value: unknown): number | null {
+  if (typeof value !== 'string') {
+    return toNumber(value);
+  }
+  const [numerator, denominator] = value.split('/').map(Number);
+  return denominator ? toNumber(numerator / denominator) : toNumber(numerator);
+}
+
+function hasValues(metadata: ExtractedMetadata): boolean {
+  return metadata.durationSeconds != null || metadata.width != null || metadata.audioCodec != null;
+}
+
+/**
+ * Read a file with ffprobe. Input is a local path or an HTTP(S) URL; only headers are needed, not the whole file.
+ */
+async function probeWithFfprobe(input: string): Promise<ExtractedMetadata | null> {
+  if (ffprobeMissing) {
+    return null;
+  }
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      getFfprobePath(),
+      ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', input],
+      { timeout: getFfprobeTimeoutSeconds() * 1000, maxBuffer: 10 * 1024 * 1024 },
+    ));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      ffprobeMissing = true;
+      console.warn('⚠️ ffprobe not found - install FFmpeg or set FFPROBE_PATH to extract media metadata');
+      return null;
+    }
+    throw error;
+  }
+
+  const probe = JSON.parse(stdout);
+  const streams: any[] = probe.streams ?? [];
+  // Cover art in audio files shows up as a one-frame video stream
+  const video = streams.find((stream) => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+  const audio = streams.find((stream) => stream.codec_type === 'audio');
+
+  return {
+    durationSeconds: toNumber(probe.format?.duration) ?? toNumber(video?.duration) ?? toNumber(audio?.duration),
+    width: toNumber(video?.width),
+    height: toNumber(video?.height),
+    frameRate: video ? parseFrameRate(video.avg_frame_rate) ?? parseFrameRate(video.r_frame_rate) : null,
+    videoCodec: video?.codec_name ?? null,
+    audioCodec: audio?.codec_name ?? null,
+  };
+}
+
+// Frame.io metadata fields are identified by display name ("Frame Rate", "Resolution - Width", ...)
+function readFrameioField(fields: any[], ...names: string[]): unknown {
+  const field = fields.find((candidate) =>
+    names.includes(String(candidate?.field_definition_name ?? candidate?.name ?? '').toLowerCase()),
+  );
+  return field?.value;
+}
+
+/**
+ * Media info Frame.io computed while processing the file, plus the original's download URL for ffprobe
+ * when Frame.io hasn't filled the fields in
+ */
+async function readFrameioMetadata(assetId: string): Promise<{ metadata: ExtractedMetadata; originalUrl?: string }> {
+  await frameioV4Service.connect();
+  const accountId = await frameioV4Service.getAccountId();
+  const response = await frameioV4Service.makeRequest(
+    'GET',
+    `/accounts/${accountId}/files/${assetId}`,
+    undefined,
+    { include: 'media_links.original,metadata' },
+  );
+  const file = response?.data ?? {};
+  const fields: any[] = Array.isArray(file.metadata) ? file.metadata : [];
+  const codec = readFrameioField(fields, 'video codec', 'codec');
+  const audioCodec = readFrameioField(fields, 'audio codec');
+
+  return {
+    metadata: {
+      durationSeconds: toNumber(readFrameioField(fields, 'duration')) ?? toNumber(file.duration),
+      width: toNumber(readFrameioField(fields, 'resolution - width', 'width')),
+      height: toNumber(readFrameioField(fields, 'resolution - height', 'height')),
+      frameRate: parseFrameRate(readFrameioField(fields, 'frame rate', 'fps')) ?? toNumber(file.fps),
+      videoCodec: typeof codec === 'string' ? codec : null,
+      audioCodec: typeof audioCodec === 'string' ? audioCodec : null,
+    },
+    originalUrl: file.media_links?.original?.download_url ?? undefined,
+  };
+}
+
+/**
+ * Read duration, resolution, frame rate and codecs for a media asset and store them.
+ * Frame.io's own media info is used when present; otherwise the file is probed with ffprobe.
+ * Returns null when nothing could be read (ffprobe missing, or the file has no media streams).
+ */
+export async function extractMediaMetadata(
+  projectId: number,
+  assetId: string,
+  role: MediaMetadataRole,
+): Promise<MediaMetadata | null> {
+  const media = getMediaProvider();
+  let source: InsertMediaMetadata['source'] = 'ffprobe';
+  let metadata: ExtractedMetadata | null = null;
+
+  if (media.name === 'frameio') {
+    const frameio = await readFrameioMetadata(assetId);
+    if (hasValues(frameio.metadata)) {
+      source = 'frameio';
+      metadata = frameio.metadata;
+    } else if (frameio.originalUrl) {
+      metadata = await probeWithFfprobe(frameio.originalUrl);
+    }
+  } else {
+    metadata = await probeWithFfprobe(resolveLocalMediaPath(assetId));
+  }
+
+  if (!metadata || !hasValues(metadata)) {
+    return null;
+  }
+
+  const row = await storage.upsertMediaMetadata({ projectId, mediaAssetId: assetId, role, source, ...metadata });
+  console.log(
+    `🎞️ Media metadata for ${role} ${assetId} (project ${projectId}): ${row.width ?? '?'}x${row.height ?? '?'}, ${row.frameRate ?? '?'}fps, ${row.durationSeconds ?? '?'}s via ${source}`,
+  );
+  return row;
+}
+
+/**
+ * Probe uploaded footage that has no metadata yet (uploads from before extraction existed, or ones that failed).
+ * Files that yield nothing are marked so later runs don't probe them again.
+ */
+export async function backfillFootageMetadata(projectId: number): Promise<void> {
+  const files = await storage.getProjectFilesWithoutMetadata(projectId);
+
+  for (const file of files.filter((f) => isProbeableMediaType(f.fileType)).slice(0, BACKFILL_BATCH_SIZE)) {
+    try {
+      const row = await extractMediaMetadata(projectId, file.mediaAssetId!, 'footage');
+      // Without ffprobe nothing was really tried, so those files stay eligible for when it's installed
+      if (!row && !ffprobeMissing) {
+        await storage.updateProjectFile(file.id, { metadataProbedAt: new Date() });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to extract metadata for file ${file.id} (project ${projectId}):`, error);
+    }
+  }
+}
+
+function resolutionLabel(width: number, height: number): string {
+  // Vertical footage is labelled by its short side too (1080x1920 is 1080p)
+  const shortSide = Math.min(width, height);
+  if (shortSide >= 2160) return '4K';
+  if (shortSide >= 1440) return '1440p';
+  return `${shortSide}p`;
+}
+
+function frameRateLabel(frameRate: number): string {
+  return `${Math.round(frameRate * 100) / 100}fps`;
+}
+
+/**
+ * Totals across a project's footage. The dominant format is weighted by duration so one long
+ * interview outweighs a handful of B-roll clips.
+ */
+export function summarizeFootage(rows: MediaMetadata[]): FootageSummary | null {
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const totalDurationSeconds = rows.reduce((sum, row) => sum + (row.durationSeconds ?? 0), 0);
+  const durationByFormat = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.width || !row.height) continue;
+    const format = [resolutionLabel(row.width, row.height), row.frameRate ? frameRateLabel(row.frameRate) : null]
+      .filter(Boolean)
+      .join(' ');
+    durationByFormat.set(format, (durationByFormat.get(format) ?? 0) + (row.durationSeconds ?? 0));
+  }
+
+  const formats = Array.from(durationByFormat.entries()).sort(([, a], [, b]) => b - a);
+  const videoDuration = formats.reduce((sum, [, duration]) => sum + duration, 0);
+  const [format, formatDuration] = formats[0] ?? [null, 0];
+
+  return {
+    fileCount: rows.length,
+    totalDurationSeconds,
+    format,
+    formatShare: videoDuration > 0 ? formatDuration / videoDuration : formats.length === 1 ? 1 : 0,
+  };
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return `${Math.round(seconds)} seconds`;
+  if (minutes === 1) return '1 minute';
+  if (minutes < 120) return `${minutes} minutes`;
+  return `${Math.round((seconds / 3600) * 10) / 10} hours`;
+}
+
+/**
+ * One-line description for people, e.g. "47 minutes of footage, mostly 4K 30fps"
+ */
+export function formatFootageSummary(summary: FootageSummary): string {
+  const text = summary.totalDurationSeconds > 0
+    ? `${formatDuration(summary.totalDurationSeconds)} of footage`
+    : `${summary.fileCount} ${summary.fileCount === 1 ? 'file' : 'files'} of footage`;
+  if (!summary.format) {
+    return text;
+  }
+  return `${text}, ${summary.formatShare >= 1 ? 'all' : 'mostly'} ${summary.format}`;
+}
+
+/**
+ * Footage summary for a project from the metadata already stored. Null when there is none yet.
+ */
+export async function getProjectFootageSummary(projectId: number): Promise<string | null> {
+  const summary = summarizeFootage(await storage.getMediaMetadata([projectId], 'footage'));
+  return summary ? formatFootageSummary(summary) : null;
+}
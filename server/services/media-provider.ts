@@ -0,0 +1,99 @@
+import { frameioV4Service } from '../frameioV4Service.js';
+import { LocalMediaProvider } from './local-media-provider.js';
+import { getMediaProviderName } from '../config/media.js';
+
+/**
+ * A file or folder on the media platform. Uses Frame.io V4 field names (parent_id, media_type,
+ * file_size, ...) so existing routes work unchanged; providers may add platform-specific fields.
+ */
+export interface MediaAsset {
+  id: string;
+  name: string;
+  type: 'file' | 'folder' | (string & {});
+  created_at: string;
+  updated_at: string;
+  [key: string]: any;
+}
+
+export interface MediaUploadSession {
+  uploadUrl: string;
+  completeUri: string;
+  assetId: string;
+  parentFolderId: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+export interface MediaUploadResult {
+  id: string;
+  name: string;
+  url: string;
+  type: string;
+  filesize: number;
+  created_at: string;
+  updated_at: string;
+  status: string;
+  upload_urls_count: number;
+}
+
+export interface MediaLink {
+  url: string;
+  id: string;
+  expiresAt?: Date; // When a share link stops working, if it expires
+}
+
+/**
+ * Everything project workflows need from the platform holding client footage and deliverables.
+ * Folders follow the same hierarchy everywhere: one folder per user, one per project inside it.
+ * Frame.io-only features (OAuth, streaming proxies, share management) stay on frameioV4Service.
+ */
+export interface MediaProvider {
+  readonly name: 'frameio' | 'local';
+
+  // Connection - load credentials before a batch of calls; false while uploads can't be accepted
+  connect(): Promise<void>;
+  isAvailable(): boolean;
+
+  // Folders
+  getUserFolder(userId: string): Promise<MediaAsset>;
+  getUserFolders(userId: string): Promise<MediaAsset[]>;
+  createProjectFolder(userFolderId: string, projectTitle: string, projectId: number): Promise<MediaAsset>;
+  getFolderChildren(folderId: string): Promise<MediaAsset[]>;
+
+  // Asset listing (never throws; an unreadable folder lists as empty)
+  getFolderAssets(folderId: string): Promise<MediaAsset[]>;
+  getAsset(assetId: string): Promise<MediaAsset>;
+  deleteAsset(assetId: string): Promise<boolean>;
+
+  // Uploads
+  createUploadSession(folderId: string, filename: string, filesize: number, mimeType: string): Promise<MediaUploadSession>;
+  uploadFile(fileBuffer: Buffer, filename: string, folderId: string, mimeType: string): Promise<MediaUploadResult>;
+  // Bytes [start, end) of an uploaded file, for integrity checks; null while the platform can't serve it yet
+  readAssetRange(assetId: string, start: number, end: number): Promise<Buffer | null>;
+
+  // Share links and downloads
+  createAssetShareLink(assetId: string, name: string, enableComments?: boolean): Promise<MediaLink>;
+  createAssetReviewLink(assetId: string, name?: string): Promise<MediaLink>;
+  generateAssetDownloadLink(assetId: string): Promise<string | null>;
+
+  // Workflow status (e.g. "Approved" once the client accepts a delivery)
+  updateProjectAssetsStatus(projectId: number, status: string): Promise<void>;
+}
+
+let provider: MediaProvider | null = null;
+
+/**
+ * The configured media provider (Frame.io unless MEDIA_PROVIDER=local)
+ */
+export function getMediaProvider(): MediaProvider {
+  if (!provider) {
+    if (getMediaProviderName() === 'local') {
+      console.log('🗂️ Using local media provider - footage is stored on disk, not in Frame.io');
+      provider = new LocalMediaProvider();
+    } else {
+      provider = frameioV4Service;
+    }
+  }
+  return provider;
+}
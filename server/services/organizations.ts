@@ -0,0 +1,49 @@
+import { storage } from '../storage.js';
+import type { Organization, OrganizationRole, Project, User } from '../../shared/schema.js';
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+/**
+ * Whether a role grants at least the permissions of the minimum role (owner > admin > member)
+ */
+export function hasOrganizationRole(role: OrganizationRole, minimum: OrganizationRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * Project access is shared across an organization: any member can work on any of its projects.
+ * Organization projects go by current membership only, so members who leave lose access to the
+ * projects they created there too.
+ */
+export async function canAccessProject(project: Project, userId: string): Promise<boolean> {
+  if (!project.organizationId) {
+    return project.userId === userId;
+  }
+
+  const membership = await storage.getOrganizationMembership(userId);
+  return membership?.organization.id === project.organizationId;
+}
+
+/**
+ * The user whose subscription and credits a request draws on. Members of an organization
+ * use the owner's plan; everyone else uses their own.
+ */
+export async function getBillingContext(
+  user: User,
+): Promise<{ billingUser: User; organization?: Organization; role?: OrganizationRole }> {
+  const membership = await storage.getOrganizationMembership(user.id);
+  if (!membership || membership.organization.ownerId === user.id) {
+    return { billingUser: user, organization: membership?.organization, role: membership?.role };
+  }
+
+  const owner = await storage.getUser(membership.organization.ownerId);
+  if (!owner) {
+    throw new Error(`Owner of organization ${membership.organization.id} not found`);
+  }
+
+  return { billingUser: owner, organization: membership.organization, role: membership.role };
+}
@@ -0,0 +1,65 @@
+import type Stripe from 'stripe';
+import { StripePaymentProvider } from './stripe-payment-provider.js';
+import { FakePaymentProvider } from './fake-payment-provider.js';
+
+export interface PaymentRequestOptions {
+  idempotencyKey?: string;
+}
+
+/**
+ * Everything the app needs from a payment processor.
+ * Objects use Stripe's shapes so routes and the webhook handler work unchanged
+ * against the live Stripe API or the local fake (PAYMENT_PROVIDER=fake).
+ */
+export interface PaymentProvider {
+  readonly name: 'stripe' | 'fake';
+
+  // Customers
+  createCustomer(params: Stripe.CustomerCreateParams, options?: PaymentRequestOptions): Promise<Stripe.Customer>;
+
+  // Checkout
+  createCheckoutSession(params: Stripe.Checkout.SessionCreateParams, options?: PaymentRequestOptions): Promise<Stripe.Checkout.Session>;
+  retrieveCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session>;
+
+  // Subscriptions
+  retrieveSubscription(subscriptionId: string): Promise<Stripe.Subscription>;
+  listSubscriptions(customerId: string, status: Stripe.SubscriptionListParams.Status): Promise<Stripe.Subscription[]>;
+  updateSubscription(subscriptionId: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription>;
+  previewSubscriptionChange(subscription: Stripe.Subscription, priceId: string, prorationDate: number): Promise<{ amountDue: number; currency: string }>;
+  schedulePriceChangeAtPeriodEnd(subscription: Stripe.Subscription, priceId: string): Promise<void>;
+  releaseSubscriptionSchedule(scheduleId: string): Promise<void>;
+
+  // Billing portal, invoices and receipts
+  createPortalSession(customerId: string, returnUrl: string): Promise<{ url: string }>;
+  listInvoices(customerId: string, limit: number): Promise<Stripe.Invoice[]>;
+  getReceiptUrl(paymentIntentId: string): Promise<string | null>;
+
+  // Prices and products
+  findPriceByLookupKey(lookupKey: string): Promise<Stripe.Price | undefined>;
+  retrievePrice(priceId: string): Promise<Stripe.Price>;
+  retrieveProduct(productId: string): Promise<Stripe.Product>;
+
+  // Promotion codes (customer-facing codes for coupons)
+  findPromotionCode(code: string): Promise<Stripe.PromotionCode | undefined>;
+
+  // Webhooks
+  getWebhookSecret(): string | undefined;
+  constructWebhookEvent(payload: Buffer | string, signature: string | string[], secret: string): Stripe.Event;
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * The configured payment provider (Stripe unless PAYMENT_PROVIDER=fake)
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    if (process.env.PAYMENT_PROVIDER === 'fake') {
+      console.log('🧪 Using fake payment provider - no requests are sent to Stripe');
+      provider = new FakePaymentProvider();
+    } else {
+      provider = new StripePaymentProvider();
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,157 @@
+import type Stripe from 'stripe';
+import { storage } from '../storage.js';
+import { resolvePriceByStripeLookupKey, clearPriceCache } from './stripe-price-resolver.js';
+import type { BillingInterval, Plan } from '../../shared/schema.js';
+
+// Plans are read on every checkout/webhook, so keep a short-lived copy in memory.
+// Admin edits clear the cache, so allowance changes apply without a redeploy.
+let planCache: { plans: Plan[]; timestamp: number } | null = null;
+const CACHE_DURATION = 60 * 1000; // 1 minute
+
+async function loadPlans(): Promise<Plan[]> {
+  if (planCache && Date.now() - planCache.timestamp < CACHE_DURATION) {
+    return planCache.plans;
+  }
+
+  const plans = await storage.getPlans();
+  planCache = { plans, timestamp: Date.now() };
+  return plans;
+}
+
+/**
+ * Clear the plan cache (call after any admin change to the plans table)
+ */
+export function clearPlanCache(): void {
+  planCache = null;
+}
+
+/**
+ * All plans, including inactive ones (admin view)
+ */
+export async function getAllPlans(): Promise<Plan[]> {
+  return loadPlans();
+}
+
+/**
+ * Plans that can be shown on the pricing page and purchased
+ */
+export async function getActivePlans(): Promise<Plan[]> {
+  const plans = await loadPlans();
+  return plans.filter((plan) => plan.isActive);
+}
+
+/**
+ * Look up a plan by its tier key (the value stored in users.subscription_tier)
+ */
+export async function getPlanByKey(key: string | null | undefined): Promise<Plan | undefined> {
+  if (!key) return undefined;
+  const plans = await loadPlans();
+  return plans.find((plan) => plan.key === key);
+}
+
+/**
+ * Map a Stripe product ID (from a subscription item) back to its plan
+ */
+export async function getPlanByStripeProductId(productId: string | null | undefined): Promise<Plan | undefined> {
+  if (!productId) return undefined;
+  const plans = await loadPlans();
+  return plans.find((plan) => plan.stripeProductId === productId);
+}
+
+/**
+ * Pull the current price and product for a plan from Stripe using its lookup_key
+ */
+export async function syncPlanFromStripe(plan: Plan): Promise<Plan> {
+  const price = await resolvePriceByStripeLookupKey(plan.stripeLookupKey);
+  const productId = typeof price.product === 'string'
+    ? price.product
+    : (price.product as Stripe.Product).id;
+  // The extra video price is optional; without one the plan offers no overage purchases
+  const overagePrice = plan.overageLookupKey
+    ? await resolvePriceByStripeLookupKey(plan.overageLookupKey)
+    : undefined;
+  // Same for the yearly price; it must belong to the plan's product so subscriptions map back to the plan
+  const annualPrice = plan.annualLookupKey
+    ? await resolvePriceByStripeLookupKey(plan.annualLookupKey)
+    : undefined;
+  const annualProductId = annualPrice
+    ? typeof annualPrice.product === 'string'
+      ? annualPrice.product
+      : (annualPrice.product as Stripe.Product).id
+    : undefined;
+  if (annualProductId && annualProductId !== productId) {
+    throw new Error(
+      `Annual price ${plan.annualLookupKey} belongs to product ${annualProductId}, expected ${productId}`,
+    );
+  }
+
+  const updatedPlan = await storage.updatePlan(plan.id, {
+    stripeProductId: productId,
+    stripePriceId: price.id,
+    unitAmount: price.unit_amount,
+    currency: price.currency,
+    billingInterval: price.recurring?.interval || plan.billingInterval,
+    overageUnitAmount: overagePrice?.unit_amount ?? null,
+    annualPriceId: annualPrice?.id ?? null,
+    annualUnitAmount: annualPrice?.unit_amount ?? null,
+    syncedAt: new Date(),
+  });
+
+  clearPlanCache();
+  console.log(`✅ Synced plan ${plan.key} from Stripe: ${price.id} (${productId})`);
+
+  return updatedPlan || plan;
+}
+
+/**
+ * Lookup key of a plan's price for the given interval, or undefined if the plan isn't sold that way
+ */
+export function getPlanLookupKey(plan: Plan, interval: BillingInterval): string | undefined {
+  return interval === 'year' ? plan.annualLookupKey ?? undefined : plan.stripeLookupKey;
+}
+
+/**
+ * Price ID of a plan for the given interval, using the synced ID when available
+ */
+export async function getPlanPriceId(plan: Plan, interval: BillingInterval): Promise<string | undefined> {
+  const syncedPriceId = interval === 'year' ? plan.annualPriceId : plan.stripePriceId;
+  if (syncedPriceId) return syncedPriceId;
+
+  const lookupKey = getPlanLookupKey(plan, interval);
+  return lookupKey ? (await resolvePriceByStripeLookupKey(lookupKey)).id : undefined;
+}
+
+/**
+ * Price of one extra video for a plan, or undefined if the plan has no overage price
+ */
+export async function getOveragePrice(plan: Plan): Promise<Stripe.Price | undefined> {
+  if (!plan.overageLookupKey) return undefined;
+  return resolvePriceByStripeLookupKey(plan.overageLookupKey);
+}
+
+/**
+ * Sync every plan from Stripe. Failures are reported per plan instead of aborting the batch.
+ */
+export async function syncPlansFromStripe(): Promise<{ key: string; success: boolean; error?: string }[]> {
+  // Always fetch fresh prices when syncing explicitly
+  clearPriceCache();
+
+  const plans = await storage.getPlans();
+  const results: { key: string; success: boolean; error?: string }[] = [];
+
+  for (const plan of plans) {
+    try {
+      await syncPlanFromStripe(plan);
+      results.push({ key: plan.key, success: true });
+    } catch (error) {
+      console.error(`❌ Failed to sync plan ${plan.key} from Stripe:`, error);
+      results.push({
+        key: plan.key,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
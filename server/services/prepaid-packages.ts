@@ -0,0 +1,20 @@
+import type { PlanKey } from './stripe-price-resolver.js';
+
+export interface PrepaidPackageConfig {
+  name: string;
+  credits: number; // Video credits granted on purchase (credits never expire)
+}
+
+// Prepaid video packages sold as one-time Stripe payments.
+// Keys match PLAN_LOOKUP_KEYS so the price is resolved by lookup_key.
+export const PREPAID_PACKAGES = {
+  package_5: { name: '5 Video Package', credits: 5 },
+  package_10: { name: '10 Video Package', credits: 10 },
+  package_20: { name: '20 Video Package', credits: 20 },
+} satisfies Partial<Record<PlanKey, PrepaidPackageConfig>>;
+
+export type PrepaidPackageKey = keyof typeof PREPAID_PACKAGES;
+
+export function isPrepaidPackageKey(key: unknown): key is PrepaidPackageKey {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(PREPAID_PACKAGES, key);
+}
@@ -0,0 +1,182 @@
+import { basename } from 'path';
+import { Readable, type Writable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { storage } from '../storage.js';
+import { getMediaProvider } from './media-provider.js';
+import { ZipStreamWriter } from './zip-stream.js';
+import type { Project } from '../../shared/schema.js';
+
+export type ProjectArchiveKind = 'footage' | 'deliverable';
+
+export interface ProjectArchiveEntry {
+  assetId: string;
+  name: string;
+  kind: ProjectArchiveKind;
+  revisionNumber: number; // 0 for footage and deliveries made before any revision request
+  uploadedAt: Date;
+  fileSize: number | null;
+}
+
+interface ManifestRow {
+  entry: ProjectArchiveEntry;
+  path: string | null;
+  error: string | null;
+}
+
+const ARCHIVE_FOLDERS: Record<ProjectArchiveKind, string> = {
+  footage: 'Footage',
+  deliverable: 'Deliverables',
+};
+
+function toDate(value: unknown): Date {
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Every file in a project's media folder with its revision. Footage is what the client uploaded
+ * (project_files); anything else that arrived after the project went to the editor is a deliverable.
+ */
+export async function getProjectArchiveEntries(project: Project): Promise<ProjectArchiveEntry[]> {
+  const [files, revisions] = await Promise.all([
+    storage.getProjectFiles(project.id),
+    storage.getProjectRevisions(project.id),
+  ]);
+
+  // Latest revision requested at or before the date, so re-uploaded footage and later cuts land on the right round
+  const revisionAt = (date: Date): number =>
+    revisions.filter((revision) => revision.requestedAt <= date).pop()?.revisionNumber ?? 0;
+
+  const entries: ProjectArchiveEntry[] = [];
+  const footageIds = new Set<string>();
+  for (const file of files) {
+    if (!file.mediaAssetId) continue;
+    footageIds.add(file.mediaAssetId);
+    entries.push({
+      assetId: file.mediaAssetId,
+      name: file.filename,
+      kind: 'footage',
+      revisionNumber: revisionAt(file.uploadDate),
+      uploadedAt: file.uploadDate,
+      fileSize: file.fileSize,
+    });
+  }
+
+  if (project.mediaFolderId) {
+    const media = getMediaProvider();
+    await media.connect();
+    const assets = await media.getFolderAssets(project.mediaFolderId);
+
+    for (const asset of assets) {
+      if (asset.type === 'folder' || footageIds.has(asset.id)) continue;
+      const uploadedAt = toDate(asset.created_at);
+      const delivered = revisions.find((revision) => revision.deliveredAssetId === asset.id);
+      const isDeliverable =
+        !!delivered || (!!project.submittedToEditorAt && uploadedAt >= project.submittedToEditorAt);
+
+      entries.push({
+        assetId: asset.id,
+        name: asset.name,
+        kind: isDeliverable ? 'deliverable' : 'footage',
+        revisionNumber: delivered?.revisionNumber ?? revisionAt(uploadedAt),
+        uploadedAt,
+        fileSize: asset.file_size ?? asset.filesize ?? null,
+      });
+    }
+  }
+
+  return entries.sort(
+    (a, b) =>
+      (a.kind === b.kind ? 0 : a.kind === 'footage' ? -1 : 1) ||
+      a.revisionNumber - b.revisionNumber ||
+      a.uploadedAt.getTime() - b.uploadedAt.getTime(),
+  );
+}
+
+// File names come from uploads and the media provider; keep only the last segment so nothing
+// can climb out of its folder when the archive is extracted
+function archivePath(entry: ProjectArchiveEntry): string {
+  const name = basename(entry.name.replace(/\\/g, '/'));
+  return `${ARCHIVE_FOLDERS[entry.kind]}/${name && name !== '..' && name !== '.' ? name : entry.assetId}`;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function buildManifest(rows: ManifestRow[]): string {
+  const lines = [['File', 'Type', 'Revision', 'Uploaded', 'Size (bytes)', 'Status']];
+  for (const { entry, path, error } of rows) {
+    lines.push([
+      path ?? archivePath(entry),
+      entry.kind,
+      entry.revisionNumber === 0 ? 'Original' : `Revision ${entry.revisionNumber}`,
+      entry.uploadedAt.toISOString(),
+      entry.fileSize != null ? String(entry.fileSize) : '',
+      error ? `Not included: ${error}` : 'Included',
+    ]);
+  }
+  return lines.map((line) => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Download link body for an asset. Throws with a reason for the manifest when the file can't be fetched.
+ */
+async function openAssetDownload(assetId: string): Promise<Readable> {
+  const downloadUrl = await getMediaProvider().generateAssetDownloadLink(assetId);
+  if (!downloadUrl) {
+    throw new Error('no download link available');
+  }
+
+  const response = await fetch(downloadUrl);
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    throw new Error(`download failed (${response.status})`);
+  }
+  // Share pages come back as HTML when the platform won't hand out the original file
+  if (response.headers.get('content-type')?.includes('text/html')) {
+    await response.body.cancel();
+    throw new Error('file is not downloadable yet');
+  }
+  return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+}
+
+/**
+ * Stream the files as a ZIP (Footage/ and Deliverables/ folders plus manifest.csv) to out.
+ * Files are copied as they download, so nothing is held in memory. Files that can't be fetched are
+ * listed in the manifest instead; a failure partway through a file aborts the archive.
+ */
+export async function writeProjectArchive(entries: ProjectArchiveEntry[], out: Writable): Promise<void> {
+  const zip = new ZipStreamWriter(out);
+  const rows: ManifestRow[] = [];
+  await getMediaProvider().connect();
+
+  for (const entry of entries) {
+    let source: Readable;
+    try {
+      source = await openAssetDownload(entry.assetId);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Leaving ${entry.name} (${entry.assetId}) out of archive: ${reason}`);
+      rows.push({ entry, path: null, error: reason });
+      continue;
+    }
+
+    // Stop downloading as soon as the client goes away, even while waiting on the upstream
+    const stopDownload = () => source.destroy();
+    out.once('close', stopDownload);
+    try {
+      const path = await zip.addEntry(archivePath(entry), source, entry.uploadedAt);
+      rows.push({ entry, path, error: null });
+    } catch (error) {
+      source.destroy();
+      throw error;
+    } finally {
+      out.off('close', stopDownload);
+    }
+  }
+
+  await zip.addEntry('manifest.csv', [Buffer.from(buildManifest(rows), 'utf8')]);
+  await zip.finish();
+}
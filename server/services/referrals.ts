@@ -0,0 +1,55 @@
+import { storage } from '../storage.js';
+import { getReferralRewardCredits } from '../config/referrals.js';
+import type { Referral, User } from '../../shared/schema.js';
+
+export type RecordReferralResult =
+  | { success: true; referral: Referral }
+  | { success: false; reason: 'invalid_code' | 'self_referral' | 'existing_customer' | 'already_referred' };
+
+/**
+ * Referral codes are shown upper-case but accepted in any case
+ */
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Link a new user to whoever referred them. Only users who have never subscribed can be referred.
+ */
+export async function recordReferral(referredUser: User, code: string): Promise<RecordReferralResult> {
+  const referralCode = normalizeReferralCode(code);
+  const referrer = referralCode ? await storage.getUserByReferralCode(referralCode) : undefined;
+
+  if (!referrer) {
+    return { success: false, reason: 'invalid_code' };
+  }
+  if (referrer.id === referredUser.id) {
+    return { success: false, reason: 'self_referral' };
+  }
+  if (referredUser.stripeSubscriptionId) {
+    return { success: false, reason: 'existing_customer' };
+  }
+
+  const referral = await storage.createReferral(referrer.id, referredUser.id, referralCode);
+  if (!referral) {
+    return { success: false, reason: 'already_referred' };
+  }
+
+  console.log(`🤝 User ${referredUser.id} was referred by ${referrer.id} (${referralCode})`);
+  return { success: true, referral };
+}
+
+/**
+ * Reward both parties after the referred user's first paid subscription invoice.
+ * Safe to call for every invoice; a referral is only rewarded once.
+ */
+export async function rewardReferral(user: User, invoiceId: string): Promise<void> {
+  const rewardCredits = getReferralRewardCredits();
+  const referral = await storage.rewardReferral(user.id, invoiceId, rewardCredits);
+
+  if (referral) {
+    console.log(
+      `🎁 Referral ${referral.id} rewarded: ${rewardCredits} credit(s) each to ${referral.referrerId} and ${referral.referredUserId}`,
+    );
+  }
+}
@@ -0,0 +1,261 @@
+import { storage } from '../storage.js';
+import { frameioV4Service } from '../frameioV4Service.js';
+import { shareConfigService } from '../shareConfigService.js';
+import { getMediaProvider } from './media-provider.js';
+import { getShareRenewalLeadDays } from '../config/shareLinks.js';
+import type { Project, ShareLinkSettings, ShareLinkStatus } from '../../shared/schema.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHARE_LINK_TTL_DAYS = 30; // Same lifetime Frame.io shares are created with
+const PROJECT_ACCESS_DAYS = 365; // Projects can be managed for a year after creation
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // Check every hour
+const RENEWAL_RETRY_MAX_MS = DAY_MS; // Failed renewals back off from an hour, doubling up to a day
+
+let shareRenewalInterval: NodeJS.Timeout | null = null;
+
+export interface ShareLinkState {
+  url: string | null;
+  status: ShareLinkStatus | null; // null when the project has never had a share link
+  expiresAt: Date | null;
+  passwordProtected: boolean;
+  downloadsEnabled: boolean;
+  settingsSupported: boolean; // Password and download settings need Frame.io
+}
+
+/**
+ * End of the window in which the client can manage the project (and its links are kept alive)
+ */
+export function getProjectAccessEndsAt(project: Pick<Project, 'createdAt'>): Date {
+  return new Date(new Date(project.createdAt).getTime() + PROJECT_ACCESS_DAYS * DAY_MS);
+}
+
+/**
+ * Share link details for the dashboard. Links past their expiry read as expired before the worker marks them.
+ */
+export function getShareLinkState(project: Project): ShareLinkState {
+  const isPastExpiry = !!project.shareExpiresAt && project.shareExpiresAt.getTime() <= Date.now();
+  const status = project.shareStatus ?? (project.frameioReviewLink ? 'active' : null);
+
+  return {
+    url: status === 'revoked' ? null : project.frameioReviewLink,
+    status: status === 'active' && isPastExpiry ? 'expired' : status,
+    expiresAt: project.shareExpiresAt,
+    passwordProtected: project.sharePasswordProtected,
+    downloadsEnabled: project.shareDownloadsEnabled,
+    settingsSupported: getMediaProvider().name === 'frameio',
+  };
+}
+
+// A renewed link never outlives the project's access window
+function nextShareExpiry(project: Project): Date {
+  const renewed = Date.now() + SHARE_LINK_TTL_DAYS * DAY_MS;
+  return new Date(Math.min(renewed, getProjectAccessEndsAt(project).getTime()));
+}
+
+/**
+ * The delivered video behind the project's share link, if known
+ */
+export async function getSharedVideoAssetId(project: Project): Promise<string | null> {
+  if (project.frameioVideoAssetId) {
+    return project.frameioVideoAssetId;
+  }
+  if (!project.frameioReviewShareId) {
+    return null;
+  }
+  const [shareAsset] = await storage.getFrameioShareAssetsByShareId(project.frameioReviewShareId);
+  return shareAsset?.assetId ?? null;
+}
+
+/**
+ * Replace the project's share link with a new one (new URL) and retire the old share.
+ * Frame.io links get the given password and download settings; without a password the new link is open.
+ */
+export async function regenerateProjectShare(project: Project, settings: ShareLinkSettings = {}): Promise<Project> {
+  const assetId = await getSharedVideoAssetId(project);
+  if (!assetId) {
+    throw new Error(`Project ${project.id} has no delivered video to share`);
+  }
+
+  const media = getMediaProvider();
+  await media.connect();
+  const shareLink = await media.createAssetShareLink(assetId, `${project.title} - Video Review`, true);
+  const downloadsEnabled = settings.downloadsEnabled ?? project.shareDownloadsEnabled;
+  const expiresAt = nextShareExpiry(project);
+
+  if (media.name === 'frameio') {
+    const accountId = await frameioV4Service.getAccountId();
+    const applied = await shareConfigService.updateShareSettings(shareLink.id, accountId, {
+      expiresAt,
+      password: settings.password ?? null,
+      downloadsEnabled,
+    });
+    if (!applied) {
+      // Never hand out a link without the protection that was asked for
+      await shareConfigService.deleteShare(shareLink.id, accountId);
+      throw new Error(`Could not apply link settings to new share for project ${project.id}`);
+    }
+    if (project.frameioReviewShareId && project.frameioReviewShareId !== shareLink.id) {
+      await shareConfigService.deleteShare(project.frameioReviewShareId, accountId);
+    }
+    await storage.createFrameioShareAsset({
+      shareId: shareLink.id,
+      projectId: project.id,
+      assetId,
+      assetType: 'file',
+      parentFolderId: project.mediaFolderId || '',
+    });
+  }
+
+  const updated = await storage.updateProjectShareState(project.id, {
+    frameioReviewLink: shareLink.url,
+    frameioReviewShareId: shareLink.id,
+    frameioVideoAssetId: assetId,
+    shareStatus: 'active',
+    shareExpiresAt: media.name === 'frameio' ? expiresAt : shareLink.expiresAt ?? expiresAt,
+    shareRenewalFailures: 0,
+    shareRenewalRetryAt: null,
+    sharePasswordProtected: media.name === 'frameio' && !!settings.password,
+    shareDownloadsEnabled: downloadsEnabled,
+  });
+
+  console.log(`🔗 Regenerated share link for project ${project.id}: ${shareLink.url}`);
+  return updated!;
+}
+
+/**
+ * Push the share link's expiry out again. Frame.io shares are extended in place so links already sent
+ * in emails keep working; when that isn't possible the link is regenerated.
+ */
+export async function renewProjectShare(project: Project): Promise<Project> {
+  if (getProjectAccessEndsAt(project).getTime() <= Date.now()) {
+    throw new Error(`Project ${project.id} is past its access window; share links are no longer renewed`);
+  }
+  const expiresAt = nextShareExpiry(project);
+  const media = getMediaProvider();
+
+  if (media.name === 'frameio' && project.frameioReviewShareId) {
+    await media.connect();
+    const accountId = await frameioV4Service.getAccountId();
+    if (await shareConfigService.updateShareSettings(project.frameioReviewShareId, accountId, { expiresAt })) {
+      console.log(`⏰ Renewed share link for project ${project.id} until ${expiresAt.toISOString()}`);
+      return (await storage.updateProjectShareState(project.id, {
+        shareStatus: 'active',
+        shareExpiresAt: expiresAt,
+        shareRenewalFailures: 0,
+        shareRenewalRetryAt: null,
+      }))!;
+    }
+  }
+
+  // A regenerated link can't carry the old password, so protected links wait for the client to regenerate them
+  if (project.sharePasswordProtected) {
+    throw new Error(`Share link for project ${project.id} is password protected and could not be extended`);
+  }
+  return regenerateProjectShare(project);
+}
+
+/**
+ * Turn off the project's share link. The dashboard offers to regenerate it.
+ */
+export async function revokeProjectShare(project: Project): Promise<Project> {
+  const media = getMediaProvider();
+  if (media.name === 'frameio' && project.frameioReviewShareId) {
+    await media.connect();
+    const accountId = await frameioV4Service.getAccountId();
+    if (!(await shareConfigService.deleteShare(project.frameioReviewShareId, accountId))) {
+      throw new Error(`Could not delete share ${project.frameioReviewShareId} for project ${project.id}`);
+    }
+  }
+  // Local links are signed URLs that can't be withdrawn individually; forgetting them stops them being handed out
+
+  console.log(`🚫 Revoked share link for project ${project.id}`);
+  return (await storage.updateProjectShareState(project.id, {
+    frameioVideoAssetId: await getSharedVideoAssetId(project), // Kept so the link can be regenerated
+    frameioReviewLink: null,
+    frameioReviewShareId: null,
+    shareStatus: 'revoked',
+    shareExpiresAt: null,
+    sharePasswordProtected: false,
+  }))!;
+}
+
+/**
+ * Change password protection or download permission on the current (Frame.io) share link
+ */
+export async function updateProjectShareSettings(project: Project, settings: ShareLinkSettings): Promise<Project> {
+  if (!project.frameioReviewShareId) {
+    throw new Error(`Project ${project.id} has no share link`);
+  }
+
+  await frameioV4Service.connect();
+  const accountId = await frameioV4Service.getAccountId();
+  if (!(await shareConfigService.updateShareSettings(project.frameioReviewShareId, accountId, settings))) {
+    throw new Error(`Could not update share settings for project ${project.id}`);
+  }
+
+  return (await storage.updateProjectShareState(project.id, {
+    ...(settings.password !== undefined && { sharePasswordProtected: settings.password !== null }),
+    ...(settings.downloadsEnabled !== undefined && { shareDownloadsEnabled: settings.downloadsEnabled }),
+  }))!;
+}
+
+async function runShareRenewalChecks(): Promise<void> {
+  const now = new Date();
+  const renewBefore = new Date(now.getTime() + getShareRenewalLeadDays() * DAY_MS);
+  const accessStartedAfter = new Date(now.getTime() - PROJECT_ACCESS_DAYS * DAY_MS);
+
+  for (const project of await storage.getProjectsDueShareRenewal(renewBefore, accessStartedAfter)) {
+    try {
+      await renewProjectShare(project);
+    } catch (error) {
+      // Keep trying (the link may still be renewable once the provider recovers), just less often each time
+      const failures = project.shareRenewalFailures + 1;
+      const retryAt = new Date(
+        now.getTime() + Math.min(CHECK_INTERVAL_MS * 2 ** (failures - 1), RENEWAL_RETRY_MAX_MS),
+      );
+      console.error(
+        `❌ Failed to renew share link for project ${project.id} (attempt ${failures}, retrying after ${retryAt.toISOString()}):`,
+        error,
+      );
+      await storage.updateProjectShareState(project.id, {
+        shareRenewalFailures: failures,
+        shareRenewalRetryAt: retryAt,
+      });
+    }
+  }
+
+  // Whatever wasn't renewed (access window over, or renewal failed) is shown as expired
+  const expired = await storage.expireShareLinks(now);
+  if (expired.length > 0) {
+    console.log(`⌛ Marked ${expired.length} share links as expired`);
+  }
+}
+
+export function startShareRenewalWorker(): void {
+  if (shareRenewalInterval) {
+    console.log('🔗 Share renewal: Already running');
+    return;
+  }
+
+  console.log('🚀 Starting share link renewal service...');
+
+  runShareRenewalChecks().catch((error) => {
+    console.error('❌ Initial share renewal check failed:', error);
+  });
+
+  shareRenewalInterval = setInterval(() => {
+    runShareRenewalChecks().catch((error) => {
+      console.error('❌ Scheduled share renewal check failed:', error);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log('✅ Share link renewal service started (checking every hour)');
+}
+
+export function stopShareRenewalWorker(): void {
+  if (shareRenewalInterval) {
+    clearInterval(shareRenewalInterval);
+    shareRenewalInterval = null;
+    console.log('🛑 Share link renewal service stopped');
+  }
+}
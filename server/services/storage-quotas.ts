@@ -0,0 +1,105 @@
+import { storage, type StorageUsage } from '../storage.js';
+import { getBillingContext } from './organizations.js';
+import { hasSubscriptionAccess } from './dunning.js';
+import { getPlanByKey } from './plan-catalog.js';
+import { getDefaultAccountStorageGb, getDefaultProjectStorageGb } from '../config/storageQuotas.js';
+import type { Project } from '../../shared/schema.js';
+
+const GB = 1024 * 1024 * 1024;
+
+export type StorageQuotaScope = 'project' | 'account';
+
+export interface StorageQuotaUsage {
+  limitBytes: number;
+  usedBytes: number;
+  reservedBytes: number;
+  remainingBytes: number;
+}
+
+export interface StorageQuotas {
+  planName: string | null;
+  project: StorageQuotaUsage;
+  account: StorageQuotaUsage;
+}
+
+function toQuotaUsage(limitBytes: number, usage: StorageUsage): StorageQuotaUsage {
+  return {
+    limitBytes,
+    usedBytes: usage.uploadedBytes,
+    reservedBytes: usage.reservedBytes,
+    remainingBytes: Math.max(0, limitBytes - usage.uploadedBytes - usage.reservedBytes),
+  };
+}
+
+export function formatStorageGb(bytes: number): string {
+  const gb = bytes / GB;
+  return `${gb >= 10 ? Math.round(gb) : Math.round(gb * 10) / 10} GB`;
+}
+
+/**
+ * Raw footage limits and usage for a project and the account it belongs to. Limits come from the
+ * plan of whoever pays for the project (the organization owner for team projects), plus admin grants.
+ */
+export async function getStorageQuotas(project: Project): Promise<StorageQuotas> {
+  const owner = await storage.getUser(project.userId);
+  if (!owner) {
+    throw new Error(`Owner of project ${project.id} not found`);
+  }
+
+  const { billingUser, organization } = await getBillingContext(owner);
+  const plan = hasSubscriptionAccess(billingUser)
+    ? await getPlanByKey(billingUser.subscriptionTier)
+    : undefined;
+
+  const grants = await storage.getStorageQuotaGrants(billingUser.id);
+  const accountGrantBytes = grants
+    .filter((grant) => grant.projectId === null)
+    .reduce((total, grant) => total + grant.extraBytes, 0);
+  const projectGrantBytes = grants
+    .filter((grant) => grant.projectId === project.id)
+    .reduce((total, grant) => total + grant.extraBytes, 0);
+
+  // Team projects count against the organization, personal projects against the owner
+  const accountOrganizationId = project.organizationId ? organization?.id ?? project.organizationId : undefined;
+  const [projectUsage, accountUsage] = await Promise.all([
+    storage.getProjectStorageUsage(project.id),
+    storage.getAccountStorageUsage(owner.id, accountOrganizationId),
+  ]);
+
+  const projectLimit = (plan?.projectStorageGb ?? getDefaultProjectStorageGb()) * GB + projectGrantBytes;
+  const accountLimit = (plan?.accountStorageGb ?? getDefaultAccountStorageGb()) * GB + accountGrantBytes;
+
+  return {
+    planName: plan?.name ?? null,
+    project: toQuotaUsage(projectLimit, projectUsage),
+    account: toQuotaUsage(accountLimit, accountUsage),
+  };
+}
+
+/**
+ * The first quota a new upload of this size would go over, with a message the uploader can act on
+ */
+export function getExceededQuota(
+  quotas: StorageQuotas,
+  fileSize: number,
+): { scope: StorageQuotaScope; message: string } | null {
+  const upgradeHint = quotas.planName
+    ? 'Delete old footage, upgrade your plan, or contact support for more space.'
+    : 'Subscribe to a plan or contact support for more space.';
+
+  if (fileSize > quotas.project.remainingBytes) {
+    return {
+      scope: 'project',
+      message: `This file (${formatStorageGb(fileSize)}) exceeds the project's storage limit: ${formatStorageGb(quotas.project.remainingBytes)} of ${formatStorageGb(quotas.project.limitBytes)} remaining. ${upgradeHint}`,
+    };
+  }
+
+  if (fileSize > quotas.account.remainingBytes) {
+    return {
+      scope: 'account',
+      message: `This file (${formatStorageGb(fileSize)}) exceeds your account's storage limit: ${formatStorageGb(quotas.account.remainingBytes)} of ${formatStorageGb(quotas.account.limitBytes)} remaining across all projects. ${upgradeHint}`,
+    };
+  }
+
+  return null;
+}
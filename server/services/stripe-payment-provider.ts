@@ -0,0 +1,152 @@
+import Stripe from 'stripe';
+import type { PaymentProvider, PaymentRequestOptions } from './payment-provider.js';
+
+/**
+ * PaymentProvider backed by the live Stripe API (default)
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  private stripe: Stripe;
+
+  constructor() {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
+    }
+    this.stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2024-06-20' as any,
+    });
+  }
+
+  async createCustomer(params: Stripe.CustomerCreateParams, options?: PaymentRequestOptions): Promise<Stripe.Customer> {
+    return this.stripe.customers.create(params, options);
+  }
+
+  async createCheckoutSession(
+    params: Stripe.Checkout.SessionCreateParams,
+    options?: PaymentRequestOptions,
+  ): Promise<Stripe.Checkout.Session> {
+    return this.stripe.checkout.sessions.create(params, options);
+  }
+
+  async retrieveCheckoutSession(sessionId: string): Promise<Stripe.Checkout.Session> {
+    return this.stripe.checkout.sessions.retrieve(sessionId);
+  }
+
+  async retrieveSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    return this.stripe.subscriptions.retrieve(subscriptionId);
+  }
+
+  async listSubscriptions(customerId: string, status: Stripe.SubscriptionListParams.Status): Promise<Stripe.Subscription[]> {
+    const subscriptions = await this.stripe.subscriptions.list({
+      customer: customerId,
+      status,
+      limit: 1,
+    });
+    return subscriptions.data;
+  }
+
+  async updateSubscription(subscriptionId: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription> {
+    return this.stripe.subscriptions.update(subscriptionId, params);
+  }
+
+  async previewSubscriptionChange(
+    subscription: Stripe.Subscription,
+    priceId: string,
+    prorationDate: number,
+  ): Promise<{ amountDue: number; currency: string }> {
+    const invoice = await this.stripe.invoices.createPreview({
+      customer: subscription.customer as string,
+      subscription: subscription.id,
+      subscription_details: {
+        items: [{ id: subscription.items.data[0].id, price: priceId }],
+        proration_behavior: 'always_invoice',
+        proration_date: prorationDate,
+      },
+    });
+    return { amountDue: invoice.amount_due, currency: invoice.currency };
+  }
+
+  // Keep the current price until the period ends, then switch without proration
+  async schedulePriceChangeAtPeriodEnd(subscription: Stripe.Subscription, priceId: string): Promise<void> {
+    const item = subscription.items.data[0];
+    const schedule = await this.stripe.subscriptionSchedules.create({
+      from_subscription: subscription.id,
+    });
+    const currentPhase = schedule.phases[0];
+
+    await this.stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: 'release',
+      phases: [
+        {
+          items: [{ price: item.price.id, quantity: item.quantity ?? 1 }],
+          start_date: currentPhase.start_date,
+          end_date: currentPhase.end_date,
+        },
+        {
+          items: [{ price: priceId, quantity: 1 }],
+          iterations: 1,
+          proration_behavior: 'none',
+        },
+      ],
+    });
+  }
+
+  async releaseSubscriptionSchedule(scheduleId: string): Promise<void> {
+    await this.stripe.subscriptionSchedules.release(scheduleId);
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string): Promise<{ url: string }> {
+    const session = await this.stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+    });
+    return { url: session.url };
+  }
+
+  async listInvoices(customerId: string, limit: number): Promise<Stripe.Invoice[]> {
+    const invoices = await this.stripe.invoices.list({ customer: customerId, limit });
+    return invoices.data;
+  }
+
+  async getReceiptUrl(paymentIntentId: string): Promise<string | null> {
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId, {
+      expand: ['latest_charge'],
+    });
+    const charge = paymentIntent.latest_charge as Stripe.Charge | null;
+    return charge?.receipt_url ?? null;
+  }
+
+  async findPriceByLookupKey(lookupKey: string): Promise<Stripe.Price | undefined> {
+    const prices = await this.stripe.prices.list({
+      lookup_keys: [lookupKey],
+      active: true,
+      limit: 1,
+    });
+    return prices.data[0];
+  }
+
+  async retrievePrice(priceId: string): Promise<Stripe.Price> {
+    return this.stripe.prices.retrieve(priceId, { expand: ['product'] });
+  }
+
+  async retrieveProduct(productId: string): Promise<Stripe.Product> {
+    return this.stripe.products.retrieve(productId);
+  }
+
+  async findPromotionCode(code: string): Promise<Stripe.PromotionCode | undefined> {
+    const promotionCodes = await this.stripe.promotionCodes.list({
+      code,
+      active: true,
+      limit: 1,
+    });
+    return promotionCodes.data[0];
+  }
+
+  getWebhookSecret(): string | undefined {
+    return process.env.STRIPE_WEBHOOK_SECRET;
+  }
+
+  constructWebhookEvent(payload: Buffer | string, signature: string | string[], secret: string): Stripe.Event {
+    return this.stripe.webhooks.constructEvent(payload, signature, secret);
+  }
+}
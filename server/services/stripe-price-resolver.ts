@@ -1,20 +1,14 @@
-import Stripe from 'stripe';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
-  apiVersion: '2024-06-20' as any,
-});
+import type Stripe from 'stripe';
+import { getPaymentProvider } from './payment-provider.js';
 
 // Map internal plan names to Stripe lookup_keys
 // These lookup_keys must match across test and live environments in Stripe
+// Subscription plan lookup_keys are stored on the plans table (see plan-catalog.ts)
 export const PLAN_LOOKUP_KEYS = {
-  // Subscription plans
-  basic_monthly: 'tier_1_launch',
-  standard_monthly: 'tier_2_launch',
-  premium_monthly: 'tier_3_launch',
-  
-  // Prepaid packages (for future use)
+  // Prepaid packages (see prepaid-packages.ts for credit counts)
   package_5: 'package_5_videos',
   package_10: 'package_10_videos',
+  package_20: 'package_20_videos',
   
   // One-time payments
   revision_payment: 'revision_launch',
@@ -32,8 +26,13 @@ const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
  * Returns the price object which includes the ID needed for checkout/subscription
  */
 export async function resolvePriceByLookupKey(planKey: PlanKey): Promise<Stripe.Price> {
-  const lookupKey = PLAN_LOOKUP_KEYS[planKey];
-  
+  return resolvePriceByStripeLookupKey(PLAN_LOOKUP_KEYS[planKey]);
+}
+
+/**
+ * Resolve a Stripe price by a raw lookup_key string (e.g. one stored on a plan row)
+ */
+export async function resolvePriceByStripeLookupKey(lookupKey: string): Promise<Stripe.Price> {
   // Check cache first
   const cached = priceCache.get(lookupKey);
   if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
@@ -45,17 +44,12 @@ export async function resolvePriceByLookupKey(planKey: PlanKey): Promise<Stripe.
     console.log(`🔍 Resolving price for lookup_key: ${lookupKey}`);
     
     // Fetch prices with the lookup_key filter
-    const prices = await stripe.prices.list({
-      lookup_keys: [lookupKey],
-      active: true,
-      limit: 1,
-    });
+    const price = await getPaymentProvider().findPriceByLookupKey(lookupKey);
     
-    if (prices.data.length === 0) {
+    if (!price) {
       throw new Error(`No active price found for lookup_key: ${lookupKey}`);
     }
     
-    const price = prices.data[0];
     console.log(`✅ Resolved price: ${price.id} for lookup_key: ${lookupKey}`);
     
     // Cache the result
@@ -108,46 +102,25 @@ export function clearPriceCache(): void {
  * Get product information from a price
  */
 export async function getProductFromPrice(priceId: string): Promise<Stripe.Product> {
-  const price = await stripe.prices.retrieve(priceId, {
-    expand: ['product'],
-  });
+  const payments = getPaymentProvider();
+  const price = await payments.retrievePrice(priceId);
   
   if (typeof price.product === 'string') {
     // Product wasn't expanded, fetch it separately
-    return await stripe.products.retrieve(price.product);
+    return await payments.retrieveProduct(price.product);
   }
   
   return price.product as Stripe.Product;
 }
 
-/**
- * Map tier names to plan keys
- */
-export function tierToPlanKey(tier: string): PlanKey {
-  const tierMap: Record<string, PlanKey> = {
-    'basic': 'basic_monthly',
-    'standard': 'standard_monthly',
-    'premium': 'premium_monthly',
-  };
-  
-  const planKey = tierMap[tier];
-  if (!planKey) {
-    throw new Error(`Invalid tier: ${tier}`);
-  }
-  
-  return planKey;
-}
-
 /**
  * Map plan names to plan keys
  */
 export function planNameToPlanKey(planName: string): PlanKey {
   const nameMap: Record<string, PlanKey> = {
-    'Creative Spark': 'basic_monthly',
-    'Consistency Club': 'standard_monthly',
-    'Growth Accelerator': 'premium_monthly',
     '5 Video Package': 'package_5',
     '10 Video Package': 'package_10',
+    '20 Video Package': 'package_20',
   };
   
   const planKey = nameMap[planName];
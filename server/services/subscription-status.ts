@@ -0,0 +1,20 @@
+import type Stripe from 'stripe';
+
+/**
+ * Status we store in users.subscriptionStatus for a Stripe subscription.
+ * Stripe keeps paused-collection subscriptions "active", so pauses are mapped to "paused".
+ */
+export function getLocalSubscriptionStatus(subscription: Stripe.Subscription): string {
+  if (subscription.status === 'active' && subscription.pause_collection) {
+    return 'paused';
+  }
+  return subscription.status;
+}
+
+/**
+ * When a paused subscription resumes billing, or null if it isn't paused or has no end date
+ */
+export function getPauseResumesAt(subscription: Stripe.Subscription): Date | null {
+  const resumesAt = subscription.pause_collection?.resumes_at;
+  return resumesAt ? new Date(resumesAt * 1000) : null;
+}
@@ -4,6 +4,7 @@ import { db } from '../db.js';
 import { trelloCards, trelloConfig, projects, users, tallyFormSubmissions } from '../../shared/schema.js';
 import { eq, and, desc } from 'drizzle-orm';
 import { frameioV4Service } from '../frameioV4Service.js';
+import { backfillFootageMetadata, getProjectFootageSummary } from './media-metadata.js';
 
 export class TrelloAutomationService {
   private static instance: TrelloAutomationService;
@@ -146,13 +147,26 @@ export class TrelloAutomationService {
       // Get user subscription info
       const subscriptionTier = user.subscriptionTier || 'Free';
 
+      // Footage totals so the editor can size the job before opening Frame.io. Only what's already been
+      // extracted is used; files still missing metadata are probed in the background for the dashboard.
+      let footageSummary: string | null = null;
+      try {
+        footageSummary = await getProjectFootageSummary(projectId);
+      } catch (error) {
+        console.error(`⚠️ Failed to summarize footage for project ${projectId}:`, error instanceof Error ? error.message : error);
+      }
+      backfillFootageMetadata(projectId).catch((error) => {
+        console.error(`⚠️ Failed to backfill footage metadata for project ${projectId}:`, error);
+      });
+
       // Format card data
       const cardData = trelloService.formatProjectCard(
         project, 
         user, 
         { tier: subscriptionTier },
         frameioLink,
-        parsedTallyData
+        parsedTallyData,
+        footageSummary
       );
 
       // Get subscription label ID
@@ -429,7 +429,7 @@ export class TrelloService {
   }
 
   // Format project data for Trello card
-  formatProjectCard(project: any, user: any, subscription: any, frameioLink: string, tallyData?: any): {
+  formatProjectCard(project: any, user: any, subscription: any, frameioLink: string, tallyData?: any, footageSummary?: string | null): {
     name: string;
     desc: string;
     start?: string; // ISO date string for Trello start date (submission date)
@@ -439,7 +439,7 @@ export class TrelloService {
     let description = `**Project ID:** ${project.id}
 **Client:** ${user.firstName} ${user.lastName}
 **Footage Link:** ${frameioLink}
-
+${footageSummary ? `**Footage:** ${footageSummary}\n` : ''}
 ---
 `;
 
@@ -0,0 +1,100 @@
+import { storage } from '../storage.js';
+import { deleteFrameioAsset } from '../frameioUpload.js';
+import type { UploadSession } from '../../shared/schema.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+// An active session with no progress for this long is abandoned; each confirmed chunk pushes it back
+const UPLOAD_SESSION_IDLE_MS = 24 * HOUR_MS;
+// Hard limit so a session never outlives its upload link (local provider links last 7 days)
+const UPLOAD_SESSION_MAX_AGE_MS = 7 * 24 * HOUR_MS;
+const CHECK_INTERVAL_MS = HOUR_MS; // Sweep every hour
+const SWEEP_BATCH_SIZE = 50;
+
+let sweeperInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Expiry for a session that just made progress: idle timeout from now, capped at the maximum session age
+ */
+export function getUploadSessionExpiry(createdAt: Date = new Date()): Date {
+  return new Date(Math.min(Date.now() + UPLOAD_SESSION_IDLE_MS, createdAt.getTime() + UPLOAD_SESSION_MAX_AGE_MS));
+}
+
+/**
+ * What the upload interface needs to start or continue sending bytes
+ */
+export function toUploadSessionResponse(session: UploadSession) {
+  return {
+    sessionId: session.id,
+    uploadUrl: session.uploadUrl,
+    assetId: session.assetId,
+    videoUri: session.assetId,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    mimeType: session.mimeType,
+    fileLastModified: session.fileLastModified,
+    bytesUploaded: session.bytesUploaded,
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Delete the partial asset behind an upload the user gave up on and close the session
+ */
+export async function discardUploadSession(
+  session: UploadSession,
+  status: Extract<UploadSession['status'], 'canceled' | 'abandoned'>,
+): Promise<void> {
+  // A fully sent file that was never completed is still footage; keep it rather than lose it
+  if (session.bytesUploaded < session.fileSize) {
+    const deleted = await deleteFrameioAsset(session.assetId);
+    if (!deleted) {
+      console.warn(`⚠️ Could not delete partial upload asset ${session.assetId} for session ${session.id}`);
+    }
+  }
+
+  await storage.updateUploadSession(session.id, { status });
+}
+
+async function sweepAbandonedUploadSessions(): Promise<void> {
+  const expired = await storage.getExpiredUploadSessions(new Date(), SWEEP_BATCH_SIZE);
+
+  for (const session of expired) {
+    try {
+      await discardUploadSession(session, 'abandoned');
+      console.log(
+        `🧹 Abandoned upload session ${session.id} cleaned up: "${session.fileName}" (${session.bytesUploaded}/${session.fileSize} bytes, project ${session.projectId})`,
+      );
+    } catch (error) {
+      console.error(`❌ Failed to clean up upload session ${session.id}:`, error);
+    }
+  }
+}
+
+export function startUploadSessionSweeper(): void {
+  if (sweeperInterval) {
+    console.log('🧹 Upload session sweeper: Already running');
+    return;
+  }
+
+  console.log('🚀 Starting upload session sweeper...');
+
+  sweepAbandonedUploadSessions().catch((error) => {
+    console.error('❌ Initial upload session sweep failed:', error);
+  });
+
+  sweeperInterval = setInterval(() => {
+    sweepAbandonedUploadSessions().catch((error) => {
+      console.error('❌ Scheduled upload session sweep failed:', error);
+    });
+  }, CHECK_INTERVAL_MS);
+
+  console.log('✅ Upload session sweeper started (checking every hour)');
+}
+
+export function stopUploadSessionSweeper(): void {
+  if (sweeperInterval) {
+    clearInterval(sweeperInterval);
+    sweeperInterval = null;
+    console.log('🛑 Upload session sweeper stopped');
+  }
+}
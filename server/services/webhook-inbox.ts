@@ -0,0 +1,152 @@
+import { storage } from '../storage.js';
+import type { WebhookEvent, InsertWebhookEvent } from '../../shared/schema.js';
+
+export type WebhookEventHandler = (payload: any) => Promise<void>;
+
+// Delay before each automatic retry; the event is left failed after the last one
+const RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  6 * 60 * 60 * 1000, // 6 hours
+];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+// A claimed event that is still "processing" after this long is assumed lost (e.g. process restart)
+const PROCESSING_LEASE_MS = 10 * 60 * 1000;
+const POLL_INTERVAL_MS = 30 * 1000;
+const POLL_BATCH_SIZE = 20;
+
+const handlers = new Map<string, WebhookEventHandler>();
+let pollInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Register the function that applies events for a provider (e.g. 'stripe')
+ */
+export function registerWebhookHandler(provider: string, handler: WebhookEventHandler): void {
+  handlers.set(provider, handler);
+}
+
+/**
+ * Record a verified webhook event and process it in the background.
+ * Returns duplicate: true when the provider redelivered an event we already have.
+ */
+export async function enqueueWebhookEvent(
+  provider: string,
+  eventId: string,
+  eventType: string,
+  payload: unknown,
+): Promise<{ duplicate: boolean; event?: WebhookEvent }> {
+  const event = await storage.recordWebhookEvent({
+    provider,
+    eventId,
+    eventType,
+    payload: payload as InsertWebhookEvent['payload'],
+  });
+
+  if (!event) {
+    console.log(`⏭️ Duplicate ${provider} webhook skipped: ${eventId} (${eventType})`);
+    return { duplicate: true };
+  }
+
+  setImmediate(() => {
+    processWebhookEvent(event.id).catch((error) => {
+      console.error(`❌ Webhook event ${event.id} processing error:`, error);
+    });
+  });
+
+  return { duplicate: false, event };
+}
+
+/**
+ * Claim and apply a single event. Failures are scheduled for retry with backoff.
+ */
+export async function processWebhookEvent(id: number): Promise<WebhookEvent['status'] | undefined> {
+  const event = await storage.claimWebhookEvent(id, PROCESSING_LEASE_MS);
+  if (!event) {
+    // Already processed, not due yet, or being handled by another worker
+    return undefined;
+  }
+
+  const handler = handlers.get(event.provider);
+
+  try {
+    if (!handler) {
+      throw new Error(`No webhook handler registered for provider "${event.provider}"`);
+    }
+
+    await handler(event.payload);
+    await storage.completeWebhookEvent(event.id);
+    console.log(`✅ Webhook event ${event.eventId} (${event.eventType}) processed`);
+    return 'succeeded';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const delay = event.attempts < MAX_ATTEMPTS ? RETRY_DELAYS_MS[event.attempts - 1] : undefined;
+    const nextAttemptAt = delay !== undefined ? new Date(Date.now() + delay) : null;
+
+    await storage.failWebhookEvent(event.id, message, nextAttemptAt);
+
+    if (nextAttemptAt) {
+      console.error(
+        `⚠️ Webhook event ${event.eventId} (${event.eventType}) failed on attempt ${event.attempts}, retrying at ${nextAttemptAt.toISOString()}:`,
+        message,
+      );
+    } else {
+      console.error(
+        `❌ Webhook event ${event.eventId} (${event.eventType}) failed after ${event.attempts} attempts, giving up:`,
+        message,
+      );
+    }
+    return 'failed';
+  }
+}
+
+/**
+ * Reset an event's retry budget and process it immediately (admin replay)
+ */
+export async function replayWebhookEvent(id: number): Promise<WebhookEvent | undefined> {
+  const reset = await storage.resetWebhookEvent(id);
+  if (!reset) return undefined;
+
+  console.log(`🔁 Replaying webhook event ${reset.eventId} (${reset.eventType})`);
+  await processWebhookEvent(reset.id);
+  return storage.getWebhookEvent(reset.id);
+}
+
+async function processDueWebhookEvents(): Promise<void> {
+  const dueEvents = await storage.getDueWebhookEvents(POLL_BATCH_SIZE);
+
+  for (const event of dueEvents) {
+    await processWebhookEvent(event.id);
+  }
+}
+
+export function startWebhookWorker(): void {
+  if (pollInterval) {
+    console.log('📬 Webhook worker: Already running');
+    return;
+  }
+
+  console.log('🚀 Starting webhook worker...');
+
+  // Pick up anything left pending by a previous process
+  processDueWebhookEvents().catch((error) => {
+    console.error('❌ Initial webhook retry pass failed:', error);
+  });
+
+  pollInterval = setInterval(() => {
+    processDueWebhookEvents().catch((error) => {
+      console.error('❌ Webhook retry pass failed:', error);
+    });
+  }, POLL_INTERVAL_MS);
+
+  console.log(`✅ Webhook worker started (polling every ${POLL_INTERVAL_MS / 1000} seconds)`);
+}
+
+export function stopWebhookWorker(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+    console.log('🛑 Webhook worker stopped');
+  }
+}
@@ -0,0 +1,194 @@
+import { once } from 'events';
+import { crc32 } from 'zlib';
+import type { Writable } from 'stream';
+
+// ZIP signatures and fields (PKWARE APPNOTE). Entries are stored uncompressed: footage is already
+// compressed, and stored entries can be written as the bytes arrive.
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+const VERSION_ZIP64 = 45;
+const FLAG_DATA_DESCRIPTOR = 0x0008; // Sizes and CRC follow the data
+const FLAG_UTF8_NAMES = 0x0800;
+const METHOD_STORED = 0;
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+
+interface CentralDirectoryEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Writes a ZIP archive to a stream one entry at a time, so archives of any size are never held in memory.
+ * Every entry uses ZIP64 sizes, which keeps files over 4GB (common for raw footage) valid.
+ */
+export class ZipStreamWriter {
+  private offset = 0;
+  private entries: CentralDirectoryEntry[] = [];
+  private names = new Set<string>();
+
+  constructor(private readonly out: Writable) {}
+
+  private async write(chunk: Buffer | Uint8Array): Promise<void> {
+    if (this.out.destroyed) {
+      throw new Error('Archive stream closed by the client');
+    }
+    this.offset += chunk.length;
+    if (!this.out.write(chunk)) {
+      await this.waitForDrain();
+    }
+  }
+
+  // A client that disconnects closes the stream without 'drain' (or always 'error'), so closing ends the wait too
+  private async waitForDrain(): Promise<void> {
+    const controller = new AbortController();
+    try {
+      await Promise.race([
+        once(this.out, 'drain', { signal: controller.signal }),
+        once(this.out, 'close', { signal: controller.signal }),
+      ]);
+    } finally {
+      controller.abort();
+    }
+    if (this.out.destroyed) {
+      throw new Error('Archive stream closed by the client');
+    }
+  }
+
+  // Keep earlier entries with the same name ("clip.mp4", "clip (1).mp4", ...)
+  private uniqueName(name: string): string {
+    const dot = name.lastIndexOf('.');
+    const hasExtension = dot > name.lastIndexOf('/') + 1;
+    const base = hasExtension ? name.slice(0, dot) : name;
+    const ext = hasExtension ? name.slice(dot) : '';
+    let candidate = name;
+    for (let copy = 1; this.names.has(candidate); copy++) {
+      candidate = `${base} (${copy})${ext}`;
+    }
+    this.names.add(candidate);
+    return candidate;
+  }
+
+  /**
+   * Add a file, copying the source as it is read. Returns the name used in the archive.
+   */
+  async addEntry(name: string, source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>, modifiedAt: Date = new Date()): Promise<string> {
+    const entryName = this.uniqueName(name);
+    const nameBytes = Buffer.from(entryName, 'utf8');
+    const { dosTime, dosDate } = toDosDateTime(modifiedAt);
+    const offset = this.offset;
+
+    // Sizes aren't known yet: 0xFFFFFFFF points readers at the ZIP64 extra field, itself zero until the descriptor
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(VERSION_ZIP64, 4);
+    header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAMES, 6);
+    header.writeUInt16LE(METHOD_STORED, 8);
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt32LE(0, 14);
+    header.writeUInt32LE(MAX_UINT32, 18);
+    header.writeUInt32LE(MAX_UINT32, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+    header.writeUInt16LE(20, 28);
+    const extra = Buffer.alloc(20);
+    extra.writeUInt16LE(ZIP64_EXTRA_FIELD, 0);
+    extra.writeUInt16LE(16, 2);
+    await this.write(Buffer.concat([header, nameBytes, extra]));
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of source) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      await this.write(chunk);
+    }
+
+    const descriptor = Buffer.alloc(24);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeBigUInt64LE(BigInt(size), 8);
+    descriptor.writeBigUInt64LE(BigInt(size), 16);
+    await this.write(descriptor);
+
+    this.entries.push({ name: nameBytes, crc, size, offset, dosTime, dosDate });
+    return entryName;
+  }
+
+  /**
+   * Write the central directory and end the stream
+   */
+  async finish(): Promise<void> {
+    const centralDirectoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(VERSION_ZIP64, 4);
+      header.writeUInt16LE(VERSION_ZIP64, 6);
+      header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAMES, 8);
+      header.writeUInt16LE(METHOD_STORED, 10);
+      header.writeUInt16LE(entry.dosTime, 12);
+      header.writeUInt16LE(entry.dosDate, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(MAX_UINT32, 20);
+      header.writeUInt32LE(MAX_UINT32, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt16LE(28, 30);
+      header.writeUInt32LE(MAX_UINT32, 42);
+      const extra = Buffer.alloc(28);
+      extra.writeUInt16LE(ZIP64_EXTRA_FIELD, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(entry.size), 4);
+      extra.writeBigUInt64LE(BigInt(entry.size), 12);
+      extra.writeBigUInt64LE(BigInt(entry.offset), 20);
+      await this.write(Buffer.concat([header, entry.name, extra]));
+    }
+
+    const centralDirectorySize = this.offset - centralDirectoryOffset;
+    const zip64EndOffset = this.offset;
+
+    const zip64End = Buffer.alloc(56);
+    zip64End.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY, 0);
+    zip64End.writeBigUInt64LE(BigInt(44), 4);
+    zip64End.writeUInt16LE(VERSION_ZIP64, 12);
+    zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+    zip64End.writeBigUInt64LE(BigInt(this.entries.length), 24);
+    zip64End.writeBigUInt64LE(BigInt(this.entries.length), 32);
+    zip64End.writeBigUInt64LE(BigInt(centralDirectorySize), 40);
+    zip64End.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(ZIP64_END_LOCATOR, 0);
+    locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+    locator.writeUInt32LE(1, 16);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(MAX_UINT16, 8);
+    end.writeUInt16LE(MAX_UINT16, 10);
+    end.writeUInt32LE(MAX_UINT32, 12);
+    end.writeUInt32LE(MAX_UINT32, 16);
+
+    await this.write(Buffer.concat([zip64End, locator, end]));
+    this.out.end();
+  }
+}
@@ -57,6 +57,65 @@ export class ShareConfigService {
     }
   }
   
+  /**
+   * Update expiry, password and download permission on an existing share. Settings left out are unchanged.
+   * @param shareId Frame.io share ID
+   * @param accountId Frame.io account ID
+   * @param settings password: null removes the password
+   */
+  async updateShareSettings(
+    shareId: string,
+    accountId: string,
+    settings: { expiresAt?: Date; password?: string | null; downloadsEnabled?: boolean }
+  ): Promise<boolean> {
+    try {
+      console.log(`⚙️ Updating settings on share ${shareId}...`);
+      
+      await frameioV4Service.loadServiceAccountToken();
+      
+      const data: Record<string, unknown> = {};
+      if (settings.expiresAt) {
+        data.expiration = settings.expiresAt.toISOString();
+      }
+      if (settings.password !== undefined) {
+        data.passphrase = settings.password;
+      }
+      if (settings.downloadsEnabled !== undefined) {
+        data.downloading_enabled = settings.downloadsEnabled;
+      }
+      
+      await frameioV4Service.makeRequest('PATCH', `/accounts/${accountId}/shares/${shareId}`, { data });
+      
+      console.log(`✅ Share ${shareId} updated: ${Object.keys(data).join(', ')}`);
+      return true;
+      
+    } catch (error) {
+      console.error(`❌ Failed to update settings on share ${shareId}:`, error);
+      return false;
+    }
+  }
+  
+  /**
+   * Delete a share so its public link stops working
+   * @param shareId Frame.io share ID
+   * @param accountId Frame.io account ID
+   */
+  async deleteShare(shareId: string, accountId: string): Promise<boolean> {
+    try {
+      console.log(`🗑️ Deleting share ${shareId}...`);
+      
+      await frameioV4Service.loadServiceAccountToken();
+      await frameioV4Service.makeRequest('DELETE', `/accounts/${accountId}/shares/${shareId}`);
+      
+      console.log(`✅ Share ${shareId} deleted`);
+      return true;
+      
+    } catch (error) {
+      console.error(`❌ Failed to delete share ${shareId}:`, error);
+      return false;
+    }
+  }
+  
   /**
    * Get current comment settings for a share
    * @param shareId Frame.io share ID or f.io URL
@@ -6,6 +6,23 @@ import {
   emailSignups,
   tallyFormSubmissions,
   revisionPayments,
+  prepaidPackagePurchases,
+  overagePurchases,
+  referrals,
+  cancellationSurveys,
+  organizations,
+  organizationMembers,
+  organizationInvitations,
+  creditLedger,
+  projectRevisions,
+  uploadSessions,
+  storageQuotaGrants,
+  mediaMetadata,
+  downloadArchives,
+  plans,
+  webhookEvents,
+  assetCheckJobs,
+  jobRuns,
   frameioShareAssets,
   oauthStates,
   serviceTokens,
@@ -23,13 +40,84 @@ import {
   type InsertTallyFormSubmission,
   type RevisionPayment,
   type InsertRevisionPayment,
+  type PrepaidPackagePurchase,
+  type InsertPrepaidPackagePurchase,
+  type OveragePurchase,
+  type InsertOveragePurchase,
+  type Referral,
+  type CancellationSurvey,
+  type CancellationReason,
+  type CancellationOutcome,
+  type BillingInterval,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMember,
+  type OrganizationRole,
+  type OrganizationInvitation,
+  type CreditLedgerEntry,
+  type InsertCreditLedgerEntry,
+  type CreditType,
+  type PlanRevisionScope,
+  type ProjectRevision,
+  type InsertProjectRevision,
+  type UploadSession,
+  type InsertUploadSession,
+  type StorageQuotaGrant,
+  type InsertStorageQuotaGrant,
+  type MediaMetadata,
+  type InsertMediaMetadata,
+  type MediaMetadataRole,
+  type DownloadArchive,
+  type Plan,
+  type InsertPlan,
+  type WebhookEvent,
+  type InsertWebhookEvent,
+  type AssetCheckJob,
+  type JobRun,
+  type InsertJobRun,
+  type JobRunTrigger,
   type FrameioShareAsset,
   type InsertFrameioShareAsset
 } from "../shared/schema";
+import {
+  PROJECT_STATUS,
+  assertProjectStatusTransition,
+  normalizeProjectStatus,
+  type ProjectStatus,
+  type ProjectStatusActor,
+} from "../shared/projectStatus";
 import { db } from "./db";
-import { eq, and, desc, inArray, lt, sql } from "drizzle-orm";
+import { eq, and, or, desc, gt, gte, inArray, notInArray, isNull, isNotNull, lt, lte, ne, sql, type SQL } from "drizzle-orm";
 import { randomBytes } from "crypto";
 
+export type OrganizationMemberWithUser = OrganizationMember & {
+  email: string;
+  firstName: string;
+  lastName: string;
+};
+
+// Share link fields changed by renewal, revocation and link settings
+export type ProjectShareState = Partial<
+  Pick<
+    Project,
+    | "frameioReviewLink"
+    | "frameioReviewShareId"
+    | "frameioVideoAssetId"
+    | "shareStatus"
+    | "shareExpiresAt"
+    | "sharePasswordProtected"
+    | "shareDownloadsEnabled"
+    | "shareRenewalFailures"
+    | "shareRenewalRetryAt"
+  >
+>;
+
+// Bytes of raw footage counted against a storage quota
+export interface StorageUsage {
+  uploadedBytes: number;
+  reservedBytes: number;
+}
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
@@ -41,23 +129,65 @@ export interface IStorage {
   // Project methods
   getProject(id: number): Promise<Project | undefined>;
   getProjectsByUser(userId: string): Promise<Project[]>;
-  getProjectsByStatus(statuses: string[]): Promise<Project[]>;
-  createProject(userId: string, project: InsertProject): Promise<Project>;
-  updateProject(id: number, updates: UpdateProject): Promise<Project | undefined>;
+  getAccessibleProjects(userId: string): Promise<Project[]>;
+  getProjectsByStatus(statuses: ProjectStatus[]): Promise<Project[]>;
+  getProjectByMediaFolderId(mediaFolderId: string): Promise<Project | undefined>;
+  createProject(userId: string, project: InsertProject, organization?: Organization): Promise<Project>;
+  startProjectEditWithCredit(
+    userId: string,
+    projectId: number,
+    updates: UpdateProject,
+    creditTypes: CreditType[],
+    organization?: Organization
+  ): Promise<{ project: Project; creditType: CreditType | null } | undefined>;
+  updateProject(id: number, updates: UpdateProject, actor?: ProjectStatusActor): Promise<Project | undefined>;
   updateProjectMediaInfo(id: number, mediaFolderId: string, userFolderUri?: string): Promise<void>;
-  updateProjectShareLink(projectId: number, shareId: string, shareUrl: string): Promise<Project | undefined>;
+  updateProjectShareLink(
+    projectId: number,
+    shareId: string,
+    shareUrl: string,
+    videoMetadata?: { filename: string; fileSize: number; fileType: string; assetId: string },
+    expiresAt?: Date | null
+  ): Promise<Project | undefined>;
+  updateProjectShareState(projectId: number, state: ProjectShareState): Promise<Project | undefined>;
+  getProjectsDueShareRenewal(renewBefore: Date, createdAfter: Date): Promise<Project[]>;
+  expireShareLinks(now: Date): Promise<Project[]>;
   deleteProject(id: number): Promise<void>;
 
   // Project file methods
   getProjectFiles(projectId: number): Promise<ProjectFile[]>;
   getProjectFilesByProjectId(projectId: number): Promise<ProjectFile[]>;
+  getProjectFileByContentHash(projectId: number, contentHash: string): Promise<ProjectFile | undefined>;
   createProjectFile(file: InsertProjectFile): Promise<ProjectFile>;
   updateProjectFile(id: number, updates: Partial<ProjectFile>): Promise<ProjectFile | undefined>;
   deleteProjectFile(id: number): Promise<void>;
 
+  // Upload session methods
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: number): Promise<UploadSession | undefined>;
+  getUploadSessionByAssetId(assetId: string): Promise<UploadSession | undefined>;
+  getActiveUploadSessions(projectId: number): Promise<UploadSession[]>;
+  getExpiredUploadSessions(now: Date, limit: number): Promise<UploadSession[]>;
+  updateUploadSession(id: number, updates: Partial<Pick<UploadSession, 'bytesUploaded' | 'status' | 'expiresAt' | 'completedAt'>>): Promise<UploadSession | undefined>;
+
+  // Storage quota methods
+  getProjectStorageUsage(projectId: number): Promise<StorageUsage>;
+  getAccountStorageUsage(userId: string, organizationId?: number): Promise<StorageUsage>;
+  createStorageQuotaGrant(grant: InsertStorageQuotaGrant): Promise<StorageQuotaGrant>;
+  getStorageQuotaGrants(userId: string): Promise<StorageQuotaGrant[]>;
+
+  // Media metadata methods
+  upsertMediaMetadata(metadata: InsertMediaMetadata): Promise<MediaMetadata>;
+  getMediaMetadata(projectIds: number[], role?: MediaMetadataRole): Promise<MediaMetadata[]>;
+  getProjectFilesWithoutMetadata(projectId: number): Promise<ProjectFile[]>;
+
+  // Download archive methods
+  createDownloadArchive(archive: Pick<DownloadArchive, 'projectId' | 'userId' | 'assetIds' | 'expiresAt'>): Promise<DownloadArchive>;
+  getDownloadArchive(token: string): Promise<DownloadArchive | undefined>;
+
   // Project status methods
   logStatusChange(projectId: number, oldStatus: string | null, newStatus: string): Promise<ProjectStatusLog>;
-  logProjectStatusChange(projectId: number, oldStatus: string | null, newStatus: string): Promise<ProjectStatusLog>;
+  logProjectStatusChange(projectId: number, oldStatus: string | null, newStatus: string, actor?: ProjectStatusActor): Promise<ProjectStatusLog>;
   getProjectStatusHistory(projectId: number): Promise<ProjectStatusLog[]>;
 
   // Email signup methods
@@ -76,21 +206,143 @@ export interface IStorage {
     stripeSubscriptionId?: string;
     subscriptionStatus?: string;
     subscriptionTier?: string | null;
-    subscriptionUsage?: number;
-    subscriptionAllowance?: number;
     subscriptionPeriodStart?: Date;
     subscriptionPeriodEnd?: Date;
+    billingInterval?: BillingInterval;
+    allowancePeriodStart?: Date;
+    nextAllowanceGrantAt?: Date | null;
+    cancelAtPeriodEnd?: boolean;
+    pauseResumesAt?: Date | null;
+    scheduledPlanKey?: string | null;
   }): Promise<User | undefined>;
   getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined>;
-  incrementUserUsage(userId: string): Promise<User | undefined>;
-  resetUserUsage(userId: string): Promise<User | undefined>;
+
+  // Dunning methods
+  startGracePeriod(userId: string, gracePeriodEndsAt: Date): Promise<User | undefined>;
+  clearGracePeriod(userId: string): Promise<void>;
+  getUsersInGracePeriod(): Promise<User[]>;
+  recordDunningRemindersSent(userId: string, count: number): Promise<void>;
+  getUsersDueAllowanceGrant(now: Date): Promise<User[]>;
+  advanceAllowancePeriod(userId: string, dueAt: Date, nextGrantAt: Date | null): Promise<User | undefined>;
+  getUsersDueRenewalReminder(renewsBefore: Date): Promise<User[]>;
+  recordRenewalReminderSent(userId: string): Promise<void>;
+
+  // Credit ledger methods
+  getCreditBalances(userId: string): Promise<Record<CreditType, number>>;
+  getCreditLedger(userId: string): Promise<CreditLedgerEntry[]>;
+  addCreditLedgerEntry(entry: InsertCreditLedgerEntry): Promise<CreditLedgerEntry | undefined>;
+  grantSubscriptionPeriodCredits(
+    userId: string,
+    sourceId: string,
+    allowance: number,
+    rollover: number,
+    note?: string,
+    sourceType?: "stripe_invoice" | "allowance_schedule"
+  ): Promise<CreditLedgerEntry | undefined>;
+  topUpSubscriptionCredits(userId: string, allowance: number, periodStart: Date, subscriptionId: string, note?: string): Promise<CreditLedgerEntry | undefined>;
+  expireCredits(userId: string, creditType: CreditType, sourceType: InsertCreditLedgerEntry['sourceType'], sourceId: string, note?: string): Promise<CreditLedgerEntry | undefined>;
+  refundProjectCredit(projectId: number, note?: string): Promise<CreditLedgerEntry | undefined>;
+  countCreditsConsumedSince(userId: string, creditType: CreditType, since: Date): Promise<number>;
 
   // Revision payment methods
   createRevisionPayment(userId: string, payment: InsertRevisionPayment): Promise<RevisionPayment>;
   getRevisionPayment(sessionId: string): Promise<RevisionPayment | undefined>;
   getRevisionPaymentsByProject(projectId: number): Promise<RevisionPayment[]>;
+  getRevisionPaymentsByUser(userId: string): Promise<(RevisionPayment & { projectTitle: string })[]>;
   updateRevisionPaymentStatus(sessionId: string, status: string, paymentIntentId?: string, paidAt?: Date): Promise<RevisionPayment | undefined>;
 
+  // Prepaid package methods
+  createPrepaidPackagePurchase(userId: string, purchase: InsertPrepaidPackagePurchase): Promise<PrepaidPackagePurchase>;
+  getPrepaidPackagePurchase(sessionId: string): Promise<PrepaidPackagePurchase | undefined>;
+  getPrepaidPackagePurchasesByUser(userId: string): Promise<PrepaidPackagePurchase[]>;
+  completePrepaidPackagePurchase(sessionId: string, paymentIntentId?: string): Promise<PrepaidPackagePurchase | undefined>;
+
+  // Overage purchase methods
+  createOveragePurchase(userId: string, purchase: InsertOveragePurchase): Promise<OveragePurchase>;
+  getOveragePurchase(sessionId: string): Promise<OveragePurchase | undefined>;
+  getOveragePurchasesByUser(userId: string): Promise<OveragePurchase[]>;
+  completeOveragePurchase(sessionId: string, paymentIntentId?: string): Promise<{ purchase: OveragePurchase; project: Project } | undefined>;
+
+  // Referral methods
+  getOrCreateReferralCode(userId: string): Promise<string>;
+  getUserByReferralCode(referralCode: string): Promise<User | undefined>;
+  createReferral(referrerId: string, referredUserId: string, referralCode: string): Promise<Referral | undefined>;
+  getReferralByReferredUser(referredUserId: string): Promise<Referral | undefined>;
+  getReferralsByReferrer(referrerId: string): Promise<Referral[]>;
+
+  // Cancellation survey methods
+  createCancellationSurvey(
+    userId: string,
+    survey: { reason: CancellationReason; details?: string; outcome: CancellationOutcome; planKey: string | null; stripeSubscriptionId: string | null }
+  ): Promise<CancellationSurvey>;
+  getCancellationSurveys(limit: number): Promise<(CancellationSurvey & { email: string })[]>;
+  rewardReferral(referredUserId: string, invoiceId: string, rewardCredits: number): Promise<Referral | undefined>;
+
+  // Organization methods
+  createOrganization(ownerId: string, organization: InsertOrganization): Promise<Organization>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  updateOrganization(id: number, updates: Partial<InsertOrganization>): Promise<Organization | undefined>;
+  getOrganizationMembership(userId: string): Promise<{ organization: Organization; role: OrganizationRole } | undefined>;
+  getOrganizationMembers(organizationId: number): Promise<OrganizationMemberWithUser[]>;
+  updateOrganizationMemberRole(organizationId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined>;
+  removeOrganizationMember(organizationId: number, userId: string): Promise<OrganizationMember | undefined>;
+  createOrganizationInvitation(
+    organizationId: number,
+    invitedBy: string,
+    email: string,
+    role: OrganizationRole,
+    expiresAt: Date
+  ): Promise<OrganizationInvitation>;
+  getOrganizationInvitationByToken(token: string): Promise<OrganizationInvitation | undefined>;
+  getPendingOrganizationInvitations(organizationId: number): Promise<OrganizationInvitation[]>;
+  revokeOrganizationInvitation(organizationId: number, invitationId: number): Promise<OrganizationInvitation | undefined>;
+  acceptOrganizationInvitation(token: string, userId: string): Promise<OrganizationMember | undefined>;
+
+  // Project revision history methods
+  startProjectRevision(
+    projectId: number,
+    revision: Omit<InsertProjectRevision, "projectId" | "revisionNumber">
+  ): Promise<{ project: Project; revision: ProjectRevision }>;
+  reserveIncludedRevision(
+    projectId: number,
+    allowance: { billingUserId: string; included: number; per: PlanRevisionScope; since: Date; organizationId?: number }
+  ): Promise<{ project: Project; used: number } | undefined>;
+  getProjectRevisions(projectId: number): Promise<ProjectRevision[]>;
+  getOpenProjectRevision(projectId: number): Promise<ProjectRevision | undefined>;
+  updateProjectRevision(id: number, updates: Partial<Pick<ProjectRevision, 'instructions' | 'revisionPaymentId' | 'trelloCardId' | 'deliveredAssetId' | 'deliveredAt'>>): Promise<ProjectRevision | undefined>;
+  markProjectRevisionDelivered(projectId: number, deliveredAssetId: string): Promise<ProjectRevision | undefined>;
+  countIncludedProjectRevisions(projectId: number): Promise<number>;
+  countIncludedUserRevisionsSince(userId: string, since: Date, organizationId?: number): Promise<number>;
+
+  // Plan catalog methods
+  getPlans(): Promise<Plan[]>;
+  getPlan(id: number): Promise<Plan | undefined>;
+  createPlan(plan: InsertPlan): Promise<Plan>;
+  updatePlan(id: number, updates: Partial<Omit<Plan, 'id' | 'key' | 'createdAt' | 'updatedAt'>>): Promise<Plan | undefined>;
+  deletePlan(id: number): Promise<void>;
+  countUsersOnPlan(planKey: string): Promise<number>;
+
+  // Webhook inbox methods
+  recordWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent | undefined>;
+  getWebhookEvent(id: number): Promise<WebhookEvent | undefined>;
+  getWebhookEvents(filters?: { provider?: string; status?: WebhookEvent['status']; limit?: number }): Promise<WebhookEvent[]>;
+  getDueWebhookEvents(limit: number): Promise<WebhookEvent[]>;
+  claimWebhookEvent(id: number, leaseMs: number): Promise<WebhookEvent | undefined>;
+  completeWebhookEvent(id: number): Promise<void>;
+  failWebhookEvent(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  resetWebhookEvent(id: number): Promise<WebhookEvent | undefined>;
+
+  // Asset detection queue and job run history
+  syncAssetCheckJobs(statuses: ProjectStatus[]): Promise<void>;
+  requestAssetCheck(projectId: number, trigger: JobRunTrigger): Promise<void>;
+  requestAllAssetChecks(trigger: JobRunTrigger): Promise<number>;
+  getDueAssetCheckJobs(limit: number): Promise<AssetCheckJob[]>;
+  claimAssetCheckJob(id: number, leaseMs: number): Promise<AssetCheckJob | undefined>;
+  completeAssetCheckJob(id: number, leaseUntil: Date, nextRunAt: Date, error?: string): Promise<void>;
+  deleteAssetCheckJob(projectId: number): Promise<void>;
+  recordJobRun(run: InsertJobRun): Promise<JobRun>;
+  getJobRuns(filters?: { jobType?: string; projectId?: number; status?: JobRun['status']; limit?: number }): Promise<JobRun[]>;
+
   // OAuth state methods
   createOAuthState(state: string, provider: string, expiresInMinutes: number): Promise<void>;
   validateAndConsumeOAuthState(state: string, provider: string): Promise<boolean>;
@@ -152,7 +404,23 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(projects.createdAt));
   }
 
-  async getProjectsByStatus(statuses: string[]): Promise<Project[]> {
+  // The user's personal projects plus every project of their current organization
+  async getAccessibleProjects(userId: string): Promise<Project[]> {
+    const membership = await this.getOrganizationMembership(userId);
+    // Projects created in an organization stay with it when their creator leaves
+    const personalProjects = and(eq(projects.userId, userId), isNull(projects.organizationId));
+    return await this.db
+      .select()
+      .from(projects)
+      .where(
+        membership
+          ? or(personalProjects, eq(projects.organizationId, membership.organization.id))
+          : personalProjects
+      )
+      .orderBy(desc(projects.createdAt));
+  }
+
+  async getProjectsByStatus(statuses: ProjectStatus[]): Promise<Project[]> {
     return await this.db
       .select()
       .from(projects)
@@ -160,12 +428,22 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(projects.createdAt));
   }
 
-  async createProject(userId: string, project: InsertProject): Promise<Project> {
+  async getProjectByMediaFolderId(mediaFolderId: string): Promise<Project | undefined> {
+    const [project] = await this.db
+      .select()
+      .from(projects)
+      .where(eq(projects.mediaFolderId, mediaFolderId));
+    return project || undefined;
+  }
+
+  // Projects created inside an organization belong to it
+  async createProject(userId: string, project: InsertProject, organization?: Organization): Promise<Project> {
     const [newProject] = await this.db
       .insert(projects)
       .values({
         ...project,
         userId,
+        organizationId: organization?.id ?? null,
       })
       .returning();
 
@@ -174,6 +452,74 @@ export class DatabaseStorage implements IStorage {
 
     return newProject;
   }
+  // Moves the project to "edit in progress" and records the credit it consumed in one transaction,
+  // so drafts that never reach the editor cost nothing. creditTypes is the order to draw from;
+  // returns undefined if none of them has a balance. Organization projects spend the owner's credits.
+  // Projects that already have a consumption (extra video purchases, or drafts from before credits
+  // were taken on submission) aren't charged again and come back with a null creditType.
+  async startProjectEditWithCredit(
+    userId: string,
+    projectId: number,
+    updates: UpdateProject,
+    creditTypes: CreditType[],
+    organization?: Organization
+  ): Promise<{ project: Project; creditType: CreditType | null } | undefined> {
+    const creditUserId = organization?.ownerId ?? userId;
+
+    return this.db.transaction(async (tx) => {
+      // Serialize credit spending per credit owner, and submissions per project
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, creditUserId)).for("update");
+      const [project] = await tx.select().from(projects).where(eq(projects.id, projectId)).for("update");
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      const status = assertProjectStatusTransition(project.status, PROJECT_STATUS.EDIT_IN_PROGRESS, "user");
+
+      const [existingConsumption] = await tx
+        .select({ id: creditLedger.id })
+        .from(creditLedger)
+        .where(
+          and(
+            eq(creditLedger.entryType, "consumption"),
+            eq(creditLedger.sourceType, "project"),
+            eq(creditLedger.sourceId, projectId.toString())
+          )
+        );
+
+      let creditType: CreditType | null = null;
+      if (!existingConsumption) {
+        const balances = await this.sumCreditBalances(tx, creditUserId);
+        const available = creditTypes.find((type) => balances[type] > 0);
+        if (!available) return undefined;
+        creditType = available;
+
+        await tx.insert(creditLedger).values({
+          userId: creditUserId,
+          entryType: "consumption",
+          creditType,
+          amount: -1,
+          sourceType: "project",
+          sourceId: projectId.toString(),
+          note: creditUserId !== userId ? `Requested by team member ${userId}` : undefined,
+        });
+      }
+
+      const [updatedProject] = await tx
+        .update(projects)
+        .set({ ...updates, status, updatedAt: updates.updatedAt || new Date() })
+        .where(eq(projects.id, projectId))
+        .returning();
+
+      await tx.insert(projectStatusLog).values({
+        projectId,
+        oldStatus: normalizeProjectStatus(project.status),
+        newStatus: status,
+      });
+
+      return { project: updatedProject, creditType };
+    });
+  }
+
 
   async updateProjectMediaInfo(projectId: number, mediaFolderId: string, mediaUserFolderId?: string): Promise<void> {
     const updateData: any = { mediaFolderId: mediaFolderId };
@@ -188,14 +534,30 @@ export class DatabaseStorage implements IStorage {
   }
 
 
-  async updateProject(id: number, updates: UpdateProject): Promise<Project | undefined> {
+  /**
+   * Update a project. Status changes are validated against the shared state
+   * machine for the given actor (defaults to "system") and written in their
+   * canonical form; illegal transitions throw before anything is written.
+   */
+  async updateProject(id: number, updates: UpdateProject, actor: ProjectStatusActor = "system"): Promise<Project | undefined> {
     const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
     if (!project) return undefined;
 
+    let status: ProjectStatus | undefined;
+    if (updates.status) {
+      const current = normalizeProjectStatus(project.status);
+      const requested = normalizeProjectStatus(updates.status);
+      // Re-applying the current status is a no-op rather than a transition
+      status = requested && requested === current
+        ? requested
+        : assertProjectStatusTransition(project.status, updates.status, actor);
+    }
+
     const [updatedProject] = await this.db
       .update(projects)
       .set({
         ...updates,
+        ...(status && { status }),
         // Only set updatedAt to current time if not explicitly provided in updates
         updatedAt: updates.updatedAt || new Date(),
       })
@@ -203,8 +565,8 @@ export class DatabaseStorage implements IStorage {
       .returning();
 
     // Log status change if status was updated
-    if (updates.status && updates.status !== project.status) {
-      await this.logStatusChange(id, project.status, updates.status);
+    if (status && status !== normalizeProjectStatus(project.status)) {
+      await this.logStatusChange(id, project.status, status);
     }
 
     return updatedProject;
@@ -227,6 +589,16 @@ export class DatabaseStorage implements IStorage {
     return this.getProjectFiles(projectId);
   }
 
+  async getProjectFileByContentHash(projectId: number, contentHash: string): Promise<ProjectFile | undefined> {
+    const [file] = await this.db
+      .select()
+      .from(projectFiles)
+      .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.contentHash, contentHash)))
+      .orderBy(projectFiles.uploadDate)
+      .limit(1);
+    return file;
+  }
+
   async createProjectFile(file: InsertProjectFile): Promise<ProjectFile> {
     const [newFile] = await this.db
       .insert(projectFiles)
@@ -244,6 +616,179 @@ export class DatabaseStorage implements IStorage {
     return updatedFile || undefined;
   }
 
+  // Storage quota methods
+  // Uploaded = completed project files; reserved = full size of uploads still in progress
+  private async getStorageUsage(projectCondition: SQL | undefined): Promise<StorageUsage> {
+    const [uploaded] = await this.db
+      .select({ bytes: sql<number>`coalesce(sum(${projectFiles.fileSize}), 0)::float8` })
+      .from(projectFiles)
+      .innerJoin(projects, eq(projectFiles.projectId, projects.id))
+      .where(projectCondition);
+    const [reserved] = await this.db
+      .select({ bytes: sql<number>`coalesce(sum(${uploadSessions.fileSize}), 0)::float8` })
+      .from(uploadSessions)
+      .innerJoin(projects, eq(uploadSessions.projectId, projects.id))
+      .where(
+        and(
+          projectCondition,
+          eq(uploadSessions.status, "active"),
+          gt(uploadSessions.expiresAt, new Date())
+        )
+      );
+    return { uploadedBytes: uploaded?.bytes ?? 0, reservedBytes: reserved?.bytes ?? 0 };
+  }
+
+  async getProjectStorageUsage(projectId: number): Promise<StorageUsage> {
+    return this.getStorageUsage(eq(projects.id, projectId));
+  }
+
+  // An organization's projects count against the team; otherwise the user's personal projects
+  async getAccountStorageUsage(userId: string, organizationId?: number): Promise<StorageUsage> {
+    return this.getStorageUsage(
+      organizationId
+        ? eq(projects.organizationId, organizationId)
+        : and(eq(projects.userId, userId), isNull(projects.organizationId))
+    );
+  }
+
+  async createStorageQuotaGrant(grant: InsertStorageQuotaGrant): Promise<StorageQuotaGrant> {
+    const [created] = await this.db.insert(storageQuotaGrants).values(grant).returning();
+    return created;
+  }
+
+  async getStorageQuotaGrants(userId: string): Promise<StorageQuotaGrant[]> {
+    return this.db
+      .select()
+      .from(storageQuotaGrants)
+      .where(eq(storageQuotaGrants.userId, userId))
+      .orderBy(desc(storageQuotaGrants.createdAt));
+  }
+
+  // Media metadata methods
+  async upsertMediaMetadata(metadata: InsertMediaMetadata): Promise<MediaMetadata> {
+    const [row] = await this.db
+      .insert(mediaMetadata)
+      .values(metadata)
+      .onConflictDoUpdate({
+        target: mediaMetadata.mediaAssetId,
+        set: { ...metadata, extractedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async getMediaMetadata(projectIds: number[], role?: MediaMetadataRole): Promise<MediaMetadata[]> {
+    if (projectIds.length === 0) {
+      return [];
+    }
+    return this.db
+      .select()
+      .from(mediaMetadata)
+      .where(
+        and(
+          inArray(mediaMetadata.projectId, projectIds),
+          role ? eq(mediaMetadata.role, role) : undefined
+        )
+      )
+      .orderBy(mediaMetadata.extractedAt);
+  }
+
+  // Uploaded footage that has never been probed, e.g. files from before metadata extraction existed
+  // (files already probed without result are left out)
+  async getProjectFilesWithoutMetadata(projectId: number): Promise<ProjectFile[]> {
+    const rows = await this.db
+      .select({ file: projectFiles })
+      .from(projectFiles)
+      .leftJoin(mediaMetadata, eq(projectFiles.mediaAssetId, mediaMetadata.mediaAssetId))
+      .where(
+        and(
+          eq(projectFiles.projectId, projectId),
+          isNotNull(projectFiles.mediaAssetId),
+          isNull(projectFiles.metadataProbedAt),
+          isNull(mediaMetadata.id)
+        )
+      );
+    return rows.map((row) => row.file);
+  }
+
+  // Download archive methods
+  async createDownloadArchive(
+    archive: Pick<DownloadArchive, 'projectId' | 'userId' | 'assetIds' | 'expiresAt'>
+  ): Promise<DownloadArchive> {
+    const [created] = await this.db
+      .insert(downloadArchives)
+      .values({ ...archive, token: randomBytes(32).toString("hex") })
+      .returning();
+    return created;
+  }
+
+  // Unexpired archives only
+  async getDownloadArchive(token: string): Promise<DownloadArchive | undefined> {
+    const [archive] = await this.db
+      .select()
+      .from(downloadArchives)
+      .where(and(eq(downloadArchives.token, token), gt(downloadArchives.expiresAt, new Date())));
+    return archive;
+  }
+
+  // Upload session methods
+  async createUploadSession(session: InsertUploadSession): Promise<UploadSession> {
+    const [created] = await this.db.insert(uploadSessions).values(session).returning();
+    return created;
+  }
+
+  async getUploadSession(id: number): Promise<UploadSession | undefined> {
+    const [session] = await this.db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session || undefined;
+  }
+
+  // Session that reserved a placeholder asset (the newest, should an asset ID ever be reused)
+  async getUploadSessionByAssetId(assetId: string): Promise<UploadSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(uploadSessions)
+      .where(eq(uploadSessions.assetId, assetId))
+      .orderBy(desc(uploadSessions.createdAt))
+      .limit(1);
+    return session || undefined;
+  }
+
+  // Sessions a reloaded page can pick up again, newest first
+  async getActiveUploadSessions(projectId: number): Promise<UploadSession[]> {
+    return this.db
+      .select()
+      .from(uploadSessions)
+      .where(
+        and(
+          eq(uploadSessions.projectId, projectId),
+          eq(uploadSessions.status, "active"),
+          gt(uploadSessions.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(uploadSessions.createdAt));
+  }
+
+  async getExpiredUploadSessions(now: Date, limit: number): Promise<UploadSession[]> {
+    return this.db
+      .select()
+      .from(uploadSessions)
+      .where(and(eq(uploadSessions.status, "active"), lte(uploadSessions.expiresAt, now)))
+      .orderBy(uploadSessions.expiresAt)
+      .limit(limit);
+  }
+
+  async updateUploadSession(
+    id: number,
+    updates: Partial<Pick<UploadSession, 'bytesUploaded' | 'status' | 'expiresAt' | 'completedAt'>>
+  ): Promise<UploadSession | undefined> {
+    const [updated] = await this.db
+      .update(uploadSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   /**
    * Update project-level Frame.io share link (both full URL and share ID)
    * Ensures 1:1 relationship between share UUID and public URL
@@ -257,11 +802,16 @@ export class DatabaseStorage implements IStorage {
       fileSize: number;
       fileType: string;
       assetId: string;
-    }
+    },
+    expiresAt: Date | null = null // Unknown for shares found on Frame.io rather than created; the renewal job sets it
   ): Promise<Project | undefined> {
     const updateData: any = {
       frameioReviewLink: shareUrl,
       frameioReviewShareId: shareId,
+      shareStatus: "active",
+      shareExpiresAt: expiresAt,
+      shareRenewalFailures: 0,
+      shareRenewalRetryAt: null,
     };
     
     // If video metadata is provided, store it with the share link
@@ -282,6 +832,42 @@ export class DatabaseStorage implements IStorage {
     return updatedProject || undefined;
   }
 
+  async updateProjectShareState(projectId: number, state: ProjectShareState): Promise<Project | undefined> {
+    const [updatedProject] = await this.db
+      .update(projects)
+      .set({ ...state, updatedAt: new Date() })
+      .where(eq(projects.id, projectId))
+      .returning();
+    return updatedProject;
+  }
+
+  // Share links (active or expired, not revoked) expiring before renewBefore or with no recorded expiry,
+  // on projects created after createdAfter, that aren't backing off from a failed renewal
+  async getProjectsDueShareRenewal(renewBefore: Date, createdAfter: Date): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(
+        and(
+          isNotNull(projects.frameioReviewLink),
+          // Expired links are renewed too while the project is in its window; revoked ones stay off
+          or(isNull(projects.shareStatus), inArray(projects.shareStatus, ["active", "expired"])),
+          or(isNull(projects.shareExpiresAt), lt(projects.shareExpiresAt, renewBefore)),
+          or(isNull(projects.shareRenewalRetryAt), lte(projects.shareRenewalRetryAt, new Date())),
+          gt(projects.createdAt, createdAfter)
+        )
+      );
+  }
+
+  // Mark active share links past their expiry as expired
+  async expireShareLinks(now: Date): Promise<Project[]> {
+    return this.db
+      .update(projects)
+      .set({ shareStatus: "expired" })
+      .where(and(eq(projects.shareStatus, "active"), lt(projects.shareExpiresAt, now)))
+      .returning();
+  }
+
   /**
    * Update media asset URL for backward compatibility
    * Note: This is a legacy method - shares are now handled at project level
@@ -306,20 +892,31 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Project status methods
+  // Writes a log row with canonical values; callers are expected to have validated the transition
   async logStatusChange(projectId: number, oldStatus: string | null, newStatus: string): Promise<ProjectStatusLog> {
+    const canonicalNew = normalizeProjectStatus(newStatus);
+    if (!canonicalNew) {
+      throw new Error(`Cannot log unknown project status: "${newStatus}"`);
+    }
+
     const [log] = await this.db
       .insert(projectStatusLog)
       .values({
         projectId,
-        oldStatus,
-        newStatus,
+        oldStatus: normalizeProjectStatus(oldStatus),
+        newStatus: canonicalNew,
       })
       .returning();
     return log;
   }
 
-  async logProjectStatusChange(projectId: number, oldStatus: string | null, newStatus: string): Promise<ProjectStatusLog> {
-    return await this.logStatusChange(projectId, oldStatus, newStatus);
+  /**
+   * Record a status change that happened outside updateProject.
+   * Rejects transitions the state machine does not allow for the actor.
+   */
+  async logProjectStatusChange(projectId: number, oldStatus: string | null, newStatus: string, actor: ProjectStatusActor = "system"): Promise<ProjectStatusLog> {
+    const canonicalNew = assertProjectStatusTransition(oldStatus, newStatus, actor);
+    return await this.logStatusChange(projectId, oldStatus, canonicalNew);
   }
 
   async getProjectStatusHistory(projectId: number): Promise<ProjectStatusLog[]> {
@@ -434,20 +1031,28 @@ export class DatabaseStorage implements IStorage {
     stripeSubscriptionId?: string;
     subscriptionStatus?: string;
     subscriptionTier?: string | null;
-    subscriptionUsage?: number;
-    subscriptionAllowance?: number;
     subscriptionPeriodStart?: Date;
     subscriptionPeriodEnd?: Date;
+    billingInterval?: BillingInterval;
+    allowancePeriodStart?: Date;
+    nextAllowanceGrantAt?: Date | null;
+    cancelAtPeriodEnd?: boolean;
+    pauseResumesAt?: Date | null;
+    scheduledPlanKey?: string | null;
   }): Promise<User | undefined> {
     // Only include defined fields
     const updateData: any = {};
     if (subscriptionData.stripeSubscriptionId !== undefined) updateData.stripeSubscriptionId = subscriptionData.stripeSubscriptionId;
     if (subscriptionData.subscriptionStatus !== undefined) updateData.subscriptionStatus = subscriptionData.subscriptionStatus;
     if (subscriptionData.subscriptionTier !== undefined) updateData.subscriptionTier = subscriptionData.subscriptionTier;
-    if (subscriptionData.subscriptionUsage !== undefined) updateData.subscriptionUsage = subscriptionData.subscriptionUsage;
-    if (subscriptionData.subscriptionAllowance !== undefined) updateData.subscriptionAllowance = subscriptionData.subscriptionAllowance;
     if (subscriptionData.subscriptionPeriodStart !== undefined) updateData.subscriptionPeriodStart = subscriptionData.subscriptionPeriodStart;
     if (subscriptionData.subscriptionPeriodEnd !== undefined) updateData.subscriptionPeriodEnd = subscriptionData.subscriptionPeriodEnd;
+    if (subscriptionData.billingInterval !== undefined) updateData.billingInterval = subscriptionData.billingInterval;
+    if (subscriptionData.allowancePeriodStart !== undefined) updateData.allowancePeriodStart = subscriptionData.allowancePeriodStart;
+    if (subscriptionData.nextAllowanceGrantAt !== undefined) updateData.nextAllowanceGrantAt = subscriptionData.nextAllowanceGrantAt;
+    if (subscriptionData.cancelAtPeriodEnd !== undefined) updateData.cancelAtPeriodEnd = subscriptionData.cancelAtPeriodEnd;
+    if (subscriptionData.pauseResumesAt !== undefined) updateData.pauseResumesAt = subscriptionData.pauseResumesAt;
+    if (subscriptionData.scheduledPlanKey !== undefined) updateData.scheduledPlanKey = subscriptionData.scheduledPlanKey;
 
     const [user] = await this.db
       .update(users)
@@ -465,27 +1070,312 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async incrementUserUsage(userId: string): Promise<User | undefined> {
-    const user = await this.getUser(userId);
-    if (!user) return undefined;
-
-    const [updatedUser] = await this.db
+  // Dunning methods
+  // Only starts a new grace period; repeated payment failures don't extend it. Undefined if already started.
+  async startGracePeriod(userId: string, gracePeriodEndsAt: Date): Promise<User | undefined> {
+    const [user] = await this.db
       .update(users)
-      .set({ subscriptionUsage: (user.subscriptionUsage || 0) + 1 })
-      .where(eq(users.id, userId))
+      .set({
+        paymentFailedAt: new Date(),
+        gracePeriodEndsAt,
+        dunningRemindersSent: 0,
+      })
+      .where(and(eq(users.id, userId), isNull(users.paymentFailedAt)))
       .returning();
-    return updatedUser || undefined;
+    return user || undefined;
+  }
+
+  async clearGracePeriod(userId: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({
+        paymentFailedAt: null,
+        gracePeriodEndsAt: null,
+        dunningRemindersSent: 0,
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async getUsersInGracePeriod(): Promise<User[]> {
+    return this.db
+      .select()
+      .from(users)
+      .where(isNotNull(users.paymentFailedAt));
+  }
+
+  async recordDunningRemindersSent(userId: string, count: number): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ dunningRemindersSent: count })
+      .where(eq(users.id, userId));
+  }
+
+  // Annual subscribers whose next monthly allowance is due
+  async getUsersDueAllowanceGrant(now: Date): Promise<User[]> {
+    return this.db
+      .select()
+      .from(users)
+      .where(
+        and(
+          eq(users.billingInterval, "year"),
+          isNotNull(users.stripeSubscriptionId),
+          lte(users.nextAllowanceGrantAt, now)
+        )
+      );
   }
 
-  async resetUserUsage(userId: string): Promise<User | undefined> {
+  // Move to the next monthly allowance period. Conditional on dueAt so overlapping runs advance it once.
+  async advanceAllowancePeriod(userId: string, dueAt: Date, nextGrantAt: Date | null): Promise<User | undefined> {
     const [user] = await this.db
       .update(users)
-      .set({ subscriptionUsage: 0 })
-      .where(eq(users.id, userId))
+      .set({ allowancePeriodStart: dueAt, nextAllowanceGrantAt: nextGrantAt })
+      .where(and(eq(users.id, userId), eq(users.nextAllowanceGrantAt, dueAt)))
       .returning();
     return user || undefined;
   }
 
+  // Active annual subscribers renewing (not canceling) before the given date who haven't been reminded this period
+  async getUsersDueRenewalReminder(renewsBefore: Date): Promise<User[]> {
+    return this.db
+      .select()
+      .from(users)
+      .where(
+        and(
+          eq(users.billingInterval, "year"),
+          eq(users.subscriptionStatus, "active"),
+          eq(users.cancelAtPeriodEnd, false),
+          isNull(users.scheduledPlanKey),
+          gt(users.subscriptionPeriodEnd, new Date()),
+          lte(users.subscriptionPeriodEnd, renewsBefore),
+          or(
+            isNull(users.renewalReminderSentAt),
+            lt(users.renewalReminderSentAt, users.subscriptionPeriodStart)
+          )
+        )
+      );
+  }
+
+  async recordRenewalReminderSent(userId: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ renewalReminderSentAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  // Credit ledger methods
+  private async sumCreditBalances(
+    executor: Pick<typeof db, "select">,
+    userId: string
+  ): Promise<Record<CreditType, number>> {
+    const rows = await executor
+      .select({
+        creditType: creditLedger.creditType,
+        balance: sql<number>`coalesce(sum(${creditLedger.amount}), 0)::int`,
+      })
+      .from(creditLedger)
+      .where(eq(creditLedger.userId, userId))
+      .groupBy(creditLedger.creditType);
+
+    const balances: Record<CreditType, number> = { subscription: 0, prepaid: 0 };
+    for (const row of rows) {
+      balances[row.creditType] = row.balance;
+    }
+    return balances;
+  }
+
+  async getCreditBalances(userId: string): Promise<Record<CreditType, number>> {
+    return this.sumCreditBalances(this.db, userId);
+  }
+
+  async getCreditLedger(userId: string): Promise<CreditLedgerEntry[]> {
+    return this.db
+      .select()
+      .from(creditLedger)
+      .where(eq(creditLedger.userId, userId))
+      .orderBy(desc(creditLedger.createdAt), desc(creditLedger.id));
+  }
+
+  // Returns undefined when an entry for the same source already exists (see credit_ledger_source_unique)
+  async addCreditLedgerEntry(entry: InsertCreditLedgerEntry): Promise<CreditLedgerEntry | undefined> {
+    const [createdEntry] = await this.db
+      .insert(creditLedger)
+      .values(entry)
+      .onConflictDoNothing()
+      .returning();
+    return createdEntry || undefined;
+  }
+
+  // Start of a billing period: expire unused subscription credits above the plan's rollover cap, then grant the allowance.
+  // Idempotent per invoice.
+  // Idempotent per source: a Stripe invoice, or one month of an annual plan
+  async grantSubscriptionPeriodCredits(
+    userId: string,
+    sourceId: string,
+    allowance: number,
+    rollover: number,
+    note?: string,
+    sourceType: "stripe_invoice" | "allowance_schedule" = "stripe_invoice"
+  ): Promise<CreditLedgerEntry | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+
+      const [existingGrant] = await tx
+        .select({ id: creditLedger.id })
+        .from(creditLedger)
+        .where(
+          and(
+            eq(creditLedger.entryType, "grant"),
+            eq(creditLedger.sourceType, sourceType),
+            eq(creditLedger.sourceId, sourceId)
+          )
+        );
+      if (existingGrant) return undefined;
+
+      const balances = await this.sumCreditBalances(tx, userId);
+      const expiring = balances.subscription - Math.min(Math.max(balances.subscription, 0), rollover);
+      if (expiring > 0) {
+        await tx.insert(creditLedger).values({
+          userId,
+          entryType: "expiration",
+          creditType: "subscription",
+          amount: -expiring,
+          sourceType,
+          sourceId,
+          note: rollover > 0 ? `Unused credits above rollover limit of ${rollover}` : "Unused credits from previous period",
+        });
+      }
+
+      const [grant] = await tx
+        .insert(creditLedger)
+        .values({
+          userId,
+          entryType: "grant",
+          creditType: "subscription",
+          amount: allowance,
+          sourceType,
+          sourceId,
+          note,
+        })
+        .returning();
+      return grant;
+    });
+  }
+
+  // Raise this period's subscription grants to a (higher) plan allowance after a mid-period upgrade.
+  // Grants only the shortfall, so repeated calls and downgrade/upgrade round trips never over-grant.
+  async topUpSubscriptionCredits(
+    userId: string,
+    allowance: number,
+    periodStart: Date,
+    subscriptionId: string,
+    note?: string
+  ): Promise<CreditLedgerEntry | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+
+      const [granted] = await tx
+        .select({ total: sql<number>`coalesce(sum(${creditLedger.amount}), 0)::int` })
+        .from(creditLedger)
+        .where(
+          and(
+            eq(creditLedger.userId, userId),
+            eq(creditLedger.entryType, "grant"),
+            eq(creditLedger.creditType, "subscription"),
+            inArray(creditLedger.sourceType, ["stripe_invoice", "stripe_subscription", "allowance_schedule"]),
+            gte(creditLedger.createdAt, periodStart)
+          )
+        );
+
+      const shortfall = allowance - (granted?.total || 0);
+      if (shortfall <= 0) return undefined;
+
+      const [grant] = await tx
+        .insert(creditLedger)
+        .values({
+          userId,
+          entryType: "grant",
+          creditType: "subscription",
+          amount: shortfall,
+          sourceType: "stripe_subscription",
+          sourceId: subscriptionId,
+          note,
+        })
+        .returning();
+      return grant;
+    });
+  }
+
+  // Expire the whole remaining balance of a credit type (e.g. subscription canceled)
+  async expireCredits(
+    userId: string,
+    creditType: CreditType,
+    sourceType: InsertCreditLedgerEntry['sourceType'],
+    sourceId: string,
+    note?: string
+  ): Promise<CreditLedgerEntry | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+
+      const balances = await this.sumCreditBalances(tx, userId);
+      if (balances[creditType] <= 0) return undefined;
+
+      const [entry] = await tx
+        .insert(creditLedger)
+        .values({
+          userId,
+          entryType: "expiration",
+          creditType,
+          amount: -balances[creditType],
+          sourceType,
+          sourceId,
+          note,
+        })
+        .returning();
+      return entry;
+    });
+  }
+
+  // Give back the credit a project consumed, to the same credit type. Only once per project.
+  async refundProjectCredit(projectId: number, note?: string): Promise<CreditLedgerEntry | undefined> {
+    const [consumption] = await this.db
+      .select()
+      .from(creditLedger)
+      .where(
+        and(
+          eq(creditLedger.entryType, "consumption"),
+          eq(creditLedger.sourceType, "project"),
+          eq(creditLedger.sourceId, projectId.toString())
+        )
+      );
+    if (!consumption) return undefined;
+
+    return this.addCreditLedgerEntry({
+      userId: consumption.userId,
+      entryType: "refund",
+      creditType: consumption.creditType,
+      amount: -consumption.amount,
+      sourceType: "project",
+      sourceId: consumption.sourceId,
+      note,
+    });
+  }
+
+  // Net credits of one type spent on projects since a date (consumptions minus refunds)
+  async countCreditsConsumedSince(userId: string, creditType: CreditType, since: Date): Promise<number> {
+    const [result] = await this.db
+      .select({ spent: sql<number>`coalesce(-sum(${creditLedger.amount}), 0)::int` })
+      .from(creditLedger)
+      .where(
+        and(
+          eq(creditLedger.userId, userId),
+          eq(creditLedger.creditType, creditType),
+          eq(creditLedger.sourceType, "project"),
+          gte(creditLedger.createdAt, since)
+        )
+      );
+    return Math.max(0, result?.spent || 0);
+  }
+
   // Revision payment methods
   async createRevisionPayment(userId: string, payment: InsertRevisionPayment): Promise<RevisionPayment> {
     const [createdPayment] = await this.db
@@ -514,6 +1404,16 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(revisionPayments.createdAt));
   }
 
+  async getRevisionPaymentsByUser(userId: string): Promise<(RevisionPayment & { projectTitle: string })[]> {
+    const rows = await this.db
+      .select({ payment: revisionPayments, projectTitle: projects.title })
+      .from(revisionPayments)
+      .innerJoin(projects, eq(revisionPayments.projectId, projects.id))
+      .where(eq(revisionPayments.userId, userId))
+      .orderBy(desc(revisionPayments.createdAt));
+    return rows.map((row) => ({ ...row.payment, projectTitle: row.projectTitle }));
+  }
+
   async updateRevisionPaymentStatus(
     sessionId: string,
     status: string,
@@ -532,43 +1432,954 @@ export class DatabaseStorage implements IStorage {
     return updatedPayment || undefined;
   }
 
-  // Refresh lock management for single-flight token refresh
-  async acquireRefreshLock(lockKey: string, ttlSeconds: number): Promise<boolean> {
-    try {
-      const expiresAt = new Date(Date.now() + (ttlSeconds * 1000));
-
-      // Try to insert lock - will fail if already exists
-      await this.db.execute(sql`
-        INSERT INTO refresh_locks (lock_key, expires_at, created_at)
-        VALUES (${lockKey}, ${expiresAt.toISOString()}, ${new Date().toISOString()})
-        ON CONFLICT(lock_key) DO NOTHING
-      `);
-
-      // Check if we successfully acquired the lock
-      const result = await this.db.execute(sql`
-        SELECT lock_key FROM refresh_locks
-        WHERE lock_key = ${lockKey} AND expires_at > NOW()
-      `);
+  // Prepaid package methods
+  async createPrepaidPackagePurchase(userId: string, purchase: InsertPrepaidPackagePurchase): Promise<PrepaidPackagePurchase> {
+    const [createdPurchase] = await this.db
+      .insert(prepaidPackagePurchases)
+      .values({
+        ...purchase,
+        userId,
+      })
+      .returning();
+    return createdPurchase;
+  }
 
-      return result.rows.length > 0;
-    } catch (error) {
-      console.error('Failed to acquire refresh lock:', error);
-      return false;
-    }
+  async getPrepaidPackagePurchase(sessionId: string): Promise<PrepaidPackagePurchase | undefined> {
+    const [purchase] = await this.db
+      .select()
+      .from(prepaidPackagePurchases)
+      .where(eq(prepaidPackagePurchases.stripeCheckoutSessionId, sessionId));
+    return purchase || undefined;
   }
 
-  async releaseRefreshLock(lockKey: string): Promise<void> {
-    try {
-      await this.db.execute(sql`
-        DELETE FROM refresh_locks WHERE lock_key = ${lockKey}
-      `);
-    } catch (error) {
-      console.error('Failed to release refresh lock:', error);
-    }
+  async getPrepaidPackagePurchasesByUser(userId: string): Promise<PrepaidPackagePurchase[]> {
+    return this.db
+      .select()
+      .from(prepaidPackagePurchases)
+      .where(eq(prepaidPackagePurchases.userId, userId))
+      .orderBy(desc(prepaidPackagePurchases.createdAt));
   }
 
-  // Clean up expired locks periodically
-  async cleanupExpiredLocks(): Promise<void> {
+  // Marks a pending purchase as paid and grants its credits to the ledger exactly once.
+  // Returns undefined if the purchase doesn't exist or was already completed (webhook and verify both call this).
+  async completePrepaidPackagePurchase(sessionId: string, paymentIntentId?: string): Promise<PrepaidPackagePurchase | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [completedPurchase] = await tx
+        .update(prepaidPackagePurchases)
+        .set({
+          paymentStatus: "completed",
+          stripePaymentIntentId: paymentIntentId,
+          paidAt: new Date(),
+        })
+        .where(
+          and(
+            eq(prepaidPackagePurchases.stripeCheckoutSessionId, sessionId),
+            eq(prepaidPackagePurchases.paymentStatus, "pending")
+          )
+        )
+        .returning();
+
+      if (!completedPurchase) return undefined;
+
+      await tx.insert(creditLedger).values({
+        userId: completedPurchase.userId,
+        entryType: "grant",
+        creditType: "prepaid",
+        amount: completedPurchase.credits,
+        sourceType: "prepaid_purchase",
+        sourceId: completedPurchase.id.toString(),
+        note: completedPurchase.packageKey,
+      });
+
+      return completedPurchase;
+    });
+  }
+
+  // Overage purchase methods
+  async createOveragePurchase(userId: string, purchase: InsertOveragePurchase): Promise<OveragePurchase> {
+    const [createdPurchase] = await this.db
+      .insert(overagePurchases)
+      .values({
+        ...purchase,
+        userId,
+      })
+      .returning();
+    return createdPurchase;
+  }
+
+  async getOveragePurchase(sessionId: string): Promise<OveragePurchase | undefined> {
+    const [purchase] = await this.db
+      .select()
+      .from(overagePurchases)
+      .where(eq(overagePurchases.stripeCheckoutSessionId, sessionId));
+    return purchase || undefined;
+  }
+
+  async getOveragePurchasesByUser(userId: string): Promise<OveragePurchase[]> {
+    return this.db
+      .select()
+      .from(overagePurchases)
+      .where(eq(overagePurchases.userId, userId))
+      .orderBy(desc(overagePurchases.createdAt));
+  }
+
+  // Marks a pending overage purchase as paid, grants its one subscription credit and spends it
+  // on the requested project, all in one transaction so the credit can't be used elsewhere first.
+  // Returns undefined if the purchase doesn't exist or was already completed (webhook and verify both call this).
+  async completeOveragePurchase(
+    sessionId: string,
+    paymentIntentId?: string
+  ): Promise<{ purchase: OveragePurchase; project: Project } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [completedPurchase] = await tx
+        .update(overagePurchases)
+        .set({
+          paymentStatus: "completed",
+          stripePaymentIntentId: paymentIntentId,
+          paidAt: new Date(),
+        })
+        .where(
+          and(
+            eq(overagePurchases.stripeCheckoutSessionId, sessionId),
+            eq(overagePurchases.paymentStatus, "pending")
+          )
+        )
+        .returning();
+
+      if (!completedPurchase) return undefined;
+
+      const userId = completedPurchase.userId;
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+
+      await tx.insert(creditLedger).values({
+        userId,
+        entryType: "grant",
+        creditType: "subscription",
+        amount: 1,
+        sourceType: "overage_purchase",
+        sourceId: completedPurchase.id.toString(),
+        note: `Extra video (${completedPurchase.planKey})`,
+      });
+
+      // Owners of an organization buy extra videos for the whole team
+      const [ownedOrganization] = await tx
+        .select({ id: organizations.id })
+        .from(organizations)
+        .where(eq(organizations.ownerId, userId));
+
+      const [newProject] = await tx
+        .insert(projects)
+        .values({
+          ...completedPurchase.projectData,
+          userId,
+          organizationId: ownedOrganization?.id ?? null,
+        })
+        .returning();
+
+      await tx.insert(projectStatusLog).values({
+        projectId: newProject.id,
+        oldStatus: null,
+        newStatus: newProject.status,
+      });
+
+      await tx.insert(creditLedger).values({
+        userId,
+        entryType: "consumption",
+        creditType: "subscription",
+        amount: -1,
+        sourceType: "project",
+        sourceId: newProject.id.toString(),
+      });
+
+      const [purchase] = await tx
+        .update(overagePurchases)
+        .set({ projectId: newProject.id })
+        .where(eq(overagePurchases.id, completedPurchase.id))
+        .returning();
+
+      return { purchase, project: newProject };
+    });
+  }
+
+  // Referral methods
+  async getOrCreateReferralCode(userId: string): Promise<string> {
+    const [user] = await this.db
+      .select({ referralCode: users.referralCode })
+      .from(users)
+      .where(eq(users.id, userId));
+    if (user?.referralCode) return user.referralCode;
+
+    // 8 characters from an alphabet without look-alikes (0/O, 1/I)
+    const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+    const referralCode = Array.from(randomBytes(8), (byte) => alphabet[byte % alphabet.length]).join("");
+
+    // Only set it if another request didn't get there first
+    const [updated] = await this.db
+      .update(users)
+      .set({ referralCode })
+      .where(and(eq(users.id, userId), isNull(users.referralCode)))
+      .returning({ referralCode: users.referralCode });
+    if (updated?.referralCode) return updated.referralCode;
+
+    const [existing] = await this.db
+      .select({ referralCode: users.referralCode })
+      .from(users)
+      .where(eq(users.id, userId));
+    return existing.referralCode!;
+  }
+
+  async getUserByReferralCode(referralCode: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.referralCode, referralCode));
+    return user || undefined;
+  }
+
+  // Returns undefined if the user was already referred
+  async createReferral(referrerId: string, referredUserId: string, referralCode: string): Promise<Referral | undefined> {
+    const [referral] = await this.db
+      .insert(referrals)
+      .values({ referrerId, referredUserId, referralCode })
+      .onConflictDoNothing({ target: referrals.referredUserId })
+      .returning();
+    return referral || undefined;
+  }
+
+  async getReferralByReferredUser(referredUserId: string): Promise<Referral | undefined> {
+    const [referral] = await this.db
+      .select()
+      .from(referrals)
+      .where(eq(referrals.referredUserId, referredUserId));
+    return referral || undefined;
+  }
+
+  async getReferralsByReferrer(referrerId: string): Promise<Referral[]> {
+    return this.db
+      .select()
+      .from(referrals)
+      .where(eq(referrals.referrerId, referrerId))
+      .orderBy(desc(referrals.createdAt));
+  }
+
+  // Cancellation survey methods
+  async createCancellationSurvey(
+    userId: string,
+    survey: { reason: CancellationReason; details?: string; outcome: CancellationOutcome; planKey: string | null; stripeSubscriptionId: string | null }
+  ): Promise<CancellationSurvey> {
+    const [created] = await this.db
+      .insert(cancellationSurveys)
+      .values({ ...survey, userId })
+      .returning();
+    return created;
+  }
+
+  async getCancellationSurveys(limit: number): Promise<(CancellationSurvey & { email: string })[]> {
+    const rows = await this.db
+      .select({ survey: cancellationSurveys, email: users.email })
+      .from(cancellationSurveys)
+      .innerJoin(users, eq(cancellationSurveys.userId, users.id))
+      .orderBy(desc(cancellationSurveys.createdAt))
+      .limit(limit);
+    return rows.map(({ survey, email }) => ({ ...survey, email }));
+  }
+
+  // Marks a pending referral as rewarded and grants prepaid credits to both parties exactly once.
+  // Returns undefined if there is no pending referral for the user (e.g. a webhook retry).
+  async rewardReferral(referredUserId: string, invoiceId: string, rewardCredits: number): Promise<Referral | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [referral] = await tx
+        .update(referrals)
+        .set({
+          status: "rewarded",
+          rewardCredits,
+          rewardInvoiceId: invoiceId,
+          rewardedAt: new Date(),
+        })
+        .where(and(eq(referrals.referredUserId, referredUserId), eq(referrals.status, "pending")))
+        .returning();
+
+      if (!referral) return undefined;
+
+      if (rewardCredits > 0) {
+        await tx.insert(creditLedger).values([
+          {
+            userId: referral.referrerId,
+            entryType: "grant",
+            creditType: "prepaid",
+            amount: rewardCredits,
+            sourceType: "referral",
+            sourceId: referral.id.toString(),
+            note: "Referral reward (referrer)",
+          },
+          {
+            userId: referral.referredUserId,
+            entryType: "grant",
+            creditType: "prepaid",
+            amount: rewardCredits,
+            sourceType: "referral",
+            sourceId: referral.id.toString(),
+            note: "Referral reward (referred)",
+          },
+        ]);
+      }
+
+      return referral;
+    });
+  }
+
+  // Organization methods
+  // The owner's existing personal projects move into the new organization
+  async createOrganization(ownerId: string, organization: InsertOrganization): Promise<Organization> {
+    return this.db.transaction(async (tx) => {
+      const [createdOrganization] = await tx
+        .insert(organizations)
+        .values({
+          ...organization,
+          ownerId,
+        })
+        .returning();
+
+      await tx.insert(organizationMembers).values({
+        organizationId: createdOrganization.id,
+        userId: ownerId,
+        role: "owner",
+      });
+
+      await tx
+        .update(projects)
+        .set({ organizationId: createdOrganization.id })
+        .where(and(eq(projects.userId, ownerId), isNull(projects.organizationId)));
+
+      return createdOrganization;
+    });
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await this.db.select().from(organizations).where(eq(organizations.id, id));
+    return organization || undefined;
+  }
+
+  async updateOrganization(id: number, updates: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    const [organization] = await this.db
+      .update(organizations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization || undefined;
+  }
+
+  async getOrganizationMembership(userId: string): Promise<{ organization: Organization; role: OrganizationRole } | undefined> {
+    const [membership] = await this.db
+      .select({ organization: organizations, role: organizationMembers.role })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+      .where(eq(organizationMembers.userId, userId));
+    return membership || undefined;
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMemberWithUser[]> {
+    return this.db
+      .select({
+        id: organizationMembers.id,
+        organizationId: organizationMembers.organizationId,
+        userId: organizationMembers.userId,
+        role: organizationMembers.role,
+        createdAt: organizationMembers.createdAt,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(organizationMembers)
+      .innerJoin(users, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: string, role: OrganizationRole): Promise<OrganizationMember | undefined> {
+    const [member] = await this.db
+      .update(organizationMembers)
+      .set({ role })
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+      .returning();
+    return member || undefined;
+  }
+
+  // Projects the member created stay with the organization
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await this.db
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+      .returning();
+    return member || undefined;
+  }
+
+  // Re-inviting an email replaces its previous pending invitation
+  async createOrganizationInvitation(
+    organizationId: number,
+    invitedBy: string,
+    email: string,
+    role: OrganizationRole,
+    expiresAt: Date
+  ): Promise<OrganizationInvitation> {
+    return this.db.transaction(async (tx) => {
+      await tx
+        .update(organizationInvitations)
+        .set({ status: "revoked" })
+        .where(
+          and(
+            eq(organizationInvitations.organizationId, organizationId),
+            eq(organizationInvitations.email, email),
+            eq(organizationInvitations.status, "pending")
+          )
+        );
+
+      const [invitation] = await tx
+        .insert(organizationInvitations)
+        .values({
+          organizationId,
+          invitedBy,
+          email,
+          role,
+          expiresAt,
+          token: randomBytes(24).toString("hex"),
+        })
+        .returning();
+      return invitation;
+    });
+  }
+
+  async getOrganizationInvitationByToken(token: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await this.db
+      .select()
+      .from(organizationInvitations)
+      .where(eq(organizationInvitations.token, token));
+    return invitation || undefined;
+  }
+
+  async getPendingOrganizationInvitations(organizationId: number): Promise<OrganizationInvitation[]> {
+    return this.db
+      .select()
+      .from(organizationInvitations)
+      .where(
+        and(
+          eq(organizationInvitations.organizationId, organizationId),
+          eq(organizationInvitations.status, "pending"),
+          gt(organizationInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(organizationInvitations.createdAt));
+  }
+
+  async revokeOrganizationInvitation(organizationId: number, invitationId: number): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await this.db
+      .update(organizationInvitations)
+      .set({ status: "revoked" })
+      .where(
+        and(
+          eq(organizationInvitations.id, invitationId),
+          eq(organizationInvitations.organizationId, organizationId),
+          eq(organizationInvitations.status, "pending")
+        )
+      )
+      .returning();
+    return invitation || undefined;
+  }
+
+  // Returns undefined if the invitation is no longer pending, has expired, or the user already joined an organization
+  async acceptOrganizationInvitation(token: string, userId: string): Promise<OrganizationMember | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existingMembership] = await tx
+        .select({ id: organizationMembers.id })
+        .from(organizationMembers)
+        .where(eq(organizationMembers.userId, userId));
+      if (existingMembership) return undefined;
+
+      const [invitation] = await tx
+        .update(organizationInvitations)
+        .set({ status: "accepted", acceptedAt: new Date() })
+        .where(
+          and(
+            eq(organizationInvitations.token, token),
+            eq(organizationInvitations.status, "pending"),
+            gt(organizationInvitations.expiresAt, new Date())
+          )
+        )
+        .returning();
+
+      if (!invitation) return undefined;
+
+      const [member] = await tx
+        .insert(organizationMembers)
+        .values({
+          organizationId: invitation.organizationId,
+          userId,
+          role: invitation.role,
+        })
+        .returning();
+
+      return member;
+    });
+  }
+
+  // Project revision history methods
+  // Records the next revision and moves the project to "revision in progress" in one transaction,
+  // so a failed insert never leaves the project waiting on a revision that doesn't exist.
+  // The revision number follows the history (legacy projects only have the counter).
+  async startProjectRevision(
+    projectId: number,
+    revision: Omit<InsertProjectRevision, "projectId" | "revisionNumber">
+  ): Promise<{ project: Project; revision: ProjectRevision }> {
+    return this.db.transaction(async (tx) => {
+      const [project] = await tx.select().from(projects).where(eq(projects.id, projectId)).for("update");
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      const status = assertProjectStatusTransition(project.status, PROJECT_STATUS.REVISION_IN_PROGRESS, "user");
+      if (revision.included && !project.includedRevisionReservedAt) {
+        throw new Error(`Project ${projectId} has no included revision reserved`);
+      }
+
+      const [latest] = await tx
+        .select({ revisionNumber: sql<number>`coalesce(max(${projectRevisions.revisionNumber}), 0)::int` })
+        .from(projectRevisions)
+        .where(eq(projectRevisions.projectId, projectId));
+      const revisionNumber = Math.max(latest?.revisionNumber || 0, project.revisionCount || 0) + 1;
+
+      const [createdRevision] = await tx
+        .insert(projectRevisions)
+        .values({ ...revision, projectId, revisionNumber })
+        .returning();
+
+      // Keep the denormalized counter on the project in step with the history
+      const [updatedProject] = await tx
+        .update(projects)
+        .set({
+          status,
+          revisionCount: revisionNumber,
+          // The reservation is spent once the included revision exists
+          ...(revision.included ? { includedRevisionReservedAt: null } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(projects.id, projectId))
+        .returning();
+
+      await tx.insert(projectStatusLog).values({
+        projectId,
+        oldStatus: normalizeProjectStatus(project.status),
+        newStatus: status,
+      });
+
+      return { project: updatedProject, revision: createdRevision };
+    });
+  }
+
+  // Reserves one of the plan's included revisions for the project and moves it to "awaiting revision
+  // instructions" in one transaction. Locks the plan owner's row so concurrent grants can't overdraw
+  // the allowance; returns undefined when none are left. startProjectRevision spends the reservation.
+  async reserveIncludedRevision(
+    projectId: number,
+    allowance: { billingUserId: string; included: number; per: PlanRevisionScope; since: Date; organizationId?: number }
+  ): Promise<{ project: Project; used: number } | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, allowance.billingUserId)).for("update");
+      const [project] = await tx.select().from(projects).where(eq(projects.id, projectId)).for("update");
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      const status = assertProjectStatusTransition(project.status, PROJECT_STATUS.AWAITING_REVISION_INSTRUCTIONS, "system");
+
+      const used = await this.countIncludedRevisionUse(
+        tx,
+        allowance.per === "period"
+          ? { userId: allowance.billingUserId, since: allowance.since, organizationId: allowance.organizationId }
+          : { projectId }
+      );
+      if (used >= allowance.included) return undefined;
+
+      const now = new Date();
+      const [updatedProject] = await tx
+        .update(projects)
+        .set({ status, includedRevisionReservedAt: now, updatedAt: now })
+        .where(eq(projects.id, projectId))
+        .returning();
+
+      await tx.insert(projectStatusLog).values({
+        projectId,
+        oldStatus: normalizeProjectStatus(project.status),
+        newStatus: status,
+      });
+
+      return { project: updatedProject, used: used + 1 };
+    });
+  }
+
+  async getProjectRevisions(projectId: number): Promise<ProjectRevision[]> {
+    return this.db
+      .select()
+      .from(projectRevisions)
+      .where(eq(projectRevisions.projectId, projectId))
+      .orderBy(projectRevisions.revisionNumber);
+  }
+
+  // Latest revision that has been requested but not yet delivered
+  async getOpenProjectRevision(projectId: number): Promise<ProjectRevision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(projectRevisions)
+      .where(
+        and(
+          eq(projectRevisions.projectId, projectId),
+          isNull(projectRevisions.deliveredAt)
+        )
+      )
+      .orderBy(desc(projectRevisions.revisionNumber))
+      .limit(1);
+    return revision || undefined;
+  }
+
+  async updateProjectRevision(
+    id: number,
+    updates: Partial<Pick<ProjectRevision, 'instructions' | 'revisionPaymentId' | 'trelloCardId' | 'deliveredAssetId' | 'deliveredAt'>>
+  ): Promise<ProjectRevision | undefined> {
+    const [updatedRevision] = await this.db
+      .update(projectRevisions)
+      .set(updates)
+      .where(eq(projectRevisions.id, id))
+      .returning();
+    return updatedRevision || undefined;
+  }
+
+  async markProjectRevisionDelivered(projectId: number, deliveredAssetId: string): Promise<ProjectRevision | undefined> {
+    const openRevision = await this.getOpenProjectRevision(projectId);
+    if (!openRevision) return undefined;
+
+    return this.updateProjectRevision(openRevision.id, {
+      deliveredAssetId,
+      deliveredAt: new Date(),
+    });
+  }
+
+  // Included (free) revisions used, plus those reserved for projects still awaiting instructions
+  private async countIncludedRevisionUse(
+    executor: Pick<typeof db, "select">,
+    scope: { projectId: number } | { userId: string; since: Date; organizationId?: number }
+  ): Promise<number> {
+    let projectScope: SQL | undefined;
+    let since: Date | undefined;
+    if ("projectId" in scope) {
+      projectScope = eq(projects.id, scope.projectId);
+    } else {
+      projectScope = scope.organizationId
+        ? or(eq(projects.userId, scope.userId), eq(projects.organizationId, scope.organizationId))
+        : eq(projects.userId, scope.userId);
+      since = scope.since;
+    }
+
+    const [revisions] = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(projectRevisions)
+      .innerJoin(projects, eq(projectRevisions.projectId, projects.id))
+      .where(
+        and(
+          projectScope,
+          eq(projectRevisions.included, true),
+          since ? gte(projectRevisions.requestedAt, since) : undefined
+        )
+      );
+    const [reservations] = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(projects)
+      .where(
+        and(
+          projectScope,
+          since
+            ? gte(projects.includedRevisionReservedAt, since)
+            : isNotNull(projects.includedRevisionReservedAt)
+        )
+      );
+    return (revisions?.count || 0) + (reservations?.count || 0);
+  }
+
+  // Included (free) revisions used or reserved on a single project
+  async countIncludedProjectRevisions(projectId: number): Promise<number> {
+    return this.countIncludedRevisionUse(this.db, { projectId });
+  }
+
+  // Included (free) revisions used or reserved across all of a user's projects since a date (billing period start).
+  // With an organization, its projects count too since they share the owner's plan.
+  async countIncludedUserRevisionsSince(userId: string, since: Date, organizationId?: number): Promise<number> {
+    return this.countIncludedRevisionUse(this.db, { userId, since, organizationId });
+  }
+
+  // Plan catalog methods
+  async getPlans(): Promise<Plan[]> {
+    return this.db
+      .select()
+      .from(plans)
+      .orderBy(plans.sortOrder, plans.id);
+  }
+
+  async getPlan(id: number): Promise<Plan | undefined> {
+    const [plan] = await this.db.select().from(plans).where(eq(plans.id, id));
+    return plan || undefined;
+  }
+
+  async createPlan(plan: InsertPlan): Promise<Plan> {
+    const [createdPlan] = await this.db
+      .insert(plans)
+      .values(plan)
+      .returning();
+    return createdPlan;
+  }
+
+  async updatePlan(
+    id: number,
+    updates: Partial<Omit<Plan, 'id' | 'key' | 'createdAt' | 'updatedAt'>>
+  ): Promise<Plan | undefined> {
+    const [updatedPlan] = await this.db
+      .update(plans)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(plans.id, id))
+      .returning();
+    return updatedPlan || undefined;
+  }
+
+  async deletePlan(id: number): Promise<void> {
+    await this.db.delete(plans).where(eq(plans.id, id));
+  }
+
+  // Users whose subscription_tier points at a plan key (any subscription status)
+  async countUsersOnPlan(planKey: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(users)
+      .where(eq(users.subscriptionTier, planKey));
+    return result?.count || 0;
+  }
+
+  // Webhook inbox methods
+  // Returns undefined when the event was already recorded (duplicate delivery)
+  async recordWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent | undefined> {
+    const [recorded] = await this.db
+      .insert(webhookEvents)
+      .values(event)
+      .onConflictDoNothing({ target: [webhookEvents.provider, webhookEvents.eventId] })
+      .returning();
+    return recorded || undefined;
+  }
+
+  async getWebhookEvent(id: number): Promise<WebhookEvent | undefined> {
+    const [event] = await this.db.select().from(webhookEvents).where(eq(webhookEvents.id, id));
+    return event || undefined;
+  }
+
+  async getWebhookEvents(
+    filters: { provider?: string; status?: WebhookEvent['status']; limit?: number } = {}
+  ): Promise<WebhookEvent[]> {
+    return this.db
+      .select()
+      .from(webhookEvents)
+      .where(
+        and(
+          filters.provider ? eq(webhookEvents.provider, filters.provider) : undefined,
+          filters.status ? eq(webhookEvents.status, filters.status) : undefined
+        )
+      )
+      .orderBy(desc(webhookEvents.receivedAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  // Pending or failed events whose retry time has passed, plus processing events whose lease expired
+  async getDueWebhookEvents(limit: number): Promise<WebhookEvent[]> {
+    return this.db
+      .select()
+      .from(webhookEvents)
+      .where(
+        and(
+          ne(webhookEvents.status, "succeeded"),
+          lte(webhookEvents.nextAttemptAt, new Date())
+        )
+      )
+      .orderBy(webhookEvents.nextAttemptAt)
+      .limit(limit);
+  }
+
+  // Atomically take an event for processing; undefined if another worker holds it or it is not due
+  async claimWebhookEvent(id: number, leaseMs: number): Promise<WebhookEvent | undefined> {
+    const [claimed] = await this.db
+      .update(webhookEvents)
+      .set({
+        status: "processing",
+        attempts: sql`${webhookEvents.attempts} + 1`,
+        nextAttemptAt: new Date(Date.now() + leaseMs),
+      })
+      .where(
+        and(
+          eq(webhookEvents.id, id),
+          ne(webhookEvents.status, "succeeded"),
+          lte(webhookEvents.nextAttemptAt, new Date())
+        )
+      )
+      .returning();
+    return claimed || undefined;
+  }
+
+  async completeWebhookEvent(id: number): Promise<void> {
+    await this.db
+      .update(webhookEvents)
+      .set({ status: "succeeded", lastError: null, nextAttemptAt: null, processedAt: new Date() })
+      .where(eq(webhookEvents.id, id));
+  }
+
+  // nextAttemptAt null means no more automatic retries (admin replay only)
+  async failWebhookEvent(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await this.db
+      .update(webhookEvents)
+      .set({ status: "failed", lastError: error, nextAttemptAt })
+      .where(eq(webhookEvents.id, id));
+  }
+
+  // Queue an event again with a fresh retry budget
+  async resetWebhookEvent(id: number): Promise<WebhookEvent | undefined> {
+    const [event] = await this.db
+      .update(webhookEvents)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date() })
+      .where(eq(webhookEvents.id, id))
+      .returning();
+    return event || undefined;
+  }
+
+  // Asset detection queue methods
+  // One job per project in the given statuses; jobs for projects that moved on are dropped
+  async syncAssetCheckJobs(statuses: ProjectStatus[]): Promise<void> {
+    const waiting = await this.db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(inArray(projects.status, statuses));
+    const projectIds = waiting.map((project) => project.id);
+
+    if (projectIds.length > 0) {
+      await this.db
+        .insert(assetCheckJobs)
+        .values(projectIds.map((projectId) => ({ projectId })))
+        .onConflictDoNothing({ target: assetCheckJobs.projectId });
+      await this.db.delete(assetCheckJobs).where(notInArray(assetCheckJobs.projectId, projectIds));
+    } else {
+      await this.db.delete(assetCheckJobs);
+    }
+  }
+
+  // Make a project's job due now (webhook or admin), creating it if needed
+  async requestAssetCheck(projectId: number, trigger: JobRunTrigger): Promise<void> {
+    await this.db
+      .insert(assetCheckJobs)
+      .values({ projectId, trigger, nextRunAt: new Date() })
+      .onConflictDoUpdate({
+        target: assetCheckJobs.projectId,
+        set: { trigger, nextRunAt: new Date() },
+      });
+  }
+
+  async requestAllAssetChecks(trigger: JobRunTrigger): Promise<number> {
+    const updated = await this.db
+      .update(assetCheckJobs)
+      .set({ trigger, nextRunAt: new Date() })
+      .returning({ id: assetCheckJobs.id });
+    return updated.length;
+  }
+
+  async getDueAssetCheckJobs(limit: number): Promise<AssetCheckJob[]> {
+    return this.db
+      .select()
+      .from(assetCheckJobs)
+      .where(lte(assetCheckJobs.nextRunAt, new Date()))
+      .orderBy(assetCheckJobs.nextRunAt)
+      .limit(limit);
+  }
+
+  // Atomically take a due job; its next run moves to the end of the lease so no other worker picks it up
+  async claimAssetCheckJob(id: number, leaseMs: number): Promise<AssetCheckJob | undefined> {
+    const [claimed] = await this.db
+      .update(assetCheckJobs)
+      .set({ nextRunAt: new Date(Date.now() + leaseMs) })
+      .where(and(eq(assetCheckJobs.id, id), lte(assetCheckJobs.nextRunAt, new Date())))
+      .returning();
+    return claimed || undefined;
+  }
+
+  // A check requested while the job was running (next run moved before the lease end) is kept
+  async completeAssetCheckJob(id: number, leaseUntil: Date, nextRunAt: Date, error?: string): Promise<void> {
+    const requestedDuringRun = sql`${assetCheckJobs.nextRunAt} < ${leaseUntil.toISOString()}`;
+    await this.db
+      .update(assetCheckJobs)
+      .set({
+        nextRunAt: sql`CASE WHEN ${requestedDuringRun} THEN ${assetCheckJobs.nextRunAt} ELSE ${nextRunAt.toISOString()}::timestamp END`,
+        trigger: sql`CASE WHEN ${requestedDuringRun} THEN ${assetCheckJobs.trigger} ELSE 'schedule' END`,
+        consecutiveFailures: error ? sql`${assetCheckJobs.consecutiveFailures} + 1` : 0,
+        lastRunAt: new Date(),
+        lastError: error ?? null,
+      })
+      .where(eq(assetCheckJobs.id, id));
+  }
+
+  async deleteAssetCheckJob(projectId: number): Promise<void> {
+    await this.db.delete(assetCheckJobs).where(eq(assetCheckJobs.projectId, projectId));
+  }
+
+  async recordJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [recorded] = await this.db.insert(jobRuns).values(run).returning();
+    return recorded;
+  }
+
+  async getJobRuns(
+    filters: { jobType?: string; projectId?: number; status?: JobRun['status']; limit?: number } = {}
+  ): Promise<JobRun[]> {
+    return this.db
+      .select()
+      .from(jobRuns)
+      .where(
+        and(
+          filters.jobType ? eq(jobRuns.jobType, filters.jobType) : undefined,
+          filters.projectId ? eq(jobRuns.projectId, filters.projectId) : undefined,
+          filters.status ? eq(jobRuns.status, filters.status) : undefined
+        )
+      )
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  // Refresh lock management for single-flight token refresh
+  async acquireRefreshLock(lockKey: string, ttlSeconds: number): Promise<boolean> {
+    try {
+      const expiresAt = new Date(Date.now() + (ttlSeconds * 1000));
+
+      // Insert the lock, or take it over once it has expired. No row back means someone else holds it.
+      const result = await this.db.execute(sql`
+        INSERT INTO refresh_locks (lock_key, expires_at, created_at)
+        VALUES (${lockKey}, ${expiresAt.toISOString()}, ${new Date().toISOString()})
+        ON CONFLICT(lock_key) DO UPDATE
+          SET expires_at = EXCLUDED.expires_at, created_at = EXCLUDED.created_at
+          WHERE refresh_locks.expires_at <= NOW()
+        RETURNING lock_key
+      `);
+
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Failed to acquire refresh lock:', error);
+      return false;
+    }
+  }
+
+  async releaseRefreshLock(lockKey: string): Promise<void> {
+    try {
+      await this.db.execute(sql`
+        DELETE FROM refresh_locks WHERE lock_key = ${lockKey}
+      `);
+    } catch (error) {
+      console.error('Failed to release refresh lock:', error);
+    }
+  }
+
+  // Clean up expired locks periodically
+  async cleanupExpiredLocks(): Promise<void> {
     try {
       await this.db.execute(sql`
         DELETE FROM refresh_locks WHERE expires_at <= NOW()
@@ -678,16 +2489,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(revisionPayments.stripeCheckoutSessionId, sessionId));
   }
 
-  async incrementProjectRevisionCount(projectId: number): Promise<void> {
-    await this.db
-      .update(projects)
-      .set({ 
-        revisionCount: sql`${projects.revisionCount} + 1`,
-        updatedAt: new Date()
-      })
-      .where(eq(projects.id, projectId));
-  }
-
   // Frame.io share asset methods
   async createFrameioShareAsset(asset: InsertFrameioShareAsset): Promise<FrameioShareAsset> {
     const [shareAsset] = await this.db
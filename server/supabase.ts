@@ -18,6 +18,7 @@ export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
 import { storage } from './storage.js'
 import { db } from './db.js'
 import { userPrivacy } from '../shared/schema.js'
+import { recordReferral } from './services/referrals.js'
 
 // Middleware to verify Supabase JWT tokens
 export async function verifySupabaseToken(token: string) {
@@ -83,6 +84,19 @@ export async function verifySupabaseToken(token: string) {
         'R&D': false,
         no_sell: true
       });
+
+      // Referral code entered at email signup (OAuth signups claim theirs via /api/referrals/claim)
+      const referralCode = user.user_metadata?.referralCode
+      if (referralCode) {
+        try {
+          const result = await recordReferral(dbUser, referralCode)
+          if (!result.success) {
+            console.log(`Referral code ${referralCode} not applied for user ${user.id}: ${result.reason}`)
+          }
+        } catch (referralError) {
+          console.error('Failed to record referral:', referralError)
+        }
+      }
     }
     
     return { 
@@ -0,0 +1,35 @@
+// Content fingerprint for uploaded footage, computed the same way by the browser and the server.
+// Hashing whole multi-gigabyte files in a tab is too slow, so only the first and last
+// CONTENT_HASH_EDGE_BYTES are read, plus the size; that is enough to recognise a re-upload of the same clip.
+
+export const CONTENT_HASH_EDGE_BYTES = 4 * 1024 * 1024; // 4MB from each end
+
+export const CONTENT_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+// Reads bytes [start, end) of the file
+export type ReadContentRange = (start: number, end: number) => Promise<ArrayBuffer | Uint8Array>;
+
+/**
+ * SHA-256 (hex) of the file's first and last edge bytes followed by its size in decimal.
+ * Files smaller than two edges are hashed whole.
+ */
+export async function computeContentHash(fileSize: number, readRange: ReadContentRange): Promise<string> {
+  const parts: Uint8Array[] = [];
+  if (fileSize <= CONTENT_HASH_EDGE_BYTES * 2) {
+    parts.push(new Uint8Array(await readRange(0, fileSize)));
+  } else {
+    parts.push(new Uint8Array(await readRange(0, CONTENT_HASH_EDGE_BYTES)));
+    parts.push(new Uint8Array(await readRange(fileSize - CONTENT_HASH_EDGE_BYTES, fileSize)));
+  }
+  parts.push(new TextEncoder().encode(String(fileSize)));
+
+  const input = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    input.set(part, offset);
+    offset += part.length;
+  }
+
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", input);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,149 @@
+// Project lifecycle state machine shared by the server and the client.
+// Every status written to projects.status must be one of PROJECT_STATUSES.
+
+export const PROJECT_STATUSES = [
+  "draft",
+  "awaiting instructions",
+  "edit in progress",
+  "video is ready",
+  "awaiting revision instructions",
+  "revision in progress",
+  "complete",
+] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export const PROJECT_STATUS = {
+  DRAFT: "draft",
+  AWAITING_INSTRUCTIONS: "awaiting instructions",
+  EDIT_IN_PROGRESS: "edit in progress",
+  VIDEO_IS_READY: "video is ready",
+  AWAITING_REVISION_INSTRUCTIONS: "awaiting revision instructions",
+  REVISION_IN_PROGRESS: "revision in progress",
+  COMPLETE: "complete",
+} as const satisfies Record<string, ProjectStatus>;
+
+// Who is allowed to trigger a transition:
+// - user: the project owner acting through the dashboard
+// - system: background services and webhooks (asset detection, Stripe, Frame.io)
+// - admin: manual corrections by an admin
+export type ProjectStatusActor = "user" | "system" | "admin";
+
+export interface ProjectStatusTransition {
+  from: ProjectStatus;
+  to: ProjectStatus;
+  actors: readonly ProjectStatusActor[];
+}
+
+export const PROJECT_STATUS_TRANSITIONS: readonly ProjectStatusTransition[] = [
+  // First footage upload
+  { from: "draft", to: "awaiting instructions", actors: ["user", "system", "admin"] },
+  // "Send to Editor"
+  { from: "awaiting instructions", to: "edit in progress", actors: ["user", "admin"] },
+  // Edited video detected in the project folder
+  { from: "edit in progress", to: "video is ready", actors: ["system", "admin"] },
+  { from: "revision in progress", to: "video is ready", actors: ["system", "admin"] },
+  // Customer accepts the delivered video
+  { from: "video is ready", to: "complete", actors: ["user", "admin"] },
+  // Revision paid for, waiting on the customer's instructions
+  { from: "video is ready", to: "awaiting revision instructions", actors: ["system", "admin"] },
+  { from: "complete", to: "awaiting revision instructions", actors: ["system", "admin"] },
+  // Revision instructions submitted
+  { from: "awaiting revision instructions", to: "revision in progress", actors: ["user", "admin"] },
+  { from: "video is ready", to: "revision in progress", actors: ["user", "admin"] },
+  { from: "complete", to: "revision in progress", actors: ["user", "admin"] },
+];
+
+// Historical spellings that were written before the state machine existed
+const LEGACY_STATUS_ALIASES: Record<string, ProjectStatus> = {
+  delivered: "video is ready",
+};
+
+export class InvalidProjectStatusError extends Error {
+  constructor(public readonly status: string) {
+    super(`Unknown project status: "${status}"`);
+    this.name = "InvalidProjectStatusError";
+  }
+}
+
+export class ProjectStatusTransitionError extends Error {
+  constructor(
+    public readonly from: ProjectStatus | null,
+    public readonly to: ProjectStatus,
+    public readonly actor: ProjectStatusActor,
+  ) {
+    super(
+      `Illegal project status transition for ${actor}: "${from ?? "(none)"}" -> "${to}"`,
+    );
+    this.name = "ProjectStatusTransitionError";
+  }
+}
+
+/**
+ * Map any spelling of a status ("Edit in Progress", " video is ready ") to its
+ * canonical value. Returns null for values that are not project statuses.
+ */
+export function normalizeProjectStatus(
+  value: string | null | undefined,
+): ProjectStatus | null {
+  if (!value) return null;
+  const key = value.trim().toLowerCase().replace(/\s+/g, " ");
+  if ((PROJECT_STATUSES as readonly string[]).includes(key)) {
+    return key as ProjectStatus;
+  }
+  return LEGACY_STATUS_ALIASES[key] ?? null;
+}
+
+export function isProjectStatus(
+  value: string | null | undefined,
+  status: ProjectStatus,
+): boolean {
+  return normalizeProjectStatus(value) === status;
+}
+
+export function canTransitionProjectStatus(
+  from: ProjectStatus | null,
+  to: ProjectStatus,
+  actor: ProjectStatusActor,
+): boolean {
+  // A new project always starts as a draft
+  if (from === null) return to === "draft";
+  return PROJECT_STATUS_TRANSITIONS.some(
+    (t) => t.from === from && t.to === to && t.actors.includes(actor),
+  );
+}
+
+/**
+ * Validate a requested status change and return the canonical target status.
+ * Throws InvalidProjectStatusError / ProjectStatusTransitionError.
+ */
+export function assertProjectStatusTransition(
+  from: string | null,
+  to: string,
+  actor: ProjectStatusActor,
+): ProjectStatus {
+  const target = normalizeProjectStatus(to);
+  if (!target) {
+    throw new InvalidProjectStatusError(to);
+  }
+
+  const current = from === null ? null : normalizeProjectStatus(from);
+  if (from !== null && !current) {
+    throw new InvalidProjectStatusError(from);
+  }
+
+  if (!canTransitionProjectStatus(current, target, actor)) {
+    throw new ProjectStatusTransitionError(current, target, actor);
+  }
+
+  return target;
+}
+
+export function getAllowedProjectStatusTransitions(
+  from: ProjectStatus,
+  actor: ProjectStatusActor,
+): ProjectStatus[] {
+  return PROJECT_STATUS_TRANSITIONS.filter(
+    (t) => t.from === from && t.actors.includes(actor),
+  ).map((t) => t.to);
+}
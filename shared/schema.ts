@@ -1,6 +1,12 @@
-import { pgTable, text, serial, timestamp, integer, bigint, varchar, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, integer, bigint, real, varchar, boolean, jsonb, unique, uniqueIndex, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { PROJECT_STATUSES } from "./projectStatus";
+import { CONTENT_HASH_PATTERN } from "./contentHash";
+
+export const BILLING_INTERVALS = ["month", "year"] as const;
+export const SHARE_LINK_STATUSES = ["active", "expired", "revoked"] as const;
 
 export const users = pgTable("users", {
   id: text("id").primaryKey(), // Changed to text for Supabase UUID
@@ -14,18 +20,28 @@ export const users = pgTable("users", {
   stripeSubscriptionId: text("stripe_subscription_id"),
   subscriptionStatus: text("subscription_status"), // active, inactive, past_due, canceled, etc.
   subscriptionTier: text("subscription_tier"), // basic, standard, premium
-  subscriptionUsage: integer("subscription_usage").default(0), // Number of projects used in current period
-  subscriptionAllowance: integer("subscription_allowance"), // Projects allowed per billing period
   subscriptionPeriodStart: timestamp("subscription_period_start"),
   subscriptionPeriodEnd: timestamp("subscription_period_end"),
+  billingInterval: text("billing_interval", { enum: BILLING_INTERVALS }).notNull().default("month"), // Interval of the subscription's price
+  allowancePeriodStart: timestamp("allowance_period_start"), // Start of the current monthly allowance (annual plans get one every month)
+  nextAllowanceGrantAt: timestamp("next_allowance_grant_at"), // When an annual plan's next monthly allowance is due; null on monthly plans
+  renewalReminderSentAt: timestamp("renewal_reminder_sent_at"), // Last annual renewal reminder; one per subscription period
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").notNull().default(false), // Canceled in-app; the subscription ends with the current period
+  pauseResumesAt: timestamp("pause_resumes_at"), // Set while billing is paused (subscriptionStatus "paused")
+  scheduledPlanKey: text("scheduled_plan_key"), // Downgrade waiting for the end of the current period
+  paymentFailedAt: timestamp("payment_failed_at"), // First failed renewal of the current past_due episode
+  gracePeriodEndsAt: timestamp("grace_period_ends_at"), // New projects stay allowed until then while past_due
+  dunningRemindersSent: integer("dunning_reminders_sent").notNull().default(0),
+  referralCode: text("referral_code").unique(), // Shared as /auth?ref=CODE; generated the first time it's requested
   // Note: Frame.io V4 tokens now managed via centralized service_tokens table
 });
 
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
-  userId: text("user_id").references(() => users.id).notNull(), // Changed to text
+  userId: text("user_id").references(() => users.id).notNull(), // Changed to text; the member who created the project
+  organizationId: integer("organization_id").references(() => organizations.id), // Team that owns the project; null for personal projects
   title: text("title").notNull(),
-  status: text("status").notNull().default("draft"),
+  status: text("status", { enum: PROJECT_STATUSES }).notNull().default("draft"), // See shared/projectStatus.ts for allowed transitions
   submittedToEditorAt: timestamp("submitted_to_editor_at"), // When project was sent to editor (edit in progress)
   mediaFolderId: text("media_folder_id"), // Media platform folder ID (Frame.io, etc.)
   mediaUserFolderId: text("media_user_folder_id"), // User's main folder ID on media platform
@@ -36,12 +52,57 @@ export const projects = pgTable("projects", {
   frameioVideoFileSize: bigint("frameio_video_file_size", { mode: "number" }), // File size of the video
   frameioVideoFileType: text("frameio_video_file_type"), // MIME type of the video
   frameioVideoAssetId: text("frameio_video_asset_id"), // Asset ID of the video in Frame.io
+  shareStatus: text("share_status", { enum: SHARE_LINK_STATUSES }), // Null until a share link is created
+  shareExpiresAt: timestamp("share_expires_at"), // When the public share link stops working; null if unknown (links created before tracking)
+  sharePasswordProtected: boolean("share_password_protected").notNull().default(false), // The password itself lives only in Frame.io
+  shareDownloadsEnabled: boolean("share_downloads_enabled").notNull().default(true),
+  shareRenewalFailures: integer("share_renewal_failures").notNull().default(0), // Automatic renewals that failed in a row
+  shareRenewalRetryAt: timestamp("share_renewal_retry_at"), // The renewal worker leaves the link alone until then after a failure
   revisionCount: integer("revision_count").default(0), // Number of revisions requested for this project
+  includedRevisionReservedAt: timestamp("included_revision_reserved_at"), // An included revision was granted and awaits instructions; counts toward the plan's allowance
   trelloCardId: text("trello_card_id"), // Initial project card ID in Trello
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const ORGANIZATION_ROLES = ["owner", "admin", "member"] as const; // Most to least privileged
+export const INVITATION_STATUSES = ["pending", "accepted", "revoked"] as const;
+
+// Team accounts. The owner's subscription and credit ledger are shared by every member,
+// so allowance is consumed at the organization level.
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ownerId: text("owner_id").references(() => users.id).notNull(), // Billing user; always also a member with role "owner"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: text("user_id").references(() => users.id).notNull().unique(), // A user belongs to at most one organization
+  role: text("role", { enum: ORGANIZATION_ROLES }).notNull().default("member"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("organization_members_org_idx").on(table.organizationId),
+]);
+
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  email: text("email").notNull(), // Stored lower-case; must match the accepting user's email
+  role: text("role", { enum: ORGANIZATION_ROLES }).notNull().default("member"), // Never "owner"
+  token: text("token").notNull().unique(), // Sent in the invitation link
+  status: text("status", { enum: INVITATION_STATUSES }).notNull().default("pending"),
+  invitedBy: text("invited_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  acceptedAt: timestamp("accepted_at"),
+}, (table) => [
+  index("organization_invitations_org_idx").on(table.organizationId, table.status),
+]);
+
 export const projectFiles = pgTable("project_files", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").references(() => projects.id).notNull(),
@@ -50,14 +111,78 @@ export const projectFiles = pgTable("project_files", {
   filename: text("filename").notNull(),
   fileType: text("file_type").notNull(),
   fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  contentHash: text("content_hash"), // See shared/contentHash.ts; null for files uploaded before hashing
+  metadataProbedAt: timestamp("metadata_probed_at"), // Probed without finding media info; the backfill skips it
   uploadDate: timestamp("upload_date").defaultNow().notNull(),
+}, (table) => [
+  index("project_files_content_hash_idx").on(table.projectId, table.contentHash),
+]);
+
+// Direct-to-media-provider upload sessions, tracked from creation so an upload can resume after a
+// page reload and abandoned placeholders can be cleaned up
+export const UPLOAD_SESSION_STATUSES = ["active", "completed", "canceled", "abandoned"] as const;
+
+export const uploadSessions = pgTable("upload_sessions", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  userId: text("user_id").references(() => users.id).notNull(),
+  assetId: text("asset_id").notNull(), // Placeholder asset created in the media provider
+  uploadUrl: text("upload_url").notNull(),
+  fileName: text("file_name").notNull(),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  mimeType: text("mime_type").notNull(),
+  fileLastModified: bigint("file_last_modified", { mode: "number" }), // Browser File.lastModified, to match a reselected file after reload
+  contentHash: text("content_hash"), // Client-computed fingerprint, checked against the stored file on completion
+  bytesUploaded: bigint("bytes_uploaded", { mode: "number" }).notNull().default(0), // Offset confirmed by the client
+  status: text("status", { enum: UPLOAD_SESSION_STATUSES }).notNull().default("active"),
+  expiresAt: timestamp("expires_at").notNull(), // Extended on progress; active sessions past this are swept
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("upload_sessions_project_idx").on(table.projectId, table.status),
+  index("upload_sessions_expiry_idx").on(table.status, table.expiresAt),
+]);
+
+// ZIP downloads a user has prepared. The token is the download link's credential, so the archive can be
+// fetched by a plain browser navigation (which can't send the auth header) while it's still fresh.
+export const downloadArchives = pgTable("download_archives", {
+  id: serial("id").primaryKey(),
+  token: text("token").notNull().unique(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  userId: text("user_id").references(() => users.id).notNull(),
+  assetIds: jsonb("asset_ids").$type<string[]>().notNull(), // Media asset IDs to include, in archive order
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
 });
 
+// Technical details of raw footage and delivered videos, so editors see them without opening the media platform
+export const MEDIA_METADATA_ROLES = ["footage", "deliverable"] as const;
+export const MEDIA_METADATA_SOURCES = ["frameio", "ffprobe"] as const;
+
+export const mediaMetadata = pgTable("media_metadata", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  mediaAssetId: text("media_asset_id").notNull(),
+  role: text("role", { enum: MEDIA_METADATA_ROLES }).notNull(),
+  source: text("source", { enum: MEDIA_METADATA_SOURCES }).notNull(), // Where the values were read from
+  durationSeconds: real("duration_seconds"),
+  width: integer("width"),
+  height: integer("height"),
+  frameRate: real("frame_rate"),
+  videoCodec: text("video_codec"),
+  audioCodec: text("audio_codec"),
+  extractedAt: timestamp("extracted_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("media_metadata_asset_idx").on(table.mediaAssetId),
+  index("media_metadata_project_idx").on(table.projectId, table.role),
+]);
+
 export const projectStatusLog = pgTable("project_status_log", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").references(() => projects.id).notNull(),
-  oldStatus: text("old_status"),
-  newStatus: text("new_status").notNull(),
+  oldStatus: text("old_status", { enum: PROJECT_STATUSES }),
+  newStatus: text("new_status", { enum: PROJECT_STATUSES }).notNull(),
   changedAt: timestamp("changed_at").defaultNow().notNull(),
 });
 
@@ -122,6 +247,180 @@ export const revisionPayments = pgTable("revision_payments", {
   paidAt: timestamp("paid_at"),
 });
 
+// One-time prepaid package purchases (a prepaid grant is written to credit_ledger once paid)
+export const prepaidPackagePurchases = pgTable("prepaid_package_purchases", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").references(() => users.id).notNull(),
+  packageKey: text("package_key").notNull(), // 'package_5', 'package_10', 'package_20'
+  credits: integer("credits").notNull(), // Video credits granted when paid
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  stripeCheckoutSessionId: text("stripe_checkout_session_id").notNull().unique(),
+  paymentStatus: text("payment_status").notNull().default("pending"), // pending, completed, failed
+  paymentAmount: integer("payment_amount").notNull(), // Amount in cents
+  currency: text("currency").notNull().default("usd"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidAt: timestamp("paid_at"),
+});
+
+// One-off "extra video" purchases once the subscription allowance is used up.
+// When paid, a one-credit grant and the requested project are written together.
+export const overagePurchases = pgTable("overage_purchases", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").references(() => users.id).notNull(),
+  planKey: text("plan_key").notNull(), // Tier the overage price came from
+  projectData: jsonb("project_data").$type<InsertProject>().notNull(), // Project to create once paid
+  projectId: integer("project_id").references(() => projects.id), // Set when the project is created
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  stripeCheckoutSessionId: text("stripe_checkout_session_id").notNull().unique(),
+  paymentStatus: text("payment_status").notNull().default("pending"), // pending, completed, failed
+  paymentAmount: integer("payment_amount").notNull(), // Amount in cents
+  currency: text("currency").notNull().default("usd"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  paidAt: timestamp("paid_at"),
+});
+
+export const CREDIT_ENTRY_TYPES = ["grant", "consumption", "expiration", "refund"] as const;
+export const CREDIT_TYPES = ["subscription", "prepaid"] as const; // Subscription credits expire at renewal, prepaid credits never do
+export const CREDIT_SOURCE_TYPES = [
+  "stripe_invoice", // Subscription period grant (sourceId = Stripe invoice ID)
+  "stripe_subscription", // Mid-period plan change or cancellation (sourceId = Stripe subscription ID)
+  "prepaid_purchase", // Prepaid package (sourceId = prepaid_package_purchases.id)
+  "overage_purchase", // Extra video bought for the current period (sourceId = overage_purchases.id)
+  "allowance_schedule", // Monthly grant on an annual plan (sourceId = "<Stripe subscription ID>:<month start ISO>")
+  "referral", // Referral reward for either party (sourceId = referrals.id; granted once via referrals.status)
+  "admin_comp", // Manual adjustment (sourceId = admin email)
+  "project", // Video request (sourceId = projects.id)
+] as const;
+
+// Append-only video credit ledger. Balances are always SUM(amount) per user and credit type;
+// rows are never updated or deleted.
+export const creditLedger = pgTable("credit_ledger", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").references(() => users.id).notNull(),
+  entryType: text("entry_type", { enum: CREDIT_ENTRY_TYPES }).notNull(),
+  creditType: text("credit_type", { enum: CREDIT_TYPES }).notNull(),
+  amount: integer("amount").notNull(), // Positive for grants/refunds, negative for consumptions/expirations
+  sourceType: text("source_type", { enum: CREDIT_SOURCE_TYPES }).notNull(),
+  sourceId: text("source_id"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("credit_ledger_user_idx").on(table.userId, table.creditType),
+  // A Stripe invoice, purchase or project can only produce each kind of entry once (makes webhook retries safe)
+  uniqueIndex("credit_ledger_source_unique")
+    .on(table.entryType, table.sourceType, table.sourceId)
+    .where(sql`${table.sourceType} in ('stripe_invoice', 'prepaid_purchase', 'overage_purchase', 'allowance_schedule', 'project')`),
+]);
+
+export const REFERRAL_STATUSES = ["pending", "rewarded"] as const;
+
+// One row per referred user, recorded at signup from a referral code.
+// Both parties are rewarded once the referred user's first subscription invoice is paid.
+export const referrals = pgTable("referrals", {
+  id: serial("id").primaryKey(),
+  referrerId: text("referrer_id").references(() => users.id).notNull(),
+  referredUserId: text("referred_user_id").references(() => users.id).notNull().unique(), // A user can only be referred once
+  referralCode: text("referral_code").notNull(), // Code used at signup
+  status: text("status", { enum: REFERRAL_STATUSES }).notNull().default("pending"),
+  rewardCredits: integer("reward_credits"), // Prepaid credits granted to each party
+  rewardInvoiceId: text("reward_invoice_id"), // Referred user's first paid Stripe invoice
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  rewardedAt: timestamp("rewarded_at"),
+}, (table) => [
+  index("referrals_referrer_idx").on(table.referrerId),
+]);
+
+export const CANCELLATION_REASONS = [
+  "too_expensive",
+  "not_enough_videos",
+  "seasonal",
+  "quality",
+  "turnaround",
+  "switching_service",
+  "other",
+] as const;
+export const CANCELLATION_OUTCOMES = ["canceled", "paused", "downgraded"] as const; // What the user chose after the exit survey
+
+// Exit survey answers from the in-app cancel flow; one row per attempt
+export const cancellationSurveys = pgTable("cancellation_surveys", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").references(() => users.id).notNull(),
+  reason: text("reason", { enum: CANCELLATION_REASONS }).notNull(),
+  details: text("details"),
+  outcome: text("outcome", { enum: CANCELLATION_OUTCOMES }).notNull(),
+  planKey: text("plan_key"), // Tier at the time of the survey
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("cancellation_surveys_created_idx").on(table.createdAt),
+]);
+
+// One row per revision requested on a project (projects.revisionCount mirrors the latest revisionNumber)
+export const projectRevisions = pgTable("project_revisions", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id).notNull(),
+  revisionNumber: integer("revision_number").notNull(), // 1+, matches trello_cards.revision_number
+  instructions: text("instructions"), // Instructions submitted with the request (most feedback lives as Frame.io comments)
+  revisionPaymentId: integer("revision_payment_id").references(() => revisionPayments.id), // Payment that unlocked this revision
+  trelloCardId: text("trello_card_id"), // Trello revision card ID
+  included: boolean("included").notNull().default(false), // Used one of the plan's included free revisions instead of a payment
+  deliveredAssetId: text("delivered_asset_id"), // Frame.io asset ID of the delivered revised video
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => [
+  unique("project_revisions_project_revision_unique").on(table.projectId, table.revisionNumber),
+]);
+
+// Whether a plan's included revisions are granted per project or per billing period
+export const PLAN_REVISION_SCOPES = ["project", "period"] as const;
+
+// Subscription plan catalog (source of truth for tiers, allowances and Stripe pricing)
+export const plans = pgTable("plans", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(), // Tier key stored in users.subscription_tier: 'basic', 'standard', 'premium'
+  name: text("name").notNull(), // Display name, e.g. "Creative Spark"
+  description: text("description"),
+  cadence: text("cadence"), // e.g. "1 video per week"
+  features: text("features").array().notNull().default([]),
+  buttonText: text("button_text"),
+  allowance: integer("allowance").notNull(), // Videos per billing period
+  includedRevisions: integer("included_revisions").notNull().default(0), // Free revisions before a paid revision checkout is required
+  includedRevisionsPer: text("included_revisions_per", { enum: PLAN_REVISION_SCOPES }).notNull().default("project"),
+  creditRollover: integer("credit_rollover").notNull().default(0), // Max unused video credits carried into the next billing period
+  projectStorageGb: integer("project_storage_gb").notNull().default(10), // Raw footage allowed per project
+  accountStorageGb: integer("account_storage_gb").notNull().default(50), // Raw footage allowed across all of the account's projects
+  stripeLookupKey: text("stripe_lookup_key").notNull().unique(), // Stripe price lookup_key, same in test and live
+  stripeProductId: text("stripe_product_id"), // Synced from Stripe
+  stripePriceId: text("stripe_price_id"), // Synced from Stripe
+  overageLookupKey: text("overage_lookup_key"), // Stripe lookup_key of the one-time "extra video" price; no overage purchases when null
+  overageUnitAmount: integer("overage_unit_amount"), // Extra video price in cents, synced from Stripe
+  unitAmount: integer("unit_amount"), // Price per billing period in cents, synced from Stripe
+  annualLookupKey: text("annual_lookup_key").unique(), // Stripe lookup_key of the yearly price (same product); no annual option when null
+  annualPriceId: text("annual_price_id"), // Synced from Stripe
+  annualUnitAmount: integer("annual_unit_amount"), // Yearly price in cents, synced from Stripe
+  currency: text("currency").notNull().default("usd"),
+  billingInterval: text("billing_interval").notNull().default("month"),
+  highlighted: boolean("highlighted").notNull().default(false),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true), // Inactive plans are hidden and cannot be purchased
+  syncedAt: timestamp("synced_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One-off storage increases granted by admins on top of the plan's quotas
+export const storageQuotaGrants = pgTable("storage_quota_grants", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").references(() => users.id).notNull(), // Billing account (the owner for organizations)
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }), // Null for an account-wide increase
+  extraBytes: bigint("extra_bytes", { mode: "number" }).notNull(),
+  note: text("note").notNull(),
+  grantedBy: text("granted_by"), // Admin email
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("storage_quota_grants_user_idx").on(table.userId),
+]);
+
 // Frame.io share asset mapping for webhook detection
 export const frameioShareAssets = pgTable("frameio_share_assets", {
   id: serial("id").primaryKey(),
@@ -168,6 +467,60 @@ export const trelloEditors = pgTable("trello_editors", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Inbox of received third-party webhook events (recorded before processing so retries are deduped)
+export const WEBHOOK_EVENT_STATUSES = ["pending", "processing", "succeeded", "failed"] as const;
+
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(), // stripe
+  eventId: text("event_id").notNull(), // Provider's event ID, e.g. evt_...
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").notNull(), // Raw verified event body
+  status: text("status", { enum: WEBHOOK_EVENT_STATUSES }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(), // Null once succeeded or out of retries
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+}, (table) => [
+  unique("webhook_events_provider_event_unique").on(table.provider, table.eventId),
+  index("webhook_events_due_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Asset detection queue - one job per project waiting on a video, claimed by the asset detection runner
+export const JOB_RUN_TRIGGERS = ["schedule", "webhook", "manual"] as const;
+
+export const assetCheckJobs = pgTable("asset_check_jobs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull().unique(),
+  trigger: text("trigger", { enum: JOB_RUN_TRIGGERS }).notNull().default("schedule"), // What made the next run due
+  nextRunAt: timestamp("next_run_at").defaultNow().notNull(), // Pushed forward by the claim lease while running
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  lastRunAt: timestamp("last_run_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("asset_check_jobs_due_idx").on(table.nextRunAt),
+]);
+
+// Outcome of every background job run (asset checks today)
+export const JOB_RUN_STATUSES = ["succeeded", "failed"] as const;
+
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobType: text("job_type").notNull(), // asset_check
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  trigger: text("trigger", { enum: JOB_RUN_TRIGGERS }).notNull(),
+  status: text("status", { enum: JOB_RUN_STATUSES }).notNull(),
+  attempt: integer("attempt").notNull().default(1), // 1 + consecutive failures before this run
+  result: jsonb("result"), // e.g. { videoCount, statusUpdated }
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").defaultNow().notNull(),
+}, (table) => [
+  index("job_runs_type_started_idx").on(table.jobType, table.startedAt),
+]);
+
 // Trello webhook tracking
 export const trelloWebhooks = pgTable("trello_webhooks", {
   id: serial("id").primaryKey(),
@@ -228,6 +581,7 @@ export const insertProjectFileSchema = createInsertSchema(projectFiles).pick({
   filename: true,
   fileType: true,
   fileSize: true,
+  contentHash: true,
 });
 
 // Email signup schema  
@@ -259,6 +613,196 @@ export const insertRevisionPaymentSchema = createInsertSchema(revisionPayments).
   currency: true,
 });
 
+// Prepaid package purchase schemas
+export const insertPrepaidPackagePurchaseSchema = createInsertSchema(prepaidPackagePurchases).pick({
+  packageKey: true,
+  credits: true,
+  stripeCheckoutSessionId: true,
+  paymentAmount: true,
+  currency: true,
+});
+
+// Overage purchase schemas
+export const insertOveragePurchaseSchema = createInsertSchema(overagePurchases).pick({
+  planKey: true,
+  stripeCheckoutSessionId: true,
+  paymentAmount: true,
+  currency: true,
+}).extend({
+  projectData: insertProjectSchema,
+});
+
+// Organization schemas
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+}).pick({
+  name: true,
+});
+
+export const organizationInvitationRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  role: z.enum(["admin", "member"]).default("member"),
+});
+
+export const updateOrganizationMemberSchema = z.object({
+  role: z.enum(["admin", "member"]),
+});
+
+// Credit ledger schemas
+export const insertCreditLedgerEntrySchema = createInsertSchema(creditLedger).pick({
+  userId: true,
+  entryType: true,
+  creditType: true,
+  amount: true,
+  sourceType: true,
+  sourceId: true,
+  note: true,
+});
+
+// Admin comp/adjustment request body
+export const adminCreditAdjustmentSchema = z.object({
+  amount: z.number().int().refine((amount) => amount !== 0, "Amount cannot be zero"),
+  creditType: z.enum(CREDIT_TYPES),
+  note: z.string().min(1, "A note is required for manual adjustments"),
+});
+
+export const adminStorageQuotaGrantSchema = z.object({
+  gb: z.number().positive().max(10000),
+  projectId: z.number().int().positive().optional(), // Omit for an account-wide increase
+  note: z.string().min(1, "A note is required for quota increases"),
+});
+
+// Cancel flow request (the survey is required before canceling or pausing)
+export const cancellationSurveySchema = z.object({
+  reason: z.enum(CANCELLATION_REASONS),
+  details: z.string().trim().max(2000).optional(),
+});
+
+export const pauseSubscriptionSchema = cancellationSurveySchema.extend({
+  months: z.number().int().min(1).max(3),
+});
+
+// Webhook inbox schemas
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents).pick({
+  provider: true,
+  eventId: true,
+  eventType: true,
+  payload: true,
+});
+
+// Storage quota grant schemas
+export const insertStorageQuotaGrantSchema = createInsertSchema(storageQuotaGrants).pick({
+  userId: true,
+  projectId: true,
+  extraBytes: true,
+  note: true,
+  grantedBy: true,
+});
+
+// Upload session schemas
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).pick({
+  projectId: true,
+  userId: true,
+  assetId: true,
+  uploadUrl: true,
+  fileName: true,
+  fileSize: true,
+  mimeType: true,
+  fileLastModified: true,
+  contentHash: true,
+  expiresAt: true,
+});
+
+export const insertMediaMetadataSchema = createInsertSchema(mediaMetadata).pick({
+  projectId: true,
+  mediaAssetId: true,
+  role: true,
+  source: true,
+  durationSeconds: true,
+  width: true,
+  height: true,
+  frameRate: true,
+  videoCodec: true,
+  audioCodec: true,
+});
+
+export const shareLinkSettingsSchema = z.object({
+  password: z.string().min(4).max(100).nullable().optional(), // null removes the password, omit to keep it
+  downloadsEnabled: z.boolean().optional(),
+});
+
+export const createDownloadArchiveSchema = z.object({
+  assetIds: z.array(z.string().min(1)).min(1).max(500).optional(), // Omit to include every file in the project
+  kind: z.enum(["footage", "deliverable"]).optional(), // Only raw footage or only delivered cuts
+});
+
+export const createUploadSessionSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  fileSize: z.number().int().positive(),
+  mimeType: z.string().max(255).optional(),
+  fileLastModified: z.number().int().nonnegative().optional(),
+  contentHash: z.string().regex(CONTENT_HASH_PATTERN, "Invalid content hash").optional(),
+  allowDuplicate: z.boolean().optional(), // Upload even though the project already has this file
+});
+
+export const uploadSessionProgressSchema = z.object({
+  bytesUploaded: z.number().int().nonnegative(),
+});
+
+// Job run history schemas
+export const insertJobRunSchema = createInsertSchema(jobRuns).pick({
+  jobType: true,
+  projectId: true,
+  trigger: true,
+  status: true,
+  attempt: true,
+  result: true,
+  error: true,
+  startedAt: true,
+});
+
+// Project revision schemas
+export const insertProjectRevisionSchema = createInsertSchema(projectRevisions).pick({
+  projectId: true,
+  revisionNumber: true,
+  instructions: true,
+  revisionPaymentId: true,
+  trelloCardId: true,
+  included: true,
+});
+
+// Plan schemas
+export const insertPlanSchema = createInsertSchema(plans, {
+  key: z.string().regex(/^[a-z0-9_]+$/, "Key may only contain lowercase letters, numbers and underscores"),
+  allowance: z.number().int().min(0),
+  creditRollover: z.number().int().min(0),
+  includedRevisions: z.number().int().min(0),
+  projectStorageGb: z.number().int().min(1),
+  accountStorageGb: z.number().int().min(1),
+}).pick({
+  key: true,
+  name: true,
+  description: true,
+  cadence: true,
+  features: true,
+  buttonText: true,
+  allowance: true,
+  includedRevisions: true,
+  includedRevisionsPer: true,
+  creditRollover: true,
+  projectStorageGb: true,
+  accountStorageGb: true,
+  stripeLookupKey: true,
+  overageLookupKey: true,
+  annualLookupKey: true,
+  highlighted: true,
+  sortOrder: true,
+  isActive: true,
+});
+
+// The key is referenced by users.subscription_tier, so it cannot be changed after creation
+export const updatePlanSchema = insertPlanSchema.omit({ key: true }).partial();
+
 // Frame.io share asset schemas
 export const insertFrameioShareAssetSchema = createInsertSchema(frameioShareAssets).pick({
   shareId: true,
@@ -276,6 +820,8 @@ export type User = typeof users.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type UpdateProject = z.infer<typeof updateProjectSchema>;
 export type Project = typeof projects.$inferSelect;
+export type ShareLinkStatus = (typeof SHARE_LINK_STATUSES)[number];
+export type ShareLinkSettings = z.infer<typeof shareLinkSettingsSchema>;
 
 export type InsertProjectFile = z.infer<typeof insertProjectFileSchema>;
 export type ProjectFile = typeof projectFiles.$inferSelect;
@@ -292,6 +838,56 @@ export type TallyFormSubmission = typeof tallyFormSubmissions.$inferSelect;
 export type RevisionPayment = typeof revisionPayments.$inferSelect;
 export type InsertRevisionPayment = z.infer<typeof insertRevisionPaymentSchema>;
 
+export type PrepaidPackagePurchase = typeof prepaidPackagePurchases.$inferSelect;
+export type InsertPrepaidPackagePurchase = z.infer<typeof insertPrepaidPackagePurchaseSchema>;
+export type OveragePurchase = typeof overagePurchases.$inferSelect;
+export type Referral = typeof referrals.$inferSelect;
+export type CancellationSurvey = typeof cancellationSurveys.$inferSelect;
+export type CancellationReason = (typeof CANCELLATION_REASONS)[number];
+export type CancellationOutcome = (typeof CANCELLATION_OUTCOMES)[number];
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type ReferralStatus = (typeof REFERRAL_STATUSES)[number];
+export type InsertOveragePurchase = z.infer<typeof insertOveragePurchaseSchema>;
+
+export type CreditLedgerEntry = typeof creditLedger.$inferSelect;
+export type InsertCreditLedgerEntry = z.infer<typeof insertCreditLedgerEntrySchema>;
+export type CreditType = (typeof CREDIT_TYPES)[number];
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+export type StorageQuotaGrant = typeof storageQuotaGrants.$inferSelect;
+export type InsertStorageQuotaGrant = z.infer<typeof insertStorageQuotaGrantSchema>;
+
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+export type UploadSessionStatus = (typeof UPLOAD_SESSION_STATUSES)[number];
+
+export type DownloadArchive = typeof downloadArchives.$inferSelect;
+
+export type MediaMetadata = typeof mediaMetadata.$inferSelect;
+export type InsertMediaMetadata = z.infer<typeof insertMediaMetadataSchema>;
+export type MediaMetadataRole = (typeof MEDIA_METADATA_ROLES)[number];
+
+export type AssetCheckJob = typeof assetCheckJobs.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+export type JobRunTrigger = (typeof JOB_RUN_TRIGGERS)[number];
+
+export type ProjectRevision = typeof projectRevisions.$inferSelect;
+export type InsertProjectRevision = z.infer<typeof insertProjectRevisionSchema>;
+
+export type Plan = typeof plans.$inferSelect;
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+export type PlanRevisionScope = (typeof PLAN_REVISION_SCOPES)[number];
+export type InsertPlan = z.infer<typeof insertPlanSchema>;
+export type UpdatePlan = z.infer<typeof updatePlanSchema>;
+
 export type FrameioShareAsset = typeof frameioShareAssets.$inferSelect;
 export type InsertFrameioShareAsset = z.infer<typeof insertFrameioShareAssetSchema>;
 